@@ -208,6 +208,11 @@ DEFAULT_AUTO_FIELD = 'django.db.models.BigAutoField'
 # exercise real auth locally.
 NEXUS8_DEV_OPEN = DEBUG and os.environ.get('NEXUS8_DEV_OPEN', '1') == '1'
 
+# Shared HMAC secret for collaboration relay tokens (web/relay/collab-auth.mjs).
+# Empty disables token minting; the relay then runs unauthenticated too.
+COLLAB_AUTH_SECRET = os.environ.get('COLLAB_AUTH_SECRET', '')
+COLLAB_TOKEN_TTL_SECONDS = int(os.environ.get('COLLAB_TOKEN_TTL_SECONDS', '900'))
+
 # Django REST Framework Configuration
 REST_FRAMEWORK = {
     'DEFAULT_AUTHENTICATION_CLASSES': [
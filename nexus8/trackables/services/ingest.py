@@ -4,7 +4,9 @@ Media ingest: uploaded file -> MediaAsset + first published Version.
 Stores the original under MEDIA_ROOT/assets/originals/, builds a thumbnail
 pyramid (tiny inline placeholder, 256px and 1024px WEBP renditions) under
 MEDIA_ROOT/assets/thumbs/, and records everything in the asset's type_data so
-the grid can paint progressively without extra round trips.
+the grid can paint progressively without extra round trips. Images too large
+to decode whole in the browser also get a Deep Zoom tile pyramid under
+MEDIA_ROOT/assets/tiles/ that the viewer streams tile by tile.
 
 Files are content-addressed by sha256: re-uploading identical bytes returns
 the existing asset instead of creating a duplicate.
@@ -14,6 +16,7 @@ import base64
 import hashlib
 import io
 import json
+import math
 import os
 import re
 import shutil
@@ -27,10 +30,19 @@ from ..models import MediaAsset, Version
 
 THUMB_SIZES = (256, 1024)
 TINY_SIZE = 24  # inline blur-up placeholder, embedded as a data URI
+DEEP_ZOOM_MIN_SIZE = 4096  # smaller images are pyramided in the browser instead
+DEEP_ZOOM_TILE_SIZE = 254
+DEEP_ZOOM_OVERLAP = 1
+# Uploads are trusted, so lift PIL's ~89M-pixel decompression-bomb guard up to the
+# largest plate we tile (32k x 32k); a 16k scan would otherwise be stored as a file.
+MAX_INGEST_IMAGE_PIXELS = 32768 * 32768
 
 IMAGE_EXTENSIONS = {
     ".jpg", ".jpeg", ".png", ".webp", ".gif", ".bmp", ".tif", ".tiff", ".avif",
+    ".exr",
 }
+# Formats PIL may not read (EXR, float or 16-bit RGB TIFF) but the viewer decodes itself.
+VIEWER_DECODED_EXTENSIONS = {".exr", ".tif", ".tiff"}
 VIDEO_EXTENSIONS = {".mp4", ".mov", ".avi", ".webm", ".mkv"}
 
 
@@ -47,12 +59,24 @@ def _media_type_for(extension):
     return "file"
 
 
-def _build_pyramid(original_bytes, content_hash):
+def _decode_image(original_bytes):
+    """Decode an uploaded image whole, allowing plates up to MAX_INGEST_IMAGE_PIXELS."""
+    from PIL import Image
+
+    default_limit = Image.MAX_IMAGE_PIXELS
+    Image.MAX_IMAGE_PIXELS = MAX_INGEST_IMAGE_PIXELS
+    try:
+        image = Image.open(io.BytesIO(original_bytes))
+        image.load()
+    finally:
+        Image.MAX_IMAGE_PIXELS = default_limit
+    return image
+
+
+def _build_pyramid(image, content_hash):
     """Return (thumbnails dict, technical dict, tiny placeholder data URI)."""
     from PIL import Image
 
-    image = Image.open(io.BytesIO(original_bytes))
-    image.load()
     width, height = image.size
 
     if image.mode not in ("RGB", "RGBA"):
@@ -84,6 +108,64 @@ def _build_pyramid(original_bytes, content_hash):
     return thumbnails, technical, placeholder
 
 
+def _build_deep_zoom(image, content_hash):
+    """
+    Cut a Deep Zoom (.dzi) tile pyramid for a large image. Returns the viewer's
+    tile source ({"type": "dzi", "url": ...}), or None for small images.
+
+    Level N is full resolution and each level below halves it, down to 1x1, as
+    the Deep Zoom layout requires. Content-addressed, so re-ingesting the same
+    bytes reuses the existing tiles.
+    """
+    from PIL import Image
+
+    width, height = image.size
+    if max(width, height) <= DEEP_ZOOM_MIN_SIZE:
+        return None
+
+    rel_descriptor = f"assets/tiles/{content_hash}.dzi"
+    tile_source = {"type": "dzi", "url": settings.MEDIA_URL + rel_descriptor}
+    if default_storage.exists(rel_descriptor):
+        return tile_source
+
+    has_alpha = image.mode in ("RGBA", "LA") or "transparency" in image.info
+    image = image.convert("RGBA" if has_alpha else "RGB")
+    tile_format, save_format = ("png", "PNG") if has_alpha else ("jpg", "JPEG")
+
+    max_level = math.ceil(math.log2(max(width, height)))
+    level_image = image
+    for level in range(max_level, -1, -1):
+        scale = 2 ** (max_level - level)
+        level_width = math.ceil(width / scale)
+        level_height = math.ceil(height / scale)
+        if level_image.size != (level_width, level_height):
+            # Halve the previous level rather than the original to keep memory flat.
+            level_image = level_image.resize((level_width, level_height), Image.LANCZOS)
+        for row in range(math.ceil(level_height / DEEP_ZOOM_TILE_SIZE)):
+            for column in range(math.ceil(level_width / DEEP_ZOOM_TILE_SIZE)):
+                left = max(0, column * DEEP_ZOOM_TILE_SIZE - DEEP_ZOOM_OVERLAP)
+                top = max(0, row * DEEP_ZOOM_TILE_SIZE - DEEP_ZOOM_OVERLAP)
+                right = min(level_width, (column + 1) * DEEP_ZOOM_TILE_SIZE + DEEP_ZOOM_OVERLAP)
+                bottom = min(level_height, (row + 1) * DEEP_ZOOM_TILE_SIZE + DEEP_ZOOM_OVERLAP)
+                buffer = io.BytesIO()
+                tile = level_image.crop((left, top, right, bottom))
+                tile.save(buffer, save_format, **({"quality": 85} if save_format == "JPEG" else {}))
+                default_storage.save(
+                    f"assets/tiles/{content_hash}_files/{level}/{column}_{row}.{tile_format}",
+                    io.BytesIO(buffer.getvalue()),
+                )
+
+    # Written last so a half-cut pyramid is never advertised.
+    descriptor = (
+        '<?xml version="1.0" encoding="UTF-8"?>\n'
+        '<Image xmlns="http://schemas.microsoft.com/deepzoom/2008" '
+        f'Format="{tile_format}" Overlap="{DEEP_ZOOM_OVERLAP}" TileSize="{DEEP_ZOOM_TILE_SIZE}">'
+        f'<Size Width="{width}" Height="{height}"/></Image>\n'
+    )
+    default_storage.save(rel_descriptor, io.BytesIO(descriptor.encode()))
+    return tile_source
+
+
 def _to_float(value):
     try:
         result = float(value)
@@ -213,7 +295,8 @@ def _probe_video(rel_path, original_bytes):
 def store_media_bytes(original_bytes, filename):
     """
     Persist bytes + thumbnail pyramid. Returns a dict with content_hash,
-    file_path (URL), media_type, thumbnails, technical_metadata, placeholder.
+    file_path (URL), media_type, thumbnails, technical_metadata, placeholder
+    and tile_source (Deep Zoom descriptor for large images, else None).
     """
     content_hash = hashlib.sha256(original_bytes).hexdigest()
     _, extension = os.path.splitext(filename or "upload")
@@ -225,15 +308,21 @@ def store_media_bytes(original_bytes, filename):
         default_storage.save(rel_original, io.BytesIO(original_bytes))
     original_url = settings.MEDIA_URL + rel_original
 
-    thumbnails, technical, placeholder = {}, {}, ""
+    thumbnails, technical, placeholder, tile_source = {}, {}, "", None
     if media_type == "image":
         try:
-            thumbnails, technical, placeholder = _build_pyramid(
-                original_bytes, content_hash
-            )
+            # Decoded once; the renditions and the tile pyramid both read this copy.
+            image = _decode_image(original_bytes)
+            thumbnails, technical, placeholder = _build_pyramid(image, content_hash)
         except Exception:
-            # Unreadable/corrupt image: keep the original, skip renditions.
-            media_type = "file"
+            # Unreadable/corrupt image: keep the original, skip renditions and tiles.
+            media_type = "image" if extension in VIEWER_DECODED_EXTENSIONS else "file"
+        else:
+            try:
+                tile_source = _build_deep_zoom(image, content_hash)
+            except Exception:
+                # The viewer falls back to decoding the original whole.
+                tile_source = None
     elif media_type == "video":
         # Extract width/height/duration/fps/nb_frames/codec so the annotator can
         # seek frame-accurately. ffprobe failures degrade gracefully to {}.
@@ -247,6 +336,7 @@ def store_media_bytes(original_bytes, filename):
         "thumbnails": thumbnails,
         "technical_metadata": technical,
         "placeholder": placeholder,
+        "tile_source": tile_source,
     }
 
 
@@ -275,6 +365,7 @@ def ingest_file(uploaded_file, *, name=None, created_by=None):
     thumbnails = stored["thumbnails"]
     technical = stored["technical_metadata"]
     placeholder = stored["placeholder"]
+    tile_source = stored["tile_source"]
 
     display_name = name or base_name
     asset = MediaAsset.objects.create(
@@ -287,6 +378,7 @@ def ingest_file(uploaded_file, *, name=None, created_by=None):
             "thumbnails": thumbnails,
             "placeholder": placeholder,
             "technical_metadata": technical,
+            "tile_source": tile_source,
             "tags": [],
         },
     )
@@ -295,6 +387,7 @@ def ingest_file(uploaded_file, *, name=None, created_by=None):
             "file_path": original_url,
             "thumbnails": thumbnails,
             "technical_metadata": technical,
+            "tile_source": tile_source,
         },
         content_hash=content_hash,
         created_by=created_by,
@@ -330,6 +423,7 @@ def add_version(asset, uploaded_file, *, created_by=None, version_number=None,
             "file_path": stored["file_path"],
             "thumbnails": stored["thumbnails"],
             "technical_metadata": stored["technical_metadata"],
+            "tile_source": stored["tile_source"],
             **(extra_data or {}),
         },
         content_hash=content_hash,
@@ -346,6 +440,7 @@ def add_version(asset, uploaded_file, *, created_by=None, version_number=None,
             "thumbnails": stored["thumbnails"],
             "placeholder": stored["placeholder"],
             "technical_metadata": stored["technical_metadata"],
+            "tile_source": stored["tile_source"],
             "original_filename": uploaded_file.name,
         }
     )
@@ -501,3 +501,43 @@ class ChainSourceResolutionTests(TestCase):
             self.resolve(self.video, {"chain_source": {"layer_id": "nope", "run": 3}})
         with self.assertRaises(self.OpError):
             self.resolve(self.video, {"chain_source": {"layer_id": "layer-A", "run": 99}})
+
+
+class MediaIngestTests(TestCase):
+    """Plates past PIL's decompression-bomb default still ingest as images."""
+
+    def setUp(self):
+        import shutil
+        import tempfile
+
+        from django.test import override_settings
+
+        from .services.ingest import DEEP_ZOOM_MIN_SIZE, store_media_bytes
+
+        self.store = store_media_bytes
+        self.width = DEEP_ZOOM_MIN_SIZE + 2
+        media_root = tempfile.mkdtemp()
+        self.addCleanup(shutil.rmtree, media_root, ignore_errors=True)
+        media_override = override_settings(MEDIA_ROOT=media_root)
+        media_override.enable()
+        self.addCleanup(media_override.disable)
+
+    def test_plate_over_pil_pixel_limit_gets_renditions_and_tiles(self):
+        import io
+        from unittest import mock
+
+        from PIL import Image
+
+        buffer = io.BytesIO()
+        Image.new("RGB", (self.width, 64)).save(buffer, "PNG")
+
+        # A 4098x64 plate against a 1000-pixel default stands in for a 16k
+        # plate against PIL's real ~89M one, without decoding 800MB here.
+        with mock.patch.object(Image, "MAX_IMAGE_PIXELS", 1000):
+            stored = self.store(buffer.getvalue(), "plate.png")
+            self.assertEqual(Image.MAX_IMAGE_PIXELS, 1000)
+
+        self.assertEqual(stored["media_type"], "image")
+        self.assertEqual(stored["technical_metadata"]["width"], self.width)
+        self.assertEqual(set(stored["thumbnails"]), {"256", "1024"})
+        self.assertEqual(stored["tile_source"]["type"], "dzi")
@@ -53,9 +53,13 @@ from .views_versions import (
     RecommendationsView,
 )
 from .views_annotations import (
+    AnnotationDocCollabTokenView,
     AnnotationDocDetailView,
     AnnotationDocListCreateView,
+    AnnotationDocPinView,
     AnnotationDocSnapshotView,
+    AnnotationDocVersionDetailView,
+    AnnotationDocVersionListView,
     AssetMasksView,
     LibraryAssetDetailView,
     MaskSaveView,
@@ -169,6 +173,10 @@ urlpatterns = [
     path('api/library/annotations/', AnnotationDocListCreateView.as_view(), name='library-annotations'),
     path('api/library/annotations/<int:pk>/', AnnotationDocDetailView.as_view(), name='library-annotation'),
     path('api/library/annotations/<int:pk>/snapshot/', AnnotationDocSnapshotView.as_view(), name='library-annotation-snapshot'),
+    path('api/library/annotations/<int:pk>/pin/', AnnotationDocPinView.as_view(), name='library-annotation-pin'),
+    path('api/library/annotations/<int:pk>/versions/', AnnotationDocVersionListView.as_view(), name='library-annotation-versions'),
+    path('api/library/annotations/<int:pk>/versions/<int:version_number>/', AnnotationDocVersionDetailView.as_view(), name='library-annotation-version'),
+    path('api/library/annotations/<int:pk>/collab-token/', AnnotationDocCollabTokenView.as_view(), name='library-annotation-collab-token'),
     path('api/library/assets/<int:pk>/similar/', AssetSimilarView.as_view(), name='library-asset-similar'),
     path('api/library/assets/<int:pk>/versions/', AssetVersionsView.as_view(), name='library-asset-versions'),
     path('api/library/recommendations/', RecommendationsView.as_view(), name='library-recommendations'),
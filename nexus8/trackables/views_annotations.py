@@ -4,8 +4,12 @@ Endpoints for the collaborative 2D tiled annotator (web/src/features/annotator).
   GET    /api/library/assets/<id>/            single asset summary (seeds the viewer)
   POST   /api/library/annotations/            get-or-create the doc for ?target_asset_id
   GET    /api/library/annotations/<id>/       fetch a doc (incl. persisted doc_state)
-  PATCH  /api/library/annotations/<id>/       save working CRDT state (doc_state)
+  PATCH  /api/library/annotations/<id>/       save working CRDT state (doc_state, review_summary)
   POST   /api/library/annotations/<id>/snapshot/  publish an immutable Version
+  POST   /api/library/annotations/<id>/pin/   pin the unpinned doc to an asset version
+  GET    /api/library/annotations/<id>/versions/  list published versions (history browser)
+  GET    /api/library/annotations/<id>/versions/<n>/  one version incl. its doc_state
+  POST   /api/library/annotations/<id>/collab-token/  short-lived Yjs relay token
   POST   /api/library/assets/<id>/mask/       save a rasterized mask PNG as a linked asset
   GET    /api/library/assets/<id>/masks/      list masks linked to an asset (role="mask")
 
@@ -13,8 +17,15 @@ The live CRDT document is owned by the Yjs relay (room_snapshots table); these
 endpoints own the *versioned* tier — doc_state + published snapshots.
 """
 
+import base64
+import hashlib
+import hmac
+import json
+import time
 import uuid
 
+from django.conf import settings
+from django.db import transaction
 from django.shortcuts import get_object_or_404
 from rest_framework import permissions, status
 from rest_framework.parsers import FormParser, MultiPartParser
@@ -42,6 +53,45 @@ def annotation_summary(doc):
     }
 
 
+REVIEW_STATUSES = ("open", "addressed", "approved")
+
+
+def clean_review_summary(value):
+    """Note counts by review status; anything malformed reads as zero."""
+    value = value if isinstance(value, dict) else {}
+    summary = {}
+    for key in REVIEW_STATUSES:
+        try:
+            summary[key] = max(0, int(value.get(key) or 0))
+        except (TypeError, ValueError):
+            summary[key] = 0
+    return summary
+
+
+def roll_up_open_notes(doc, summary):
+    """Mirror a doc's open-note count onto its asset for the grid and versions list.
+
+    The unpinned doc follows the latest version and drives ``open_notes``; docs
+    pinned to a version land in ``open_notes_by_version``. The asset row is locked
+    for the read-modify-write, so saves of different docs never drop each other's
+    counts (or anything else written to ``type_data`` meanwhile).
+    """
+    with transaction.atomic():
+        asset = MediaAsset.objects.select_for_update().filter(pk=doc.target_asset_id).first()
+        if asset is None:
+            return
+        data = asset.type_data or {}
+        version_number = doc.type_data.get("target_asset_version_number")
+        if version_number is None:
+            data["open_notes"] = summary["open"]
+        else:
+            by_version = dict(data.get("open_notes_by_version") or {})
+            by_version[str(version_number)] = summary["open"]
+            data["open_notes_by_version"] = by_version
+        asset.type_data = data
+        asset.save(update_fields=["type_data", "updated_at"])
+
+
 class LibraryAssetDetailView(APIView):
     permission_classes = [permissions.IsAuthenticated]
 
@@ -124,7 +174,11 @@ class AnnotationDocDetailView(APIView):
         doc = self.get_doc(pk)
         if "doc_state" in request.data:
             doc.doc_state = request.data["doc_state"] or ""
-            doc.save(update_fields=["type_data", "updated_at"])
+        if "review_summary" in request.data:
+            summary = clean_review_summary(request.data["review_summary"])
+            doc.type_data["review_summary"] = summary
+            roll_up_open_notes(doc, summary)
+        doc.save(update_fields=["type_data", "updated_at"])
         return Response(annotation_summary(doc))
 
 
@@ -142,6 +196,138 @@ class AnnotationDocSnapshotView(APIView):
         )
 
 
+def annotation_version_summary(version):
+    author = version.created_by
+    return {
+        "version_number": version.version_number,
+        "created_at": version.created_at,
+        "created_by": author.get_username() if author else None,
+        "created_by_id": author.pk if author else None,
+    }
+
+
+class AnnotationDocPinView(APIView):
+    """Pin the asset's unpinned doc to the version it was drawn on, so a newly
+    uploaded version starts from a fresh unpinned doc. Room, state and published
+    versions stay with the doc; its open-note count moves to that version. A
+    pinned doc for the version that was never written to is archived in favour
+    of this one; any other is a conflict."""
+
+    permission_classes = [permissions.IsAuthenticated]
+
+    def post(self, request, pk):
+        version_number = request.data.get("version_number")
+        if version_number is None:
+            return Response(
+                {"detail": "version_number is required"},
+                status=status.HTTP_400_BAD_REQUEST,
+            )
+        version_number = int(version_number)
+
+        with transaction.atomic():
+            doc = get_object_or_404(ImageAnnotation.objects.active().select_for_update(), pk=pk)
+            current = doc.type_data.get("target_asset_version_number")
+            if current == version_number:
+                return Response(annotation_summary(doc))
+            if current is not None:
+                return Response(
+                    {"detail": f"doc is already pinned to v{current}"},
+                    status=status.HTTP_409_CONFLICT,
+                )
+
+            pinned = ImageAnnotation.objects.active().select_for_update().filter(
+                type_data__target_asset_id=doc.target_asset_id,
+                type_data__target_asset_version_number=version_number,
+            )
+            for other in pinned:
+                if other.doc_state or other.versions.exists():
+                    return Response(
+                        {"detail": f"v{version_number} already has its own annotations"},
+                        status=status.HTTP_409_CONFLICT,
+                    )
+                other.archive()
+
+            asset = MediaAsset.objects.filter(pk=doc.target_asset_id).first()
+            if asset is not None:
+                doc.name = f"Annotations · {asset.name} v{version_number}"
+            doc.type_data["target_asset_version_number"] = version_number
+            doc.save(update_fields=["name", "type_data", "updated_at"])
+            roll_up_open_notes(doc, clean_review_summary(doc.type_data.get("review_summary")))
+
+        return Response(annotation_summary(doc))
+
+
+class AnnotationDocVersionListView(APIView):
+    """Published versions, newest first. `can_restore` tells the history browser
+    whether to offer restoring a past state. It is advisory: a restore is an
+    ordinary edit made through the relay, which any editor of the room can make."""
+
+    permission_classes = [permissions.IsAuthenticated]
+
+    def get(self, request, pk):
+        doc = get_object_or_404(ImageAnnotation.objects.active(), pk=pk)
+        versions = doc.versions.select_related("created_by").order_by("-version_number")
+        return Response({
+            "can_restore": request.user.is_staff,
+            "versions": [annotation_version_summary(v) for v in versions],
+        })
+
+
+class AnnotationDocVersionDetailView(APIView):
+    permission_classes = [permissions.IsAuthenticated]
+
+    def get(self, request, pk, version_number):
+        doc = get_object_or_404(ImageAnnotation.objects.active(), pk=pk)
+        version = (
+            doc.versions.select_related("created_by")
+            .filter(version_number=version_number)
+            .order_by("-variation_number")
+            .first()
+        )
+        if version is None:
+            return Response(status=status.HTTP_404_NOT_FOUND)
+        return Response({
+            **annotation_version_summary(version),
+            "doc_state": version.data.get("doc_state", ""),
+        })
+
+
+def _b64url(data):
+    return base64.urlsafe_b64encode(data).rstrip(b"=").decode("ascii")
+
+
+def sign_collab_token(claims, secret):
+    """`<claims>.<HMAC-SHA256 of the claims segment>`, both base64url; see relay/collab-auth.mjs."""
+    payload = _b64url(json.dumps(claims, separators=(",", ":")).encode("utf-8"))
+    signature = hmac.new(secret.encode("utf-8"), payload.encode("ascii"), hashlib.sha256).digest()
+    return f"{payload}.{_b64url(signature)}"
+
+
+class AnnotationDocCollabTokenView(APIView):
+    """Mint a relay token for the doc's room. The relay maps the asset/project
+    claims to a role through its ACL; a null token means relay auth is off."""
+
+    permission_classes = [permissions.IsAuthenticated]
+
+    def post(self, request, pk):
+        doc = get_object_or_404(ImageAnnotation.objects.active(), pk=pk)
+        secret = settings.COLLAB_AUTH_SECRET
+        if not secret:
+            return Response({"token": None, "expires_at": None})
+
+        asset = MediaAsset.objects.filter(pk=doc.target_asset_id).first()
+        expires_at = int(time.time()) + settings.COLLAB_TOKEN_TTL_SECONDS
+        claims = {
+            "sub": str(request.user.pk),
+            "name": request.user.get_username(),
+            "room": doc.room_id,
+            "asset": doc.target_asset_id,
+            "project": asset.project_id if asset else None,
+            "exp": expires_at,
+        }
+        return Response({"token": sign_collab_token(claims, secret), "expires_at": expires_at})
+
+
 class MaskSaveView(APIView):
     permission_classes = [permissions.IsAuthenticated]
     parser_classes = [MultiPartParser, FormParser]
@@ -899,6 +899,7 @@ def _deliver_intent_outputs(intent, outputs: dict) -> None:
                     "thumbnails": stored["thumbnails"],
                     "placeholder": stored.get("placeholder", ""),
                     "technical_metadata": stored.get("technical_metadata", {}),
+                    "tile_source": stored.get("tile_source"),
                 })
                 target_asset.save(update_fields=["type_data", "updated_at"])
             log.info(
@@ -949,7 +950,7 @@ def _version_data_from_output(value, intent, slot: str) -> dict:
 
     Returns a (version_data, stored_meta) tuple where stored_meta is the dict
     from store_media_bytes (file_path, thumbnails, placeholder, media_type,
-    technical_metadata) or None if no file was ingested.
+    technical_metadata, tile_source) or None if no file was ingested.
     """
     import logging
     import os
@@ -1001,6 +1002,7 @@ def _version_data_from_output(value, intent, slot: str) -> dict:
                 "file_path": stored["file_path"],
                 "thumbnails": stored["thumbnails"],
                 "technical_metadata": stored["technical_metadata"],
+                "tile_source": stored["tile_source"],
                 "provenance": provenance,
             }
             return version_data, stored
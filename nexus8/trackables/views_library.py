@@ -134,6 +134,8 @@ def asset_summary(asset):
         "file_path": data.get("file_path", ""),
         "thumbnails": data.get("thumbnails") or {},
         "placeholder": data.get("placeholder", ""),
+        # Deep Zoom pyramid for images too large to decode whole in the browser.
+        "tile_source": data.get("tile_source"),
         "width": technical.get("width"),
         "height": technical.get("height"),
         # Video-only fields (absent for images); the annotator needs fps + duration
@@ -148,6 +150,8 @@ def asset_summary(asset):
         "project_code": asset.project_code or "",
         "created_at": asset.created_at.isoformat(),
         "latest_version_number": latest_version_number,
+        "open_notes": data.get("open_notes", 0),
+        "open_notes_by_version": data.get("open_notes_by_version") or {},
     }
 
 
@@ -31,6 +31,7 @@ def version_node(version, symlink_names):
         "content_hash": (version.content_hash or "")[:10],
         "file_path": data.get("file_path", ""),
         "thumbnails": data.get("thumbnails") or {},
+        "tile_source": data.get("tile_source"),
         "symlinks": symlink_names.get(version.id, []),
         "intentId": provenance.get("intent_id"),
     }
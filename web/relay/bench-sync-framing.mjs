@@ -0,0 +1,127 @@
+import { performance } from 'node:perf_hooks'
+import { parseArgs } from 'node:util'
+import * as Y from 'yjs'
+import { decodeBinaryFrame, encodeSyncStep2Frame, encodeUpdateFrame } from './sync-framing.mjs'
+
+// Update throughput of the relay wire formats on a brush-heavy annotation doc.
+// Each stroke is committed as its own update, the way the annotator writes them,
+// then every update is framed, parsed back and applied to a fresh doc.
+//
+//   npm run bench:sync -- --strokes 2000 --points 48 --rounds 5
+
+const { values: options } = parseArgs({
+  options: {
+    strokes: { type: 'string', default: '1000' },
+    points: { type: 'string', default: '48' },
+    rounds: { type: 'string', default: '5' },
+  },
+})
+const STROKES = Number(options.strokes)
+const POINTS_PER_STROKE = Number(options.points)
+const ROUNDS = Number(options.rounds)
+
+// Same base64 helpers as the browser client's JSON path.
+function toBase64(data) {
+  let binary = ''
+  data.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary)
+}
+
+function fromBase64(serialized) {
+  const binary = atob(serialized)
+  return Uint8Array.from(binary, (character) => character.charCodeAt(0))
+}
+
+const FRAMINGS = {
+  'json (base64)': {
+    encode: (update) => JSON.stringify({ type: 'doc-update', roomId: 'bench', sender: 1, update: toBase64(update) }),
+    decode: (payload) => fromBase64(JSON.parse(payload).update),
+    size: (payload) => Buffer.byteLength(payload),
+  },
+  'binary (y-protocols)': {
+    encode: (update) => encodeUpdateFrame(update),
+    decode: (frame) => decodeBinaryFrame(frame).update,
+    size: (frame) => frame.byteLength,
+  },
+}
+
+function buildStrokeUpdates() {
+  const doc = new Y.Doc()
+  const annotations = doc.getMap('annotations')
+  const updates = []
+  doc.on('update', (update) => updates.push(update))
+
+  for (let stroke = 0; stroke < STROKES; stroke += 1) {
+    const points = Array.from({ length: POINTS_PER_STROKE }, (_, index) => ({
+      x: 512 + Math.cos(stroke + index * 0.1) * (40 + index),
+      y: 384 + Math.sin(stroke + index * 0.1) * (40 + index),
+    }))
+    annotations.set(`stroke-${stroke}`, {
+      id: `stroke-${stroke}`,
+      layerId: 'default',
+      origin: { x: 0, y: 0, z: 0 },
+      geometry: { kind: 'brush', points, radius: 6 },
+      style: { stroke: '#ff4d4f', strokeWidth: 2, opacity: 1 },
+      createdAt: 1_700_000_000_000 + stroke,
+      updatedAt: 1_700_000_000_000 + stroke,
+    })
+  }
+
+  return { doc, updates }
+}
+
+function runRound(framing, updates) {
+  const target = new Y.Doc()
+  let bytes = 0
+
+  const startedAt = performance.now()
+  updates.forEach((update) => {
+    const payload = framing.encode(update)
+    bytes += framing.size(payload)
+    Y.applyUpdate(target, framing.decode(payload))
+  })
+  const elapsedMs = performance.now() - startedAt
+
+  target.destroy()
+  return { bytes, elapsedMs }
+}
+
+function median(values) {
+  const sorted = [...values].sort((left, right) => left - right)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+const { doc, updates } = buildStrokeUpdates()
+const rawBytes = updates.reduce((total, update) => total + update.byteLength, 0)
+const fullState = Y.encodeStateAsUpdate(doc)
+
+console.log(
+  `${STROKES} strokes x ${POINTS_PER_STROKE} points = ${STROKES * POINTS_PER_STROKE} brush points, `
+  + `${updates.length} updates, ${(rawBytes / 1024).toFixed(1)} KiB of raw Yjs updates`,
+)
+console.log(`median of ${ROUNDS} rounds; each round frames, parses and applies every update\n`)
+
+const rows = Object.entries(FRAMINGS).map(([name, framing]) => {
+  runRound(framing, updates.slice(0, Math.min(50, updates.length)))
+  const rounds = Array.from({ length: ROUNDS }, () => runRound(framing, updates))
+  const elapsedMs = median(rounds.map((round) => round.elapsedMs))
+  const { bytes } = rounds[0]
+  return {
+    framing: name,
+    'wire KiB': (bytes / 1024).toFixed(1),
+    overhead: `${(((bytes - rawBytes) / rawBytes) * 100).toFixed(1)}%`,
+    ms: elapsedMs.toFixed(1),
+    'updates/s': Math.round(updates.length / (elapsedMs / 1000)),
+    'MiB/s': (rawBytes / 1024 / 1024 / (elapsedMs / 1000)).toFixed(1),
+  }
+})
+console.table(rows)
+
+const fullJson = JSON.stringify({ type: 'sync-response', roomId: 'bench', sender: 'server', update: toBase64(fullState) })
+const fullBinary = encodeSyncStep2Frame(doc)
+console.log(
+  `initial sync of the whole doc: json ${(Buffer.byteLength(fullJson) / 1024).toFixed(1)} KiB, `
+  + `binary ${(fullBinary.byteLength / 1024).toFixed(1)} KiB`,
+)
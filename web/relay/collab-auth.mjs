@@ -0,0 +1,147 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { readFile } from 'node:fs/promises'
+import { resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+
+// Room access for the relay. A connection presents `?token=`; a verifier turns it
+// into claims ({ sub, room, asset, project, exp }) and the ACL maps the room's
+// asset/project to a role for that subject. The HMAC verifier is a local stand-in
+// for a real identity provider: COLLAB_AUTH_VERIFIER can name a module exporting
+// `createTokenVerifier(env)` to replace it.
+
+const ROLES = new Set(['editor', 'viewer', 'none'])
+
+function normalizeRole(value, fallback) {
+  const role = typeof value === 'string' ? value.trim().toLowerCase() : ''
+  return ROLES.has(role) ? role : fallback
+}
+
+function fromBase64Url(segment) {
+  return Buffer.from(segment.replace(/-/g, '+').replace(/_/g, '/'), 'base64')
+}
+
+function getToken(request) {
+  const url = new URL(request.url || '/', 'ws://localhost')
+  return url.searchParams.get('token') || ''
+}
+
+/** Verifies `<base64url JSON claims>.<base64url HMAC-SHA256 of the claims segment>`. */
+export function createHmacTokenVerifier(secret) {
+  return {
+    kind: 'hmac',
+    async verify(token) {
+      const [payload, signature, extra] = token.split('.')
+      if (!payload || !signature || extra !== undefined) {
+        return null
+      }
+
+      const expected = createHmac('sha256', secret).update(payload).digest()
+      const actual = fromBase64Url(signature)
+      if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        return null
+      }
+
+      try {
+        return JSON.parse(fromBase64Url(payload).toString('utf8'))
+      } catch {
+        return null
+      }
+    },
+  }
+}
+
+async function createVerifierFromEnv(env) {
+  const modulePath = env.COLLAB_AUTH_VERIFIER?.trim()
+  if (modulePath) {
+    const module = await import(pathToFileURL(resolve(modulePath)).href)
+    return module.createTokenVerifier(env)
+  }
+
+  const secret = env.COLLAB_AUTH_SECRET?.trim()
+  return secret ? createHmacTokenVerifier(secret) : null
+}
+
+async function loadAcl(env) {
+  const filePath = env.COLLAB_ACL_FILE?.trim()
+  if (!filePath) {
+    return { assets: {}, projects: {} }
+  }
+
+  const parsed = JSON.parse(await readFile(resolve(filePath), 'utf8'))
+  return {
+    defaultRole: parsed.defaultRole,
+    assets: parsed.assets ?? {},
+    projects: parsed.projects ?? {},
+  }
+}
+
+function lookupGrant(grants, subject) {
+  if (!grants) {
+    return undefined
+  }
+  return grants[subject] ?? grants['*']
+}
+
+/**
+ * Build the relay's room authorizer. With no verifier configured every connection
+ * is an editor, as before auth existed.
+ *
+ * ACL file (COLLAB_ACL_FILE), most specific grant wins:
+ *   { "defaultRole": "viewer",
+ *     "assets":   { "<asset id>":     { "<sub>": "editor", "*": "viewer" } },
+ *     "projects": { "<project code>": { "*": "editor" } } }
+ */
+export async function createRoomAuthFromEnv(env = process.env) {
+  const verifier = await createVerifierFromEnv(env)
+  if (!verifier) {
+    return {
+      mode: 'off',
+      async authorize() {
+        return { ok: true, subject: null, role: 'editor' }
+      },
+    }
+  }
+
+  const acl = await loadAcl(env)
+  const defaultRole = normalizeRole(env.COLLAB_DEFAULT_ROLE ?? acl.defaultRole, 'editor')
+
+  return {
+    mode: verifier.kind ?? 'custom',
+    async authorize(request, roomId) {
+      const token = getToken(request)
+      if (!token) {
+        return { ok: false, status: 401, reason: 'missing-token' }
+      }
+
+      let claims = null
+      try {
+        claims = await verifier.verify(token)
+      } catch (error) {
+        console.warn('Collaboration token verifier failed', error)
+      }
+      if (!claims || typeof claims.sub !== 'string') {
+        return { ok: false, status: 401, reason: 'invalid-token' }
+      }
+      if (typeof claims.exp === 'number' && claims.exp * 1000 <= Date.now()) {
+        return { ok: false, status: 401, reason: 'expired-token' }
+      }
+      if (claims.room !== roomId) {
+        return { ok: false, status: 403, reason: 'wrong-room' }
+      }
+
+      const assetGrant = claims.asset != null ? lookupGrant(acl.assets[String(claims.asset)], claims.sub) : undefined
+      const projectGrant = claims.project != null ? lookupGrant(acl.projects[String(claims.project)], claims.sub) : undefined
+      const role = normalizeRole(assetGrant ?? projectGrant, defaultRole)
+      if (role === 'none') {
+        return { ok: false, status: 403, reason: 'forbidden' }
+      }
+
+      return {
+        ok: true,
+        subject: claims.sub,
+        role,
+        expiresAt: typeof claims.exp === 'number' ? claims.exp * 1000 : undefined,
+      }
+    },
+  }
+}
@@ -1,10 +1,40 @@
 import { mkdir } from 'node:fs/promises'
 import { dirname, resolve } from 'node:path'
+import * as Y from 'yjs'
 
 // pg and sqlite3 are imported lazily inside their driver factories so only the
 // dependency for the configured COLLAB_STORAGE_DRIVER needs to be installed.
+//
+// Each room is stored as a compacted base snapshot plus an append-only log of the
+// updates applied since, tagged with the actor who made them. Compaction folds the
+// log into the base and records the result as a timestamped history snapshot, so a
+// room's state can be read back at any past point: exactly for times still covered
+// by the log, and at compaction granularity before that. Each history snapshot also
+// keeps which actor last edited each annotation, so diffs can name editors, not creators.
 
 const DEFAULT_SQLITE_PATH = './data/collaboration-relay.sqlite'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function readNumber(value, fallback) {
+  const parsed = Number(value)
+  return value !== undefined && value !== '' && Number.isFinite(parsed) ? parsed : fallback
+}
+
+/**
+ * Compaction/retention policy from the environment:
+ *   COLLAB_COMPACT_AFTER_UPDATES   fold the log once it holds this many updates (500)
+ *   COLLAB_COMPACT_INTERVAL_MS     ...or when the last compaction is this old (5 min)
+ *   COLLAB_HISTORY_RETENTION_DAYS  drop history snapshots older than this; 0 keeps all (30)
+ *   COLLAB_HISTORY_MAX_SNAPSHOTS   keep at most this many per room; 0 is unlimited (200)
+ */
+export function resolveHistoryPolicy(env = process.env) {
+  return {
+    compactAfterUpdates: Math.max(1, readNumber(env.COLLAB_COMPACT_AFTER_UPDATES, 500)),
+    compactIntervalMs: Math.max(0, readNumber(env.COLLAB_COMPACT_INTERVAL_MS, 5 * 60 * 1000)),
+    retentionMs: Math.max(0, readNumber(env.COLLAB_HISTORY_RETENTION_DAYS, 30)) * DAY_MS,
+    maxSnapshots: Math.max(0, Math.floor(readNumber(env.COLLAB_HISTORY_MAX_SNAPSHOTS, 200))),
+  }
+}
 
 function normalizeDriver(value) {
   switch ((value || '').trim().toLowerCase()) {
@@ -39,6 +69,93 @@ function normalizeBinary(value) {
   return Uint8Array.from(value)
 }
 
+/** Apply a base snapshot and updates in order and re-encode them as one update. */
+function foldUpdates(snapshot, updates) {
+  const doc = new Y.Doc()
+  if (snapshot) {
+    Y.applyUpdate(doc, snapshot)
+  }
+  updates.forEach((update) => {
+    Y.applyUpdate(doc, update)
+  })
+  const folded = Y.encodeStateAsUpdate(doc)
+  doc.destroy()
+  return folded
+}
+
+/**
+ * Replay logged updates over `snapshot` and record, per annotation id, the actor of the
+ * last update that added, changed or removed it. Rows whose `actor` is null are applied
+ * without being attributed, so a caller can replay past a window it does not report on.
+ */
+function collectEditors(snapshot, rows, editors = {}) {
+  const doc = new Y.Doc()
+  if (snapshot) {
+    Y.applyUpdate(doc, snapshot)
+  }
+  let actor = null
+  doc.getMap('annotations').observe((event) => {
+    if (actor) {
+      event.keysChanged.forEach((id) => {
+        editors[id] = actor
+      })
+    }
+  })
+  rows.forEach((row) => {
+    actor = row.actor
+    Y.applyUpdate(doc, normalizeBinary(row.update_data))
+  })
+  doc.destroy()
+  return editors
+}
+
+function parseEditors(value) {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return value
+  }
+  try {
+    const parsed = JSON.parse(value || '{}')
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+/** Merge history rows' editor maps oldest first, so the latest edit of an annotation wins. */
+function mergeEditors(historyRows) {
+  return historyRows.reduce((editors, row) => Object.assign(editors, parseEditors(row.editors)), {})
+}
+
+function collectActors(rows) {
+  return Array.from(new Set(rows.map((row) => row.actor).filter(Boolean))).sort()
+}
+
+function parseActors(value) {
+  if (Array.isArray(value)) {
+    return value
+  }
+  try {
+    const parsed = JSON.parse(value || '[]')
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+function toIsoString(value) {
+  return new Date(value).toISOString()
+}
+
+/** Run tasks one at a time, so a transaction on the shared connection never interleaves with other statements. */
+function createSerialQueue() {
+  let tail = Promise.resolve()
+  return (task) => {
+    const result = tail.then(task, task)
+    tail = result.catch(() => {})
+    return result
+  }
+}
+
 function openSqliteDatabase(sqlite3, filePath) {
   return new Promise((resolveDatabase, reject) => {
     const database = new sqlite3.Database(filePath, (error) => {
@@ -75,6 +192,18 @@ function getSql(database, sql, params = []) {
   })
 }
 
+function allSql(database, sql, params = []) {
+  return new Promise((resolveAll, reject) => {
+    database.all(sql, params, (error, rows) => {
+      if (error) {
+        reject(error)
+        return
+      }
+      resolveAll(rows)
+    })
+  })
+}
+
 function closeSqliteDatabase(database) {
   return new Promise((resolveClose, reject) => {
     database.close((error) => {
@@ -93,7 +222,19 @@ function createMemoryStorage() {
     async loadRoomSnapshot() {
       return null
     },
-    async saveRoomSnapshot() {
+    async appendRoomUpdates() {
+    },
+    async compactRoom() {
+      return null
+    },
+    async listRoomHistory() {
+      return { snapshots: [], updates: [] }
+    },
+    async loadRoomStateAt() {
+      return null
+    },
+    async loadRoomEditors() {
+      return {}
     },
     async close() {
     },
@@ -115,24 +256,219 @@ async function createSqliteStorage() {
       updated_at TEXT NOT NULL
     )`,
   )
+  // Timestamps are ISO strings, which sort chronologically as text.
+  await runSql(
+    database,
+    `CREATE TABLE IF NOT EXISTS room_updates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      room_id TEXT NOT NULL,
+      update_data BLOB NOT NULL,
+      actor TEXT,
+      created_at TEXT NOT NULL
+    )`,
+  )
+  await runSql(database, 'CREATE INDEX IF NOT EXISTS room_updates_room_idx ON room_updates (room_id, id)')
+  await runSql(
+    database,
+    `CREATE TABLE IF NOT EXISTS room_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      room_id TEXT NOT NULL,
+      snapshot BLOB NOT NULL,
+      actors TEXT NOT NULL,
+      update_count INTEGER NOT NULL,
+      created_at TEXT NOT NULL
+    )`,
+  )
+  await runSql(database, 'CREATE INDEX IF NOT EXISTS room_history_room_idx ON room_history (room_id, created_at)')
+  // Added after room_history shipped: annotation id -> actor of its last edit in the snapshot.
+  const historyColumns = await allSql(database, 'PRAGMA table_info(room_history)')
+  if (!historyColumns.some((column) => column.name === 'editors')) {
+    await runSql(database, "ALTER TABLE room_history ADD COLUMN editors TEXT NOT NULL DEFAULT '{}'")
+  }
+
+  const serial = createSerialQueue()
+
+  const loadUpdates = (roomId, where = '', params = []) =>
+    allSql(
+      database,
+      `SELECT id, update_data, actor, created_at FROM room_updates WHERE room_id = ? ${where} ORDER BY id`,
+      [roomId, ...params],
+    )
 
   return {
     driver: 'sqlite',
     filePath,
     async loadRoomSnapshot(roomId) {
-      const row = await getSql(database, 'SELECT snapshot FROM room_snapshots WHERE room_id = ?', [roomId])
-      return normalizeBinary(row?.snapshot)
-    },
-    async saveRoomSnapshot(roomId, snapshot) {
-      await runSql(
-        database,
-        `INSERT INTO room_snapshots (room_id, snapshot, updated_at)
-         VALUES (?, ?, ?)
-         ON CONFLICT(room_id) DO UPDATE SET
-           snapshot = excluded.snapshot,
-           updated_at = excluded.updated_at`,
-        [roomId, Buffer.from(snapshot), new Date().toISOString()],
-      )
+      return serial(async () => {
+        const row = await getSql(database, 'SELECT snapshot FROM room_snapshots WHERE room_id = ?', [roomId])
+        const snapshot = normalizeBinary(row?.snapshot)
+        const updates = await loadUpdates(roomId)
+        // Updates logged before the last shutdown that never reached a compaction.
+        return updates.length > 0 ? foldUpdates(snapshot, updates.map((update) => normalizeBinary(update.update_data))) : snapshot
+      })
+    },
+    async appendRoomUpdates(roomId, entries) {
+      await serial(async () => {
+        await runSql(database, 'BEGIN')
+        try {
+          for (const entry of entries) {
+            await runSql(
+              database,
+              'INSERT INTO room_updates (room_id, update_data, actor, created_at) VALUES (?, ?, ?, ?)',
+              [roomId, Buffer.from(entry.update), entry.actor ?? null, toIsoString(entry.createdAt)],
+            )
+          }
+          await runSql(database, 'COMMIT')
+        } catch (error) {
+          await runSql(database, 'ROLLBACK')
+          throw error
+        }
+      })
+    },
+    async compactRoom(roomId, policy) {
+      return serial(async () => {
+        const updates = await loadUpdates(roomId)
+        if (updates.length === 0) {
+          return null
+        }
+
+        const row = await getSql(database, 'SELECT snapshot FROM room_snapshots WHERE room_id = ?', [roomId])
+        const snapshot = foldUpdates(
+          normalizeBinary(row?.snapshot),
+          updates.map((update) => normalizeBinary(update.update_data)),
+        )
+        const now = new Date().toISOString()
+        const lastUpdate = updates[updates.length - 1]
+        // The snapshot is the room as of its newest folded update, so that is its point in time.
+        const createdAt = lastUpdate.created_at
+
+        await runSql(database, 'BEGIN')
+        try {
+          await runSql(
+            database,
+            `INSERT INTO room_snapshots (room_id, snapshot, updated_at)
+             VALUES (?, ?, ?)
+             ON CONFLICT(room_id) DO UPDATE SET
+               snapshot = excluded.snapshot,
+               updated_at = excluded.updated_at`,
+            [roomId, Buffer.from(snapshot), now],
+          )
+          await runSql(
+            database,
+            `INSERT INTO room_history (room_id, snapshot, actors, editors, update_count, created_at)
+             VALUES (?, ?, ?, ?, ?, ?)`,
+            [
+              roomId,
+              Buffer.from(snapshot),
+              JSON.stringify(collectActors(updates)),
+              JSON.stringify(collectEditors(normalizeBinary(row?.snapshot), updates)),
+              updates.length,
+              createdAt,
+            ],
+          )
+          await runSql(database, 'DELETE FROM room_updates WHERE room_id = ? AND id <= ?', [roomId, lastUpdate.id])
+          if (policy.retentionMs > 0) {
+            await runSql(
+              database,
+              'DELETE FROM room_history WHERE room_id = ? AND created_at < ?',
+              [roomId, toIsoString(Date.now() - policy.retentionMs)],
+            )
+          }
+          if (policy.maxSnapshots > 0) {
+            await runSql(
+              database,
+              `DELETE FROM room_history WHERE room_id = ? AND id NOT IN (
+                 SELECT id FROM room_history WHERE room_id = ? ORDER BY created_at DESC, id DESC LIMIT ?
+               )`,
+              [roomId, roomId, policy.maxSnapshots],
+            )
+          }
+          await runSql(database, 'COMMIT')
+        } catch (error) {
+          await runSql(database, 'ROLLBACK')
+          throw error
+        }
+
+        return { updateCount: updates.length, createdAt }
+      })
+    },
+    async listRoomHistory(roomId) {
+      return serial(async () => {
+        const snapshots = await allSql(
+          database,
+          `SELECT id, actors, update_count, created_at, length(snapshot) AS byte_length
+           FROM room_history WHERE room_id = ? ORDER BY created_at DESC, id DESC`,
+          [roomId],
+        )
+        const updates = await allSql(
+          database,
+          `SELECT id, actor, created_at, length(update_data) AS byte_length
+           FROM room_updates WHERE room_id = ? ORDER BY id DESC`,
+          [roomId],
+        )
+        return {
+          snapshots: snapshots.map((snapshot) => ({
+            id: snapshot.id,
+            createdAt: snapshot.created_at,
+            actors: parseActors(snapshot.actors),
+            updateCount: snapshot.update_count,
+            byteLength: snapshot.byte_length,
+          })),
+          updates: updates.map((update) => ({
+            id: update.id,
+            createdAt: update.created_at,
+            actor: update.actor,
+            byteLength: update.byte_length,
+          })),
+        }
+      })
+    },
+    async loadRoomStateAt(roomId, at) {
+      return serial(async () => {
+        const atIso = toIsoString(at)
+        const history = await getSql(
+          database,
+          `SELECT id, snapshot, created_at FROM room_history
+           WHERE room_id = ? AND created_at <= ? ORDER BY created_at DESC, id DESC LIMIT 1`,
+          [roomId, atIso],
+        )
+        const updates = await loadUpdates(roomId, 'AND created_at > ? AND created_at <= ?', [history?.created_at ?? '', atIso])
+        if (!history && updates.length === 0) {
+          return null
+        }
+
+        return {
+          update: foldUpdates(
+            normalizeBinary(history?.snapshot),
+            updates.map((update) => normalizeBinary(update.update_data)),
+          ),
+          snapshotId: history?.id ?? null,
+          snapshotCreatedAt: history?.created_at ?? null,
+          actors: collectActors(updates),
+          appliedUpdateCount: updates.length,
+        }
+      })
+    },
+    async loadRoomEditors(roomId, from, to) {
+      return serial(async () => {
+        const [fromIso, toIso] = [toIsoString(from), toIsoString(to)]
+        const history = await allSql(
+          database,
+          `SELECT editors FROM room_history
+           WHERE room_id = ? AND created_at > ? AND created_at <= ? ORDER BY created_at, id`,
+          [roomId, fromIso, toIso],
+        )
+        const row = await getSql(database, 'SELECT snapshot FROM room_snapshots WHERE room_id = ?', [roomId])
+        const updates = await loadUpdates(roomId)
+        return collectEditors(
+          normalizeBinary(row?.snapshot),
+          updates.map((update) => ({
+            ...update,
+            actor: update.created_at > fromIso && update.created_at <= toIso ? update.actor : null,
+          })),
+          mergeEditors(history),
+        )
+      })
     },
     async close() {
       await closeSqliteDatabase(database)
@@ -161,22 +497,212 @@ async function createPostgresStorage() {
       updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
     )`,
   )
+  await pool.query(
+    `CREATE TABLE IF NOT EXISTS room_updates (
+      id BIGSERIAL PRIMARY KEY,
+      room_id TEXT NOT NULL,
+      update_data BYTEA NOT NULL,
+      actor TEXT,
+      created_at TIMESTAMPTZ NOT NULL
+    )`,
+  )
+  await pool.query('CREATE INDEX IF NOT EXISTS room_updates_room_idx ON room_updates (room_id, id)')
+  await pool.query(
+    `CREATE TABLE IF NOT EXISTS room_history (
+      id BIGSERIAL PRIMARY KEY,
+      room_id TEXT NOT NULL,
+      snapshot BYTEA NOT NULL,
+      actors JSONB NOT NULL,
+      update_count INTEGER NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL
+    )`,
+  )
+  await pool.query('CREATE INDEX IF NOT EXISTS room_history_room_idx ON room_history (room_id, created_at)')
+  // Added after room_history shipped: annotation id -> actor of its last edit in the snapshot.
+  await pool.query("ALTER TABLE room_history ADD COLUMN IF NOT EXISTS editors JSONB NOT NULL DEFAULT '{}'::jsonb")
+
+  const loadUpdates = async (client, roomId, where = '', params = []) => {
+    const result = await client.query(
+      `SELECT id, update_data, actor, created_at FROM room_updates WHERE room_id = $1 ${where} ORDER BY id`,
+      [roomId, ...params],
+    )
+    return result.rows
+  }
+
+  const withTransaction = async (task, begin = 'BEGIN') => {
+    const client = await pool.connect()
+    try {
+      await client.query(begin)
+      const result = await task(client)
+      await client.query('COMMIT')
+      return result
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+
+  // Reads that span the snapshot/history and update tables see one point in time, so a
+  // compaction committing between them can neither drop nor double-apply updates.
+  const withConsistentRead = (task) => withTransaction(task, 'BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY')
 
   return {
     driver: 'postgres',
     async loadRoomSnapshot(roomId) {
-      const result = await pool.query('SELECT snapshot FROM room_snapshots WHERE room_id = $1', [roomId])
-      return normalizeBinary(result.rows[0]?.snapshot)
-    },
-    async saveRoomSnapshot(roomId, snapshot) {
-      await pool.query(
-        `INSERT INTO room_snapshots (room_id, snapshot, updated_at)
-         VALUES ($1, $2, NOW())
-         ON CONFLICT (room_id) DO UPDATE SET
-           snapshot = EXCLUDED.snapshot,
-           updated_at = NOW()`,
-        [roomId, Buffer.from(snapshot)],
-      )
+      return withConsistentRead(async (client) => {
+        const result = await client.query('SELECT snapshot FROM room_snapshots WHERE room_id = $1', [roomId])
+        const snapshot = normalizeBinary(result.rows[0]?.snapshot)
+        const updates = await loadUpdates(client, roomId)
+        // Updates logged before the last shutdown that never reached a compaction.
+        return updates.length > 0 ? foldUpdates(snapshot, updates.map((update) => normalizeBinary(update.update_data))) : snapshot
+      })
+    },
+    async appendRoomUpdates(roomId, entries) {
+      await withTransaction(async (client) => {
+        for (const entry of entries) {
+          await client.query(
+            'INSERT INTO room_updates (room_id, update_data, actor, created_at) VALUES ($1, $2, $3, $4)',
+            [roomId, Buffer.from(entry.update), entry.actor ?? null, new Date(entry.createdAt)],
+          )
+        }
+      })
+    },
+    async compactRoom(roomId, policy) {
+      return withTransaction(async (client) => {
+        // Lock the base row so two relays never fold the same log twice.
+        const base = await client.query('SELECT snapshot FROM room_snapshots WHERE room_id = $1 FOR UPDATE', [roomId])
+        const updates = await loadUpdates(client, roomId)
+        if (updates.length === 0) {
+          return null
+        }
+
+        const snapshot = foldUpdates(
+          normalizeBinary(base.rows[0]?.snapshot),
+          updates.map((update) => normalizeBinary(update.update_data)),
+        )
+        const lastUpdate = updates[updates.length - 1]
+
+        await client.query(
+          `INSERT INTO room_snapshots (room_id, snapshot, updated_at)
+           VALUES ($1, $2, NOW())
+           ON CONFLICT (room_id) DO UPDATE SET
+             snapshot = EXCLUDED.snapshot,
+             updated_at = NOW()`,
+          [roomId, Buffer.from(snapshot)],
+        )
+        // The snapshot is the room as of its newest folded update, so that is its point in time.
+        await client.query(
+          `INSERT INTO room_history (room_id, snapshot, actors, editors, update_count, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [
+            roomId,
+            Buffer.from(snapshot),
+            JSON.stringify(collectActors(updates)),
+            JSON.stringify(collectEditors(normalizeBinary(base.rows[0]?.snapshot), updates)),
+            updates.length,
+            lastUpdate.created_at,
+          ],
+        )
+        await client.query('DELETE FROM room_updates WHERE room_id = $1 AND id <= $2', [roomId, lastUpdate.id])
+        if (policy.retentionMs > 0) {
+          await client.query(
+            'DELETE FROM room_history WHERE room_id = $1 AND created_at < $2',
+            [roomId, new Date(Date.now() - policy.retentionMs)],
+          )
+        }
+        if (policy.maxSnapshots > 0) {
+          await client.query(
+            `DELETE FROM room_history WHERE room_id = $1 AND id NOT IN (
+               SELECT id FROM room_history WHERE room_id = $1 ORDER BY created_at DESC, id DESC LIMIT $2
+             )`,
+            [roomId, policy.maxSnapshots],
+          )
+        }
+
+        return { updateCount: updates.length, createdAt: toIsoString(lastUpdate.created_at) }
+      })
+    },
+    async listRoomHistory(roomId) {
+      return withConsistentRead(async (client) => {
+        const snapshots = await client.query(
+          `SELECT id, actors, update_count, created_at, octet_length(snapshot) AS byte_length
+           FROM room_history WHERE room_id = $1 ORDER BY created_at DESC, id DESC`,
+          [roomId],
+        )
+        const updates = await client.query(
+          `SELECT id, actor, created_at, octet_length(update_data) AS byte_length
+           FROM room_updates WHERE room_id = $1 ORDER BY id DESC`,
+          [roomId],
+        )
+        return {
+          snapshots: snapshots.rows.map((snapshot) => ({
+            id: Number(snapshot.id),
+            createdAt: toIsoString(snapshot.created_at),
+            actors: parseActors(snapshot.actors),
+            updateCount: snapshot.update_count,
+            byteLength: snapshot.byte_length,
+          })),
+          updates: updates.rows.map((update) => ({
+            id: Number(update.id),
+            createdAt: toIsoString(update.created_at),
+            actor: update.actor,
+            byteLength: update.byte_length,
+          })),
+        }
+      })
+    },
+    async loadRoomStateAt(roomId, at) {
+      return withConsistentRead(async (client) => {
+        const atDate = new Date(at)
+        const historyResult = await client.query(
+          `SELECT id, snapshot, created_at FROM room_history
+           WHERE room_id = $1 AND created_at <= $2 ORDER BY created_at DESC, id DESC LIMIT 1`,
+          [roomId, atDate],
+        )
+        const history = historyResult.rows[0]
+        const updates = await loadUpdates(
+          client,
+          roomId,
+          'AND created_at > $2 AND created_at <= $3',
+          [history?.created_at ?? new Date(0), atDate],
+        )
+        if (!history && updates.length === 0) {
+          return null
+        }
+
+        return {
+          update: foldUpdates(
+            normalizeBinary(history?.snapshot),
+            updates.map((update) => normalizeBinary(update.update_data)),
+          ),
+          snapshotId: history ? Number(history.id) : null,
+          snapshotCreatedAt: history ? toIsoString(history.created_at) : null,
+          actors: collectActors(updates),
+          appliedUpdateCount: updates.length,
+        }
+      })
+    },
+    async loadRoomEditors(roomId, from, to) {
+      return withConsistentRead(async (client) => {
+        const [fromDate, toDate] = [new Date(from), new Date(to)]
+        const history = await client.query(
+          `SELECT editors FROM room_history
+           WHERE room_id = $1 AND created_at > $2 AND created_at <= $3 ORDER BY created_at, id`,
+          [roomId, fromDate, toDate],
+        )
+        const base = await client.query('SELECT snapshot FROM room_snapshots WHERE room_id = $1', [roomId])
+        const updates = await loadUpdates(client, roomId)
+        return collectEditors(
+          normalizeBinary(base.rows[0]?.snapshot),
+          updates.map((update) => ({
+            ...update,
+            actor: update.created_at > fromDate && update.created_at <= toDate ? update.actor : null,
+          })),
+          mergeEditors(history.rows),
+        )
+      })
     },
     async close() {
       await pool.end()
@@ -0,0 +1,81 @@
+import * as decoding from 'lib0/decoding'
+import * as encoding from 'lib0/encoding'
+import * as authProtocol from 'y-protocols/auth'
+import * as syncProtocol from 'y-protocols/sync'
+
+// Binary wire format for the relay: standard y-protocols sync/awareness/auth
+// messages, one per WebSocket binary frame, tagged as y-websocket does. Clients
+// opt in through the WebSocket subprotocol; the JSON frames stay available for
+// older clients. Mirrors web/src/features/annotator/core/collaboration/binaryFraming.ts.
+
+export const JSON_SUBPROTOCOL = 'nexus8-collab.json'
+export const BINARY_SUBPROTOCOL = 'nexus8-collab.yjs'
+
+const MESSAGE_SYNC = 0
+const MESSAGE_AWARENESS = 1
+const MESSAGE_AUTH = 2
+
+export function encodeSyncStep1Frame(doc) {
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, MESSAGE_SYNC)
+  syncProtocol.writeSyncStep1(encoder, doc)
+  return encoding.toUint8Array(encoder)
+}
+
+export function encodeSyncStep2Frame(doc, stateVector) {
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, MESSAGE_SYNC)
+  syncProtocol.writeSyncStep2(encoder, doc, stateVector)
+  return encoding.toUint8Array(encoder)
+}
+
+export function encodeUpdateFrame(update) {
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, MESSAGE_SYNC)
+  syncProtocol.writeUpdate(encoder, update)
+  return encoding.toUint8Array(encoder)
+}
+
+export function encodeAwarenessFrame(update) {
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, MESSAGE_AWARENESS)
+  encoding.writeVarUint8Array(encoder, update)
+  return encoding.toUint8Array(encoder)
+}
+
+export function encodePermissionDeniedFrame(reason) {
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, MESSAGE_AUTH)
+  authProtocol.writePermissionDenied(encoder, reason)
+  return encoding.toUint8Array(encoder)
+}
+
+/**
+ * Decode one binary frame into `{ type, ... }` with type 'sync-step-1'
+ * (stateVector), 'sync-step-2' / 'update' / 'awareness' (update) or
+ * 'permission-denied' (reason). Returns null for unknown tags.
+ */
+export function decodeBinaryFrame(data) {
+  const decoder = decoding.createDecoder(data)
+  switch (decoding.readVarUint(decoder)) {
+    case MESSAGE_SYNC:
+      switch (decoding.readVarUint(decoder)) {
+        case syncProtocol.messageYjsSyncStep1:
+          return { type: 'sync-step-1', stateVector: decoding.readVarUint8Array(decoder) }
+        case syncProtocol.messageYjsSyncStep2:
+          return { type: 'sync-step-2', update: decoding.readVarUint8Array(decoder) }
+        case syncProtocol.messageYjsUpdate:
+          return { type: 'update', update: decoding.readVarUint8Array(decoder) }
+        default:
+          return null
+      }
+    case MESSAGE_AWARENESS:
+      return { type: 'awareness', update: decoding.readVarUint8Array(decoder) }
+    case MESSAGE_AUTH:
+      return decoding.readVarUint(decoder) === authProtocol.messagePermissionDenied
+        ? { type: 'permission-denied', reason: decoding.readVarString(decoder) }
+        : null
+    default:
+      return null
+  }
+}
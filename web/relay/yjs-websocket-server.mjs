@@ -1,8 +1,19 @@
-import { createServer } from 'node:http'
+import { STATUS_CODES, createServer } from 'node:http'
 import { Awareness, applyAwarenessUpdate, encodeAwarenessUpdate, removeAwarenessStates } from 'y-protocols/awareness'
 import { WebSocketServer } from 'ws'
 import * as Y from 'yjs'
-import { createCollaborationStorageFromEnv } from './collab-storage.mjs'
+import { createRoomAuthFromEnv } from './collab-auth.mjs'
+import { createCollaborationStorageFromEnv, resolveHistoryPolicy } from './collab-storage.mjs'
+import {
+  BINARY_SUBPROTOCOL,
+  JSON_SUBPROTOCOL,
+  decodeBinaryFrame,
+  encodeAwarenessFrame,
+  encodePermissionDeniedFrame,
+  encodeSyncStep1Frame,
+  encodeSyncStep2Frame,
+  encodeUpdateFrame,
+} from './sync-framing.mjs'
 
 const port = Number(process.env.COLLAB_PORT || process.env.PORT || 1234)
 const host = process.env.COLLAB_HOST || '0.0.0.0'
@@ -11,19 +22,26 @@ const startedAt = Date.now()
 const ROOM_SAVE_DEBOUNCE_MS = Number(process.env.COLLAB_SAVE_DEBOUNCE_MS || 250)
 const SOCKET_HEARTBEAT_MS = Number(process.env.COLLAB_SOCKET_HEARTBEAT_MS || 25_000)
 const SOCKET_HEARTBEAT_TIMEOUT_MS = Number(process.env.COLLAB_SOCKET_TIMEOUT_MS || 60_000)
+// COLLAB_BINARY_FRAMING=off keeps every client on JSON frames.
+const BINARY_FRAMING_ENABLED = process.env.COLLAB_BINARY_FRAMING !== 'off'
 const storage = await createCollaborationStorageFromEnv()
+const historyPolicy = resolveHistoryPolicy()
+const auth = await createRoomAuthFromEnv()
+// Custom close code telling the client to fetch a fresh token before reconnecting.
+const TOKEN_EXPIRED_CLOSE_CODE = 4001
+// setTimeout overflows past ~24.8 days; longer-lived tokens just skip the timer.
+const MAX_TIMER_MS = 2 ** 31 - 1
 
 function toBase64(data) {
-  let binary = ''
-  data.forEach((byte) => {
-    binary += String.fromCharCode(byte)
-  })
-  return Buffer.from(binary, 'binary').toString('base64')
+  return Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString('base64')
 }
 
 function fromBase64(serialized) {
-  const binary = Buffer.from(serialized, 'base64').toString('binary')
-  return Uint8Array.from(binary, (character) => character.charCodeAt(0))
+  return new Uint8Array(Buffer.from(serialized, 'base64'))
+}
+
+function isBinarySocket(socket) {
+  return socket.protocol === BINARY_SUBPROTOCOL
 }
 
 function getRoomId(request) {
@@ -48,21 +66,29 @@ async function createRoom(roomId) {
   }
 
   doc.on('update', (update, origin) => {
-    const payload = JSON.stringify({
-      type: 'doc-update',
-      roomId,
-      sender: 'server',
-      update: toBase64(update),
-    })
+    // Each framing is encoded at most once per update, and only if a socket uses it.
+    let jsonPayload = null
+    let binaryPayload = null
 
     sockets.forEach((_, socket) => {
       if (socket.readyState !== SOCKET_OPEN || socket === origin) {
         return
       }
-      socket.send(payload)
+      if (isBinarySocket(socket)) {
+        binaryPayload ??= encodeUpdateFrame(update)
+        socket.send(binaryPayload)
+        return
+      }
+      jsonPayload ??= JSON.stringify({
+        type: 'doc-update',
+        roomId,
+        sender: 'server',
+        update: toBase64(update),
+      })
+      socket.send(jsonPayload)
     })
 
-    queueRoomSave(roomId, room)
+    queueRoomSave(roomId, room, update, origin)
   })
 
   awareness.on('update', ({ added, updated, removed }, origin) => {
@@ -71,18 +97,26 @@ async function createRoom(roomId) {
       return
     }
 
-    const payload = JSON.stringify({
-      type: 'awareness-update',
-      roomId,
-      sender: 'server',
-      update: toBase64(encodeAwarenessUpdate(awareness, changedClients)),
-    })
+    const update = encodeAwarenessUpdate(awareness, changedClients)
+    let jsonPayload = null
+    let binaryPayload = null
 
     sockets.forEach((_, socket) => {
       if (socket.readyState !== SOCKET_OPEN || socket === origin) {
         return
       }
-      socket.send(payload)
+      if (isBinarySocket(socket)) {
+        binaryPayload ??= encodeAwarenessFrame(update)
+        socket.send(binaryPayload)
+        return
+      }
+      jsonPayload ??= JSON.stringify({
+        type: 'awareness-update',
+        roomId,
+        sender: 'server',
+        update: toBase64(update),
+      })
+      socket.send(jsonPayload)
     })
   })
 
@@ -90,7 +124,9 @@ async function createRoom(roomId) {
     doc,
     awareness,
     sockets,
-    pendingSnapshot: null,
+    pendingUpdates: [],
+    loggedUpdateCount: 0,
+    lastCompactedAt: Date.now(),
     saveTimer: null,
     savePromise: Promise.resolve(),
   }
@@ -101,12 +137,13 @@ async function createRoom(roomId) {
 const rooms = new Map()
 const roomInitializations = new Map()
 
-function queueRoomSave(roomId, room) {
+function queueRoomSave(roomId, room, update, origin) {
   if (storage.driver === 'memory') {
     return
   }
 
-  room.pendingSnapshot = Y.encodeStateAsUpdate(room.doc)
+  // Socket-originated updates carry the connection's actor for the audit log.
+  room.pendingUpdates.push({ update, actor: origin?.collabActor ?? null, createdAt: Date.now() })
 
   if (room.saveTimer !== null) {
     clearTimeout(room.saveTimer)
@@ -118,16 +155,31 @@ function queueRoomSave(roomId, room) {
   }, ROOM_SAVE_DEBOUNCE_MS)
 }
 
-async function flushRoomSave(roomId, room) {
+async function flushRoomSave(roomId, room, { compact = false } = {}) {
   if (storage.driver === 'memory') {
     return
   }
 
-  const snapshot = room.pendingSnapshot ?? Y.encodeStateAsUpdate(room.doc)
-  room.pendingSnapshot = null
+  const entries = room.pendingUpdates
+  room.pendingUpdates = []
+  room.loggedUpdateCount += entries.length
+
+  const shouldCompact = compact || (room.loggedUpdateCount > 0 && (
+    room.loggedUpdateCount >= historyPolicy.compactAfterUpdates
+    || Date.now() - room.lastCompactedAt >= historyPolicy.compactIntervalMs
+  ))
+  if (shouldCompact) {
+    room.loggedUpdateCount = 0
+    room.lastCompactedAt = Date.now()
+  }
 
   const saveOperation = async () => {
-    await storage.saveRoomSnapshot(roomId, snapshot)
+    if (entries.length > 0) {
+      await storage.appendRoomUpdates(roomId, entries)
+    }
+    if (shouldCompact) {
+      await storage.compactRoom(roomId, historyPolicy)
+    }
   }
 
   room.savePromise = room.savePromise.then(saveOperation, saveOperation).catch((error) => {
@@ -143,11 +195,8 @@ async function disposeRoom(roomId, room) {
     room.saveTimer = null
   }
 
-  if (room.pendingSnapshot) {
-    await flushRoomSave(roomId, room)
-  } else {
-    await room.savePromise
-  }
+  // Fold the log on the way out so the next load starts from one snapshot.
+  await flushRoomSave(roomId, room, { compact: true })
 
   room.doc.destroy()
 }
@@ -191,38 +240,165 @@ function markSocketAlive(socket) {
   socket.lastHeartbeatAt = Date.now()
 }
 
+function sendJson(response, status, body) {
+  response.writeHead(status, { 'content-type': 'application/json; charset=utf-8' })
+  response.end(JSON.stringify(body))
+}
+
+// Matched as a suffix so the endpoints also work behind the SPA's /collab-ws proxy prefix.
+const ROOM_RESOURCE_PATTERN = /\/rooms\/([^/]+)\/(history|state|editors)$/
+
+/** `at` as epoch milliseconds or any Date-parseable string; absent means now. */
+function parseAtParam(value) {
+  if (value === null || value === '') {
+    return Date.now()
+  }
+  const numeric = Number(value)
+  const at = Number.isFinite(numeric) ? numeric : Date.parse(value)
+  return Number.isFinite(at) ? at : null
+}
+
+/**
+ * GET …/rooms/<room>/history lists stored snapshots and not-yet-compacted updates
+ * with their actors; GET …/rooms/<room>/state?at=<time> returns the room's Yjs state
+ * at that time as base64; GET …/rooms/<room>/editors?from=<time>&to=<time> maps each
+ * annotation edited in between to the actor of its last edit. All take the same
+ * `?token=` as the WebSocket.
+ */
+async function handleRoomResourceRequest(request, response, roomId, resource, url) {
+  const access = await auth.authorize(request, roomId)
+  if (!access.ok) {
+    sendJson(response, access.status, { ok: false, error: access.reason })
+    return
+  }
+
+  // Edits still inside the save debounce belong to the answer.
+  const liveRoom = rooms.get(roomId)
+  if (liveRoom) {
+    await flushRoomSave(roomId, liveRoom)
+  }
+
+  if (resource === 'history') {
+    const history = await storage.listRoomHistory(roomId)
+    sendJson(response, 200, { ok: true, roomId, storageDriver: storage.driver, ...history })
+    return
+  }
+
+  if (resource === 'editors') {
+    const from = url.searchParams.get('from') === null ? 0 : parseAtParam(url.searchParams.get('from'))
+    const to = parseAtParam(url.searchParams.get('to'))
+    if (from === null || to === null) {
+      sendJson(response, 400, { ok: false, error: 'invalid-range' })
+      return
+    }
+    const editors = await storage.loadRoomEditors(roomId, Math.min(from, to), Math.max(from, to))
+    sendJson(response, 200, { ok: true, roomId, editors })
+    return
+  }
+
+  const at = parseAtParam(url.searchParams.get('at'))
+  if (at === null) {
+    sendJson(response, 400, { ok: false, error: 'invalid-at' })
+    return
+  }
+
+  const state = await storage.loadRoomStateAt(roomId, at)
+  if (!state) {
+    sendJson(response, 404, { ok: false, error: 'no-stored-state' })
+    return
+  }
+
+  sendJson(response, 200, {
+    ok: true,
+    roomId,
+    at: new Date(at).toISOString(),
+    snapshotId: state.snapshotId,
+    snapshotCreatedAt: state.snapshotCreatedAt,
+    actors: state.actors,
+    appliedUpdateCount: state.appliedUpdateCount,
+    update: toBase64(state.update),
+  })
+}
+
 const server = createServer((request, response) => {
   const method = request.method || 'GET'
   const url = new URL(request.url || '/', 'http://localhost')
 
   if (method === 'GET' && (url.pathname === '/' || url.pathname === '/health' || url.pathname === '/healthz')) {
-    response.writeHead(200, { 'content-type': 'application/json; charset=utf-8' })
-    response.end(JSON.stringify({
+    sendJson(response, 200, {
       ok: true,
       service: 'collaboration-relay',
       storageDriver: storage.driver,
+      authMode: auth.mode,
+      binaryFraming: BINARY_FRAMING_ENABLED,
+      historyPolicy,
       uptimeMs: Date.now() - startedAt,
       activeRooms: rooms.size,
       activeSockets: getSocketCount(),
-    }))
+    })
+    return
+  }
+
+  const roomResource = method === 'GET' ? ROOM_RESOURCE_PATTERN.exec(url.pathname) : null
+  if (roomResource) {
+    let roomId
+    try {
+      roomId = decodeURIComponent(roomResource[1])
+    } catch {
+      sendJson(response, 400, { ok: false, error: 'invalid-room' })
+      return
+    }
+    handleRoomResourceRequest(request, response, roomId, roomResource[2], url).catch((error) => {
+      console.error(`Failed to serve ${roomResource[2]} for room ${roomId}`, error)
+      if (!response.headersSent) {
+        sendJson(response, 500, { ok: false, error: 'storage-failed' })
+      }
+    })
     return
   }
 
-  response.writeHead(404, { 'content-type': 'application/json; charset=utf-8' })
-  response.end(JSON.stringify({ ok: false, error: 'not-found' }))
+  sendJson(response, 404, { ok: false, error: 'not-found' })
 })
 
-const webSocketServer = new WebSocketServer({ noServer: true })
+const webSocketServer = new WebSocketServer({
+  noServer: true,
+  // Clients offer JSON first and binary second; pick binary when both sides speak it.
+  handleProtocols(protocols) {
+    if (BINARY_FRAMING_ENABLED && protocols.has(BINARY_SUBPROTOCOL)) {
+      return BINARY_SUBPROTOCOL
+    }
+    return protocols.has(JSON_SUBPROTOCOL) ? JSON_SUBPROTOCOL : false
+  },
+})
 
-webSocketServer.on('connection', async (socket, request) => {
+webSocketServer.on('connection', async (socket, request, access) => {
   const roomId = getRoomId(request)
   const clientId = getClientId(request)
+  const role = access?.role ?? 'editor'
+  const binary = isBinarySocket(socket)
+  socket.collabActor = access?.subject ?? (clientId !== null ? `client:${clientId}` : null)
   let room
 
+  // Clients send their sync request as soon as the socket opens, which can be
+  // before the room has loaded from storage; hold those messages until then.
+  const earlyMessages = []
+  const bufferMessage = (raw, isBinary) => {
+    earlyMessages.push([raw, isBinary])
+  }
+  socket.on('message', bufferMessage)
+
+  const expiresInMs = access?.expiresAt !== undefined ? access.expiresAt - Date.now() : undefined
+  const expiryTimer = expiresInMs !== undefined && expiresInMs < MAX_TIMER_MS
+    ? setTimeout(() => socket.close(TOKEN_EXPIRED_CLOSE_CODE, 'token-expired'), Math.max(0, expiresInMs))
+    : null
+
   try {
     room = await getOrCreateRoom(roomId)
   } catch (error) {
     console.error(`Failed to initialize room ${roomId}`, error)
+    if (expiryTimer !== null) {
+      clearTimeout(expiryTimer)
+    }
     socket.close(1011, 'room-initialization-failed')
     return
   }
@@ -234,8 +410,43 @@ webSocketServer.on('connection', async (socket, request) => {
     markSocketAlive(socket)
   })
 
-  socket.on('message', (raw) => {
+  const handleBinaryMessage = (raw) => {
+    let frame = null
+
+    try {
+      frame = decodeBinaryFrame(new Uint8Array(raw.buffer, raw.byteOffset, raw.byteLength))
+    } catch (error) {
+      console.warn('Ignoring invalid collaboration frame', error)
+      return
+    }
+
+    switch (frame?.type) {
+      case 'sync-step-1':
+        socket.send(encodeSyncStep2Frame(room.doc, frame.stateVector))
+        break
+      case 'sync-step-2':
+      case 'update':
+        if (role !== 'editor') {
+          socket.send(encodePermissionDeniedFrame('read-only'))
+          break
+        }
+        Y.applyUpdate(room.doc, frame.update, socket)
+        break
+      case 'awareness':
+        applyAwarenessUpdate(room.awareness, frame.update, socket)
+        break
+      default:
+        break
+    }
+  }
+
+  const handleMessage = (raw, isBinary) => {
     markSocketAlive(socket)
+    if (isBinary) {
+      handleBinaryMessage(raw)
+      return
+    }
+
     let message = null
 
     try {
@@ -258,6 +469,7 @@ webSocketServer.on('connection', async (socket, request) => {
             roomId,
             sender: 'server',
             update: toBase64(Y.encodeStateAsUpdate(room.doc)),
+            role,
             awareness:
               awarenessClients.length > 0 ? toBase64(encodeAwarenessUpdate(room.awareness, awarenessClients)) : undefined,
           }),
@@ -275,6 +487,18 @@ webSocketServer.on('connection', async (socket, request) => {
         )
         break
       case 'doc-update':
+        // Viewers still sync and share presence; only their edits are refused.
+        if (role !== 'editor') {
+          socket.send(
+            JSON.stringify({
+              type: 'error',
+              roomId,
+              sender: 'server',
+              code: 'read-only',
+            }),
+          )
+          break
+        }
         Y.applyUpdate(room.doc, fromBase64(message.update), socket)
         break
       case 'awareness-update':
@@ -283,9 +507,30 @@ webSocketServer.on('connection', async (socket, request) => {
       default:
         break
     }
-  })
+  }
+
+  socket.off('message', bufferMessage)
+  socket.on('message', handleMessage)
+
+  if (binary) {
+    // y-protocols handshake: announce read-only access before any sync step,
+    // then send our state vector so the client replies with what we lack.
+    if (role !== 'editor') {
+      socket.send(encodePermissionDeniedFrame('read-only'))
+    }
+    socket.send(encodeSyncStep1Frame(room.doc))
+    const awarenessClients = Array.from(room.awareness.getStates().keys())
+    if (awarenessClients.length > 0) {
+      socket.send(encodeAwarenessFrame(encodeAwarenessUpdate(room.awareness, awarenessClients)))
+    }
+  }
+
+  earlyMessages.forEach(([raw, isBinary]) => handleMessage(raw, isBinary))
 
   socket.on('close', () => {
+    if (expiryTimer !== null) {
+      clearTimeout(expiryTimer)
+    }
     room.sockets.delete(socket)
     if (clientId !== null) {
       removeAwarenessStates(room.awareness, [clientId], 'disconnect')
@@ -321,9 +566,34 @@ const heartbeatInterval =
 
 heartbeatInterval?.unref?.()
 
-server.on('upgrade', (request, socket, head) => {
+function rejectUpgrade(socket, status, reason) {
+  socket.write(
+    `HTTP/1.1 ${status} ${STATUS_CODES[status] ?? 'Error'}\r\n`
+    + 'Connection: close\r\n'
+    + 'Content-Type: text/plain; charset=utf-8\r\n'
+    + `Content-Length: ${Buffer.byteLength(reason)}\r\n\r\n${reason}`,
+  )
+  socket.destroy()
+}
+
+server.on('upgrade', async (request, socket, head) => {
+  let access
+
+  try {
+    access = await auth.authorize(request, getRoomId(request))
+  } catch (error) {
+    console.error('Failed to authorize collaboration socket', error)
+    rejectUpgrade(socket, 500, 'authorization-failed')
+    return
+  }
+
+  if (!access.ok) {
+    rejectUpgrade(socket, access.status, access.reason)
+    return
+  }
+
   webSocketServer.handleUpgrade(request, socket, head, (webSocket) => {
-    webSocketServer.emit('connection', webSocket, request)
+    webSocketServer.emit('connection', webSocket, request, access)
   })
 })
 
@@ -331,6 +601,7 @@ server.on('listening', () => {
   console.log(`Yjs collaboration relay listening on ws://${host}:${port}`)
   console.log(`Health check available at http://${host}:${port}/healthz`)
   console.log(`Persistence driver: ${storage.driver}`)
+  console.log(`Room auth: ${auth.mode}`)
 })
 
 async function closeStorage() {
@@ -3,6 +3,12 @@ import axios from 'axios';
 // Same-origin in dev: Vite proxies /trackables and /media to Django.
 export const http = axios.create({ baseURL: '/' });
 
+/** Pre-cut image pyramid: a Deep Zoom descriptor or a IIIF Image API info.json. */
+export interface AssetTileSource {
+  type: 'dzi' | 'iiif';
+  url: string;
+}
+
 export interface AssetSummary {
   id: number;
   code: string;
@@ -12,6 +18,8 @@ export interface AssetSummary {
   file_path: string;
   thumbnails: Record<string, string>;
   placeholder: string;
+  // Pre-cut Deep Zoom pyramid for images too large to decode whole; null otherwise.
+  tile_source?: AssetTileSource | null;
   width: number | null;
   height: number | null;
   // Video-only fields (null for images); used to seed the frame-accurate viewer.
@@ -25,6 +33,9 @@ export interface AssetSummary {
   project_code: string;
   created_at: string;
   latest_version_number: number | null;
+  // Open review notes on the asset's annotations, and per pinned version ("3" → count).
+  open_notes?: number;
+  open_notes_by_version?: Record<string, number>;
 }
 
 export interface FacetValue {
@@ -1,4 +1,4 @@
-import { http, type AssetSummary } from './library';
+import { http, type AssetSummary, type AssetTileSource } from './library';
 
 // -- version history ----------------------------------------------------------
 
@@ -10,6 +10,7 @@ export interface VersionNode {
   content_hash: string;
   file_path: string;
   thumbnails: Record<string, string>;
+  tile_source?: AssetTileSource | null;
   symlinks: string[];
   intentId: string | null;
 }
@@ -105,8 +106,11 @@ export interface DiscussionSummary {
   title: string;
   status: string;
   comment_count?: number;
+  tags?: string[];
 }
 
+export type DiscussionStatus = 'open' | 'in_progress' | 'resolved' | 'closed';
+
 export interface CommentNode {
   id: number;
   content: string;
@@ -125,12 +129,24 @@ export async function getAssetDiscussions(assetId: number): Promise<DiscussionSu
 export async function createDiscussion(
   assetId: number,
   title: string,
+  tags?: string[],
 ): Promise<DiscussionSummary> {
   const { data } = await http.post('/discussions/api/discussions/', {
     title,
     discussion_type: 'review',
     versioned_entity_id: assetId,
     created_by: 'dev',
+    ...(tags ? { tags } : {}),
+  });
+  return data;
+}
+
+export async function changeDiscussionStatus(
+  discussionId: number,
+  status: DiscussionStatus,
+): Promise<DiscussionSummary> {
+  const { data } = await http.post(`/discussions/api/discussions/${discussionId}/change_status/`, {
+    status,
   });
   return data;
 }
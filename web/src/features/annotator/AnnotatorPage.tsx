@@ -9,7 +9,15 @@ import {
   DEFAULT_FREEHAND_PIPELINE_OPTIONS,
   type FreehandPipelineOptions,
 } from './core/annotations/freehandPipeline'
+import {
+  buildAnnotationExportFile,
+  importAnnotationsIntoStore,
+  parseAnnotationExchangeFile,
+  type AnnotationExchangeFormat,
+  type AnnotationExportFile,
+} from './core/annotations/exchange'
 import { framePointToWorld } from './core/annotations/geometry'
+import { getReviewSummary } from './core/annotations/review'
 import type {
   AnnotationDocumentSnapshot,
   AnnotationEntity,
@@ -17,11 +25,13 @@ import type {
   CollaborationProfile,
   ParticipantState,
 } from './core/annotations/types'
-import { BroadcastCollaborationRoom } from './core/collaboration/broadcast'
+import { BroadcastCollaborationRoom, type CollaborationStatus } from './core/collaboration/broadcast'
 import type { ViewerAdapter } from './core/viewers/adapters'
 import type { VideoViewerAdapter } from './core/viewers/videoAdapter'
+import { parseEditorialTimeline } from './core/viewers/editorialTimeline'
 import {
   getAsset,
+  getCollabToken,
   getEraseStatus,
   getInpaintStatus,
   getOrCreateAnnotationDoc,
@@ -48,10 +58,16 @@ import { computeMaskBounds } from './maskBounds'
 import { MaskLayersPanel } from './components/MaskLayersPanel'
 import { MaskLayerDetailPanel } from './components/MaskLayerDetailPanel'
 import { RenderHistoryPanel } from './components/RenderHistoryPanel'
+import { DocumentHistoryPanel } from './components/DocumentHistoryPanel'
+import { AnnotationThreadsPanel } from './components/AnnotationThreadsPanel'
+import { CarryForwardPanel } from './components/CarryForwardPanel'
 import { DEFAULT_LAYER_ID } from './core/annotations/types'
 import type { AnnotationLayer, LayerOp, LayerOpType } from './core/annotations/types'
+import { registerStudioStamps } from './stamps/studioStamps'
 import './annotator.css'
 
+registerStudioStamps()
+
 const PROFILE_COLORS = ['#5eead4', '#f97316', '#60a5fa', '#f472b6', '#a78bfa', '#facc15']
 // Live-inpaint pacing: debounce after stroke commit, then poll the dispatch.
 // 500ms polling (not tighter) — inference is ≥1.5s so faster polling only adds chatter.
@@ -132,6 +148,16 @@ function loadImageSize(url: string): Promise<{ width: number; height: number } |
   })
 }
 
+function downloadExportFile(file: AnnotationExportFile) {
+  const blob = new Blob([file.contents], { type: file.mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = file.filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
 function fromBase64(serialized: string) {
   const binary = atob(serialized)
   return Uint8Array.from(binary, (character) => character.charCodeAt(0))
@@ -204,7 +230,7 @@ export default function AnnotatorPage({ params }: { params: { code: string; asse
       ? versionHistoryQuery.data?.versions.find((v) => v.version_number === pinnedVersionNumber)
       : undefined
   const asset = pinnedVersion
-    ? { ...assetQuery.data, file_path: pinnedVersion.file_path }
+    ? { ...assetQuery.data, file_path: pinnedVersion.file_path, tile_source: pinnedVersion.tile_source ?? null }
     : assetQuery.data
 
   return (
@@ -234,14 +260,20 @@ function AnnotatorWorkspace({
   )
   const [snapshot, setSnapshot] = useState<AnnotationDocumentSnapshot | null>(null)
   const [participants, setParticipants] = useState<ParticipantState[]>([])
+  const [collaborationStatus, setCollaborationStatus] = useState<CollaborationStatus | null>(null)
   const [activeTool, setActiveTool] = useState<AnnotationTool>('select')
-  const [selectedId, setSelectedId] = useState<string>()
+  // Multi-selection in pick order; the last id is the primary selection.
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
   const [textValue] = useState('Note')
-  const [freehandPipelineOptions] = useState<FreehandPipelineOptions>(
+  const [freehandPipelineOptions, setFreehandPipelineOptions] = useState<FreehandPipelineOptions>(
     DEFAULT_FREEHAND_PIPELINE_OPTIONS,
   )
   const [saveState, setSaveState] = useState<'idle' | 'saving' | 'saved'>('idle')
   const [snapshotState, setSnapshotState] = useState<'idle' | 'working' | string>('idle')
+  const [exchangeState, setExchangeState] = useState<'idle' | string>('idle')
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const [cutState, setCutState] = useState<'idle' | string>('idle')
+  const cutInputRef = useRef<HTMLInputElement>(null)
   const [annotatorMode, setAnnotatorMode] = useState<'annotate' | 'mask'>('annotate')
   const [activeMaskLayerId, setActiveMaskLayerId] = useState<string | null>(null)
   const [maskGenerateState, setMaskGenerateState] = useState<Record<string, 'idle' | 'working' | string>>({})
@@ -366,6 +398,9 @@ function AnnotatorWorkspace({
   const maskSessionRef = useRef<Record<string, { spanStart: number; spanEnd: number }>>({})
   // Sidebar tab below the layers list: parameter controls vs render history.
   const [sidebarTab, setSidebarTab] = useState<'params' | 'history'>('params')
+  const [isDocumentHistoryOpen, setIsDocumentHistoryOpen] = useState(false)
+  const [isThreadsOpen, setIsThreadsOpen] = useState(false)
+  const [isCarryForwardOpen, setIsCarryForwardOpen] = useState(false)
   const [previewMode, setPreviewMode] = useState(false)
   const [imageDims, setImageDims] = useState<{ width: number; height: number } | null>(null)
   const [liveGenEnabled, setLiveGenEnabled] = useState(false)
@@ -548,11 +583,14 @@ function AnnotatorWorkspace({
     let disposed = false
     let unsubStore = () => {}
     let unsubParticipants = () => {}
+    let unsubStatus = () => {}
 
-    const room = new BroadcastCollaborationRoom(doc.room_id, profile)
+    const room = new BroadcastCollaborationRoom(doc.room_id, profile, {
+      getAuthToken: () => getCollabToken(doc.id),
+    })
     if (doc.doc_state) {
       try {
-        Y.applyUpdate(room.doc, fromBase64(doc.doc_state), 'server-hydrate')
+        room.hydrateFromServer(fromBase64(doc.doc_state))
       } catch {
         // ignore malformed persisted state
       }
@@ -568,6 +606,8 @@ function AnnotatorWorkspace({
       setParticipants(room.getParticipants())
       unsubStore = room.store.subscribe(() => setSnapshot(room.store.getSnapshot()))
       unsubParticipants = room.subscribeParticipants(() => setParticipants(room.getParticipants()))
+      setCollaborationStatus(room.getStatus())
+      unsubStatus = room.subscribeStatus(() => setCollaborationStatus(room.getStatus()))
     }
 
     // Viewer selection (and lazy-loading the heavy three.js adapter) lives in the
@@ -580,11 +620,12 @@ function AnnotatorWorkspace({
       disposed = true
       unsubStore()
       unsubParticipants()
+      unsubStatus()
       room.destroy()
       setEngine(null)
       setSnapshot(null)
     }
-  }, [asset, doc.room_id, doc.doc_state, profile])
+  }, [asset, doc.id, doc.room_id, doc.doc_state, profile])
 
   // Rehydrate mask layers + timeline from the video's persisted TRACKS on load.
   // Layer ids in the Yjs doc churn across sessions, so a track keyed by an old
@@ -792,8 +833,9 @@ function AnnotatorWorkspace({
     .sort((a, b) => (b.order ?? 0) - (a.order ?? 0))
     .map((l) => ({ layerId: l.id, ...layerRenderMap[l.id] }))
 
-  const selectedAnnotation = snapshot.annotations.find((annotation) => annotation.id === selectedId)
-  const activeSelectionId = selectedAnnotation ? selectedAnnotation.id : undefined
+  const annotationIds = new Set(snapshot.annotations.map((annotation) => annotation.id))
+  const activeSelectionIds = selectedIds.filter((id) => annotationIds.has(id))
+  const activeSelectionId = activeSelectionIds.at(-1)
 
   function handleSelectMaskLayer(id: string) {
     setActiveMaskLayerId(id)
@@ -2268,10 +2310,19 @@ function AnnotatorWorkspace({
     }
   }
 
+  /** Keep the image size with the doc so notes carried to other versions can be refitted. */
+  function recordImageSize() {
+    const size = adapter.space === 'image2d' ? adapter.getImageSize?.() : undefined
+    if (size) {
+      room.store.setImageSize(size)
+    }
+  }
+
   async function handleSaveSnapshot() {
     setSaveState('saving')
     try {
-      await saveDocState(doc.id, toBase64(Y.encodeStateAsUpdate(room.doc)))
+      recordImageSize()
+      await saveDocState(doc.id, toBase64(Y.encodeStateAsUpdate(room.doc)), getReviewSummary(room.store.getSnapshot().annotations))
       setSaveState('saved')
       window.setTimeout(() => setSaveState('idle'), 1500)
     } catch {
@@ -2283,7 +2334,8 @@ function AnnotatorWorkspace({
     setSnapshotState('working')
     try {
       // Persist current state first so the published version reflects the live doc.
-      await saveDocState(doc.id, toBase64(Y.encodeStateAsUpdate(room.doc)))
+      recordImageSize()
+      await saveDocState(doc.id, toBase64(Y.encodeStateAsUpdate(room.doc)), getReviewSummary(room.store.getSnapshot().annotations))
       const result = await snapshotAnnotationDoc(doc.id)
       setSnapshotState(`Published v${result.version_number}`)
       window.setTimeout(() => setSnapshotState('idle'), 2500)
@@ -2292,6 +2344,64 @@ function AnnotatorWorkspace({
     }
   }
 
+  function handleExportAnnotations(format: AnnotationExchangeFormat) {
+    const media = isVideo ? (adapter as VideoViewerAdapter).getMediaState() : null
+    downloadExportFile(
+      buildAnnotationExportFile(room.store.getSnapshot(), format, `${asset.name}-annotations`, {
+        targetId: adapter.targetId,
+        assetId: asset.id,
+        width: asset.width ?? undefined,
+        height: asset.height ?? undefined,
+        ...(media ? { playlist: media.playlist, frameRate: media.frameRate, timelineName: asset.name } : {}),
+      }),
+    )
+  }
+
+  /** Load an EDL or OTIO cut, with any media files picked alongside it, into the video playlist. */
+  async function handleImportCut(files: File[]) {
+    const video = adapter as VideoViewerAdapter
+    const cutFile = files.find((file) => /\.(edl|otio)$/i.test(file.name))
+    if (!cutFile) {
+      setCutState('Pick an .edl or .otio file')
+    } else {
+      try {
+        const timeline = parseEditorialTimeline(await cutFile.text(), cutFile.name, {
+          frameRate: video.getMediaState().frameRate,
+        })
+        const result = video.loadCut(timeline, files.filter((file) => file !== cutFile))
+        result.missing.forEach((name) => console.warn('No media found for cut clip', name))
+        setCutState(
+          result.missing.length > 0
+            ? `${result.loaded} clips · ${result.missing.length} missing media`
+            : `${result.loaded} clips`,
+        )
+      } catch (error) {
+        console.warn('Could not import cut', error)
+        setCutState('Cut import failed')
+      }
+    }
+    window.setTimeout(() => setCutState('idle'), 2500)
+  }
+
+  async function handleImportAnnotations(file: File) {
+    const result = parseAnnotationExchangeFile(await file.text(), {
+      targetId: adapter.targetId,
+      frameRate: isVideo ? (adapter as VideoViewerAdapter).getMediaState().frameRate : undefined,
+    })
+    const summary = importAnnotationsIntoStore(room.store, result, { assetId: asset.id })
+    summary.errors.forEach((error) => {
+      console.warn('Skipped imported annotation', error.id ?? error.index, error.errors)
+    })
+    setExchangeState(
+      [
+        `Imported ${summary.imported}`,
+        summary.remapped > 0 ? `${summary.remapped} given new ids` : '',
+        summary.errors.length > 0 ? `${summary.errors.length} rejected` : '',
+      ].filter(Boolean).join(' · '),
+    )
+    window.setTimeout(() => setExchangeState('idle'), 2500)
+  }
+
   return (
     <div className="annotator-page">
       <header className="annotator-page__header">
@@ -2303,6 +2413,9 @@ function AnnotatorWorkspace({
               : isVideo
                 ? `Video annotation · ${asset.width ?? '?'} × ${asset.height ?? '?'}${asset.fps ? ` · ${asset.fps.toFixed(2)} fps` : ''}`
                 : `Image annotation · ${asset.width ?? '?'} × ${asset.height ?? '?'}`}
+            {snapshot.readOnly
+              ? ` · Read-only: saved by a newer version of the annotator (schema v${snapshot.schemaVersion})`
+              : ''}
           </span>
         </div>
         <div className="annotator-page__participants">
@@ -2315,6 +2428,16 @@ function AnnotatorWorkspace({
               {participant.name}
             </span>
           ))}
+          {collaborationStatus?.unsyncedChanges ? (
+            <span
+              className="annotator-page__sync-indicator"
+              title={collaborationStatus.persistenceState === 'ready'
+                ? 'Edits are saved in this browser and will sync when the relay reconnects'
+                : 'Edits have not reached the relay yet'}
+            >
+              Unsynced changes
+            </span>
+          ) : null}
         </div>
         <div className="annotator-page__actions">
           <button className="annotator-page__action" onClick={handleSaveSnapshot}>
@@ -2330,6 +2453,79 @@ function AnnotatorWorkspace({
                 ? 'Publish version'
                 : snapshotState}
           </button>
+          <button
+            className={
+              'annotator-page__action' +
+              (isDocumentHistoryOpen ? ' annotator-page__action--active' : '')
+            }
+            onClick={() => setIsDocumentHistoryOpen((open) => !open)}
+          >
+            History
+          </button>
+          <button
+            className={
+              'annotator-page__action' +
+              (isThreadsOpen ? ' annotator-page__action--active' : '')
+            }
+            onClick={() => setIsThreadsOpen((open) => !open)}
+          >
+            Threads
+          </button>
+          <button
+            className={
+              'annotator-page__action' +
+              (isCarryForwardOpen ? ' annotator-page__action--active' : '')
+            }
+            onClick={() => setIsCarryForwardOpen((open) => !open)}
+          >
+            Carry forward
+          </button>
+          <button className="annotator-page__action" onClick={() => handleExportAnnotations('svg')}>
+            Export SVG
+          </button>
+          <button className="annotator-page__action" onClick={() => handleExportAnnotations('web-annotation')}>
+            Export JSON-LD
+          </button>
+          {isVideo && (
+            <>
+              <button className="annotator-page__action" onClick={() => handleExportAnnotations('otio')}>
+                Export OTIO
+              </button>
+              <button className="annotator-page__action" onClick={() => cutInputRef.current?.click()}>
+                {cutState === 'idle' ? 'Import cut…' : cutState}
+              </button>
+              <input
+                ref={cutInputRef}
+                type="file"
+                accept=".edl,.otio,video/*"
+                multiple
+                hidden
+                onChange={(event) => {
+                  const files = Array.from(event.currentTarget.files ?? [])
+                  if (files.length > 0) void handleImportCut(files)
+                  event.currentTarget.value = ''
+                }}
+              />
+            </>
+          )}
+          <button
+            className="annotator-page__action"
+            disabled={snapshot.readOnly}
+            onClick={() => importInputRef.current?.click()}
+          >
+            {exchangeState === 'idle' ? 'Import…' : exchangeState}
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".svg,.json,.jsonld,image/svg+xml,application/json,application/ld+json"
+            hidden
+            onChange={(event) => {
+              const file = event.currentTarget.files?.[0]
+              if (file) void handleImportAnnotations(file)
+              event.currentTarget.value = ''
+            }}
+          />
           <button className="annotator-page__action" onClick={onBack}>
             ← Back
           </button>
@@ -2345,22 +2541,25 @@ function AnnotatorWorkspace({
           participants={participants}
           activeTool={activeTool}
           selectedId={activeSelectionId}
-          onSelect={setSelectedId}
+          selectedIds={activeSelectionIds}
+          onSelect={(id) => setSelectedIds(id ? [id] : [])}
+          onSelectMany={setSelectedIds}
+          groups={snapshot.groups}
           authorId={profile.id}
           authorName={profile.name}
           authorColor={profile.color}
           textValue={textValue}
           onToolChange={setActiveTool}
           freehandPipelineOptions={freehandPipelineOptions}
+          onFreehandPipelineOptionsChange={setFreehandPipelineOptions}
           onUndo={() => room.store.undo()}
           onRedo={() => room.store.redo()}
           canUndo={room.store.canUndo()}
           canRedo={room.store.canRedo()}
           onDeleteSelected={() => {
-            if (activeSelectionId) {
-              room.store.removeAnnotation(activeSelectionId)
-            }
+            room.store.removeAnnotations(activeSelectionIds)
           }}
+          readOnly={snapshot.readOnly}
           annotatorMode={annotatorMode}
           onAnnotatorModeChange={handleAnnotatorModeChange}
           activeMaskLayerId={activeMaskLayerId ?? undefined}
@@ -2561,6 +2760,45 @@ function AnnotatorWorkspace({
           </div>
           </>
         ) : null}
+        {isDocumentHistoryOpen ? (
+          <div className="annotator-page__history-sidebar">
+            <DocumentHistoryPanel
+              docId={doc.id}
+              room={room}
+              liveSnapshot={snapshot}
+              onClose={() => setIsDocumentHistoryOpen(false)}
+            />
+          </div>
+        ) : null}
+        {isThreadsOpen ? (
+          <div className="annotator-page__threads-sidebar">
+            <AnnotationThreadsPanel
+              assetId={asset.id}
+              room={room}
+              annotations={snapshot.annotations}
+              selectedId={activeSelectionId}
+              readOnly={snapshot.readOnly}
+              onJump={(annotation) => {
+                setSelectedIds([annotation.id])
+                adapter.focusAnnotation?.(annotation)
+              }}
+              onClose={() => setIsThreadsOpen(false)}
+            />
+          </div>
+        ) : null}
+        {isCarryForwardOpen ? (
+          <div className="annotator-page__carry-sidebar">
+            <CarryForwardPanel
+              assetId={asset.id}
+              docVersionNumber={doc.target_asset_version_number}
+              room={room}
+              annotations={snapshot.annotations}
+              adapter={adapter}
+              readOnly={snapshot.readOnly}
+              onClose={() => setIsCarryForwardOpen(false)}
+            />
+          </div>
+        ) : null}
       </div>
     </div>
   )
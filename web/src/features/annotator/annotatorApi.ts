@@ -1,4 +1,12 @@
 import { http, type AssetSummary } from '../../api/library'
+import {
+  addComment,
+  changeDiscussionStatus,
+  createDiscussion,
+  getAssetDiscussions,
+  type DiscussionSummary,
+} from '../../api/versions'
+import type { AnnotationReviewSummary } from './core/annotations/review'
 
 export interface AnnotationDoc {
   id: number
@@ -30,9 +38,24 @@ export async function getOrCreateAnnotationDoc(
   return data
 }
 
-/** Persist the working CRDT state (base64 Yjs update) without publishing a version. */
-export async function saveDocState(docId: number, docState: string): Promise<void> {
-  await http.patch(`/trackables/api/library/annotations/${docId}/`, { doc_state: docState })
+/** The annotation document for an asset (or one of its versions), or null when none was ever opened. */
+export async function findAnnotationDoc(assetId: number, versionNumber?: number | null): Promise<AnnotationDoc | null> {
+  const response = await http.get<AnnotationDoc>('/trackables/api/library/annotations/', {
+    params: { asset: assetId, ...(versionNumber != null ? { version_number: versionNumber } : {}) },
+    validateStatus: (status) => status === 200 || status === 404,
+  })
+  return response.status === 404 ? null : response.data
+}
+
+/**
+ * Persist the working CRDT state (base64 Yjs update) without publishing a version.
+ * The review summary is rolled up onto the asset for its "open notes" counts.
+ */
+export async function saveDocState(docId: number, docState: string, reviewSummary?: AnnotationReviewSummary): Promise<void> {
+  await http.patch(`/trackables/api/library/annotations/${docId}/`, {
+    doc_state: docState,
+    ...(reviewSummary ? { review_summary: reviewSummary } : {}),
+  })
 }
 
 /** Publish the current document state as a new immutable Version. */
@@ -45,6 +68,50 @@ export async function snapshotAnnotationDoc(
   return data
 }
 
+/** Pin the asset's unpinned doc to an asset version, freeing the unpinned slot for a newer upload. */
+export async function pinAnnotationDoc(docId: number, versionNumber: number): Promise<AnnotationDoc> {
+  const { data } = await http.post<AnnotationDoc>(`/trackables/api/library/annotations/${docId}/pin/`, {
+    version_number: versionNumber,
+  })
+  return data
+}
+
+export interface AnnotationDocVersion {
+  version_number: number
+  created_at: string
+  created_by: string | null
+  created_by_id: number | null
+}
+
+/** Published versions of a doc, newest first; `can_restore` (admins only) is a UI hint, not enforced. */
+export async function listAnnotationDocVersions(
+  docId: number,
+): Promise<{ can_restore: boolean; versions: AnnotationDocVersion[] }> {
+  const { data } = await http.get<{ can_restore: boolean; versions: AnnotationDocVersion[] }>(
+    `/trackables/api/library/annotations/${docId}/versions/`,
+  )
+  return data
+}
+
+/** One published version with its base64 Yjs doc_state. */
+export async function getAnnotationDocVersion(
+  docId: number,
+  versionNumber: number,
+): Promise<AnnotationDocVersion & { doc_state: string }> {
+  const { data } = await http.get<AnnotationDocVersion & { doc_state: string }>(
+    `/trackables/api/library/annotations/${docId}/versions/${versionNumber}/`,
+  )
+  return data
+}
+
+/** Short-lived token for the doc's collaboration relay room; null when the relay runs without auth. */
+export async function getCollabToken(docId: number): Promise<string | null> {
+  const { data } = await http.post<{ token: string | null; expires_at: number | null }>(
+    `/trackables/api/library/annotations/${docId}/collab-token/`,
+  )
+  return data.token
+}
+
 export interface SaveMaskOptions {
   annotationId?: number
   name?: string
@@ -119,6 +186,50 @@ export async function resolveNexus8Uri(uri: string): Promise<string | null> {
   }
 }
 
+export const ANNOTATION_DISCUSSION_TITLE = 'Annotation review'
+
+/** Post a comment @-mentioning participants on the asset's annotation review discussion, opening it on first use. */
+export async function notifyAnnotationMentions(
+  assetId: number,
+  names: string[],
+  excerpt: string,
+): Promise<void> {
+  const discussions = await getAssetDiscussions(assetId)
+  const discussion = discussions.find((entry) => entry.title === ANNOTATION_DISCUSSION_TITLE)
+    ?? await createDiscussion(assetId, ANNOTATION_DISCUSSION_TITLE)
+  const mentions = names.map((name) => `@${name}`).join(' ')
+  await addComment(discussion.id, excerpt ? `${mentions} mentioned in an annotation: ${excerpt}` : `${mentions} mentioned in an annotation`)
+}
+
+/** Tag that ties an asset discussion to the annotation owning it. */
+const ANNOTATION_THREAD_TAG_PREFIX = 'annotation:'
+
+/** Open a discussion on the asset for one annotation's comment thread. */
+export async function createAnnotationThread(
+  assetId: number,
+  annotationId: string,
+  title: string,
+): Promise<DiscussionSummary> {
+  return createDiscussion(assetId, title, [`${ANNOTATION_THREAD_TAG_PREFIX}${annotationId}`])
+}
+
+/** The asset's annotation threads keyed by annotation id; plain asset discussions are left out. */
+export async function getAnnotationThreadDiscussions(assetId: number): Promise<Map<string, DiscussionSummary>> {
+  const discussions = await getAssetDiscussions(assetId)
+  const byAnnotation = new Map<string, DiscussionSummary>()
+  discussions.forEach((discussion) => {
+    const tag = discussion.tags?.find((candidate) => candidate.startsWith(ANNOTATION_THREAD_TAG_PREFIX))
+    if (tag) {
+      byAnnotation.set(tag.slice(ANNOTATION_THREAD_TAG_PREFIX.length), discussion)
+    }
+  })
+  return byAnnotation
+}
+
+export async function setAnnotationThreadResolved(discussionId: number, resolved: boolean): Promise<void> {
+  await changeDiscussionStatus(discussionId, resolved ? 'resolved' : 'open')
+}
+
 /** One stored render: variation M of run N on the layer's render asset
  *  (versions × variations model — LAYER_RENDER_SCHEMA.md). Legacy responses
  *  return an AssetSummary instead; both carry file_path. */
@@ -0,0 +1,145 @@
+import * as Y from 'yjs'
+import { AnnotationDocumentStore } from './core/annotations/store'
+import { planCarryForward, type CarryForwardOptions, type ImageSize } from './core/annotations/carryForward'
+import { getReviewSummary, isOpenNote } from './core/annotations/review'
+import type { AnnotationDocumentSnapshot } from './core/annotations/types'
+import { findAnnotationDoc, getOrCreateAnnotationDoc, pinAnnotationDoc, saveDocState, type AnnotationDoc } from './annotatorApi'
+
+export interface VersionAnnotationDoc {
+  doc: AnnotationDoc
+  snapshot: AnnotationDocumentSnapshot
+  /** Image size recorded in the doc, when it was annotated in the image viewer. */
+  imageSize?: ImageSize
+}
+
+function fromBase64(serialized: string): Uint8Array {
+  const binary = atob(serialized)
+  return Uint8Array.from(binary, (character) => character.charCodeAt(0))
+}
+
+function toBase64(data: Uint8Array) {
+  let binary = ''
+  data.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary)
+}
+
+/** Hydrate a throwaway store from a doc's persisted state and hand it to `read`. */
+function withDocStore<T>(doc: AnnotationDoc, read: (store: AnnotationDocumentStore, ydoc: Y.Doc) => T): T {
+  const ydoc = new Y.Doc()
+  if (doc.doc_state) {
+    Y.applyUpdate(ydoc, fromBase64(doc.doc_state), 'server-hydrate')
+  }
+  const store = new AnnotationDocumentStore(ydoc)
+  try {
+    return read(store, ydoc)
+  } finally {
+    store.destroy()
+    ydoc.destroy()
+  }
+}
+
+/** Natural pixel size of an image, or null when it fails to load. */
+export function loadImageSize(url: string): Promise<ImageSize | null> {
+  return new Promise((resolve) => {
+    const image = new Image()
+    image.crossOrigin = 'anonymous'
+    image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight })
+    image.onerror = () => resolve(null)
+    image.src = url
+  })
+}
+
+/**
+ * The saved annotations of one asset version, or of the asset's unpinned doc (which follows
+ * the latest version) for a null version. Versions never annotated on their own can fall
+ * back to the unpinned doc.
+ */
+export async function loadVersionAnnotationDoc(
+  assetId: number,
+  versionNumber: number | null,
+  { fallbackToAssetDoc = false }: { fallbackToAssetDoc?: boolean } = {},
+): Promise<VersionAnnotationDoc | null> {
+  const pinned = await findAnnotationDoc(assetId, versionNumber)
+  const doc = pinned?.doc_state || !fallbackToAssetDoc || versionNumber == null ? pinned : await findAnnotationDoc(assetId)
+  if (!doc?.doc_state) {
+    return null
+  }
+  return withDocStore(doc, (store) => ({ doc, snapshot: store.getSnapshot(), imageSize: store.getImageSize() }))
+}
+
+/**
+ * Copy annotations from one version's doc into another version's saved doc (the unpinned
+ * doc for a null version), which is created when missing. Used where no live room is open
+ * on the target. Returns the number of annotations copied.
+ */
+export async function carryAnnotationsToVersion(
+  source: VersionAnnotationDoc,
+  assetId: number,
+  toVersion: number | null,
+  options: Omit<CarryForwardOptions, 'source' | 'existing' | 'sourceSize'>,
+): Promise<number> {
+  const target = await getOrCreateAnnotationDoc(assetId, toVersion)
+  const update = withDocStore(target, (store, ydoc) => {
+    const plan = planCarryForward(source.snapshot, {
+      ...options,
+      source: { docId: source.doc.id, versionNumber: source.doc.target_asset_version_number },
+      existing: store.getSnapshot().annotations,
+      sourceSize: source.imageSize,
+      targetSize: options.targetSize ?? store.getImageSize(),
+    })
+    if (plan.annotations.length === 0) {
+      return null
+    }
+    const existingLayerIds = new Set(store.getSnapshot().layers.map((layer) => layer.id))
+    ydoc.transact(() => {
+      plan.layers.filter((layer) => !existingLayerIds.has(layer.id)).forEach((layer) => store.upsertLayer(layer))
+      plan.annotations.forEach((annotation) => store.upsertAnnotation(annotation))
+      if (options.targetSize) {
+        store.setImageSize(options.targetSize)
+      }
+    })
+    return {
+      count: plan.annotations.length,
+      state: toBase64(Y.encodeStateAsUpdate(ydoc)),
+      summary: getReviewSummary(store.getSnapshot().annotations),
+    }
+  })
+  if (!update) {
+    return 0
+  }
+  await saveDocState(target.id, update.state, update.summary)
+  return update.count
+}
+
+/**
+ * Copy the open notes of `fromVersion` onto a newly uploaded latest version, refitted to
+ * the new image size when both sizes are known. They land in the unpinned doc, which the
+ * annotator opens for the latest version. When `fromVersion` was itself annotated in the
+ * unpinned doc, that doc is first pinned to it, so its notes stay with the image they were
+ * drawn on and the new version starts from a fresh unpinned doc. Notes already carried
+ * are not copied twice.
+ */
+export async function carryOpenNotesForward(
+  assetId: number,
+  fromVersion: number,
+  targetSize?: ImageSize | null,
+): Promise<number> {
+  let source = await loadVersionAnnotationDoc(assetId, fromVersion)
+  if (!source) {
+    const unpinned = await loadVersionAnnotationDoc(assetId, null)
+    if (!unpinned?.snapshot.annotations.some(isOpenNote)) {
+      return 0
+    }
+    source = { ...unpinned, doc: await pinAnnotationDoc(unpinned.doc.id, fromVersion) }
+  }
+  if (!source.snapshot.annotations.some(isOpenNote)) {
+    return 0
+  }
+  return carryAnnotationsToVersion(source, assetId, null, {
+    include: isOpenNote,
+    reprojection: 'fit',
+    targetSize,
+  })
+}
@@ -8,6 +8,7 @@ import {
   MantineProvider,
   NumberInput,
   Paper,
+  Select,
   Slider,
   Stack,
   Switch,
@@ -15,11 +16,26 @@ import {
   TextInput,
   Textarea,
 } from '@mantine/core'
-import type { AnnotationEntity } from '../core/annotations/types'
+import type { AnnotationEntity, ExtensionGeometry, ParticipantState } from '../core/annotations/types'
+import { isExtensionGeometryKind } from '../core/annotations/types'
+import {
+  createMentionMarkdown,
+  getGeometryRichText,
+  getRichTextLinks,
+  isRichTextGeometry,
+  parseRichTextMarkdown,
+  serializeRichTextMarkdown,
+  setGeometryRichText,
+} from '../core/annotations/richText'
+import { REVIEW_STATUSES, REVIEW_STATUS_LABELS, getReviewStatus } from '../core/annotations/review'
+import { resolveNexus8Uri } from '../annotatorApi'
 import type { ViewportSize } from '../core/viewers/adapters'
+import { getAnnotationToolRegistration, type AnnotationEditorField } from './annotationToolRegistry'
 interface AnnotationMantineEditorProps {
   annotation: AnnotationEntity
   viewport: ViewportSize
+  /** People in the room, offered by the mention picker. */
+  participants?: ParticipantState[]
   onClose: () => void
   onUpdate: (annotation: AnnotationEntity) => void
   onMoveBackward?: () => void
@@ -30,10 +46,9 @@ interface AnnotationMantineEditorProps {
   inlineAvailable?: boolean
 }
 
-type TextAnnotation = AnnotationEntity & { geometry: Extract<AnnotationEntity['geometry'], { kind: 'text' }> }
-type CardAnnotation = AnnotationEntity & { geometry: Extract<AnnotationEntity['geometry'], { kind: 'card' }> }
 type ListAnnotation = AnnotationEntity & { geometry: Extract<AnnotationEntity['geometry'], { kind: 'list' }> }
 type GridAnnotation = AnnotationEntity & { geometry: Extract<AnnotationEntity['geometry'], { kind: 'grid' }> }
+type ExtensionAnnotation = AnnotationEntity & { geometry: ExtensionGeometry }
 
 function getOverlayPosition(viewport: ViewportSize) {
   const width = Math.min(340, Math.max(260, viewport.width - 24))
@@ -51,6 +66,7 @@ function getOverlayPosition(viewport: ViewportSize) {
 function AnnotationMantineEditor({
   annotation,
   viewport,
+  participants = [],
   onClose,
   onUpdate,
   onMoveBackward,
@@ -61,10 +77,62 @@ function AnnotationMantineEditor({
   inlineAvailable = false,
 }: AnnotationMantineEditorProps) {
   const overlay = useMemo(() => getOverlayPosition(viewport), [viewport])
-  const textAnnotation = annotation.geometry.kind === 'text' ? (annotation as TextAnnotation) : null
-  const cardAnnotation = annotation.geometry.kind === 'card' ? (annotation as CardAnnotation) : null
   const listAnnotation = annotation.geometry.kind === 'list' ? (annotation as ListAnnotation) : null
   const gridAnnotation = annotation.geometry.kind === 'grid' ? (annotation as GridAnnotation) : null
+  const extensionAnnotation = isExtensionGeometryKind(annotation.geometry.kind) ? (annotation as ExtensionAnnotation) : null
+  const toolRegistration = extensionAnnotation ? getAnnotationToolRegistration(extensionAnnotation.geometry.kind) : undefined
+
+  const richGeometry = isRichTextGeometry(annotation.geometry) ? annotation.geometry : null
+  const richMarkdown = richGeometry ? serializeRichTextMarkdown(getGeometryRichText(richGeometry)) : ''
+  const richLinks = richGeometry ? getRichTextLinks(richGeometry.rich) : []
+
+  const updateRichMarkdown = (markdown: string) => {
+    if (!richGeometry) {
+      return
+    }
+    onUpdate({ ...annotation, geometry: setGeometryRichText(richGeometry, parseRichTextMarkdown(markdown)) })
+  }
+
+  const openRichLink = (href: string) => {
+    resolveNexus8Uri(href).then((url) => {
+      if (url) {
+        window.open(url, '_blank', 'noopener')
+      } else {
+        console.warn('Could not resolve annotation link', href)
+      }
+    })
+  }
+
+  const reviewStatus = getReviewStatus(annotation)
+  const assigneeOptions = participants.map((participant) => ({ value: participant.id, label: participant.name }))
+  if (annotation.review?.assigneeId && !participants.some((participant) => participant.id === annotation.review?.assigneeId)) {
+    assigneeOptions.push({ value: annotation.review.assigneeId, label: annotation.review.assigneeName ?? annotation.review.assigneeId })
+  }
+
+  const updateAssignee = (id: string | null) => {
+    const participant = participants.find((candidate) => candidate.id === id)
+    onUpdate({
+      ...annotation,
+      review: {
+        status: reviewStatus,
+        assigneeId: id ?? undefined,
+        assigneeName: participant?.name ?? (id === annotation.review?.assigneeId ? annotation.review?.assigneeName : undefined),
+      },
+    })
+  }
+
+  const updateExtensionField = (field: AnnotationEditorField, value: string) => {
+    if (!extensionAnnotation) {
+      return
+    }
+    onUpdate({
+      ...extensionAnnotation,
+      geometry: {
+        ...extensionAnnotation.geometry,
+        fields: { ...extensionAnnotation.geometry.fields, [field.key]: value },
+      },
+    })
+  }
 
   return (
     <MantineProvider defaultColorScheme="dark">
@@ -87,7 +155,7 @@ function AnnotationMantineEditor({
                 2D Editor
               </Text>
               <Text size="sm" fw={700} c="white">
-                {annotation.geometry.kind}
+                {toolRegistration?.label ?? annotation.geometry.kind}
               </Text>
             </div>
             <Group gap="xs">
@@ -111,64 +179,58 @@ function AnnotationMantineEditor({
             </Button>
           </Group>
 
-          {textAnnotation ? (
-            <Textarea
-              label="Text"
-              autosize
-              minRows={3}
-              value={textAnnotation.geometry.text}
-              onChange={(event) => onUpdate({
-                ...textAnnotation,
-                geometry: {
-                  ...textAnnotation.geometry,
-                  text: event.currentTarget.value,
-                },
-              })}
-            />
-          ) : null}
-
-          {cardAnnotation ? (
-            <Textarea
-              label="Body"
-              autosize
-              minRows={5}
-              value={cardAnnotation.geometry.body.join('\n')}
+          {listAnnotation ? (
+            <TextInput
+              label="Title"
+              value={listAnnotation.geometry.title}
               onChange={(event) => onUpdate({
-                ...cardAnnotation,
+                ...listAnnotation,
                 geometry: {
-                  ...cardAnnotation.geometry,
-                  body: event.currentTarget.value.split('\n'),
+                  ...listAnnotation.geometry,
+                  title: event.currentTarget.value,
                 },
               })}
             />
           ) : null}
 
-          {listAnnotation ? (
+          {richGeometry ? (
             <>
-              <TextInput
-                label="Title"
-                value={listAnnotation.geometry.title}
-                onChange={(event) => onUpdate({
-                  ...listAnnotation,
-                  geometry: {
-                    ...listAnnotation.geometry,
-                    title: event.currentTarget.value,
-                  },
-                })}
-              />
               <Textarea
-                label="Items"
+                label={richGeometry.kind === 'text' ? 'Text' : richGeometry.kind === 'card' ? 'Body' : 'Items'}
+                description="**bold**, *italic*, [text]{color=#f97316}, [label](nexus8://…), - bullets"
                 autosize
-                minRows={4}
-                value={listAnnotation.geometry.items.join('\n')}
-                onChange={(event) => onUpdate({
-                  ...listAnnotation,
-                  geometry: {
-                    ...listAnnotation.geometry,
-                    items: event.currentTarget.value.split('\n'),
-                  },
-                })}
+                minRows={richGeometry.kind === 'card' ? 5 : richGeometry.kind === 'list' ? 4 : 3}
+                value={richMarkdown}
+                onChange={(event) => updateRichMarkdown(event.currentTarget.value)}
               />
+              {participants.length > 0 ? (
+                <Select
+                  placeholder="Mention a participant"
+                  data={participants.map((participant) => ({ value: participant.id, label: participant.name }))}
+                  value={null}
+                  searchable
+                  onChange={(id) => {
+                    const participant = participants.find((candidate) => candidate.id === id)
+                    if (participant) {
+                      updateRichMarkdown(`${richMarkdown}${richMarkdown && !/\s$/.test(richMarkdown) ? ' ' : ''}${createMentionMarkdown(participant)} `)
+                    }
+                  }}
+                />
+              ) : null}
+              {richLinks.length > 0 ? (
+                <Stack gap={4}>
+                  {richLinks.map((link, index) => (
+                    <Group key={`${link.href}-${index}`} justify="space-between" wrap="nowrap" gap="xs">
+                      <Text size="xs" c="dimmed" truncate>
+                        {link.label}
+                      </Text>
+                      <Button variant="subtle" color="cyan" size="compact-xs" onClick={() => openRichLink(link.href)}>
+                        Open
+                      </Button>
+                    </Group>
+                  ))}
+                </Stack>
+              ) : null}
             </>
           ) : null}
 
@@ -218,8 +280,69 @@ function AnnotationMantineEditor({
             </>
           ) : null}
 
+          {extensionAnnotation && toolRegistration ? toolRegistration.editorFields.map((field) => {
+            const value = extensionAnnotation.geometry.fields[field.key] ?? ''
+            switch (field.input) {
+              case 'select':
+                return (
+                  <Select
+                    key={field.key}
+                    label={field.label}
+                    data={field.options}
+                    value={value}
+                    allowDeselect={false}
+                    onChange={(next) => updateExtensionField(field, next ?? value)}
+                  />
+                )
+              case 'textarea':
+                return (
+                  <Textarea
+                    key={field.key}
+                    label={field.label}
+                    autosize
+                    minRows={3}
+                    value={value}
+                    onChange={(event) => updateExtensionField(field, event.currentTarget.value)}
+                  />
+                )
+              case 'text':
+                return (
+                  <TextInput
+                    key={field.key}
+                    label={field.label}
+                    value={value}
+                    onChange={(event) => updateExtensionField(field, event.currentTarget.value)}
+                  />
+                )
+            }
+          }) : null}
+
           <Divider color="rgba(148, 163, 184, 0.18)" />
 
+          <Group grow align="start">
+            <Select
+              label="Review status"
+              data={REVIEW_STATUSES.map((status) => ({ value: status, label: REVIEW_STATUS_LABELS[status] }))}
+              value={reviewStatus}
+              allowDeselect={false}
+              onChange={(status) => {
+                const next = REVIEW_STATUSES.find((candidate) => candidate === status)
+                if (next) {
+                  onUpdate({ ...annotation, review: { ...annotation.review, status: next } })
+                }
+              }}
+            />
+            <Select
+              label="Assignee"
+              placeholder="Unassigned"
+              data={assigneeOptions}
+              value={annotation.review?.assigneeId ?? null}
+              searchable
+              clearable
+              onChange={updateAssignee}
+            />
+          </Group>
+
           <Group grow align="start">
             <ColorInput
               label="Stroke"
@@ -320,6 +443,7 @@ const MemoizedAnnotationMantineEditor = memo(AnnotationMantineEditor, (previousP
   previousProps.annotation === nextProps.annotation
   && previousProps.viewport.width === nextProps.viewport.width
   && previousProps.viewport.height === nextProps.viewport.height
+  && previousProps.participants === nextProps.participants
   && previousProps.canMoveBackward === nextProps.canMoveBackward
   && previousProps.canMoveForward === nextProps.canMoveForward
   && previousProps.inlineAvailable === nextProps.inlineAvailable
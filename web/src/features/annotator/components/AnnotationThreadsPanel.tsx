@@ -0,0 +1,282 @@
+import { useEffect, useMemo, useState } from 'react'
+import { addComment, getComments, type CommentNode, type DiscussionSummary } from '../../../api/versions'
+import {
+  createAnnotationThread,
+  getAnnotationThreadDiscussions,
+  setAnnotationThreadResolved,
+} from '../annotatorApi'
+import { getGeometryRichText, isRichTextGeometry, richTextToPlainLines } from '../core/annotations/richText'
+import type { AnnotationEntity, AnnotationThread } from '../core/annotations/types'
+import type { BroadcastCollaborationRoom } from '../core/collaboration/broadcast'
+
+interface Props {
+  assetId: number
+  room: BroadcastCollaborationRoom
+  annotations: AnnotationEntity[]
+  selectedId?: string
+  readOnly?: boolean
+  /** Select the annotation and bring it into view (its video frame or 3D camera). */
+  onJump: (annotation: AnnotationEntity) => void
+  onClose: () => void
+}
+
+function countComments(comments: CommentNode[]): number {
+  return comments.reduce((total, comment) => total + 1 + countComments(comment.replies ?? []), 0)
+}
+
+function formatTimestamp(value: string) {
+  return new Date(value).toLocaleString()
+}
+
+/** A short name for the shape: its title or first line of text, else its kind. */
+function describeAnnotation(annotation: AnnotationEntity) {
+  const geometry = annotation.geometry
+  const text = isRichTextGeometry(geometry)
+    ? richTextToPlainLines(getGeometryRichText(geometry)).find((line) => line.trim())
+    : undefined
+  const title = geometry.kind === 'list' || geometry.kind === 'grid' ? geometry.title : ''
+  return (title || text || geometry.kind).trim().slice(0, 80)
+}
+
+function CommentItem({ comment, depth = 0 }: { comment: CommentNode; depth?: number }) {
+  return (
+    <li className="annotation-threads-panel__comment" style={{ marginLeft: depth * 12 }}>
+      <span className="annotation-threads-panel__comment-meta">
+        {comment.author} · {formatTimestamp(comment.created_at)}
+      </span>
+      <span className="annotation-threads-panel__comment-body">{comment.content}</span>
+      {comment.replies && comment.replies.length > 0 ? (
+        <ul className="annotation-threads-panel__comments">
+          {comment.replies.map((reply) => (
+            <CommentItem key={reply.id} comment={reply} depth={depth + 1} />
+          ))}
+        </ul>
+      ) : null}
+    </li>
+  )
+}
+
+/**
+ * Comment threads anchored to shapes. Lists the asset's open threads (resolved ones on
+ * request), jumps to a thread's shape, and shows, answers, resolves or reopens the thread
+ * of the selected shape. Status and reply count are mirrored onto the annotation for the
+ * canvas badges; the comments themselves stay in the discussions API.
+ */
+export function AnnotationThreadsPanel({ assetId, room, annotations, selectedId, readOnly = false, onJump, onClose }: Props) {
+  const [discussions, setDiscussions] = useState<Map<string, DiscussionSummary>>(new Map())
+  const [showResolved, setShowResolved] = useState(false)
+  const [comments, setComments] = useState<CommentNode[] | null>(null)
+  const [draft, setDraft] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const selected = annotations.find((annotation) => annotation.id === selectedId)
+  const selectedThread = selected?.thread
+  const threaded = useMemo(
+    () => annotations.filter((annotation) => annotation.thread && (showResolved || annotation.thread.status === 'open')),
+    [annotations, showResolved],
+  )
+
+  useEffect(() => {
+    let cancelled = false
+    getAnnotationThreadDiscussions(assetId).then(
+      (byAnnotation) => {
+        if (!cancelled) {
+          setDiscussions(byAnnotation)
+        }
+      },
+      (loadError) => console.warn('Failed to list annotation threads', loadError),
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [assetId])
+
+  const selectedDiscussionId = selectedThread?.discussionId
+  useEffect(() => {
+    if (selectedDiscussionId === undefined) {
+      return
+    }
+    let cancelled = false
+    getComments(selectedDiscussionId).then(
+      (loaded) => {
+        if (cancelled) {
+          return
+        }
+        setComments(loaded)
+        // Replies posted elsewhere (another client or the asset page) refresh the badge.
+        const current = selectedId ? room.store.getAnnotation(selectedId) : undefined
+        const replyCount = countComments(loaded)
+        if (!readOnly && current?.thread && current.thread.replyCount !== replyCount) {
+          room.store.setAnnotationThread(current.id, { ...current.thread, replyCount })
+        }
+      },
+      (loadError) => {
+        console.warn('Failed to load annotation thread comments', loadError)
+        if (!cancelled) {
+          setError('Could not load this thread')
+        }
+      },
+    )
+    return () => {
+      cancelled = true
+      setComments(null)
+      setError(null)
+    }
+  }, [readOnly, room, selectedDiscussionId, selectedId])
+
+  function updateThread(annotation: AnnotationEntity, thread: AnnotationThread) {
+    room.store.setAnnotationThread(annotation.id, thread)
+  }
+
+  async function handleSubmit() {
+    const content = draft.trim()
+    if (!selected || !content) {
+      return
+    }
+    setBusy(true)
+    setError(null)
+    try {
+      if (selectedThread) {
+        await addComment(selectedThread.discussionId, content)
+        const loaded = await getComments(selectedThread.discussionId)
+        setComments(loaded)
+        updateThread(selected, { ...selectedThread, replyCount: countComments(loaded) })
+      } else {
+        const discussion = await createAnnotationThread(assetId, selected.id, `Annotation: ${describeAnnotation(selected)}`)
+        await addComment(discussion.id, content)
+        setDiscussions((previous) => new Map(previous).set(selected.id, discussion))
+        updateThread(selected, { discussionId: discussion.id, status: 'open', replyCount: 1 })
+      }
+      setDraft('')
+    } catch (submitError) {
+      console.warn('Failed to post annotation comment', submitError)
+      setError('Could not post the comment')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleToggleResolved() {
+    if (!selected || !selectedThread) {
+      return
+    }
+    const resolved = selectedThread.status === 'open'
+    setBusy(true)
+    setError(null)
+    try {
+      await setAnnotationThreadResolved(selectedThread.discussionId, resolved)
+      updateThread(selected, { ...selectedThread, status: resolved ? 'resolved' : 'open' })
+    } catch (statusError) {
+      console.warn('Failed to change annotation thread status', statusError)
+      setError(resolved ? 'Could not resolve the thread' : 'Could not reopen the thread')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="annotation-threads-panel">
+      <div className="annotation-threads-panel__header">
+        <span>Threads</span>
+        <button type="button" className="annotation-threads-panel__close" onClick={onClose}>
+          ✕
+        </button>
+      </div>
+
+      <label className="annotation-threads-panel__filter">
+        <input type="checkbox" checked={showResolved} onChange={(event) => setShowResolved(event.currentTarget.checked)} />
+        Show resolved
+      </label>
+
+      <ul className="annotation-threads-panel__threads">
+        {threaded.map((annotation) => (
+          <li key={annotation.id}>
+            <button
+              type="button"
+              className={
+                'annotation-threads-panel__thread' +
+                (annotation.id === selectedId ? ' annotation-threads-panel__thread--selected' : '') +
+                (annotation.thread?.status === 'resolved' ? ' annotation-threads-panel__thread--resolved' : '')
+              }
+              title="Jump to this shape"
+              onClick={() => onJump(annotation)}
+            >
+              <span className="annotation-threads-panel__thread-label">
+                {discussions.get(annotation.id)?.title ?? describeAnnotation(annotation)}
+              </span>
+              <span className="annotation-threads-panel__thread-meta">
+                {annotation.thread?.status === 'resolved' ? 'Resolved · ' : ''}
+                {annotation.thread?.replyCount ?? 0} comment{annotation.thread?.replyCount === 1 ? '' : 's'}
+                {' · '}
+                {annotation.authorName || annotation.authorId}
+              </span>
+            </button>
+          </li>
+        ))}
+        {threaded.length === 0 ? (
+          <li className="annotation-threads-panel__empty">
+            {showResolved ? 'No threads on this asset yet.' : 'No open threads.'}
+          </li>
+        ) : null}
+      </ul>
+
+      {error ? <p className="annotation-threads-panel__error">{error}</p> : null}
+
+      {selected ? (
+        <div className="annotation-threads-panel__detail">
+          <div className="annotation-threads-panel__detail-header">
+            <span>{describeAnnotation(selected)}</span>
+            {selectedThread ? (
+              <button
+                type="button"
+                className="annotation-threads-panel__status"
+                disabled={busy || readOnly}
+                onClick={() => void handleToggleResolved()}
+              >
+                {selectedThread.status === 'open' ? 'Resolve' : 'Reopen'}
+              </button>
+            ) : null}
+          </div>
+          {selectedThread ? (
+            comments ? (
+              <ul className="annotation-threads-panel__comments">
+                {comments.map((comment) => (
+                  <CommentItem key={comment.id} comment={comment} />
+                ))}
+              </ul>
+            ) : (
+              <p className="annotation-threads-panel__empty">Loading…</p>
+            )
+          ) : (
+            <p className="annotation-threads-panel__empty">No thread on this shape yet.</p>
+          )}
+          <textarea
+            className="annotation-threads-panel__draft"
+            rows={3}
+            placeholder={selectedThread ? 'Reply…' : 'Start a thread on this shape…'}
+            value={draft}
+            disabled={readOnly}
+            onChange={(event) => setDraft(event.currentTarget.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+                event.preventDefault()
+                void handleSubmit()
+              }
+            }}
+          />
+          <button
+            type="button"
+            className="annotation-threads-panel__submit"
+            disabled={busy || readOnly || !draft.trim()}
+            onClick={() => void handleSubmit()}
+          >
+            {selectedThread ? 'Reply' : 'Start thread'}
+          </button>
+        </div>
+      ) : (
+        <p className="annotation-threads-panel__empty">Select a shape to start or read its thread.</p>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 import {
   Suspense,
+  useCallback,
   useEffect,
   lazy,
   useMemo,
@@ -9,44 +10,109 @@ import {
   type KeyboardEvent as ReactKeyboardEvent,
   type PointerEvent as ReactPointerEvent,
 } from 'react'
-import { Eye, Layers, Sparkles } from 'lucide-react'
+import { Eye, Layers, ListFilter, Sparkles } from 'lucide-react'
 import {
   framePointToWorld,
+  getStrokeWidthScales,
+  getVariableWidthStrokeOutline,
+  hasSegmentGeometry,
   normalizeBounds,
   vec2Distance,
   worldToFrameLocal,
 } from '../core/annotations/geometry'
 import { computeMaskBounds } from '../maskBounds'
 import { renderLivePreviewOverlay, renderMaskOpPreview, renderScribblePreviewOverlay, type ScreenRect } from '../maskOpPreview'
-import { resolveNexus8Uri } from '../annotatorApi'
+import { notifyAnnotationMentions, resolveNexus8Uri } from '../annotatorApi'
+import {
+  getGeometryRichText,
+  getRichTextMentions,
+  isRichTextGeometry,
+  parseRichTextMarkdown,
+  richTextToPlainLines,
+  serializeRichTextMarkdown,
+  setGeometryRichText,
+} from '../core/annotations/richText'
+import {
+  EMPTY_REVIEW_FILTER,
+  REVIEW_STATUSES,
+  REVIEW_STATUS_LABELS,
+  isReviewFilterActive,
+  listAnnotationAuthors,
+  matchesReviewFilter,
+  type AnnotationReviewFilter,
+} from '../core/annotations/review'
 import {
   FreehandStrokePipeline,
   type FreehandPipelineOptions,
 } from '../core/annotations/freehandPipeline'
+import {
+  getAlignmentMoves,
+  getDistributionMoves,
+  type AnnotationAlignment,
+  type AnnotationDistribution,
+} from '../core/annotations/arrange'
+import {
+  getAnnotationsWorldCenter,
+  getFrameNormal,
+  transformAnnotation,
+  type AnnotationTransform,
+} from '../core/annotations/transform'
 import type {
   AnnotationEntity,
   AnnotationFrame,
   AnnotationGeometry,
+  AnnotationGroup,
+  AnnotationKeyframe,
   AnnotationLayer,
   AnnotationTool,
   ParticipantState,
   StructuredObjectTool,
   Vec2,
+  Vec3,
+} from '../core/annotations/types'
+import {
+  DEFAULT_LAYER_ID,
+  isExtensionGeometryKind,
+  isRegionSelectionTool,
+  isSegmentTool,
+  isStructuredObjectTool,
+  type RegionSelectionTool,
 } from '../core/annotations/types'
-import { DEFAULT_LAYER_ID, isStructuredObjectTool } from '../core/annotations/types'
 import { BroadcastCollaborationRoom } from '../core/collaboration/broadcast'
 import { defaultAnnotationRenderPluginManager } from '../core/rendering/annotationPlugins'
 import { createCachedProjectionHost } from '../core/rendering/host'
 import { annotationMatchesViewer } from '../core/viewers/adapters'
 import type { ViewerAdapter, ViewerSurfaceController, ViewportSize } from '../core/viewers/adapters'
-import type { VideoViewerAdapter } from '../core/viewers/videoAdapter'
-import { isAnnotationVisibleAtPlaybackTime } from '../core/annotations/timeline'
+import { timeToFrame, type VideoViewerAdapter } from '../core/viewers/videoAdapter'
+import {
+  createAnnotationKeyframe,
+  evaluateAnnotationAtPlaybackTime,
+  isAnnotationVisibleAtPlaybackTime,
+  removeAnnotationKeyframe,
+  setAnnotationKeyframe,
+  type AnnotationPlaybackState,
+} from '../core/annotations/timeline'
 import { VideoTransport } from './VideoTransport'
 import { MaskTrackTimeline } from './MaskTrackTimeline'
 import { maskFrameUrl } from '../../../api/videoMasks'
-import { renderPrimitiveBatchesToCanvas } from '../core/rendering/canvasRenderer'
 import { buildAnnotationSceneRenderPlan } from '../core/rendering/renderService'
-import { buildAnnotationSpatialIndex } from '../core/rendering/spatialIndex'
+import { createAnnotationBatchRenderer, type AnnotationBatchRenderer } from '../core/rendering/webglRenderer'
+import { createAnnotationOverlayWorker, type AnnotationOverlayWorker } from '../core/rendering/overlayWorker'
+import { createAnnotationSpatialIndex } from '../core/rendering/spatialIndex'
+import { renderPrimitivesToCanvas } from '../core/rendering/canvasRenderer'
+import type { RTreeBox } from '../core/rendering/rtree'
+import {
+  addBoxSnapLines,
+  buildSnapGuidePrimitives,
+  createSnapLines,
+  DEFAULT_SNAP_SETTINGS,
+  snapBoxToLines,
+  snapPointToLines,
+  snapSegmentAngle,
+  type SnapGuide,
+  type SnapLines,
+  type SnapSettings,
+} from '../core/rendering/snapping'
 import { useElementSize } from '../hooks/useElementSize'
 import {
   DETAIL_CARD_BASE_HEIGHT,
@@ -64,6 +130,7 @@ import {
   VIEWER_TOOL_ICONS,
   type ViewerToolbarToolId,
 } from './viewerToolbarConfig'
+import { getAnnotationToolRegistration, getRegisteredAnnotationTools } from './annotationToolRegistry'
 
 const LazyAnnotationMantineEditor = lazy(() => import('./AnnotationMantineEditor'))
 
@@ -79,9 +146,33 @@ interface CardDragState {
   pointerId: number
   annotation: CardAnnotation
   startLocal: Vec2
+  startScreen: Vec2
+  /** Screen bounds at drag start, snapped against guides as the card moves. */
+  startBox: RTreeBox | null
   moved: boolean
 }
 
+interface SelectionDragState {
+  pointerId: number
+  ids: string[]
+  startWorld: Vec3
+  startScreen: Vec2
+  startBox: RTreeBox | null
+  moved: boolean
+}
+
+/** A marquee keeps its start and current corner; a lasso keeps every sampled point. */
+interface RegionSelectionState {
+  pointerId: number
+  tool: RegionSelectionTool
+  points: Vec2[]
+  additive: boolean
+}
+
+/** Step applied by the arrange toolbar's rotate and scale buttons. */
+const SELECTION_ROTATE_STEP = Math.PI / 12
+const SELECTION_SCALE_STEP = 1.25
+
 interface ViewportProps {
   title: string
   adapter: ViewerAdapter
@@ -91,17 +182,24 @@ interface ViewportProps {
   activeTool: AnnotationTool
   selectedId?: string
   onSelect: (id?: string) => void
+  /** Full multi-selection in pick order; `selectedId` is its primary (last) entry. */
+  selectedIds?: string[]
+  onSelectMany?: (ids: string[]) => void
+  groups?: AnnotationGroup[]
   authorId: string
   authorName: string
   authorColor: string
   textValue: string
   onToolChange: (tool: AnnotationTool) => void
   freehandPipelineOptions: FreehandPipelineOptions
+  onFreehandPipelineOptionsChange?: (options: FreehandPipelineOptions) => void
   onUndo: () => void
   onRedo: () => void
   canUndo: boolean
   canRedo: boolean
   onDeleteSelected: () => void
+  /** The doc was written by a newer schema: annotations can be viewed and selected, not edited. */
+  readOnly?: boolean
   annotatorMode: 'annotate' | 'mask'
   onAnnotatorModeChange: (mode: 'annotate' | 'mask') => void
   activeMaskLayerId?: string
@@ -149,6 +247,10 @@ interface ViewportProps {
   onLayerSpanChange?: (layerId: string, span: { start: number; end: number } | null) => void
 }
 
+function toggleListValue<T>(values: T[], value: T) {
+  return values.includes(value) ? values.filter((candidate) => candidate !== value) : [...values, value]
+}
+
 function hasBoundsGeometry(geometry: AnnotationGeometry): geometry is Extract<AnnotationGeometry, { start: Vec2; end: Vec2 }> {
   return 'start' in geometry && 'end' in geometry
 }
@@ -200,17 +302,22 @@ export function AnnotationViewport({
   activeTool,
   selectedId,
   onSelect,
+  selectedIds,
+  onSelectMany,
+  groups,
   authorId,
   authorName,
   authorColor,
   textValue,
   onToolChange,
   freehandPipelineOptions,
+  onFreehandPipelineOptionsChange,
   onUndo,
   onRedo,
   canUndo,
   canRedo,
   onDeleteSelected,
+  readOnly = false,
   annotatorMode,
   onAnnotatorModeChange,
   activeMaskLayerId,
@@ -260,6 +367,11 @@ export function AnnotationViewport({
   const surfaceHostRef = useRef<HTMLDivElement>(null)
   const backgroundCanvasRef = useRef<HTMLCanvasElement>(null)
   const overlayCanvasRef = useRef<HTMLCanvasElement>(null)
+  // Created on first draw so unmounted viewports never hold a GL context.
+  const batchRendererRef = useRef<AnnotationBatchRenderer | null>(null)
+  // Worker-rendered annotation canvas under the overlay; undefined until first draw, null when unavailable.
+  const annotationLayerHostRef = useRef<HTMLDivElement>(null)
+  const overlayWorkerRef = useRef<AnnotationOverlayWorker | null | undefined>(undefined)
   // Per-frame video-mask overlay: cache of loaded mask images keyed by
   // `${layerId}:${version}:${frame}`. 'loading'/'empty' are sentinels so we
   // never re-request. maskTick forces an overlay redraw when a load resolves.
@@ -281,6 +393,10 @@ export function AnnotationViewport({
   const surfaceControllerRef = useRef<ViewerSurfaceController | null>(null)
   const navigationRef = useRef<{ pointerId: number; lastPoint: Vec2 } | null>(null)
   const cardDragRef = useRef<CardDragState | null>(null)
+  const selectionDragRef = useRef<SelectionDragState | null>(null)
+  const regionSelectionRef = useRef<RegionSelectionState | null>(null)
+  // Snap targets gathered when a draw or drag gesture starts; null between gestures.
+  const snapLinesRef = useRef<SnapLines | null>(null)
   const freehandPipelineRef = useRef<FreehandStrokePipeline | null>(null)
   const draftRef = useRef<AnnotationEntity | null>(null)
   // Committed vertices of an in-progress polygon (click-to-add); null when idle.
@@ -298,12 +414,19 @@ export function AnnotationViewport({
   }
   const [draft, setDraft] = useState<AnnotationEntity | null>(null)
   const [dragPreview, setDragPreview] = useState<AnnotationEntity | null>(null)
+  const [transformPreview, setTransformPreview] = useState<{ ids: Set<string>; transform: AnnotationTransform } | null>(null)
+  const [regionSelectionOutline, setRegionSelectionOutline] = useState<{ tool: RegionSelectionTool; points: Vec2[] } | null>(null)
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(DEFAULT_SNAP_SETTINGS)
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([])
   const [inlineEditorId, setInlineEditorId] = useState<string | null>(null)
   const [parametersPanelAnnotationId, setParametersPanelAnnotationId] = useState<string | null>(null)
   const [showAnnotationsInMaskMode, setShowAnnotationsInMaskMode] = useState(false)
+  const [isReviewFilterOpen, setIsReviewFilterOpen] = useState(false)
+  const [reviewFilter, setReviewFilter] = useState<AnnotationReviewFilter>(EMPTY_REVIEW_FILTER)
   const [adapterVersion, setAdapterVersion] = useState(0)
   const [isSurfaceFocused, setIsSurfaceFocused] = useState(false)
   const [isCardMoveGripHovered, setIsCardMoveGripHovered] = useState(false)
+  const [isOverlayWorkerFailed, setIsOverlayWorkerFailed] = useState(false)
   const [brushScreenRadiusPx, setBrushScreenRadiusPx] = useState(18)
   const [brushPointerPos, setBrushPointerPos] = useState<{ x: number; y: number } | null>(null)
   // ⌥/Alt held → next brush stroke is a negative prompt; drives the red cursor ring.
@@ -318,6 +441,13 @@ export function AnnotationViewport({
   // so zoom and camera changes stay in sync without rebuilding the wrapper per update.
   const projectionHost = useMemo(() => createCachedProjectionHost(adapter), [adapter])
 
+  // Only the select tool works on a read-only doc, including one a newer client stamps mid-session.
+  useEffect(() => {
+    if (readOnly && activeTool !== 'select') {
+      onToolChange('select')
+    }
+  }, [activeTool, onToolChange, readOnly])
+
   // A video adapter exposes playback controls; detected structurally so this generic
   // viewport stays decoupled from the concrete factory.
   const videoAdapter = useMemo(
@@ -352,6 +482,13 @@ export function AnnotationViewport({
     }
   }, [videoAdapter, videoRemovals])
 
+  useEffect(() => () => {
+    batchRendererRef.current?.destroy()
+    batchRendererRef.current = null
+    overlayWorkerRef.current?.destroy()
+    overlayWorkerRef.current = undefined
+  }, [])
+
   const activeMaskLayer = useMemo(
     () => (activeMaskLayerId ? maskLayers?.find((layer) => layer.id === activeMaskLayerId) : undefined),
     [activeMaskLayerId, maskLayers],
@@ -390,26 +527,38 @@ export function AnnotationViewport({
     }
   }, [activeReference])
 
-  const visibleAnnotations = useMemo(
+  const playback = useMemo<AnnotationPlaybackState | null>(
     () => {
-      // adapterVersion ticks on every frame callback, so video visibility recomputes
-      // as the playhead moves.
+      // adapterVersion ticks on every frame callback, so video visibility and
+      // keyframe poses recompute as the playhead moves.
       void adapterVersion
+      if (!videoAdapter) {
+        return null
+      }
+      const media = videoAdapter.getMediaState()
+      return {
+        currentTime: media.currentTime,
+        playlistCurrentTime: media.playlistCurrentTime,
+        playlistDuration: media.playlistDuration,
+        frameRate: media.frameRate,
+        currentFrame: media.currentFrame,
+        activeClipId: media.activeClipId,
+        sourceLabel: media.sourceLabel,
+      }
+    },
+    [adapterVersion, videoAdapter],
+  )
+
+  const visibleAnnotations = useMemo(
+    () => {
       const matched = annotations.filter((annotation) => annotationMatchesViewer(annotation, adapter))
       let filtered = matched
-      if (videoAdapter) {
-        const media = videoAdapter.getMediaState()
-        filtered = filtered.filter((annotation) =>
-          isAnnotationVisibleAtPlaybackTime(annotation, {
-            currentTime: media.currentTime,
-            playlistCurrentTime: media.playlistCurrentTime,
-            playlistDuration: media.playlistDuration,
-            frameRate: media.frameRate,
-            currentFrame: media.currentFrame,
-            activeClipId: media.activeClipId,
-            sourceLabel: media.sourceLabel,
-          }),
-        )
+      // Status and author filters apply to notes only; mask strokes follow the mask rules below.
+      if (isReviewFilterActive(reviewFilter)) {
+        filtered = filtered.filter((annotation) => annotation.maskRegion || matchesReviewFilter(annotation, reviewFilter))
+      }
+      if (playback) {
+        filtered = filtered.filter((annotation) => isAnnotationVisibleAtPlaybackTime(annotation, playback))
       }
       // In annotate mode mask strokes are irrelevant — hide them entirely.
       if (annotatorMode === 'annotate') {
@@ -434,29 +583,47 @@ export function AnnotationViewport({
           )
         }
       }
-      return filtered
+      // Everything downstream (drawing, hit testing, drags) works on the posed shape.
+      return playback ? filtered.map((annotation) => evaluateAnnotationAtPlaybackTime(annotation, playback)) : filtered
     },
-    [activeMaskLayerId, adapter, adapterVersion, annotatorMode, annotations, maskLayers, showAnnotationsInMaskMode, videoAdapter],
+    [activeMaskLayerId, adapter, annotatorMode, annotations, maskLayers, playback, reviewFilter, showAnnotationsInMaskMode],
+  )
+  const reviewAuthors = useMemo(
+    () => listAnnotationAuthors(annotations.filter((annotation) => !annotation.maskRegion && annotationMatchesViewer(annotation, adapter))),
+    [adapter, annotations],
   )
   const selectedAnnotation = useMemo(
     () => (selectedId ? annotations.find((annotation) => annotation.id === selectedId) : undefined),
     [annotations, selectedId],
   )
+  const selectedIdSet = useMemo(
+    () => new Set(selectedIds ?? (selectedId ? [selectedId] : [])),
+    [selectedId, selectedIds],
+  )
+  const groupByAnnotationId = useMemo(() => {
+    const lookup = new Map<string, AnnotationGroup>()
+    groups?.forEach((group) => group.annotationIds.forEach((id) => lookup.set(id, group)))
+    return lookup
+  }, [groups])
+  // Selected annotations this viewer can draw, i.e. what arrange actions operate on.
+  const arrangeSelection = useMemo(
+    () => annotations.filter((annotation) => selectedIdSet.has(annotation.id) && annotationMatchesViewer(annotation, adapter)),
+    [adapter, annotations, selectedIdSet],
+  )
   const visibleAnnotationEntries = useMemo(
     () => visibleAnnotations.map((annotation) => ({
       annotation,
-      selected: annotation.id === selectedId,
+      selected: selectedIdSet.has(annotation.id),
       collapseUnselectedWorldMarker: true,
     })),
-    [selectedId, visibleAnnotations],
+    [selectedIdSet, visibleAnnotations],
   )
+  // One index lives for the viewport's lifetime; edits re-index only the annotations they touch.
+  const [annotationSpatialIndex] = useState(() => createAnnotationSpatialIndex())
   const annotationHitIndex = useMemo(() => {
-    void adapterVersion
-    return buildAnnotationSpatialIndex({
-      entries: visibleAnnotationEntries,
-      context: { projectionHost, viewport },
-    })
-  }, [adapterVersion, projectionHost, viewport, visibleAnnotationEntries])
+    annotationSpatialIndex.update(visibleAnnotationEntries, { projectionHost, viewport }, adapterVersion)
+    return annotationSpatialIndex
+  }, [adapterVersion, annotationSpatialIndex, projectionHost, viewport, visibleAnnotationEntries])
   const selectedImageAnnotation = useMemo(() => {
     if (
       !selectedAnnotation
@@ -568,6 +735,51 @@ export function AnnotationViewport({
   const isViewerReady = !loadState || loadState.status === 'ready'
   const diagnostics = adapter.getDiagnostics?.() ?? []
   const selectedAnnotationIsVisible = Boolean(selectedAnnotation && annotationMatchesViewer(selectedAnnotation, adapter))
+  const selectedGroupIds = useMemo(
+    () => Array.from(new Set(arrangeSelection.flatMap((annotation) => groupByAnnotationId.get(annotation.id)?.id ?? []))),
+    [arrangeSelection, groupByAnnotationId],
+  )
+  const groupSelection = useCallback(() => {
+    room.store.groupAnnotations(arrangeSelection.map((annotation) => annotation.id), { authorId })
+  }, [arrangeSelection, authorId, room])
+  const ungroupSelection = useCallback(() => {
+    room.store.ungroupAnnotations(selectedGroupIds)
+  }, [room, selectedGroupIds])
+  const transformSelection = useCallback((transform: Pick<AnnotationTransform, 'rotate' | 'scale'>) => {
+    const pivot = getAnnotationsWorldCenter(arrangeSelection)
+    if (!pivot) {
+      return
+    }
+    room.store.transformAnnotations(arrangeSelection.map((annotation) => annotation.id), {
+      ...transform,
+      pivot,
+      axis: getFrameNormal(arrangeSelection[0].frame),
+    })
+  }, [arrangeSelection, room])
+  // Align and distribute move a selected group as one unit, keeping its layout.
+  const arrangeUnits = useMemo(() => {
+    const units = new Map<string, AnnotationEntity[]>()
+    arrangeSelection.forEach((annotation) => {
+      const key = groupByAnnotationId.get(annotation.id)?.id ?? annotation.id
+      units.set(key, [...(units.get(key) ?? []), annotation])
+    })
+    return Array.from(units.values())
+  }, [arrangeSelection, groupByAnnotationId])
+  const alignSelection = useCallback((alignment: AnnotationAlignment) => {
+    room.store.arrangeAnnotations(getAlignmentMoves(arrangeUnits, alignment))
+  }, [arrangeUnits, room])
+  const distributeSelection = useCallback((distribution: AnnotationDistribution) => {
+    room.store.arrangeAnnotations(getDistributionMoves(arrangeUnits, distribution))
+  }, [arrangeUnits, room])
+  // Snapping works in image pixel space, so it is offered for 2D annotation only.
+  const isSnappingAvailable = adapter.space === 'image2d' && annotatorMode === 'annotate'
+  // The transport's keyframe lane edits a single selected, non-mask annotation.
+  const keyframeTarget = playback && annotatorMode === 'annotate' && arrangeSelection.length === 1 && !arrangeSelection[0].maskRegion
+    ? arrangeSelection[0]
+    : undefined
+  const getKeyframeLaneFrame = (keyframe: AnnotationKeyframe) => (
+    timeToFrame(keyframe.globalTime ?? keyframe.time, playback?.frameRate ?? 1)
+  )
   const viewerToolbarGroups = useMemo<ViewerToolbarGroup[]>(() => {
     // Mask mode (brush/polygon) applies to image2d (still images and video).
     const isMaskCapable = adapter.space === 'image2d'
@@ -603,18 +815,22 @@ export function AnnotationViewport({
     }
 
     let toolIds: ViewerToolbarToolId[]
-    if (adapter.space !== 'image2d') {
-      toolIds = ['select', 'freehand', 'rectangle', 'ellipse']
+    if (readOnly) {
+      toolIds = ['select']
+    } else if (adapter.space !== 'image2d') {
+      toolIds = ['select', 'marquee', 'lasso', 'freehand', 'rectangle', 'ellipse', 'arrow', 'measurement']
     } else if (annotatorMode === 'mask') {
       toolIds = ['select', 'brush', 'polygon']
     } else if (videoAdapter) {
-      toolIds = ['select', 'freehand', 'rectangle', 'ellipse', 'text', 'card']
+      toolIds = ['select', 'marquee', 'lasso', 'freehand', 'rectangle', 'ellipse', 'arrow', 'callout', 'measurement', 'text', 'card']
     } else {
-      toolIds = ['select', 'freehand', 'rectangle', 'ellipse', 'text', 'card']
+      toolIds = ['select', 'marquee', 'lasso', 'freehand', 'rectangle', 'ellipse', 'arrow', 'callout', 'measurement', 'text', 'card']
     }
 
     const toolLabels: Record<ViewerToolbarToolId, string> = {
       select: 'Select',
+      marquee: 'Marquee select',
+      lasso: 'Lasso select',
       freehand: 'Freehand',
       brush: 'Brush',
       polygon: 'Polygon',
@@ -622,6 +838,9 @@ export function AnnotationViewport({
       ellipse: 'Ellipse',
       text: 'Text',
       card: 'Card',
+      arrow: 'Arrow',
+      callout: 'Callout',
+      measurement: 'Measure',
     }
 
     const toolGroup: ViewerToolbarGroup = {
@@ -635,6 +854,18 @@ export function AnnotationViewport({
       })),
     }
 
+    // Tools contributed by feature modules through registerAnnotationTool.
+    const extensionToolGroup: ViewerToolbarGroup = {
+      id: 'extension-tools',
+      items: readOnly || (isMaskCapable && annotatorMode === 'mask') ? [] : getRegisteredAnnotationTools(adapter.space).map((registration) => ({
+        id: registration.kind,
+        label: registration.label,
+        icon: registration.icon,
+        active: activeTool === registration.kind,
+        onSelect: () => onToolChange(registration.kind),
+      })),
+    }
+
     const historyGroup: ViewerToolbarGroup = {
       id: 'history',
       items: [
@@ -643,26 +874,194 @@ export function AnnotationViewport({
           label: 'Delete selected',
           icon: VIEWER_TOOL_ICONS.deleteSelected,
           tone: 'danger',
-          disabled: !selectedAnnotationIsVisible,
+          disabled: readOnly || !selectedAnnotationIsVisible,
           onSelect: onDeleteSelected,
         },
         {
           id: 'undo',
           label: 'Undo',
           icon: VIEWER_TOOL_ICONS.undo,
-          disabled: !canUndo,
+          disabled: readOnly || !canUndo,
           onSelect: onUndo,
         },
         {
           id: 'redo',
           label: 'Redo',
           icon: VIEWER_TOOL_ICONS.redo,
-          disabled: !canRedo,
+          disabled: readOnly || !canRedo,
           onSelect: onRedo,
         },
       ],
     }
 
+    const isSingleGroup = selectedGroupIds.length === 1
+      && groupByAnnotationId.get(arrangeSelection[0]?.id)?.annotationIds.length === arrangeSelection.length
+    const arrangeGroup: ViewerToolbarGroup = {
+      id: 'arrange',
+      items: !readOnly && activeTool === 'select' && arrangeSelection.length > 0 ? [
+        {
+          id: 'group-selection',
+          label: 'Group',
+          icon: VIEWER_TOOL_ICONS.group,
+          disabled: arrangeSelection.length < 2 || isSingleGroup,
+          onSelect: groupSelection,
+        },
+        {
+          id: 'ungroup-selection',
+          label: 'Ungroup',
+          icon: VIEWER_TOOL_ICONS.ungroup,
+          disabled: selectedGroupIds.length === 0,
+          onSelect: ungroupSelection,
+        },
+        {
+          id: 'rotate-selection-left',
+          label: 'Rotate selection left',
+          icon: VIEWER_TOOL_ICONS.rotateSelectionLeft,
+          onSelect: () => transformSelection({ rotate: -SELECTION_ROTATE_STEP }),
+        },
+        {
+          id: 'rotate-selection-right',
+          label: 'Rotate selection right',
+          icon: VIEWER_TOOL_ICONS.rotateSelectionRight,
+          onSelect: () => transformSelection({ rotate: SELECTION_ROTATE_STEP }),
+        },
+        {
+          id: 'scale-selection-up',
+          label: 'Scale selection up',
+          icon: VIEWER_TOOL_ICONS.scaleSelectionUp,
+          onSelect: () => transformSelection({ scale: SELECTION_SCALE_STEP }),
+        },
+        {
+          id: 'scale-selection-down',
+          label: 'Scale selection down',
+          icon: VIEWER_TOOL_ICONS.scaleSelectionDown,
+          onSelect: () => transformSelection({ scale: 1 / SELECTION_SCALE_STEP }),
+        },
+      ] : [],
+    }
+
+    const alignGroup: ViewerToolbarGroup = {
+      id: 'align',
+      items: !readOnly && activeTool === 'select' && adapter.space === 'image2d' && arrangeUnits.length > 1 ? [
+        {
+          id: 'align-left',
+          label: 'Align left edges',
+          icon: VIEWER_TOOL_ICONS.alignLeft,
+          onSelect: () => alignSelection('left'),
+        },
+        {
+          id: 'align-center-x',
+          label: 'Align horizontal centers',
+          icon: VIEWER_TOOL_ICONS.alignCenterX,
+          onSelect: () => alignSelection('centerX'),
+        },
+        {
+          id: 'align-right',
+          label: 'Align right edges',
+          icon: VIEWER_TOOL_ICONS.alignRight,
+          onSelect: () => alignSelection('right'),
+        },
+        {
+          id: 'align-top',
+          label: 'Align top edges',
+          icon: VIEWER_TOOL_ICONS.alignTop,
+          onSelect: () => alignSelection('top'),
+        },
+        {
+          id: 'align-center-y',
+          label: 'Align vertical centers',
+          icon: VIEWER_TOOL_ICONS.alignCenterY,
+          onSelect: () => alignSelection('centerY'),
+        },
+        {
+          id: 'align-bottom',
+          label: 'Align bottom edges',
+          icon: VIEWER_TOOL_ICONS.alignBottom,
+          onSelect: () => alignSelection('bottom'),
+        },
+        {
+          id: 'distribute-horizontal',
+          label: 'Distribute horizontally',
+          icon: VIEWER_TOOL_ICONS.distributeHorizontal,
+          disabled: arrangeUnits.length < 3,
+          onSelect: () => distributeSelection('horizontal'),
+        },
+        {
+          id: 'distribute-vertical',
+          label: 'Distribute vertically',
+          icon: VIEWER_TOOL_ICONS.distributeVertical,
+          disabled: arrangeUnits.length < 3,
+          onSelect: () => distributeSelection('vertical'),
+        },
+      ] : [],
+    }
+
+    const toggleSnap = (key: keyof SnapSettings) => setSnapSettings((current) => ({ ...current, [key]: !current[key] }))
+    const snapGroup: ViewerToolbarGroup = {
+      id: 'snap',
+      items: isSnappingAvailable ? [
+        {
+          id: 'snap-objects',
+          label: 'Snap to annotations',
+          icon: VIEWER_TOOL_ICONS.snapObjects,
+          active: snapSettings.objects,
+          onSelect: () => toggleSnap('objects'),
+        },
+        {
+          id: 'snap-image-edges',
+          label: 'Snap to image edges',
+          icon: VIEWER_TOOL_ICONS.snapImageEdges,
+          active: snapSettings.imageEdges,
+          onSelect: () => toggleSnap('imageEdges'),
+        },
+        {
+          id: 'snap-pixel-grid',
+          label: 'Snap to pixel grid',
+          icon: VIEWER_TOOL_ICONS.snapPixelGrid,
+          active: snapSettings.pixelGrid,
+          onSelect: () => toggleSnap('pixelGrid'),
+        },
+        {
+          id: 'snap-angle',
+          label: 'Snap angles to 15°',
+          icon: VIEWER_TOOL_ICONS.snapAngle,
+          active: snapSettings.angle,
+          onSelect: () => toggleSnap('angle'),
+        },
+      ] : [],
+    }
+
+    // Pens always follow pressure; this opts mouse and touch strokes into thinning with speed.
+    const isVelocityWidth = freehandPipelineOptions.widthMode === 'auto' || freehandPipelineOptions.widthMode === 'velocity'
+    const strokeGroup: ViewerToolbarGroup = {
+      id: 'stroke',
+      items: activeTool === 'freehand' && onFreehandPipelineOptionsChange ? [
+        {
+          id: 'velocity-width',
+          label: 'Thin fast mouse and touch strokes',
+          icon: VIEWER_TOOL_ICONS.velocityWidth,
+          active: isVelocityWidth,
+          onSelect: () => onFreehandPipelineOptionsChange({
+            ...freehandPipelineOptions,
+            widthMode: isVelocityWidth ? 'pressure' : 'auto',
+          }),
+        },
+      ] : [],
+    }
+
+    const reviewGroup: ViewerToolbarGroup = {
+      id: 'review',
+      items: annotatorMode === 'annotate' ? [
+        {
+          id: 'review-filter',
+          label: isReviewFilterActive(reviewFilter) ? 'Filter notes (active)' : 'Filter notes by status and author',
+          icon: ListFilter,
+          active: isReviewFilterOpen || isReviewFilterActive(reviewFilter),
+          onSelect: () => setIsReviewFilterOpen((open) => !open),
+        },
+      ] : [],
+    }
+
     const contextItems = viewerActions.map((action) => ({
       id: action.id,
       label: action.label,
@@ -671,7 +1070,7 @@ export function AnnotationViewport({
       onSelect: () => action.onSelect(viewport),
     }))
 
-    if (adapter.space === 'image2d' && selectedImageAnnotation) {
+    if (adapter.space === 'image2d' && selectedImageAnnotation && !readOnly) {
       contextItems.unshift({
         id: 'parameters',
         label: isParametersPanelOpen ? 'Close parameters' : 'Open parameters',
@@ -720,7 +1119,13 @@ export function AnnotationViewport({
     return [
       modeGroup,
       toolGroup,
+      extensionToolGroup,
       maskDisplayGroup,
+      snapGroup,
+      strokeGroup,
+      reviewGroup,
+      arrangeGroup,
+      alignGroup,
       historyGroup,
       { id: 'viewer', items: contextItems },
     ]
@@ -728,23 +1133,39 @@ export function AnnotationViewport({
     activeMaskLayer,
     activeTool,
     adapter,
+    alignSelection,
     annotatorMode,
+    arrangeSelection,
+    arrangeUnits,
     canRedo,
     canUndo,
+    distributeSelection,
+    freehandPipelineOptions,
+    groupByAnnotationId,
+    groupSelection,
     isParametersPanelOpen,
+    isReviewFilterOpen,
+    isSnappingAvailable,
     liveGenBusy,
     liveGenEnabled,
     maskPreviewMode,
     onAnnotatorModeChange,
     onDeleteSelected,
+    onFreehandPipelineOptionsChange,
     onLiveGenEnabledChange,
     onMaskPreviewModeChange,
     onRedo,
     onToolChange,
     onUndo,
+    readOnly,
+    reviewFilter,
     selectedAnnotationIsVisible,
+    selectedGroupIds,
     selectedImageAnnotation,
     showAnnotationsInMaskMode,
+    snapSettings,
+    transformSelection,
+    ungroupSelection,
     videoAdapter,
     viewerActions,
     viewport,
@@ -755,7 +1176,64 @@ export function AnnotationViewport({
       return
     }
 
-    room.store.upsertAnnotation(update(selectedImageAnnotation))
+    const updated = update(selectedImageAnnotation)
+    room.store.upsertAnnotation(updated)
+    notifyNewMentions(selectedImageAnnotation, updated)
+  }
+
+  /** Post a discussion comment for participants newly @-mentioned in a note, card or list. */
+  function notifyNewMentions(previous: AnnotationEntity, next: AnnotationEntity) {
+    if (assetId == null || !isRichTextGeometry(next.geometry)) {
+      return
+    }
+    const before = new Set(isRichTextGeometry(previous.geometry) ? getRichTextMentions(previous.geometry.rich) : [])
+    // Ids typed by hand only count once they match a participant, so partial ids never notify.
+    const names = getRichTextMentions(next.geometry.rich)
+      .filter((id) => !before.has(id))
+      .flatMap((id) => participants.find((participant) => participant.id === id)?.name ?? [])
+    if (names.length === 0) {
+      return
+    }
+    const excerpt = richTextToPlainLines(getGeometryRichText(next.geometry)).join(' ').trim().slice(0, 200)
+    notifyAnnotationMentions(assetId, names, excerpt).catch((error) => {
+      console.warn('Failed to post annotation mention notification', error)
+    })
+  }
+
+  /** Markdown source for an inline or panel editor, as stored in the geometry's rich runs. */
+  function getRichTextMarkdown(annotation: AnnotationEntity) {
+    return isRichTextGeometry(annotation.geometry) ? serializeRichTextMarkdown(getGeometryRichText(annotation.geometry)) : ''
+  }
+
+  function updateRichTextMarkdown(annotation: AnnotationEntity, markdown: string) {
+    if (!isRichTextGeometry(annotation.geometry)) {
+      return
+    }
+    const geometry = setGeometryRichText(annotation.geometry, parseRichTextMarkdown(markdown))
+    updateSelectedImageAnnotation(() => ({ ...annotation, geometry }))
+  }
+
+  /** Keyframed annotations take a canvas edit as a key at the playhead; others are rewritten in place. */
+  function commitAnnotationEdit(edited: AnnotationEntity) {
+    const stored = annotations.find((annotation) => annotation.id === edited.id)
+    room.store.upsertAnnotation(
+      stored?.keyframes && playback ? setAnnotationKeyframe(stored, createAnnotationKeyframe(edited, playback)) : edited,
+    )
+  }
+
+  function addKeyframeAtPlayhead() {
+    if (!keyframeTarget || !playback) {
+      return
+    }
+    const posed = evaluateAnnotationAtPlaybackTime(keyframeTarget, playback)
+    room.store.upsertAnnotation(setAnnotationKeyframe(keyframeTarget, createAnnotationKeyframe(posed, playback)))
+  }
+
+  function removeKeyframeAtLaneFrame(frame: number) {
+    const keyframe = keyframeTarget?.keyframes?.find((candidate) => getKeyframeLaneFrame(candidate) === frame)
+    if (keyframeTarget && keyframe) {
+      room.store.upsertAnnotation(removeAnnotationKeyframe(keyframeTarget, keyframe.frame))
+    }
   }
 
   useEffect(() => {
@@ -939,9 +1417,17 @@ export function AnnotationViewport({
     // Recomputed below when a generation is in flight; nulled first so stale
     // rects never survive a mode/layer switch.
     genBusyRectRef.current = null
+    if (overlayWorkerRef.current === undefined && annotationLayerHostRef.current) {
+      overlayWorkerRef.current = createAnnotationOverlayWorker(annotationLayerHostRef.current, () => {
+        overlayWorkerRef.current = null
+        setIsOverlayWorkerFailed(true)
+      })
+    }
+    const overlayWorker = overlayWorkerRef.current ?? null
     // Hold markers off until the surface is drawable — before a 3D model loads
     // and frames the camera, anchors would project against an unsettled view.
     if (!isViewerReady) {
+      overlayWorker?.clear()
       return
     }
     // Selected-render composite: every render-visible layer's pinned render,
@@ -1000,24 +1486,43 @@ export function AnnotationViewport({
       return !videoMaskTracks?.[annotation.layerId]
     }
 
-    const plan = buildAnnotationSceneRenderPlan({
-      projectionHost,
-      viewport,
-      annotations: [
-        ...visibleAnnotations
-          .filter((annotation) => !((isInlineEditorOpen && annotation.id === inlineEditorId) || annotation.id === dragPreview?.id))
-          .filter(promptDisplayShows)
-          .map((annotation) => ({
-            annotation,
-            selected: annotation.id === selectedId,
-          })),
-        ...(dragPreview ? [{ annotation: dragPreview, selected: dragPreview.id === selectedId }] : []),
-        ...(draft ? [{ annotation: draft, selected: false, alphaMultiplier: 0.7, collapseUnselectedWorldMarker: false }] : []),
-      ],
-      participants: participants.filter((participant) => participant.viewerId === adapter.id && participant.cursor),
-    })
-
-    renderPrimitiveBatchesToCanvas(context, plan.batches)
+    const annotationEntries = [
+      ...visibleAnnotations
+        .filter((annotation) => !((isInlineEditorOpen && annotation.id === inlineEditorId) || annotation.id === dragPreview?.id))
+        .filter(promptDisplayShows)
+        .map((annotation) => ({
+          annotation: transformPreview?.ids.has(annotation.id)
+            ? transformAnnotation(annotation, transformPreview.transform)
+            : annotation,
+          selected: selectedIdSet.has(annotation.id),
+        })),
+      ...(dragPreview ? [{ annotation: dragPreview, selected: selectedIdSet.has(dragPreview.id) }] : []),
+      ...(draft ? [{ annotation: draft, selected: false, alphaMultiplier: 0.7, collapseUnselectedWorldMarker: false }] : []),
+    ]
+    const cursorParticipants = participants.filter((participant) => participant.viewerId === adapter.id && participant.cursor)
+
+    // The worker canvas sits under this one, so everything drawn below still lands on top of
+    // the annotations. Pinned mask renders must sit underneath them, so that composite keeps
+    // the single-canvas path, as do hosts that cannot snapshot their projection. Registered
+    // extension plugins exist on this thread only, so frames that show one draw here too.
+    const hasRenderComposite = annotatorMode === 'mask' && Boolean(imageDims) && layerRenders.length > 0
+    const hasExtensionKinds = annotationEntries.some(({ annotation }) => isExtensionGeometryKind(annotation.geometry.kind))
+    const projection = overlayWorker && !hasRenderComposite && !hasExtensionKinds
+      ? projectionHost.getProjectionSnapshot?.(viewport)
+      : null
+    if (overlayWorker && projection) {
+      overlayWorker.render({ viewport, pixelRatio, projection, annotations: annotationEntries, participants: cursorParticipants })
+    } else {
+      overlayWorker?.clear()
+      const plan = buildAnnotationSceneRenderPlan({
+        projectionHost,
+        viewport,
+        annotations: annotationEntries,
+        participants: cursorParticipants,
+      })
+      batchRendererRef.current ??= createAnnotationBatchRenderer()
+      batchRendererRef.current.render(context, plan.batches, viewport, pixelRatio)
+    }
 
     // Second pass: operation preview + live AI overlay for the active mask layer.
     // Composited above stroke primitives; never touches the annotation list.
@@ -1283,7 +1788,14 @@ export function AnnotationViewport({
               if (geom.kind !== 'brush') continue
               const pts = geom.points.map((p) => toScreen(p.x, p.y, stroke.frame))
               const lw = Math.max(1, geom.radius * 2) * sx
-              if (pts.length === 1) {
+              const scales = getStrokeWidthScales(geom)
+              if (scales) {
+                const outline = getVariableWidthStrokeOutline(pts, scales.map((scale) => (lw * scale) / 2))
+                context.beginPath()
+                outline.forEach((p, i) => (i === 0 ? context.moveTo(p.x, p.y) : context.lineTo(p.x, p.y)))
+                context.closePath()
+                context.fill()
+              } else if (pts.length === 1) {
                 context.beginPath()
                 context.arc(pts[0].x, pts[0].y, lw / 2, 0, Math.PI * 2)
                 context.fill()
@@ -1300,6 +1812,31 @@ export function AnnotationViewport({
       }
     }
 
+    if (regionSelectionOutline && regionSelectionOutline.points.length > 1) {
+      const { tool, points } = regionSelectionOutline
+      context.save()
+      context.beginPath()
+      if (tool === 'marquee') {
+        const end = points[points.length - 1]
+        context.rect(points[0].x, points[0].y, end.x - points[0].x, end.y - points[0].y)
+      } else {
+        context.moveTo(points[0].x, points[0].y)
+        points.slice(1).forEach((point) => context.lineTo(point.x, point.y))
+        context.closePath()
+      }
+      context.fillStyle = 'rgba(94, 234, 212, 0.08)'
+      context.fill()
+      context.setLineDash([5, 4])
+      context.strokeStyle = 'rgba(94, 234, 212, 0.9)'
+      context.lineWidth = 1
+      context.stroke()
+      context.restore()
+    }
+
+    if (snapGuides.length > 0) {
+      renderPrimitivesToCanvas(context, buildSnapGuidePrimitives(snapGuides))
+    }
+
     // Brush cursor ring — drawn last so it always appears on top.
     if (activeTool === 'brush' && brushPointerPos && !draft) {
       // Red ring while ⌥/Alt arms a negative stroke; white otherwise.
@@ -1326,7 +1863,7 @@ export function AnnotationViewport({
       }
       context.restore()
     }
-  }, [activeMaskLayer, activeTool, adapter, adapterVersion, annotatorMode, assetId, brushNegativeArmed, brushPointerPos, brushScreenRadiusPx, dragPreview, draft, imageDims, inlineEditorId, isInlineEditorOpen, isViewerReady, layerRenders, liveGenBusy, liveGenLatencyS, livePreviewImage, livePreviewIsScribble, livePreviewRegion, maskLayers, maskOverlayOpacity, maskPreviewMode, maskTick, participants, previewMasks, projectionHost, promptDisplay, refImageTick, selectedId, videoAdapter, videoMaskTracks, videoRemovals, viewport, visibleAnnotations])
+  }, [activeMaskLayer, activeTool, adapter, adapterVersion, annotatorMode, assetId, brushNegativeArmed, brushPointerPos, brushScreenRadiusPx, dragPreview, draft, imageDims, inlineEditorId, isInlineEditorOpen, isOverlayWorkerFailed, isViewerReady, layerRenders, liveGenBusy, liveGenLatencyS, livePreviewImage, livePreviewIsScribble, livePreviewRegion, maskLayers, maskOverlayOpacity, maskPreviewMode, maskTick, participants, previewMasks, projectionHost, promptDisplay, refImageTick, regionSelectionOutline, selectedIdSet, snapGuides, transformPreview, videoAdapter, videoMaskTracks, videoRemovals, viewport, visibleAnnotations])
 
   // Marching-ants border while a generation is in flight. Runs on its own
   // canvas so the 60fps dash animation never triggers React re-renders or full
@@ -1401,7 +1938,120 @@ export function AnnotationViewport({
     return pixels > 1e-6 ? pixels : 1
   }
 
-  function beginDraft(tool: Exclude<AnnotationTool, 'select' | 'text'>, screenPoint: Vec2, timestamp: number, altKey = false) {
+  /** Combined screen bounds of `annotations`, or null when none of them projects. */
+  function getScreenBox(annotations: AnnotationEntity[]): RTreeBox | null {
+    let box: RTreeBox | null = null
+    annotations.forEach((annotation) => {
+      const bounds = getAnnotationScreenBounds(annotation, projectionHost, viewport)
+      if (!bounds) {
+        return
+      }
+      box = {
+        minX: Math.min(box?.minX ?? Infinity, bounds.left),
+        minY: Math.min(box?.minY ?? Infinity, bounds.top),
+        maxX: Math.max(box?.maxX ?? -Infinity, bounds.left + bounds.width),
+        maxY: Math.max(box?.maxY ?? -Infinity, bounds.top + bounds.height),
+      }
+    })
+    return box
+  }
+
+  /** Gather the snap targets for a gesture that moves or draws everything except `excludeIds`. */
+  function beginSnapping(excludeIds: Set<string>) {
+    const lines = createSnapLines()
+    if (!isSnappingAvailable) {
+      snapLinesRef.current = lines
+      return
+    }
+    if (snapSettings.objects) {
+      addBoxSnapLines(lines, visibleAnnotations.flatMap((annotation) => {
+        const box = excludeIds.has(annotation.id) ? null : getScreenBox([annotation])
+        return box ? [box] : []
+      }))
+    }
+    const imageSize = snapSettings.imageEdges ? adapter.getImageSize?.() : undefined
+    const topLeft = imageSize ? adapter.worldToScreen({ x: 0, y: 0, z: 0 }, viewport) : null
+    const bottomRight = imageSize ? adapter.worldToScreen({ x: imageSize.width, y: imageSize.height, z: 0 }, viewport) : null
+    if (topLeft && bottomRight) {
+      addBoxSnapLines(lines, [{ minX: topLeft.x, minY: topLeft.y, maxX: bottomRight.x, maxY: bottomRight.y }])
+    }
+    snapLinesRef.current = lines
+  }
+
+  function endSnapping() {
+    snapLinesRef.current = null
+    setSnapGuides((current) => (current.length === 0 ? current : []))
+  }
+
+  function showSnapGuides(guides: SnapGuide[]) {
+    setSnapGuides((current) => (current.length === 0 && guides.length === 0 ? current : guides))
+  }
+
+  /** Round a screen point to whole image pixels on the axes not already held by a guide. */
+  function snapToPixelGrid(screenPoint: Vec2, keepX: boolean, keepY: boolean) {
+    const world = adapter.screenToWorld(screenPoint, viewport)
+    if (!world) {
+      return screenPoint
+    }
+    const rounded = {
+      x: keepX ? world.x : Math.round(world.x),
+      y: keepY ? world.y : Math.round(world.y),
+      z: world.z,
+    }
+    return adapter.worldToScreen(rounded, viewport) ?? screenPoint
+  }
+
+  /** Where a drawn point lands after snapping; Ctrl held while drawing turns snapping off. */
+  function snapDrawPoint(screenPoint: Vec2, bypass: boolean) {
+    if (bypass || !isSnappingAvailable) {
+      showSnapGuides([])
+      return screenPoint
+    }
+    if (!snapLinesRef.current) {
+      beginSnapping(new Set())
+    }
+    const result = snapPointToLines(screenPoint, snapLinesRef.current!)
+    showSnapGuides(result.guides)
+    return snapSettings.pixelGrid ? snapToPixelGrid(result.point, result.snappedX, result.snappedY) : result.point
+  }
+
+  /**
+   * Pointer position for a drag that started at `startScreen`, adjusted so the dragged
+   * bounds snap to a guide and, on the pixel grid, the move is a whole number of pixels.
+   */
+  function snapDragPoint(screenPoint: Vec2, startScreen: Vec2, startBox: RTreeBox | null, bypass: boolean) {
+    if (bypass || !isSnappingAvailable || !startBox || !snapLinesRef.current) {
+      showSnapGuides([])
+      return screenPoint
+    }
+    const dx = screenPoint.x - startScreen.x
+    const dy = screenPoint.y - startScreen.y
+    const result = snapBoxToLines(
+      { minX: startBox.minX + dx, minY: startBox.minY + dy, maxX: startBox.maxX + dx, maxY: startBox.maxY + dy },
+      snapLinesRef.current,
+    )
+    showSnapGuides(result.guides)
+    const target = { x: screenPoint.x + result.offset.x, y: screenPoint.y + result.offset.y }
+    const startWorld = snapSettings.pixelGrid ? adapter.screenToWorld(startScreen, viewport) : null
+    const targetWorld = startWorld ? adapter.screenToWorld(target, viewport) : null
+    if (!startWorld || !targetWorld) {
+      return target
+    }
+    const rounded = {
+      x: result.snappedX ? targetWorld.x : startWorld.x + Math.round(targetWorld.x - startWorld.x),
+      y: result.snappedY ? targetWorld.y : startWorld.y + Math.round(targetWorld.y - startWorld.y),
+      z: targetWorld.z,
+    }
+    return adapter.worldToScreen(rounded, viewport) ?? target
+  }
+
+  function beginDraft(
+    tool: Exclude<AnnotationTool, 'select' | 'text' | RegionSelectionTool>,
+    screenPoint: Vec2,
+    timestamp: number,
+    altKey = false,
+    pointer: { pointerType: string; pressure: number } = { pointerType: 'mouse', pressure: 0.5 },
+  ) {
     const worldPoint = adapter.screenToWorld(screenPoint, viewport)
     if (!worldPoint) {
       return null
@@ -1414,9 +2064,9 @@ export function AnnotationViewport({
     }
     const coordinateScale = freehandCoordinateScale(frame)
     if (tool === 'freehand') {
-      const pipeline = new FreehandStrokePipeline(freehandPipelineOptions, coordinateScale)
+      const pipeline = new FreehandStrokePipeline(freehandPipelineOptions, coordinateScale, pointer.pointerType)
       freehandPipelineRef.current = pipeline
-      const initialPoints = pipeline.addPoint({ x: 0, y: 0, timestamp })
+      const initialPoints = pipeline.addPoint({ x: 0, y: 0, timestamp, pressure: pointer.pressure })
       return {
         id: crypto.randomUUID(),
         layerId: DEFAULT_LAYER_ID,
@@ -1438,9 +2088,14 @@ export function AnnotationViewport({
     }
 
     if (tool === 'brush') {
-      const pipeline = new FreehandStrokePipeline(freehandPipelineOptions, coordinateScale)
+      // Mask brushes follow pen pressure only; a speed-dependent footprint would make prompts erratic.
+      const pipeline = new FreehandStrokePipeline(
+        { ...freehandPipelineOptions, widthMode: freehandPipelineOptions.widthMode === 'uniform' ? 'uniform' : 'pressure' },
+        coordinateScale,
+        pointer.pointerType,
+      )
       freehandPipelineRef.current = pipeline
-      const initialPoints = pipeline.addPoint({ x: 0, y: 0, timestamp })
+      const initialPoints = pipeline.addPoint({ x: 0, y: 0, timestamp, pressure: pointer.pressure })
       // ⌥/Alt while drawing on a mask layer = negative prompt ("not this"),
       // rendered red. Only meaningful in mask mode.
       const negative = altKey && annotatorMode === 'mask' && !!videoAdapter
@@ -1471,6 +2126,29 @@ export function AnnotationViewport({
       } satisfies AnnotationEntity
     }
 
+    if (isSegmentTool(tool)) {
+      return {
+        id: crypto.randomUUID(),
+        layerId: DEFAULT_LAYER_ID,
+        frame,
+        geometry: tool === 'callout'
+          ? { kind: 'callout', from: { x: 0, y: 0 }, to: { x: 0, y: 0 }, text: textValue.trim() || 'Callout' }
+          : { kind: tool, from: { x: 0, y: 0 }, to: { x: 0, y: 0 } },
+        style: {
+          stroke: authorColor,
+          fill: tool === 'callout' ? '#020617' : `${authorColor}22`,
+          strokeWidth: 2,
+          opacity: 1,
+          fontSize: 15,
+        },
+        authorId,
+        authorName,
+        createdAt: now,
+        updatedAt: now,
+        version: 0,
+      } satisfies AnnotationEntity
+    }
+
     if (isStructuredObjectTool(tool)) {
       const isCardTool = tool === 'card'
       return {
@@ -1493,6 +2171,29 @@ export function AnnotationViewport({
       } satisfies AnnotationEntity
     }
 
+    if (isExtensionGeometryKind(tool)) {
+      const registration = getAnnotationToolRegistration(tool)
+      return {
+        id: crypto.randomUUID(),
+        layerId: DEFAULT_LAYER_ID,
+        frame,
+        geometry: { kind: tool, start: { x: 0, y: 0 }, end: { x: 0, y: 0 }, fields: { ...registration?.defaultFields } },
+        style: {
+          stroke: authorColor,
+          fill: `${authorColor}22`,
+          strokeWidth: 2,
+          opacity: 1,
+          fontSize: 15,
+          ...registration?.defaultStyle,
+        },
+        authorId,
+        authorName,
+        createdAt: now,
+        updatedAt: now,
+        version: 0,
+      } satisfies AnnotationEntity
+    }
+
     return {
       id: crypto.randomUUID(),
       layerId: DEFAULT_LAYER_ID,
@@ -1539,6 +2240,15 @@ export function AnnotationViewport({
       }
     }
 
+    if (hasSegmentGeometry(annotation.geometry)) {
+      // Same screen-pixel guard as bounds shapes, but on length: a horizontal
+      // arrow or measurement has no height.
+      const scale = freehandCoordinateScale(annotation.frame)
+      if (vec2Distance(annotation.geometry.from, annotation.geometry.to) * scale < 2) {
+        return
+      }
+    }
+
     room.store.upsertAnnotation(annotation)
     onSelect(annotation.id)
     // Single hook for the live-generation loop: covers brush pointer-up and
@@ -1582,7 +2292,71 @@ export function AnnotationViewport({
     }
   }
 
+  /** Select `ids` with `primaryId` as the primary entry (viewers without multi-select keep just the primary). */
+  function selectAnnotations(ids: string[], primaryId: string) {
+    if (!onSelectMany) {
+      onSelect(primaryId)
+      return
+    }
+    onSelectMany([...ids.filter((id) => id !== primaryId), primaryId])
+  }
+
+  /**
+   * Select every annotation the marquee or lasso touches, expanded to whole groups. Shift or
+   * Ctrl adds to the current selection; a drag too small to be a region acts as a click.
+   */
+  function finishRegionSelection(region: RegionSelectionState) {
+    const start = region.points[0]
+    const end = region.points[region.points.length - 1]
+    const isClick = region.points.every((point) => vec2Distance(point, start) < 3)
+    let hitIds: string[]
+    if (isClick) {
+      const hit = findHitAnnotation(start)
+      hitIds = hit ? [hit.annotation.id] : []
+    } else if (region.tool === 'marquee') {
+      hitIds = annotationHitIndex
+        .queryRect({ minX: start.x, minY: start.y, maxX: end.x, maxY: end.y })
+        .map((entry) => entry.annotation.id)
+    } else {
+      hitIds = annotationHitIndex.queryPolygon(region.points).map((entry) => entry.annotation.id)
+    }
+
+    const regionIds = hitIds.flatMap((id) => getClickSelection(id))
+    const ids = [...new Set(region.additive ? [...selectedIdSet, ...regionIds] : regionIds)]
+    setInlineEditorId(null)
+    if (ids.length === 0) {
+      onSelect(undefined)
+      return
+    }
+    selectAnnotations(ids, ids[ids.length - 1])
+  }
+
+  /** Clicking a grouped annotation selects its whole group. */
+  function getClickSelection(id: string) {
+    return groupByAnnotationId.get(id)?.annotationIds ?? [id]
+  }
+
+  function toggleSelection(id: string) {
+    const toggled = getClickSelection(id)
+    const current = Array.from(selectedIdSet)
+    if (toggled.every((entry) => selectedIdSet.has(entry))) {
+      const remaining = current.filter((entry) => !toggled.includes(entry))
+      onSelectMany?.(remaining)
+      return
+    }
+    selectAnnotations([...current.filter((entry) => !toggled.includes(entry)), ...toggled], id)
+  }
+
   function handleKeyDown(event: ReactKeyboardEvent<HTMLDivElement>) {
+    if (!readOnly && activeTool === 'select' && (event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'g') {
+      event.preventDefault()
+      if (event.shiftKey) {
+        ungroupSelection()
+      } else {
+        groupSelection()
+      }
+      return
+    }
     if (activeTool === 'polygon' && polygonPointsRef.current) {
       if (event.key === 'Enter') {
         event.preventDefault()
@@ -1623,6 +2397,22 @@ export function AnnotationViewport({
 
     event.currentTarget.setPointerCapture(event.pointerId)
 
+    // Shift/Ctrl/Cmd-click on an annotation extends the selection; the same
+    // modifiers only navigate when pressed over empty space.
+    if (
+      activeTool === 'select'
+      && event.button === 0
+      && onSelectMany
+      && (event.shiftKey || event.ctrlKey || event.metaKey)
+    ) {
+      const hit = findHitAnnotation(screenPoint)
+      if (hit?.annotation.id) {
+        setInlineEditorId(null)
+        toggleSelection(hit.annotation.id)
+        return
+      }
+    }
+
     // With the brush active in mask mode, ⌥/Alt means "negative stroke", not
     // pan — so hide altKey from the navigation check (which pans on Alt). Pan
     // stays available via middle-mouse or the select tool.
@@ -1647,6 +2437,13 @@ export function AnnotationViewport({
 
     room.setLocalCursor(adapter.id, screenPoint, activeTool)
 
+    if (readOnly) {
+      if (activeTool === 'select') {
+        onSelect(findHitAnnotation(screenPoint)?.annotation.id)
+      }
+      return
+    }
+
     // Editing has resumed — invalidate any stale live-inpaint overlay immediately.
     if (annotatorMode === 'mask' && (activeTool === 'brush' || activeTool === 'polygon')) {
       onMaskStrokeStarted?.()
@@ -1658,6 +2455,27 @@ export function AnnotationViewport({
         if (inlineEditorId && inlineEditorId !== hit.annotation.id) {
           setInlineEditorId(null)
         }
+        const selection = selectedIdSet.has(hit.annotation.id) && selectedIdSet.size > 1
+          ? Array.from(selectedIdSet)
+          : getClickSelection(hit.annotation.id)
+        if (selection.length > 1) {
+          selectAnnotations(selection, hit.annotation.id)
+          // Shared drag moves every selected annotation by the same world offset.
+          const startWorld = adapter.space === 'image2d' ? adapter.screenToWorld(screenPoint, viewport) : null
+          if (startWorld) {
+            const dragged = visibleAnnotations.filter((annotation) => selection.includes(annotation.id))
+            selectionDragRef.current = {
+              pointerId: event.pointerId,
+              ids: selection,
+              startWorld,
+              startScreen: screenPoint,
+              startBox: getScreenBox(dragged),
+              moved: false,
+            }
+            beginSnapping(new Set(selection))
+          }
+          return
+        }
         if (
           hit.annotation.frame.space === 'image2d'
           && hit.annotation.geometry.kind === 'card'
@@ -1677,8 +2495,11 @@ export function AnnotationViewport({
               pointerId: event.pointerId,
               annotation: hit.annotation as CardAnnotation,
               startLocal: localPoint,
+              startScreen: screenPoint,
+              startBox: getScreenBox([hit.annotation]),
               moved: false,
             }
+            beginSnapping(new Set([hit.annotation.id]))
           }
           return
         }
@@ -1782,7 +2603,24 @@ export function AnnotationViewport({
       return
     }
 
-    const nextDraft = beginDraft(activeTool, screenPoint, event.nativeEvent.timeStamp, event.altKey)
+    if (isRegionSelectionTool(activeTool)) {
+      regionSelectionRef.current = {
+        pointerId: event.pointerId,
+        tool: activeTool,
+        points: [screenPoint],
+        additive: event.shiftKey || event.ctrlKey,
+      }
+      setRegionSelectionOutline({ tool: activeTool, points: [screenPoint] })
+      return
+    }
+
+    // Strokes follow the hand; shapes, segments and stamps snap their first corner.
+    const isSnappingDraft = activeTool !== 'freehand' && activeTool !== 'brush'
+    if (isSnappingDraft) {
+      beginSnapping(new Set())
+    }
+    const draftPoint = isSnappingDraft ? snapDrawPoint(screenPoint, event.ctrlKey) : screenPoint
+    const nextDraft = beginDraft(activeTool, draftPoint, event.nativeEvent.timeStamp, event.altKey, event.nativeEvent)
     if (nextDraft) {
       setBrushPointerPos(null)
       setDraft(nextDraft)
@@ -1794,6 +2632,7 @@ export function AnnotationViewport({
     if (!screenPoint) {
       return
     }
+    adapter.updatePointer?.(screenPoint, viewport)
 
     if (activeTool === 'select' && selectedImageAnnotation?.geometry.kind === 'card' && !isInlineEditorOpen) {
       const gripBounds = getCardGripBounds(selectedImageAnnotation as CardAnnotation)
@@ -1812,18 +2651,70 @@ export function AnnotationViewport({
       return
     }
 
-    if (cardDragRef.current?.pointerId === event.pointerId) {
-      const localPoint = adapter.screenToFrameLocal(screenPoint, cardDragRef.current.annotation.frame, viewport)
-      if (!localPoint) {
+    if (selectionDragRef.current?.pointerId === event.pointerId) {
+      const worldPoint = adapter.screenToWorld(screenPoint, viewport)
+      if (!worldPoint) {
         return
       }
 
-      const deltaX = localPoint.x - cardDragRef.current.startLocal.x
-      const deltaY = localPoint.y - cardDragRef.current.startLocal.y
-      if (!cardDragRef.current.moved && Math.hypot(deltaX, deltaY) < 1.2) {
+      const drag = selectionDragRef.current
+      const translate = {
+        x: worldPoint.x - drag.startWorld.x,
+        y: worldPoint.y - drag.startWorld.y,
+        z: worldPoint.z - drag.startWorld.z,
+      }
+      if (!drag.moved && Math.hypot(translate.x, translate.y, translate.z) < 1.2) {
         return
       }
 
+      drag.moved = true
+      setInlineEditorId(null)
+      const snappedWorld = adapter.screenToWorld(
+        snapDragPoint(screenPoint, drag.startScreen, drag.startBox, event.ctrlKey),
+        viewport,
+      ) ?? worldPoint
+      setTransformPreview({
+        ids: new Set(drag.ids),
+        transform: {
+          pivot: drag.startWorld,
+          translate: {
+            x: snappedWorld.x - drag.startWorld.x,
+            y: snappedWorld.y - drag.startWorld.y,
+            z: snappedWorld.z - drag.startWorld.z,
+          },
+        },
+      })
+      return
+    }
+
+    if (regionSelectionRef.current?.pointerId === event.pointerId) {
+      const region = regionSelectionRef.current
+      if (region.tool === 'marquee') {
+        region.points = [region.points[0], screenPoint]
+      } else if (vec2Distance(region.points[region.points.length - 1], screenPoint) >= 3) {
+        region.points = [...region.points, screenPoint]
+      }
+      setRegionSelectionOutline({ tool: region.tool, points: region.points })
+      return
+    }
+
+    if (cardDragRef.current?.pointerId === event.pointerId) {
+      const cardDrag = cardDragRef.current
+      if (!cardDrag.moved && vec2Distance(screenPoint, cardDrag.startScreen) < 1.2) {
+        return
+      }
+      const localPoint = adapter.screenToFrameLocal(
+        snapDragPoint(screenPoint, cardDrag.startScreen, cardDrag.startBox, event.ctrlKey),
+        cardDrag.annotation.frame,
+        viewport,
+      )
+      if (!localPoint) {
+        return
+      }
+
+      const deltaX = localPoint.x - cardDrag.startLocal.x
+      const deltaY = localPoint.y - cardDrag.startLocal.y
+
       cardDragRef.current.moved = true
       setInlineEditorId(null)
       setDragPreview({
@@ -1891,6 +2782,7 @@ export function AnnotationViewport({
       }
 
       const previewPoints = freehandPipelineRef.current?.getPreviewPoints() ?? draft.geometry.points
+      const previewWidths = freehandPipelineRef.current?.getWidths(previewPoints)
       setDraft((current) => {
         if (!current || (current.geometry.kind !== 'freehand' && current.geometry.kind !== 'brush')) {
           return current
@@ -1911,14 +2803,26 @@ export function AnnotationViewport({
           ...current,
           geometry:
             current.geometry.kind === 'brush'
-              ? { kind: 'brush', points: previewPoints, radius: current.geometry.radius, ...(current.geometry.negative ? { negative: true } : {}) }
-              : { kind: 'freehand', points: previewPoints },
+              ? {
+                  kind: 'brush',
+                  points: previewPoints,
+                  ...(previewWidths ? { widths: previewWidths } : {}),
+                  radius: current.geometry.radius,
+                  ...(current.geometry.negative ? { negative: true } : {}),
+                }
+              : { kind: 'freehand', points: previewPoints, ...(previewWidths ? { widths: previewWidths } : {}) },
         }
       })
       return
     }
 
-    const local = adapter.screenToFrameLocal(screenPoint, draft.frame, viewport)
+    // Segments snap their angle instead of their end point when angle snapping is on.
+    const isAngleSnapped = isSnappingAvailable && snapSettings.angle && !event.ctrlKey && hasSegmentGeometry(draft.geometry)
+    const draftPoint = isAngleSnapped ? screenPoint : snapDrawPoint(screenPoint, event.ctrlKey)
+    if (isAngleSnapped) {
+      showSnapGuides([])
+    }
+    const local = adapter.screenToFrameLocal(draftPoint, draft.frame, viewport)
     if (!local) {
       return
     }
@@ -1952,6 +2856,16 @@ export function AnnotationViewport({
         }
       }
 
+      if (hasSegmentGeometry(current.geometry)) {
+        return {
+          ...current,
+          geometry: {
+            ...current.geometry,
+            to: isAngleSnapped ? snapSegmentAngle(current.geometry.from, local) : local,
+          },
+        }
+      }
+
       return current
     })
   }
@@ -1960,6 +2874,7 @@ export function AnnotationViewport({
     if (event.currentTarget.hasPointerCapture(event.pointerId)) {
       event.currentTarget.releasePointerCapture(event.pointerId)
     }
+    endSnapping()
 
     if (navigationRef.current?.pointerId === event.pointerId) {
       navigationRef.current = null
@@ -1967,11 +2882,35 @@ export function AnnotationViewport({
       return
     }
 
+    if (selectionDragRef.current?.pointerId === event.pointerId) {
+      const currentDrag = selectionDragRef.current
+      selectionDragRef.current = null
+      if (currentDrag.moved && transformPreview) {
+        // Keyframed members key the move at the playhead rather than shifting their whole track.
+        const keyed = visibleAnnotations.filter((annotation) => annotation.keyframes && currentDrag.ids.includes(annotation.id))
+        keyed.forEach((annotation) => commitAnnotationEdit(transformAnnotation(annotation, transformPreview.transform)))
+        room.store.transformAnnotations(
+          currentDrag.ids.filter((id) => !keyed.some((annotation) => annotation.id === id)),
+          transformPreview.transform,
+        )
+      }
+      setTransformPreview(null)
+      return
+    }
+
+    if (regionSelectionRef.current?.pointerId === event.pointerId) {
+      const region = regionSelectionRef.current
+      regionSelectionRef.current = null
+      setRegionSelectionOutline(null)
+      finishRegionSelection(region)
+      return
+    }
+
     if (cardDragRef.current?.pointerId === event.pointerId) {
       const currentDrag = cardDragRef.current
       cardDragRef.current = null
       if (currentDrag.moved && dragPreview?.id === currentDrag.annotation.id) {
-        room.store.upsertAnnotation(dragPreview)
+        commitAnnotationEdit(dragPreview)
         onSelect(dragPreview.id)
       } else {
         onSelect(currentDrag.annotation.id)
@@ -1990,13 +2929,20 @@ export function AnnotationViewport({
       (draftRef.current?.geometry.kind === 'freehand' || draftRef.current?.geometry.kind === 'brush')
     ) {
       const finalizedPoints = freehandPipelineRef.current.finish()
+      const finalizedWidths = freehandPipelineRef.current.getWidths(finalizedPoints)
       const geometry = draftRef.current.geometry
       commitDraft({
         ...draftRef.current,
         geometry:
           geometry.kind === 'brush'
-            ? { kind: 'brush', points: finalizedPoints, radius: geometry.radius, ...(geometry.negative ? { negative: true } : {}) }
-            : { kind: 'freehand', points: finalizedPoints },
+            ? {
+                kind: 'brush',
+                points: finalizedPoints,
+                ...(finalizedWidths ? { widths: finalizedWidths } : {}),
+                radius: geometry.radius,
+                ...(geometry.negative ? { negative: true } : {}),
+              }
+            : { kind: 'freehand', points: finalizedPoints, ...(finalizedWidths ? { widths: finalizedWidths } : {}) },
       })
       setDraft(null)
       return
@@ -2013,6 +2959,7 @@ export function AnnotationViewport({
     if (brushPointerPos) {
       setBrushPointerPos(null)
     }
+    adapter.updatePointer?.(null, viewport)
     room.clearLocalCursor()
   }
 
@@ -2047,6 +2994,37 @@ export function AnnotationViewport({
         </div>
       </header>
       <ViewerToolbar groups={viewerToolbarGroups} />
+      {annotatorMode === 'annotate' && isReviewFilterOpen && (
+        <div className="viewer-review-filter">
+          <span className="viewer-review-filter__label">Status</span>
+          {REVIEW_STATUSES.map((status) => (
+            <button
+              key={status}
+              type="button"
+              className={reviewFilter.statuses.includes(status) ? 'viewer-review-filter__chip is-active' : 'viewer-review-filter__chip'}
+              onClick={() => setReviewFilter((current) => ({ ...current, statuses: toggleListValue(current.statuses, status) }))}
+            >
+              {REVIEW_STATUS_LABELS[status]}
+            </button>
+          ))}
+          <span className="viewer-review-filter__label">Author</span>
+          {reviewAuthors.map((author) => (
+            <button
+              key={author.id}
+              type="button"
+              className={reviewFilter.authorIds.includes(author.id) ? 'viewer-review-filter__chip is-active' : 'viewer-review-filter__chip'}
+              onClick={() => setReviewFilter((current) => ({ ...current, authorIds: toggleListValue(current.authorIds, author.id) }))}
+            >
+              {author.name}
+            </button>
+          ))}
+          {isReviewFilterActive(reviewFilter) ? (
+            <button type="button" className="viewer-review-filter__clear" onClick={() => setReviewFilter(EMPTY_REVIEW_FILTER)}>
+              Clear
+            </button>
+          ) : null}
+        </div>
+      )}
       {annotatorMode === 'mask' && activeTool === 'brush' && (
         <div className="viewer-brush-options">
           <label className="viewer-brush-options__label">
@@ -2131,21 +3109,15 @@ export function AnnotationViewport({
             {inlineTextSelection ? (
               <textarea
                 autoFocus
-                value={inlineTextSelection.geometry.text}
-                onChange={(event) => updateSelectedImageAnnotation(() => ({
-                  ...inlineTextSelection,
-                  geometry: {
-                    ...inlineTextSelection.geometry,
-                    text: event.currentTarget.value,
-                  },
-                }))}
+                value={getRichTextMarkdown(inlineTextSelection)}
+                onChange={(event) => updateRichTextMarkdown(inlineTextSelection, event.currentTarget.value)}
               />
             ) : null}
             {inlineCardSelection ? (
               <>
                 <textarea
                   autoFocus
-                  value={inlineCardSelection.geometry.body.join('\n')}
+                  value={getRichTextMarkdown(inlineCardSelection)}
                   onKeyDown={(event) => {
                     if (event.key === 'Enter' && !event.shiftKey) {
                       event.preventDefault()
@@ -2158,13 +3130,7 @@ export function AnnotationViewport({
                       onToolChange('select')
                     }
                   }}
-                  onChange={(event) => updateSelectedImageAnnotation(() => ({
-                    ...inlineCardSelection,
-                    geometry: {
-                      ...inlineCardSelection.geometry,
-                      body: event.currentTarget.value.split('\n'),
-                    },
-                  }))}
+                  onChange={(event) => updateRichTextMarkdown(inlineCardSelection, event.currentTarget.value)}
                 />
               </>
             ) : null}
@@ -2182,14 +3148,8 @@ export function AnnotationViewport({
                   }))}
                 />
                 <textarea
-                  value={inlineListSelection.geometry.items.join('\n')}
-                  onChange={(event) => updateSelectedImageAnnotation(() => ({
-                    ...inlineListSelection,
-                    geometry: {
-                      ...inlineListSelection.geometry,
-                      items: event.currentTarget.value.split('\n'),
-                    },
-                  }))}
+                  value={getRichTextMarkdown(inlineListSelection)}
+                  onChange={(event) => updateRichTextMarkdown(inlineListSelection, event.currentTarget.value)}
                 />
               </>
             ) : null}
@@ -2213,6 +3173,7 @@ export function AnnotationViewport({
             <LazyAnnotationMantineEditor
               annotation={selectedImageAnnotation}
               viewport={viewport}
+              participants={participants}
               onClose={() => setParametersPanelAnnotationId(null)}
               onUpdate={(annotation) => updateSelectedImageAnnotation(() => annotation)}
               onMoveBackward={() => room.store.moveAnnotationBackward(selectedImageAnnotation.id)}
@@ -2228,6 +3189,7 @@ export function AnnotationViewport({
             />
           </Suspense>
         ) : null}
+        <div ref={annotationLayerHostRef} className="viewer-canvas viewer-canvas--annotations" />
         <canvas
           ref={overlayCanvasRef}
           className={isCardMoveGripHovered
@@ -2277,6 +3239,9 @@ export function AnnotationViewport({
             onSpanChange={onSpanChange}
             zoomToSpan={zoomToSpan}
             onZoomToSpanChange={setZoomToSpan}
+            keyframes={keyframeTarget?.keyframes?.map(getKeyframeLaneFrame)}
+            onAddKeyframe={keyframeTarget ? addKeyframeAtPlayhead : undefined}
+            onRemoveKeyframe={removeKeyframeAtLaneFrame}
           />
           {annotatorMode === 'mask' && maskLayers && maskLayers.length > 0 ? (
             <MaskTrackTimeline
@@ -2311,7 +3276,11 @@ export function AnnotationViewport({
             {badge}
           </span>
         ))}
-        <span>{selectedId ? `Selected: ${selectedId.slice(0, 8)}` : 'No active selection'}</span>
+        <span>
+          {selectedIdSet.size > 1
+            ? `Selected: ${selectedIdSet.size} annotations`
+            : selectedId ? `Selected: ${selectedId.slice(0, 8)}` : 'No active selection'}
+        </span>
       </footer>
       {diagnostics.length > 0 ? (
         <dl className="viewer-diagnostics">
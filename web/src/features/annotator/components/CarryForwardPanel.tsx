@@ -0,0 +1,239 @@
+import { useEffect, useMemo, useState } from 'react'
+import { getVersionHistory, type VersionNode } from '../../../api/versions'
+import { loadImageSize, loadVersionAnnotationDoc, type VersionAnnotationDoc } from '../carryForward'
+import {
+  countAnnotationsByLayer,
+  planCarryForward,
+  type CarryForwardReprojection,
+  type ImageSize,
+} from '../core/annotations/carryForward'
+import { isOpenNote } from '../core/annotations/review'
+import type { AnnotationEntity } from '../core/annotations/types'
+import type { BroadcastCollaborationRoom } from '../core/collaboration/broadcast'
+import type { ViewerAdapter } from '../core/viewers/adapters'
+
+interface Props {
+  assetId: number
+  /** Version the open doc is pinned to; null for the asset's unpinned doc. */
+  docVersionNumber: number | null
+  room: BroadcastCollaborationRoom
+  /** Annotations in the open doc; notes already carried from the source are skipped. */
+  annotations: AnnotationEntity[]
+  adapter: ViewerAdapter
+  readOnly?: boolean
+  onClose: () => void
+}
+
+/** Select value for the asset's unpinned doc. */
+const UNPINNED_SOURCE = 'latest'
+
+const REPROJECTION_LABELS: Record<CarryForwardReprojection, string> = {
+  none: 'Keep positions',
+  fit: 'Fit (image was resized or padded)',
+  fill: 'Fill (image was cropped)',
+}
+
+function formatSize(size: ImageSize | null | undefined) {
+  return size ? `${size.width}×${size.height}` : 'unknown'
+}
+
+/**
+ * Copy chosen layers from another version's annotations into the open doc. Image-space
+ * notes can be refitted when the resolution or aspect changed; every copy records the
+ * note it was carried from. Applies as one undo step.
+ */
+export function CarryForwardPanel({ assetId, docVersionNumber, room, annotations, adapter, readOnly = false, onClose }: Props) {
+  const [versions, setVersions] = useState<VersionNode[]>([])
+  const [sourceKey, setSourceKey] = useState('')
+  const [source, setSource] = useState<VersionAnnotationDoc | null>(null)
+  const [sourceSize, setSourceSize] = useState<ImageSize | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [layerIds, setLayerIds] = useState<string[]>([])
+  const [onlyOpen, setOnlyOpen] = useState(false)
+  const [reprojection, setReprojection] = useState<CarryForwardReprojection>('fit')
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    getVersionHistory(assetId).then(
+      (history) => {
+        if (!cancelled) {
+          setVersions(history.versions.filter((version) => version.version_number !== docVersionNumber))
+        }
+      },
+      (loadError) => console.warn('Failed to list asset versions', loadError),
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [assetId, docVersionNumber])
+
+  useEffect(() => {
+    if (!sourceKey) {
+      return
+    }
+    const versionNumber = sourceKey === UNPINNED_SOURCE ? null : Number(sourceKey)
+    const version = versions.find((candidate) => candidate.version_number === versionNumber)
+    let cancelled = false
+    loadVersionAnnotationDoc(assetId, versionNumber)
+      .then(async (loaded) => {
+        // Docs saved before sizes were recorded fall back to measuring the version's image.
+        const size = loaded?.imageSize ?? (version ? await loadImageSize(version.file_path) : null)
+        if (cancelled) {
+          return
+        }
+        setSource(loaded)
+        setSourceSize(size)
+        setLayerIds(loaded ? Array.from(countAnnotationsByLayer(loaded.snapshot.annotations).keys()) : [])
+      })
+      .catch((loadError) => {
+        console.warn('Failed to load annotations to carry forward', loadError)
+        if (!cancelled) {
+          setMessage('Could not load that version’s annotations')
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false)
+        }
+      })
+    return () => {
+      cancelled = true
+      setSource(null)
+      setSourceSize(null)
+      setMessage(null)
+    }
+  }, [assetId, sourceKey, versions])
+
+  const layerCounts = useMemo(
+    () => countAnnotationsByLayer(source?.snapshot.annotations ?? []),
+    [source],
+  )
+  const targetSize = useMemo(() => (adapter.space === 'image2d' ? adapter.getImageSize?.() ?? null : null), [adapter])
+
+  const plan = useMemo(() => {
+    if (!source) {
+      return null
+    }
+    return planCarryForward(source.snapshot, {
+      layerIds,
+      include: onlyOpen ? isOpenNote : undefined,
+      reprojection,
+      sourceSize,
+      targetSize,
+      source: { docId: source.doc.id, versionNumber: source.doc.target_asset_version_number },
+      existing: annotations,
+    })
+  }, [annotations, layerIds, onlyOpen, reprojection, source, sourceSize, targetSize])
+
+  function handleCarry() {
+    if (!plan || plan.annotations.length === 0) {
+      return
+    }
+    const existingLayerIds = new Set(room.store.getSnapshot().layers.map((layer) => layer.id))
+    room.store.transactAsUndoStep(() => {
+      plan.layers.filter((layer) => !existingLayerIds.has(layer.id)).forEach((layer) => room.store.upsertLayer(layer))
+      plan.annotations.forEach((annotation) => room.store.upsertAnnotation(annotation))
+    })
+    if (targetSize) {
+      room.store.setImageSize(targetSize)
+    }
+    setMessage(`Carried ${plan.annotations.length} annotation${plan.annotations.length === 1 ? '' : 's'}`)
+  }
+
+  return (
+    <div className="carry-forward-panel">
+      <div className="carry-forward-panel__header">
+        <span>Carry forward</span>
+        <button type="button" className="carry-forward-panel__close" onClick={onClose}>
+          ✕
+        </button>
+      </div>
+
+      <label className="carry-forward-panel__field">
+        From
+        <select
+          value={sourceKey}
+          onChange={(event) => {
+            setSourceKey(event.currentTarget.value)
+            setIsLoading(Boolean(event.currentTarget.value))
+          }}
+        >
+          <option value="">Choose a version…</option>
+          {docVersionNumber != null ? <option value={UNPINNED_SOURCE}>Latest (asset annotations)</option> : null}
+          {versions.map((version) => (
+            <option key={version.id} value={String(version.version_number)}>
+              v{version.version_number} · {new Date(version.created_at).toLocaleDateString()}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {isLoading ? <p className="carry-forward-panel__empty">Loading…</p> : null}
+      {sourceKey && !isLoading && !source ? (
+        <p className="carry-forward-panel__empty">That version has no saved annotations.</p>
+      ) : null}
+
+      {source ? (
+        <>
+          <ul className="carry-forward-panel__layers">
+            {source.snapshot.layers
+              .filter((layer) => layerCounts.has(layer.id))
+              .map((layer) => (
+                <li key={layer.id}>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={layerIds.includes(layer.id)}
+                      onChange={(event) => {
+                        const checked = event.currentTarget.checked
+                        setLayerIds((current) => checked ? [...current, layer.id] : current.filter((id) => id !== layer.id))
+                      }}
+                    />
+                    {layer.name}
+                    <span className="carry-forward-panel__count">{layerCounts.get(layer.id)}</span>
+                  </label>
+                </li>
+              ))}
+          </ul>
+
+          <label className="carry-forward-panel__option">
+            <input type="checkbox" checked={onlyOpen} onChange={(event) => setOnlyOpen(event.currentTarget.checked)} />
+            Only open notes
+          </label>
+
+          <label className="carry-forward-panel__field">
+            Reprojection
+            <select
+              value={reprojection}
+              disabled={!targetSize}
+              onChange={(event) => setReprojection(event.currentTarget.value as CarryForwardReprojection)}
+            >
+              {(Object.keys(REPROJECTION_LABELS) as CarryForwardReprojection[]).map((mode) => (
+                <option key={mode} value={mode}>
+                  {REPROJECTION_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <p className="carry-forward-panel__sizes">
+            {formatSize(sourceSize)} → {formatSize(targetSize)}
+          </p>
+
+          <button
+            type="button"
+            className="carry-forward-panel__submit"
+            disabled={readOnly || !plan || plan.annotations.length === 0}
+            onClick={handleCarry}
+          >
+            {plan && plan.annotations.length > 0
+              ? `Carry ${plan.annotations.length} annotation${plan.annotations.length === 1 ? '' : 's'}`
+              : 'Nothing new to carry'}
+          </button>
+        </>
+      ) : null}
+
+      {message ? <p className="carry-forward-panel__message">{message}</p> : null}
+    </div>
+  )
+}
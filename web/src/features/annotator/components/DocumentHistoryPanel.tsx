@@ -0,0 +1,471 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { getAnnotationDocVersion, listAnnotationDocVersions } from '../annotatorApi'
+import { framePointToWorld, getGeometryLocalBounds, worldToFrameLocal } from '../core/annotations/geometry'
+import {
+  diffAnnotationSnapshots,
+  getAuthorHighlightColor,
+  readAnnotationDocState,
+  restoreAnnotationSnapshot,
+  type AnnotationChange,
+} from '../core/annotations/history'
+import type { AnnotationDocumentSnapshot, AnnotationEntity } from '../core/annotations/types'
+import type { BroadcastCollaborationRoom } from '../core/collaboration/broadcast'
+import { renderPrimitiveBatchesToCanvas } from '../core/rendering/canvasRenderer'
+import type { AnnotationProjectionHost, ViewportSize } from '../core/rendering/host'
+import { buildAnnotationSceneRenderPlan } from '../core/rendering/renderService'
+import { useElementSize } from '../hooks/useElementSize'
+
+interface Props {
+  docId: number
+  room: BroadcastCollaborationRoom
+  /** The live document, listed as "Current". */
+  liveSnapshot: AnnotationDocumentSnapshot
+  onClose: () => void
+}
+
+/** A state the panel can show: the live doc, a published version or a relay snapshot. */
+interface HistoryEntry {
+  key: string
+  source: 'live' | 'version' | 'relay'
+  label: string
+  createdAt?: string
+  authors: string[]
+  versionNumber?: number
+}
+
+const LIVE_KEY = 'live'
+const PREVIEW_HEIGHT = 220
+const PREVIEW_PADDING = 16
+const UNCHANGED_ALPHA = 0.35
+
+const CHANGE_LABELS: Record<AnnotationChange['kind'], string> = {
+  added: 'Added',
+  removed: 'Removed',
+  modified: 'Modified',
+}
+
+function fromBase64(serialized: string) {
+  const binary = atob(serialized)
+  return Uint8Array.from(binary, (character) => character.charCodeAt(0))
+}
+
+function formatTimestamp(value: string | undefined) {
+  return value ? new Date(value).toLocaleString() : ''
+}
+
+/**
+ * Orthographic fit of every annotation's world x/y into the preview. Image and video
+ * frames map 1:1; 3D annotations are flattened onto the world XY plane.
+ */
+function createFitProjectionHost(annotations: AnnotationEntity[], viewport: ViewportSize): AnnotationProjectionHost {
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  annotations.forEach((annotation) => {
+    const bounds = getGeometryLocalBounds(annotation.geometry)
+    const corners = [
+      { x: bounds.minX, y: bounds.minY },
+      { x: bounds.maxX, y: bounds.minY },
+      { x: bounds.minX, y: bounds.maxY },
+      { x: bounds.maxX, y: bounds.maxY },
+    ]
+    corners.forEach((corner) => {
+      const world = framePointToWorld(annotation.frame, corner)
+      minX = Math.min(minX, world.x)
+      minY = Math.min(minY, world.y)
+      maxX = Math.max(maxX, world.x)
+      maxY = Math.max(maxY, world.y)
+    })
+  })
+  if (!Number.isFinite(minX)) {
+    minX = 0
+    minY = 0
+    maxX = 1
+    maxY = 1
+  }
+
+  const width = Math.max(maxX - minX, 1)
+  const height = Math.max(maxY - minY, 1)
+  const scale = Math.max(
+    Math.min((viewport.width - PREVIEW_PADDING * 2) / width, (viewport.height - PREVIEW_PADDING * 2) / height),
+    Number.EPSILON,
+  )
+  const offsetX = (viewport.width - width * scale) / 2
+  const offsetY = (viewport.height - height * scale) / 2
+
+  return {
+    project(frame, localPoint) {
+      const world = framePointToWorld(frame, localPoint)
+      return { x: offsetX + (world.x - minX) * scale, y: offsetY + (world.y - minY) * scale }
+    },
+    screenToFrameLocal(screenPoint, frame) {
+      return worldToFrameLocal(frame, {
+        x: minX + (screenPoint.x - offsetX) / scale,
+        y: minY + (screenPoint.y - offsetY) / scale,
+        z: frame.origin.z,
+      })
+    },
+  }
+}
+
+/** Who a diff credits with a change: the relay actor of its last edit, else the note's creator. */
+interface ChangeEditor {
+  id: string
+  name: string
+  fromRelayLog: boolean
+}
+
+function getChangeEditor(change: AnnotationChange, editors: Record<string, string> | null): ChangeEditor {
+  const actor = editors?.[change.id]
+  if (actor) {
+    return { id: actor, name: actor, fromRelayLog: true }
+  }
+  return {
+    id: change.annotation.authorId,
+    name: change.annotation.authorName || change.annotation.authorId,
+    fromRelayLog: false,
+  }
+}
+
+/** Changed annotations take their editor's highlight color; removed ones are drawn dashed. */
+function highlightAnnotation(annotation: AnnotationEntity, editorId: string, removed: boolean): AnnotationEntity {
+  return {
+    ...annotation,
+    style: {
+      ...annotation.style,
+      stroke: getAuthorHighlightColor(editorId),
+      dashed: removed || annotation.style.dashed,
+    },
+  }
+}
+
+/**
+ * Time-travel browser for the annotation document: lists published versions and the
+ * relay's stored snapshots, previews any of them read-only through the scene render
+ * plan, and diffs one against another by editor, read from the relay's per-actor log.
+ * Admins are offered restoring a past state, which lands in the live doc as one new,
+ * undoable transaction; it is an ordinary edit, so the admin-only rule is advisory.
+ */
+export function DocumentHistoryPanel({ docId, room, liveSnapshot, onClose }: Props) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [canRestore, setCanRestore] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [states, setStates] = useState<Record<string, AnnotationDocumentSnapshot>>({})
+  const [viewKey, setViewKey] = useState(LIVE_KEY)
+  const [compareKey, setCompareKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [restoreNote, setRestoreNote] = useState<string | null>(null)
+  const [editorsByRange, setEditorsByRange] = useState<{ range: string; editors: Record<string, string> } | null>(null)
+  const previewRef = useRef<HTMLDivElement | null>(null)
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const requestedKeysRef = useRef(new Set<string>())
+  const previewSize = useElementSize(previewRef)
+
+  // Mounted only while the panel is open, so list eagerly. Either source may be
+  // missing (no relay, or no published versions yet) without hiding the other.
+  useEffect(() => {
+    let cancelled = false
+    void Promise.all([
+      listAnnotationDocVersions(docId).catch((listError) => {
+        console.warn('Failed to list published annotation versions', listError)
+        return null
+      }),
+      room.fetchRelayHistory().catch((historyError) => {
+        console.warn('Failed to load relay history', historyError)
+        return null
+      }),
+    ]).then(([published, relay]) => {
+      if (cancelled) {
+        return
+      }
+      const versionEntries: HistoryEntry[] = (published?.versions ?? []).map((version) => ({
+        key: `version:${version.version_number}`,
+        source: 'version',
+        label: `Published v${version.version_number}`,
+        createdAt: version.created_at,
+        authors: version.created_by ? [version.created_by] : [],
+        versionNumber: version.version_number,
+      }))
+      const relayEntries: HistoryEntry[] = (relay?.snapshots ?? []).map((snapshot) => ({
+        key: `relay:${snapshot.id}`,
+        source: 'relay',
+        label: `Relay snapshot · ${snapshot.updateCount} edit${snapshot.updateCount === 1 ? '' : 's'}`,
+        createdAt: snapshot.createdAt,
+        authors: snapshot.actors,
+      }))
+      setEntries(
+        [...versionEntries, ...relayEntries].sort(
+          (left, right) => Date.parse(right.createdAt ?? '') - Date.parse(left.createdAt ?? ''),
+        ),
+      )
+      setCanRestore(published?.can_restore ?? false)
+      setLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [docId, room])
+
+  // Past states are immutable, so each is fetched and decoded at most once.
+  useEffect(() => {
+    const wanted = entries.filter((entry) => entry.key === viewKey || entry.key === compareKey)
+    wanted.forEach((entry) => {
+      if (!entry || states[entry.key] || requestedKeysRef.current.has(entry.key)) {
+        return
+      }
+      requestedKeysRef.current.add(entry.key)
+      const load = entry.source === 'version'
+        ? getAnnotationDocVersion(docId, entry.versionNumber ?? 0).then((version) => fromBase64(version.doc_state))
+        : room.fetchRelayStateAt(Date.parse(entry.createdAt ?? '')).then((state) => state?.update ?? null)
+      load.then(
+        (update) => {
+          if (!update) {
+            setError(`${entry.label} is no longer stored`)
+            return
+          }
+          setStates((previous) => ({ ...previous, [entry.key]: readAnnotationDocState(update) }))
+        },
+        (loadError) => {
+          console.warn('Failed to load annotation history state', loadError)
+          requestedKeysRef.current.delete(entry.key)
+          setError(`Could not load ${entry.label}`)
+        },
+      )
+    })
+  }, [compareKey, docId, entries, room, states, viewKey])
+
+  const viewed = viewKey === LIVE_KEY ? liveSnapshot : states[viewKey]
+  const compared = compareKey === null ? null : compareKey === LIVE_KEY ? liveSnapshot : states[compareKey]
+  const changes = useMemo(
+    () => (viewed && compared ? diffAnnotationSnapshots(compared, viewed) : null),
+    [compared, viewed],
+  )
+  const viewedEntry = entries.find((entry) => entry.key === viewKey)
+  const compareRange = compareKey === null ? null : `${viewKey}|${compareKey}`
+  const editors = editorsByRange && editorsByRange.range === compareRange ? editorsByRange.editors : null
+  const changeEditors = useMemo(
+    () => new Map((changes ?? []).map((change) => [change.id, getChangeEditor(change, editors)])),
+    [changes, editors],
+  )
+
+  // Creators are not editors: credit each change to whoever last touched it between the two states.
+  useEffect(() => {
+    if (compareKey === null || compareRange === null) {
+      return
+    }
+    const getTime = (key: string) => (
+      key === LIVE_KEY ? Date.now() : Date.parse(entries.find((entry) => entry.key === key)?.createdAt ?? '')
+    )
+    const [viewTime, compareTime] = [getTime(viewKey), getTime(compareKey)]
+    if (!Number.isFinite(viewTime) || !Number.isFinite(compareTime)) {
+      return
+    }
+    let cancelled = false
+    room.fetchRelayEditors(Math.min(viewTime, compareTime), Math.max(viewTime, compareTime))
+      .catch((editorsError) => {
+        console.warn('Failed to load relay edit attribution', editorsError)
+        return null
+      })
+      .then((loaded) => {
+        if (!cancelled) {
+          setEditorsByRange({ range: compareRange, editors: loaded ?? {} })
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [compareKey, compareRange, entries, room, viewKey])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context || previewSize.width === 0) {
+      return
+    }
+    const viewport = { width: previewSize.width, height: PREVIEW_HEIGHT }
+    const pixelRatio = window.devicePixelRatio || 1
+    canvas.width = Math.floor(viewport.width * pixelRatio)
+    canvas.height = Math.floor(viewport.height * pixelRatio)
+    canvas.style.width = `${viewport.width}px`
+    canvas.style.height = `${viewport.height}px`
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+    context.clearRect(0, 0, viewport.width, viewport.height)
+    if (!viewed) {
+      return
+    }
+
+    const changeById = new Map((changes ?? []).map((change) => [change.id, change]))
+    const removed = (changes ?? []).filter((change) => change.kind === 'removed').map((change) => change.annotation)
+    const plan = buildAnnotationSceneRenderPlan({
+      // Fit both states so the preview does not jump when toggling the comparison.
+      projectionHost: createFitProjectionHost([...viewed.annotations, ...(compared?.annotations ?? [])], viewport),
+      viewport,
+      annotations: [
+        ...viewed.annotations.map((annotation) => ({
+          annotation: changeById.has(annotation.id)
+            ? highlightAnnotation(annotation, changeEditors.get(annotation.id)?.id ?? annotation.authorId, false)
+            : annotation,
+          selected: false,
+          alphaMultiplier: changes && !changeById.has(annotation.id) ? UNCHANGED_ALPHA : 1,
+          collapseUnselectedWorldMarker: false,
+        })),
+        ...removed.map((annotation) => ({
+          annotation: highlightAnnotation(annotation, changeEditors.get(annotation.id)?.id ?? annotation.authorId, true),
+          selected: false,
+          collapseUnselectedWorldMarker: false,
+        })),
+      ],
+    })
+    renderPrimitiveBatchesToCanvas(context, plan.batches)
+  }, [changeEditors, changes, compared, previewSize.width, viewed])
+
+  function handleRestore() {
+    if (!viewed || !viewedEntry) {
+      return
+    }
+    if (!window.confirm(`Restore ${viewedEntry.label}? The current annotations are replaced; Undo reverts it.`)) {
+      return
+    }
+    const restored = restoreAnnotationSnapshot(room.store, viewed)
+    setRestoreNote(restored ? `Restored ${viewedEntry.label}` : 'This document is read-only')
+    window.setTimeout(() => setRestoreNote(null), 2500)
+    if (restored) {
+      setViewKey(LIVE_KEY)
+      setCompareKey(null)
+    }
+  }
+
+  const rows: HistoryEntry[] = [
+    { key: LIVE_KEY, source: 'live', label: 'Current', authors: [] },
+    ...entries,
+  ]
+
+  return (
+    <div className="document-history-panel">
+      <div className="document-history-panel__header">
+        <span>Document history</span>
+        <button type="button" className="document-history-panel__close" onClick={onClose}>
+          ✕
+        </button>
+      </div>
+
+      <div ref={previewRef} className="document-history-panel__preview">
+        <canvas ref={canvasRef} />
+        <span className="document-history-panel__preview-label">
+          {viewedEntry?.label ?? 'Current'}
+          {compareKey ? ` vs ${rows.find((row) => row.key === compareKey)?.label ?? ''}` : ''}
+          {' · read-only'}
+        </span>
+      </div>
+
+      {error ? <p className="document-history-panel__error">{error}</p> : null}
+      {restoreNote ? <p className="document-history-panel__note">{restoreNote}</p> : null}
+
+      {loading ? (
+        <p className="document-history-panel__empty">Loading…</p>
+      ) : (
+        <ul className="document-history-panel__entries">
+          {rows.map((row) => (
+            <li
+              key={row.key}
+              className={
+                'document-history-panel__entry' +
+                (row.key === viewKey ? ' document-history-panel__entry--viewed' : '')
+              }
+            >
+              <button
+                type="button"
+                className="document-history-panel__entry-view"
+                title="Show this state in the preview"
+                onClick={() => {
+                  setError(null)
+                  setViewKey(row.key)
+                  if (compareKey === row.key) {
+                    setCompareKey(null)
+                  }
+                }}
+              >
+                <span className="document-history-panel__entry-label">{row.label}</span>
+                <span className="document-history-panel__entry-meta">
+                  {row.source === 'live' ? 'Live document' : formatTimestamp(row.createdAt)}
+                  {row.authors.length > 0 ? ` · ${row.authors.join(', ')}` : ''}
+                </span>
+              </button>
+              <button
+                type="button"
+                className={
+                  'document-history-panel__compare' +
+                  (row.key === compareKey ? ' document-history-panel__compare--on' : '')
+                }
+                disabled={row.key === viewKey}
+                title="Diff the previewed state against this one"
+                onClick={() => {
+                  setError(null)
+                  setCompareKey((previous) => (previous === row.key ? null : row.key))
+                }}
+              >
+                Diff
+              </button>
+            </li>
+          ))}
+          {entries.length === 0 ? (
+            <li className="document-history-panel__empty">
+              No published versions or relay snapshots yet.
+            </li>
+          ) : null}
+        </ul>
+      )}
+
+      {changes ? (
+        <div className="document-history-panel__diff">
+          <div className="document-history-panel__diff-count">
+            {changes.length === 0 ? 'No annotation changes' : `${changes.length} change${changes.length === 1 ? '' : 's'}`}
+          </div>
+          <ul className="document-history-panel__changes">
+            {changes.map((change) => {
+              const editor = changeEditors.get(change.id) ?? getChangeEditor(change, null)
+              return (
+                <li key={`${change.kind}:${change.id}`} className="document-history-panel__change">
+                  <span className={`document-history-panel__change-kind document-history-panel__change-kind--${change.kind}`}>
+                    {CHANGE_LABELS[change.kind]}
+                  </span>
+                  <span className="document-history-panel__change-label">{change.annotation.geometry.kind}</span>
+                  <span
+                    className="document-history-panel__author"
+                    style={{ color: getAuthorHighlightColor(editor.id) }}
+                    title={
+                      editor.fromRelayLog
+                        ? 'Last edited by this relay user'
+                        : 'Creator of the annotation; the relay has no edit log for this change'
+                    }
+                  >
+                    {editor.fromRelayLog ? editor.name : `${editor.name} (creator)`}
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      ) : null}
+
+      {canRestore && viewKey !== LIVE_KEY ? (
+        <>
+          <button
+            type="button"
+            className="document-history-panel__restore"
+            disabled={!viewed || liveSnapshot.readOnly}
+            title="Replace the live annotations with this state as a new, undoable edit"
+            onClick={handleRestore}
+          >
+            Restore this state
+          </button>
+          <p className="document-history-panel__hint">
+            Only admins see Restore, but it is advisory: a restore is an ordinary edit, and anyone who can
+            edit this document can make the same changes by hand.
+          </p>
+        </>
+      ) : null}
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
 import { useEffect, useRef, useState } from 'react'
-import { frameToMidTime, type VideoViewerAdapter } from '../core/viewers/videoAdapter'
+import { timeToFrame, type VideoViewerAdapter } from '../core/viewers/videoAdapter'
 import { FilmstripScrubber, type FrameSpan } from './FilmstripScrubber'
 import { SpanFrameInput } from './SpanFrameInput'
 
@@ -20,7 +20,9 @@ function formatTimecode(seconds: number, frameRate: number) {
  * stepping, a filmstrip scrub bar, and a live timecode/frame readout. Subscribes to
  * the adapter so it re-renders on every frame callback during playback. When span
  * editing is enabled, also hosts numeric in/out frame fields and a zoom-to-span
- * toggle that focuses the filmstrip on the span.
+ * toggle that focuses the filmstrip on the span. When `onAddKeyframe` is given, a
+ * keyframe lane under the filmstrip shows the selected annotation's keys (playlist
+ * frames) with buttons to key or un-key the playhead frame.
  */
 export function VideoTransport({
   adapter,
@@ -28,6 +30,9 @@ export function VideoTransport({
   onSpanChange,
   zoomToSpan = false,
   onZoomToSpanChange,
+  keyframes,
+  onAddKeyframe,
+  onRemoveKeyframe,
 }: {
   adapter: VideoViewerAdapter
   span?: FrameSpan | null
@@ -35,6 +40,10 @@ export function VideoTransport({
   /** Controlled zoom-to-span state — lifted so sibling timelines can share the window. */
   zoomToSpan?: boolean
   onZoomToSpanChange?: (zoom: boolean) => void
+  /** Playlist frames of the selected annotation's keyframes. */
+  keyframes?: number[]
+  onAddKeyframe?: () => void
+  onRemoveKeyframe?: (frame: number) => void
 }) {
   const [, setVersion] = useState(0)
 
@@ -47,6 +56,7 @@ export function VideoTransport({
 
   const spanEnabled = Boolean(onSpanChange)
   const spanActive = span != null && span.end >= span.start
+  const viewWindow = zoomToSpan && spanActive ? span : null
 
   // Zooming must not strand the playhead outside the window: the viewport
   // would keep showing an out-of-window frame while the strip displays the
@@ -62,9 +72,9 @@ export function VideoTransport({
     const frame = adapter.getMediaState().currentFrame
     if (frame < span.start || frame > span.end) {
       const clamped = Math.min(Math.max(frame, span.start), span.end)
-      adapter.seekToProgress(frameToMidTime(clamped, fps) / totalDuration)
+      adapter.seekToFrame(clamped)
     }
-  }, [windowActive, span, adapter, fps, totalDuration])
+  }, [windowActive, span, adapter, totalDuration])
 
   const commitStart = (frame: number) => {
     const next = Math.min(Math.max(frame, 0), lastFrame)
@@ -77,6 +87,13 @@ export function VideoTransport({
     onSpanChange?.({ start: Math.min(start, next), end: Math.max(start, next) })
   }
 
+  // The keyframe lane maps frames over the same window the filmstrip displays.
+  const playheadFrame = timeToFrame(media.playlistCurrentTime, fps)
+  const laneStart = viewWindow ? Math.min(Math.max(viewWindow.start, 0), lastFrame) : 0
+  const laneEnd = viewWindow ? Math.min(Math.max(viewWindow.end, laneStart), lastFrame) : lastFrame
+  const laneCount = laneEnd - laneStart + 1
+  const keyedAtPlayhead = keyframes?.includes(playheadFrame) ?? false
+
   return (
     <div className="video-transport">
       <div className="video-transport__controls">
@@ -109,13 +126,50 @@ export function VideoTransport({
         </button>
       </div>
 
-      <FilmstripScrubber
-        adapter={adapter}
-        media={media}
-        span={span}
-        onSpanChange={onSpanChange}
-        viewWindow={zoomToSpan && spanActive ? span : null}
-      />
+      <div className="video-transport__track">
+        <FilmstripScrubber
+          adapter={adapter}
+          media={media}
+          span={span}
+          onSpanChange={onSpanChange}
+          viewWindow={viewWindow}
+        />
+        {onAddKeyframe ? (
+          <div className="video-transport__keys">
+            <div className="video-transport__keys-lane">
+              {(keyframes ?? [])
+                .filter((frame) => frame >= laneStart && frame <= laneEnd)
+                .map((frame) => (
+                  <button
+                    key={frame}
+                    type="button"
+                    className={`video-transport__key${frame === playheadFrame ? ' video-transport__key--current' : ''}`}
+                    style={{ left: `${((frame - laneStart + 0.5) / laneCount) * 100}%` }}
+                    title={`Keyframe at frame ${frame}`}
+                    aria-label={`Go to keyframe at frame ${frame}`}
+                    onClick={() => {
+                      if (totalDuration > 0) {
+                        adapter.seekToFrame(frame)
+                      }
+                    }}
+                  >
+                    ◆
+                  </button>
+                ))}
+            </div>
+            <button
+              type="button"
+              className="video-transport__button video-transport__button--key"
+              onClick={() => (keyedAtPlayhead ? onRemoveKeyframe?.(playheadFrame) : onAddKeyframe())}
+              title={keyedAtPlayhead ? 'Remove keyframe at playhead' : 'Add keyframe at playhead'}
+              aria-label={keyedAtPlayhead ? 'Remove keyframe at playhead' : 'Add keyframe at playhead'}
+              aria-pressed={keyedAtPlayhead}
+            >
+              {keyedAtPlayhead ? '◆−' : '◆+'}
+            </button>
+          </div>
+        ) : null}
+      </div>
 
       {spanEnabled ? (
         <div className="video-transport__span-controls">
@@ -0,0 +1,66 @@
+import type { LucideIcon } from 'lucide-react'
+import type {
+  AnnotationStyle,
+  ExtensionGeometryKind,
+  ViewerSpace,
+} from '../core/annotations/types'
+import {
+  defaultAnnotationRenderPluginManager,
+  type AnnotationRenderPlugin,
+} from '../core/rendering/annotationPlugins'
+
+/** One input in the 2D editor, bound to `geometry.fields[key]`. */
+export type AnnotationEditorField =
+  | { key: string; label: string; input: 'text' | 'textarea' }
+  | { key: string; label: string; input: 'select'; options: { value: string; label: string }[] }
+
+/**
+ * A geometry kind contributed by a feature module: the toolbar button that draws it, the
+ * renderer and hit testing behind it, and the fields the 2D editor shows for it. The kind
+ * is drawn by dragging a box, like a rectangle.
+ */
+export interface AnnotationToolRegistration {
+  kind: ExtensionGeometryKind
+  label: string
+  icon?: LucideIcon
+  /** Viewer spaces whose toolbar offers the tool. Defaults to image2d. */
+  spaces?: ViewerSpace[]
+  defaultFields: Record<string, string>
+  defaultStyle?: Partial<AnnotationStyle>
+  editorFields: AnnotationEditorField[]
+  /** Rendering, hit testing and screen bounds; `kinds` should list `kind`. */
+  plugin: AnnotationRenderPlugin
+}
+
+const registrations = new Map<ExtensionGeometryKind, AnnotationToolRegistration>()
+const unregisterPlugins = new Map<ExtensionGeometryKind, () => void>()
+
+/**
+ * Register an extension tool and its render plugin with the default plugin manager.
+ * Registering the same kind again replaces the earlier registration (e.g. after HMR).
+ * Returns a callback that removes both.
+ */
+export function registerAnnotationTool(registration: AnnotationToolRegistration) {
+  unregisterPlugins.get(registration.kind)?.()
+  registrations.set(registration.kind, registration)
+  const unregisterPlugin = defaultAnnotationRenderPluginManager.register(registration.plugin)
+  unregisterPlugins.set(registration.kind, unregisterPlugin)
+
+  return () => {
+    if (registrations.get(registration.kind) !== registration) {
+      return
+    }
+    registrations.delete(registration.kind)
+    unregisterPlugins.delete(registration.kind)
+    unregisterPlugin()
+  }
+}
+
+export function getAnnotationToolRegistration(kind: string) {
+  return registrations.get(kind as ExtensionGeometryKind)
+}
+
+/** Registered tools offered in `space`, in registration order. */
+export function getRegisteredAnnotationTools(space: ViewerSpace) {
+  return [...registrations.values()].filter((registration) => (registration.spaces ?? ['image2d']).includes(space))
+}
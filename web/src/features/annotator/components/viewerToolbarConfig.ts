@@ -1,28 +1,60 @@
 import type { LucideIcon } from 'lucide-react'
 import {
+  AlignCenterHorizontal,
+  AlignCenterVertical,
+  AlignEndHorizontal,
+  AlignEndVertical,
+  AlignHorizontalDistributeCenter,
+  AlignStartHorizontal,
+  AlignStartVertical,
+  AlignVerticalDistributeCenter,
+  ArrowUpRight,
   Brush,
   Circle,
+  Contrast,
   Eraser,
   Frame,
+  Gauge,
+  Grid2x2,
+  Grid3x3,
+  Group,
   Hexagon,
+  LassoSelect,
   ImagePlus,
+  Layers2,
+  Magnet,
+  Maximize2,
+  Minimize2,
+  MessageSquareQuote,
   MousePointer2,
   MoveDown,
   MoveLeft,
   MoveRight,
   MoveUp,
+  Palette,
   PenTool,
   PencilLine,
+  Pipette,
+  Rainbow,
   Redo2,
   RotateCcw,
   RotateCw,
+  Ruler,
+  Scan,
   ScanSearch,
   SlidersHorizontal,
   Square,
+  SquareDashed,
   StickyNote,
+  Sun,
+  SunDim,
+  SunMoon,
   Trash2,
+  TriangleAlert,
+  TriangleRight,
   Type,
   Undo2,
+  Ungroup,
   Wand2,
   ZoomIn,
   ZoomOut,
@@ -63,6 +95,28 @@ export function getViewerToolbarActionIcon(actionId: string): LucideIcon | undef
       return Frame
     case 'reload-stream':
       return ImagePlus
+    case 'exposure-up':
+      return Sun
+    case 'exposure-down':
+      return SunDim
+    case 'gamma-up':
+    case 'gamma-down':
+      return Contrast
+    case 'display-reset':
+      return SunMoon
+    case 'view-transform':
+    case 'input-space':
+      return Palette
+    case 'pixel-probe':
+      return Pipette
+    case 'channel-mode':
+      return Layers2
+    case 'false-color':
+      return Rainbow
+    case 'clipping':
+      return TriangleAlert
+    case 'alpha-checkerboard':
+      return Grid2x2
     default:
       return undefined
   }
@@ -70,6 +124,8 @@ export function getViewerToolbarActionIcon(actionId: string): LucideIcon | undef
 
 export const VIEWER_TOOL_ICONS = {
   select: MousePointer2,
+  marquee: SquareDashed,
+  lasso: LassoSelect,
   freehand: PencilLine,
   brush: Brush,
   polygon: Hexagon,
@@ -77,6 +133,9 @@ export const VIEWER_TOOL_ICONS = {
   ellipse: Circle,
   text: Type,
   card: StickyNote,
+  arrow: ArrowUpRight,
+  callout: MessageSquareQuote,
+  measurement: Ruler,
   deleteSelected: Trash2,
   undo: Undo2,
   redo: Redo2,
@@ -85,9 +144,40 @@ export const VIEWER_TOOL_ICONS = {
   clear3d: Eraser,
   annotateMode: PenTool,
   maskMode: Wand2,
+  group: Group,
+  ungroup: Ungroup,
+  rotateSelectionLeft: RotateCcw,
+  rotateSelectionRight: RotateCw,
+  scaleSelectionUp: Maximize2,
+  scaleSelectionDown: Minimize2,
+  alignLeft: AlignStartVertical,
+  alignCenterX: AlignCenterVertical,
+  alignRight: AlignEndVertical,
+  alignTop: AlignStartHorizontal,
+  alignCenterY: AlignCenterHorizontal,
+  alignBottom: AlignEndHorizontal,
+  distributeHorizontal: AlignHorizontalDistributeCenter,
+  distributeVertical: AlignVerticalDistributeCenter,
+  snapObjects: Magnet,
+  snapImageEdges: Scan,
+  snapPixelGrid: Grid3x3,
+  snapAngle: TriangleRight,
+  velocityWidth: Gauge,
 } as const
 
 export type ViewerToolbarToolId = keyof Pick<
   typeof VIEWER_TOOL_ICONS,
-  'select' | 'freehand' | 'brush' | 'polygon' | 'rectangle' | 'ellipse' | 'text' | 'card'
+  | 'select'
+  | 'marquee'
+  | 'lasso'
+  | 'freehand'
+  | 'brush'
+  | 'polygon'
+  | 'rectangle'
+  | 'ellipse'
+  | 'text'
+  | 'card'
+  | 'arrow'
+  | 'callout'
+  | 'measurement'
 >
\ No newline at end of file
@@ -0,0 +1,311 @@
+import type { StoredSchemaDocument } from '../migrations'
+
+/**
+ * Docs as each schema version stored them. Later versions only add optional fields, so
+ * each fixture uses the shapes introduced by its version to check they survive upgrade.
+ */
+
+const frame = {
+  space: 'image2d',
+  origin: { x: 40, y: 60, z: 0 },
+  xAxis: { x: 1, y: 0, z: 0 },
+  yAxis: { x: 0, y: 1, z: 0 },
+  targetId: 'image:plate',
+}
+
+const style = {
+  stroke: '#5eead4',
+  fill: 'rgba(94, 234, 212, 0.14)',
+  strokeWidth: 2,
+  opacity: 1,
+  fontSize: 15,
+}
+
+const author = { authorId: 'user-7', authorName: 'Riley' }
+
+/** Before versioning: no stamps, no draw order, layers without viewer spaces. */
+export const schemaV1Document: StoredSchemaDocument = {
+  annotations: [
+    {
+      id: 'rect-1',
+      layerId: 'shared-markup',
+      frame,
+      geometry: { kind: 'rectangle', start: { x: 0, y: 0 }, end: { x: 120, y: 80 } },
+      style,
+      ...author,
+      createdAt: 1_700_000_000_000,
+      updatedAt: 1_700_000_000_500,
+      version: 2,
+    },
+    {
+      id: 'text-1',
+      layerId: 'notes',
+      frame: { ...frame, origin: { x: 200, y: 90, z: 0 } },
+      geometry: { kind: 'text', position: { x: 0, y: 0 }, text: 'Soften this edge' },
+      style,
+      ...author,
+      createdAt: 1_700_000_001_000,
+      updatedAt: 1_700_000_001_000,
+      version: 1,
+    },
+  ],
+  layers: [
+    { id: 'shared-markup', name: 'Shared Markup', visible: true },
+    { id: 'notes', name: 'Notes', visible: false, order: 1 },
+  ],
+}
+
+export const schemaV2Document: StoredSchemaDocument = {
+  schemaVersion: 2,
+  annotations: [
+    {
+      id: 'ellipse-1',
+      layerId: 'shared-markup',
+      frame,
+      geometry: { kind: 'ellipse', start: { x: 0, y: 0 }, end: { x: 60, y: 36 } },
+      style,
+      drawOrder: 5,
+      ...author,
+      createdAt: 1_700_000_002_000,
+      updatedAt: 1_700_000_002_000,
+      version: 1,
+      schemaVersion: 2,
+    },
+  ],
+  layers: [
+    { id: 'shared-markup', name: 'Shared Markup', visible: true, supportedSpaces: ['image2d'], schemaVersion: 2 },
+  ],
+}
+
+export const schemaV3Document: StoredSchemaDocument = {
+  schemaVersion: 3,
+  annotations: [
+    {
+      id: 'arrow-1',
+      layerId: 'shared-markup',
+      frame,
+      geometry: { kind: 'arrow', from: { x: 0, y: 0 }, to: { x: 64, y: 32 } },
+      style,
+      drawOrder: 1,
+      ...author,
+      createdAt: 1_700_000_003_000,
+      updatedAt: 1_700_000_003_000,
+      version: 1,
+      schemaVersion: 3,
+    },
+    {
+      id: 'callout-1',
+      layerId: 'shared-markup',
+      frame,
+      geometry: { kind: 'callout', from: { x: 0, y: 0 }, to: { x: 40, y: -30 }, text: 'Matte line' },
+      style,
+      drawOrder: 2,
+      ...author,
+      createdAt: 1_700_000_003_100,
+      updatedAt: 1_700_000_003_100,
+      version: 1,
+      // Written by a v2 client into a doc already upgraded to v3.
+    },
+  ],
+  layers: [
+    { id: 'shared-markup', name: 'Shared Markup', visible: true, supportedSpaces: ['image2d', 'world3d'], schemaVersion: 3 },
+  ],
+}
+
+export const schemaV4Document: StoredSchemaDocument = {
+  schemaVersion: 4,
+  annotations: [
+    {
+      id: 'keyed-rect-1',
+      layerId: 'shared-markup',
+      frame: { ...frame, mediaBinding: { time: 0.5, frame: 12 } },
+      geometry: { kind: 'rectangle', start: { x: 0, y: 0 }, end: { x: 50, y: 50 } },
+      keyframes: [
+        {
+          frame: 12,
+          time: 0.5,
+          origin: { x: 40, y: 60, z: 0 },
+          geometry: { kind: 'rectangle', start: { x: 0, y: 0 }, end: { x: 50, y: 50 } },
+        },
+        {
+          frame: 36,
+          time: 1.5,
+          origin: { x: 140, y: 60, z: 0 },
+          geometry: { kind: 'rectangle', start: { x: 0, y: 0 }, end: { x: 70, y: 50 } },
+        },
+      ],
+      style,
+      drawOrder: 1,
+      ...author,
+      createdAt: 1_700_000_004_000,
+      updatedAt: 1_700_000_004_200,
+      version: 3,
+      schemaVersion: 4,
+    },
+  ],
+  layers: [
+    { id: 'shared-markup', name: 'Shared Markup', visible: true, supportedSpaces: ['image2d'], schemaVersion: 4 },
+  ],
+}
+
+export const schemaV5Document: StoredSchemaDocument = {
+  schemaVersion: 5,
+  annotations: [
+    {
+      id: 'tapered-stroke-1',
+      layerId: 'shared-markup',
+      frame,
+      geometry: {
+        kind: 'freehand',
+        points: [{ x: 0, y: 0 }, { x: 12, y: 4 }, { x: 26, y: 10 }, { x: 40, y: 12 }],
+        widths: [0.4, 1.2, 1.6, 0.5],
+      },
+      style,
+      drawOrder: 1,
+      ...author,
+      createdAt: 1_700_000_005_000,
+      updatedAt: 1_700_000_005_000,
+      version: 1,
+      schemaVersion: 5,
+    },
+  ],
+  layers: [
+    { id: 'shared-markup', name: 'Shared Markup', visible: true, supportedSpaces: ['image2d'], schemaVersion: 5 },
+  ],
+}
+
+export const schemaV6Document: StoredSchemaDocument = {
+  schemaVersion: 6,
+  annotations: [
+    {
+      id: 'focus-marker-1',
+      layerId: 'shared-markup',
+      frame,
+      geometry: {
+        kind: 'x-focus-marker',
+        start: { x: 0, y: 0 },
+        end: { x: 48, y: 48 },
+        fields: { lens: '50mm', stop: 'T2.8' },
+      },
+      style,
+      drawOrder: 1,
+      ...author,
+      createdAt: 1_700_000_006_000,
+      updatedAt: 1_700_000_006_000,
+      version: 1,
+      schemaVersion: 6,
+    },
+  ],
+  layers: [
+    { id: 'shared-markup', name: 'Shared Markup', visible: true, supportedSpaces: ['image2d'], schemaVersion: 6 },
+  ],
+}
+
+export const schemaV7Document: StoredSchemaDocument = {
+  schemaVersion: 7,
+  annotations: [
+    {
+      id: 'rich-note-1',
+      layerId: 'notes',
+      frame,
+      geometry: {
+        kind: 'text',
+        position: { x: 0, y: 0 },
+        text: 'Match the grade in shot 12, @Sam',
+        rich: [
+          {
+            runs: [
+              { text: 'Match the ' },
+              { text: 'grade', bold: true },
+              { text: ' in ' },
+              { text: 'shot 12', href: 'nexus8://asset/12' },
+              { text: ', ' },
+              { text: '@Sam', mention: 'user-2' },
+            ],
+          },
+        ],
+      },
+      style,
+      drawOrder: 1,
+      ...author,
+      createdAt: 1_700_000_007_000,
+      updatedAt: 1_700_000_007_000,
+      version: 1,
+      schemaVersion: 7,
+    },
+  ],
+  layers: [
+    { id: 'notes', name: 'Notes', visible: true, supportedSpaces: ['image2d'], schemaVersion: 7 },
+  ],
+}
+
+/** As read out through the store, which folds the `threads` map onto each annotation. */
+export const schemaV8Document: StoredSchemaDocument = {
+  schemaVersion: 8,
+  annotations: [
+    {
+      id: 'threaded-rect-1',
+      layerId: 'shared-markup',
+      frame,
+      geometry: { kind: 'rectangle', start: { x: 0, y: 0 }, end: { x: 90, y: 40 } },
+      thread: { discussionId: 31, status: 'resolved', replyCount: 4 },
+      style,
+      drawOrder: 1,
+      ...author,
+      createdAt: 1_700_000_008_000,
+      updatedAt: 1_700_000_008_000,
+      version: 1,
+      schemaVersion: 8,
+    },
+  ],
+  layers: [
+    { id: 'shared-markup', name: 'Shared Markup', visible: true, supportedSpaces: ['image2d'], schemaVersion: 8 },
+  ],
+}
+
+export const schemaV9Document: StoredSchemaDocument = {
+  schemaVersion: 9,
+  annotations: [
+    {
+      id: 'reviewed-ellipse-1',
+      layerId: 'shared-markup',
+      frame,
+      geometry: { kind: 'ellipse', start: { x: 0, y: 0 }, end: { x: 30, y: 30 } },
+      review: { status: 'addressed', assigneeId: 'user-2', assigneeName: 'Sam' },
+      style,
+      drawOrder: 1,
+      ...author,
+      createdAt: 1_700_000_009_000,
+      updatedAt: 1_700_000_009_200,
+      version: 2,
+      schemaVersion: 9,
+    },
+  ],
+  layers: [
+    { id: 'shared-markup', name: 'Shared Markup', visible: true, supportedSpaces: ['image2d'], schemaVersion: 9 },
+  ],
+}
+
+export const schemaV10Document: StoredSchemaDocument = {
+  schemaVersion: 10,
+  annotations: [
+    {
+      id: 'carried-arrow-1',
+      layerId: 'shared-markup',
+      frame,
+      geometry: { kind: 'arrow', from: { x: 0, y: 0 }, to: { x: 36, y: 18 } },
+      review: { status: 'open' },
+      derivedFrom: { annotationId: 'arrow-1', docId: 4, versionNumber: 2, carriedAt: 1_700_000_010_000 },
+      style,
+      drawOrder: 1,
+      ...author,
+      createdAt: 1_700_000_010_000,
+      updatedAt: 1_700_000_010_000,
+      version: 1,
+      schemaVersion: 10,
+    },
+  ],
+  layers: [
+    { id: 'shared-markup', name: 'Shared Markup', visible: true, supportedSpaces: ['image2d'], schemaVersion: 10 },
+  ],
+}
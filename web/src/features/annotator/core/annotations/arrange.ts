@@ -0,0 +1,120 @@
+import { framePointToWorld, getGeometryLocalBounds } from './geometry'
+import type { AnnotationEntity, Vec3 } from './types'
+
+export type AnnotationAlignment = 'left' | 'centerX' | 'right' | 'top' | 'centerY' | 'bottom'
+
+export type AnnotationDistribution = 'horizontal' | 'vertical'
+
+/** One world-space move from align or distribute, shared by every annotation in `ids`. */
+export interface AnnotationArrangeMove {
+  ids: string[]
+  translate: Vec3
+}
+
+interface WorldBounds {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+/** World x/y extent of annotations; for image2d frames this is image pixels. */
+export function getAnnotationsWorldBounds(annotations: AnnotationEntity[]): WorldBounds | null {
+  let bounds: WorldBounds | null = null
+  annotations.forEach((annotation) => {
+    const local = getGeometryLocalBounds(annotation.geometry)
+    const corners = [
+      { x: local.minX, y: local.minY },
+      { x: local.maxX, y: local.minY },
+      { x: local.maxX, y: local.maxY },
+      { x: local.minX, y: local.maxY },
+    ].map((corner) => framePointToWorld(annotation.frame, corner))
+    corners.forEach((corner) => {
+      bounds = bounds
+        ? {
+            minX: Math.min(bounds.minX, corner.x),
+            minY: Math.min(bounds.minY, corner.y),
+            maxX: Math.max(bounds.maxX, corner.x),
+            maxY: Math.max(bounds.maxY, corner.y),
+          }
+        : { minX: corner.x, minY: corner.y, maxX: corner.x, maxY: corner.y }
+    })
+  })
+  return bounds
+}
+
+function measureUnits(units: AnnotationEntity[][]) {
+  return units.flatMap((unit) => {
+    const bounds = getAnnotationsWorldBounds(unit)
+    return bounds ? [{ ids: unit.map((annotation) => annotation.id), bounds }] : []
+  })
+}
+
+function alignmentEdge(bounds: WorldBounds, alignment: AnnotationAlignment) {
+  switch (alignment) {
+    case 'left':
+      return bounds.minX
+    case 'centerX':
+      return (bounds.minX + bounds.maxX) / 2
+    case 'right':
+      return bounds.maxX
+    case 'top':
+      return bounds.minY
+    case 'centerY':
+      return (bounds.minY + bounds.maxY) / 2
+    case 'bottom':
+      return bounds.maxY
+  }
+}
+
+/**
+ * Moves that line up each unit (a lone annotation or a whole group) on the edge or center
+ * of their combined extent. Units that already line up are left out.
+ */
+export function getAlignmentMoves(units: AnnotationEntity[][], alignment: AnnotationAlignment): AnnotationArrangeMove[] {
+  const measured = measureUnits(units)
+  const extent = getAnnotationsWorldBounds(units.flat())
+  if (measured.length < 2 || !extent) {
+    return []
+  }
+  const target = alignmentEdge(extent, alignment)
+  const horizontal = alignment === 'left' || alignment === 'centerX' || alignment === 'right'
+  return measured.flatMap(({ ids, bounds }) => {
+    const delta = target - alignmentEdge(bounds, alignment)
+    if (Math.abs(delta) < 1e-6) {
+      return []
+    }
+    return [{ ids, translate: horizontal ? { x: delta, y: 0, z: 0 } : { x: 0, y: delta, z: 0 } }]
+  })
+}
+
+/**
+ * Moves that space units evenly between the outermost two along one axis, leaving equal
+ * gaps between neighbours. Needs at least three units.
+ */
+export function getDistributionMoves(units: AnnotationEntity[][], distribution: AnnotationDistribution): AnnotationArrangeMove[] {
+  const measured = measureUnits(units)
+  if (measured.length < 3) {
+    return []
+  }
+  const horizontal = distribution === 'horizontal'
+  const start = (bounds: WorldBounds) => (horizontal ? bounds.minX : bounds.minY)
+  const size = (bounds: WorldBounds) => (horizontal ? bounds.maxX - bounds.minX : bounds.maxY - bounds.minY)
+  const sorted = [...measured].sort((left, right) => start(left.bounds) - start(right.bounds))
+  const first = sorted[0].bounds
+  const last = sorted[sorted.length - 1].bounds
+  const span = start(last) + size(last) - start(first)
+  const occupied = sorted.reduce((total, unit) => total + size(unit.bounds), 0)
+  const gap = (span - occupied) / (sorted.length - 1)
+
+  const moves: AnnotationArrangeMove[] = []
+  let cursor = start(first)
+  sorted.forEach(({ ids, bounds }) => {
+    const delta = cursor - start(bounds)
+    cursor += size(bounds) + gap
+    if (Math.abs(delta) >= 1e-6) {
+      moves.push({ ids, translate: horizontal ? { x: delta, y: 0, z: 0 } : { x: 0, y: delta, z: 0 } })
+    }
+  })
+  return moves
+}
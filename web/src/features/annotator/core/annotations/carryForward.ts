@@ -0,0 +1,115 @@
+import { transformAnnotation } from './transform'
+import type { AnnotationDerivation, AnnotationDocumentSnapshot, AnnotationEntity, AnnotationLayer } from './types'
+
+/**
+ * How image-space notes follow a resolution or aspect change: `fit` assumes the old image
+ * was scaled to fit inside the new one, `fill` that the new one is a centered crop of it.
+ * Both scale uniformly so shapes and text keep their proportions.
+ */
+export type CarryForwardReprojection = 'none' | 'fit' | 'fill'
+
+export interface ImageSize {
+  width: number
+  height: number
+}
+
+export interface CarryForwardOptions {
+  /** Layers to copy; every layer with annotations when omitted. */
+  layerIds?: string[]
+  /** Skip annotations for which `include` returns false (e.g. only open notes). */
+  include?: (annotation: AnnotationEntity) => boolean
+  reprojection?: CarryForwardReprojection
+  /** Document sizes of the source and target images; reprojection is skipped without both. */
+  sourceSize?: ImageSize | null
+  targetSize?: ImageSize | null
+  /** Where the source annotations live, recorded on every copy. */
+  source: Omit<AnnotationDerivation, 'annotationId' | 'carriedAt'>
+  /** Annotations already in the target; sources they were carried from are not copied again. */
+  existing?: AnnotationEntity[]
+  now?: number
+  createId?: () => string
+}
+
+export interface CarryForwardPlan {
+  annotations: AnnotationEntity[]
+  /** Source layers the carried annotations need, for targets that lack them. */
+  layers: AnnotationLayer[]
+}
+
+function isValidSize(size: ImageSize | null | undefined): size is ImageSize {
+  return Boolean(size && size.width > 0 && size.height > 0)
+}
+
+/** Move an image-space annotation from one image size onto another; other spaces pass through. */
+export function reprojectAnnotation(
+  annotation: AnnotationEntity,
+  sourceSize: ImageSize,
+  targetSize: ImageSize,
+  reprojection: CarryForwardReprojection,
+): AnnotationEntity {
+  if (reprojection === 'none' || annotation.frame.space !== 'image2d' || !isValidSize(sourceSize) || !isValidSize(targetSize)) {
+    return annotation
+  }
+  if (sourceSize.width === targetSize.width && sourceSize.height === targetSize.height) {
+    return annotation
+  }
+  const scaleX = targetSize.width / sourceSize.width
+  const scaleY = targetSize.height / sourceSize.height
+  const scale = reprojection === 'fit' ? Math.min(scaleX, scaleY) : Math.max(scaleX, scaleY)
+  return transformAnnotation(annotation, {
+    pivot: { x: 0, y: 0, z: 0 },
+    scale,
+    translate: {
+      x: (targetSize.width - sourceSize.width * scale) / 2,
+      y: (targetSize.height - sourceSize.height * scale) / 2,
+      z: 0,
+    },
+  })
+}
+
+/**
+ * Copies of the chosen source annotations for another version's document. Each copy gets
+ * a fresh id, drops the source's discussion thread and records where it came from.
+ */
+export function planCarryForward(source: AnnotationDocumentSnapshot, options: CarryForwardOptions): CarryForwardPlan {
+  const now = options.now ?? Date.now()
+  const createId = options.createId ?? (() => crypto.randomUUID())
+  const layerIds = options.layerIds ? new Set(options.layerIds) : null
+  const alreadyCarried = new Set(
+    (options.existing ?? [])
+      .filter((annotation) => annotation.derivedFrom?.docId === options.source.docId)
+      .map((annotation) => annotation.derivedFrom?.annotationId),
+  )
+  const { sourceSize, targetSize, reprojection = 'none' } = options
+
+  const annotations = source.annotations
+    .filter((annotation) =>
+      (!layerIds || layerIds.has(annotation.layerId))
+      && !alreadyCarried.has(annotation.id)
+      && (options.include?.(annotation) ?? true))
+    .map((annotation) => {
+      const moved = sourceSize && targetSize
+        ? reprojectAnnotation(annotation, sourceSize, targetSize, reprojection)
+        : annotation
+      return {
+        ...moved,
+        id: createId(),
+        thread: undefined,
+        derivedFrom: { ...options.source, annotationId: annotation.id, carriedAt: now },
+        version: 0,
+      }
+    })
+
+  const usedLayerIds = new Set(annotations.map((annotation) => annotation.layerId))
+  return {
+    annotations,
+    layers: source.layers.filter((layer) => usedLayerIds.has(layer.id)),
+  }
+}
+
+/** Annotations per source layer, for the carry-forward layer picker. */
+export function countAnnotationsByLayer(annotations: AnnotationEntity[]) {
+  const counts = new Map<string, number>()
+  annotations.forEach((annotation) => counts.set(annotation.layerId, (counts.get(annotation.layerId) ?? 0) + 1))
+  return counts
+}
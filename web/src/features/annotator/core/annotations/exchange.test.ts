@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import * as Y from 'yjs'
+import { importAnnotationsIntoStore } from './exchange'
+import { AnnotationDocumentStore } from './store'
+import type { AnnotationEntity } from './types'
+import { validateAnnotationEntity } from './validation'
+import { schemaV4Document } from './__fixtures__/schemaDocuments'
+
+function createImported(id: string, overrides: Record<string, unknown> = {}) {
+  const validated = validateAnnotationEntity({ ...schemaV4Document.annotations[0], id, ...overrides })
+  if (!validated.ok) {
+    throw new Error(validated.errors.join('; '))
+  }
+  return validated.annotation
+}
+
+describe('importAnnotationsIntoStore', () => {
+  const thread = { discussionId: 12, status: 'open', replyCount: 3 }
+
+  it('gives a colliding id a fresh one instead of overwriting the note already there', () => {
+    const store = new AnnotationDocumentStore(new Y.Doc())
+    const existing = createImported('note-1', { geometry: { kind: 'rectangle', start: { x: 0, y: 0 }, end: { x: 4, y: 4 } } })
+    store.upsertAnnotation(existing)
+    store.setAnnotationThread('note-1', thread as AnnotationEntity['thread'])
+
+    const summary = importAnnotationsIntoStore(store, {
+      annotations: [createImported('note-1', { thread }), createImported('note-2', { thread })],
+      errors: [],
+      sourceAssetId: 5,
+    }, { assetId: 5 })
+
+    const annotations = store.getSnapshot().annotations
+    const copy = annotations.find((annotation) => annotation.id !== 'note-1' && annotation.id !== 'note-2')
+    expect(summary).toMatchObject({ imported: 2, remapped: 1 })
+    expect(annotations).toHaveLength(3)
+    expect(store.getAnnotation('note-1')?.geometry).toEqual(existing.geometry)
+    expect(store.getAnnotation('note-1')?.thread).toEqual(thread)
+    expect(copy?.thread).toBeUndefined()
+    expect(store.getAnnotation('note-2')?.thread).toEqual(thread)
+  })
+
+  it('drops thread links from a file exported from another asset', () => {
+    const store = new AnnotationDocumentStore(new Y.Doc())
+    const annotations = [createImported('note-4', { thread })]
+
+    importAnnotationsIntoStore(store, { annotations, errors: [], sourceAssetId: 6 }, { assetId: 5 })
+    importAnnotationsIntoStore(store, { annotations: [createImported('note-5', { thread })], errors: [] }, { assetId: 5 })
+
+    expect(store.getAnnotation('note-4')).toBeDefined()
+    expect(store.getAnnotation('note-4')?.thread).toBeUndefined()
+    expect(store.getAnnotation('note-5')?.thread).toBeUndefined()
+  })
+
+  it('keeps review state and derivation on imported notes', () => {
+    const store = new AnnotationDocumentStore(new Y.Doc())
+    const review = { status: 'addressed', assigneeId: 'user-2', assigneeName: 'Sam' }
+    const derivedFrom = { annotationId: 'note-0', docId: 4, versionNumber: 2, carriedAt: 1_700_000_000_000 }
+
+    importAnnotationsIntoStore(store, { annotations: [createImported('note-3', { review, derivedFrom })], errors: [] })
+
+    expect(store.getAnnotation('note-3')).toMatchObject({ review, derivedFrom })
+  })
+})
@@ -0,0 +1,122 @@
+import { exportAnnotationsToOtio, type OtioExportOptions } from './otioExchange'
+import type { AnnotationDocumentStore } from './store'
+import type { AnnotationDocumentSnapshot } from './types'
+import { exportAnnotationsToSvg, parseAnnotationSvg, type SvgExportOptions, type SvgImportOptions } from './svgExchange'
+import { DEFAULT_LAYER_ID } from './types'
+import type { AnnotationImportError, AnnotationImportResult } from './validation'
+import {
+  exportWebAnnotations,
+  parseWebAnnotations,
+  type WebAnnotationExportOptions,
+  type WebAnnotationImportOptions,
+} from './webAnnotationExchange'
+
+/** `otio` is export-only: video notes as OpenTimelineIO markers for editorial. */
+export type AnnotationExchangeFormat = 'svg' | 'web-annotation' | 'otio'
+
+export interface AnnotationExportFile {
+  filename: string
+  mimeType: string
+  contents: string
+}
+
+export interface AnnotationStoreImportSummary {
+  imported: number
+  /** Imported annotations whose id was already taken in the document and that were given a new one. */
+  remapped: number
+  errors: AnnotationImportError[]
+}
+
+/** Detect the exchange format of an imported file from its contents. */
+export function detectAnnotationExchangeFormat(contents: string): AnnotationExchangeFormat | null {
+  const trimmed = contents.trimStart()
+  if (trimmed.startsWith('<')) {
+    return 'svg'
+  }
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return 'web-annotation'
+  }
+  return null
+}
+
+/** Parse an SVG or Web Annotation file into validated annotations plus per-entity errors. */
+export function parseAnnotationExchangeFile(
+  contents: string,
+  options: SvgImportOptions & WebAnnotationImportOptions = {},
+): AnnotationImportResult {
+  switch (detectAnnotationExchangeFormat(contents)) {
+    case 'svg':
+      return parseAnnotationSvg(contents, options)
+    case 'web-annotation': {
+      let parsed: unknown
+      try {
+        parsed = JSON.parse(contents)
+      } catch {
+        return { annotations: [], errors: [{ index: -1, errors: ['document is not valid JSON'] }] }
+      }
+      return parseWebAnnotations(parsed, options)
+    }
+    default:
+      return { annotations: [], errors: [{ index: -1, errors: ['unrecognized format; expected SVG or Web Annotation JSON'] }] }
+  }
+}
+
+export function buildAnnotationExportFile(
+  snapshot: AnnotationDocumentSnapshot,
+  format: AnnotationExchangeFormat,
+  basename: string,
+  options: SvgExportOptions & WebAnnotationExportOptions & OtioExportOptions = {},
+): AnnotationExportFile {
+  if (format === 'svg') {
+    return {
+      filename: `${basename}.svg`,
+      mimeType: 'image/svg+xml',
+      contents: exportAnnotationsToSvg(snapshot, options),
+    }
+  }
+  if (format === 'otio') {
+    return {
+      filename: `${basename}.otio`,
+      mimeType: 'application/json',
+      contents: JSON.stringify(exportAnnotationsToOtio(snapshot, options), null, 2),
+    }
+  }
+  return {
+    filename: `${basename}.jsonld`,
+    mimeType: 'application/ld+json',
+    contents: JSON.stringify(exportWebAnnotations(snapshot, options), null, 2),
+  }
+}
+
+/**
+ * Write validated annotations into the store as one transaction (a single undo step).
+ * Annotations on layers this document does not have land on the shared markup layer. An
+ * imported id that is already taken gets a fresh one rather than overwriting that note.
+ * Discussions belong to an asset, so thread links are kept only for a file exported from
+ * `assetId` and only on notes that keep their id.
+ */
+export function importAnnotationsIntoStore(
+  store: AnnotationDocumentStore,
+  result: AnnotationImportResult,
+  { assetId }: { assetId?: number } = {},
+): AnnotationStoreImportSummary {
+  const snapshot = store.getSnapshot()
+  const layerIds = new Set(snapshot.layers.map((layer) => layer.id))
+  const takenIds = new Set(snapshot.annotations.map((annotation) => annotation.id))
+  const isSameAsset = assetId !== undefined && result.sourceAssetId === assetId
+  let remapped = 0
+  store.doc.transact(() => {
+    result.annotations.forEach((annotation) => {
+      const layerId = layerIds.has(annotation.layerId) ? annotation.layerId : DEFAULT_LAYER_ID
+      const isTaken = takenIds.has(annotation.id)
+      const id = isTaken ? crypto.randomUUID() : annotation.id
+      remapped += isTaken ? 1 : 0
+      takenIds.add(id)
+      store.upsertAnnotation({ ...annotation, id, layerId })
+      if (annotation.thread && isSameAsset && !isTaken) {
+        store.setAnnotationThread(id, annotation.thread)
+      }
+    })
+  })
+  return { imported: result.annotations.length, remapped, errors: result.errors }
+}
@@ -1,12 +1,22 @@
 import { StabilizedPointer, oneEuroFilter } from '@stroke-stabilizer/core'
 import simplify from 'simplify-js'
+import { MAX_STROKE_WIDTH_SCALE, MIN_STROKE_WIDTH_SCALE, clamp } from './geometry'
 import type { Vec2 } from './types'
 
+/**
+ * How per-point stroke width is derived. 'pressure' follows pen pressure (other pointers
+ * draw uniformly, since mice report a constant 0.5); 'velocity' thins fast movement;
+ * 'auto' uses pressure for pens and velocity for everything else. Strokes default to
+ * 'pressure'; velocity thinning is opt-in.
+ */
+export type FreehandWidthMode = 'uniform' | 'pressure' | 'velocity' | 'auto'
+
 export interface FreehandPipelineOptions {
   enableStabilizer: boolean
   enableSimplify: boolean
   simplifyTolerance: number
   simplifyHighQuality: boolean
+  widthMode: FreehandWidthMode
 }
 
 interface FreehandInputPoint extends Vec2 {
@@ -14,6 +24,32 @@ interface FreehandInputPoint extends Vec2 {
   pressure?: number
 }
 
+// Velocity mode: width scale at rest, how quickly speed (pixel-equivalent units per ms)
+// thins the stroke, and how much of each new sample is blended in to keep edges smooth.
+const VELOCITY_REST_WIDTH = 1.4
+const VELOCITY_THINNING = 0.8
+const VELOCITY_SMOOTHING = 0.3
+
+function resolveWidthMode(mode: FreehandWidthMode, pointerType: string): 'uniform' | 'pressure' | 'velocity' {
+  if (mode === 'auto') {
+    return pointerType === 'pen' ? 'pressure' : 'velocity'
+  }
+  if (mode === 'pressure') {
+    return pointerType === 'pen' ? 'pressure' : 'uniform'
+  }
+  return mode
+}
+
+function getCumulativeLengths(points: Vec2[]) {
+  const lengths = [0]
+  for (let index = 1; index < points.length; index += 1) {
+    const previous = points[index - 1]
+    const point = points[index]
+    lengths.push(lengths[index - 1] + Math.hypot(point.x - previous.x, point.y - previous.y))
+  }
+  return lengths
+}
+
 function dedupeConsecutivePoints(points: Vec2[]) {
   return points.filter((point, index) => (
     index === 0
@@ -33,10 +69,15 @@ export class FreehandStrokePipeline {
   // so behaviour is identical regardless of the frame's world scale.
   private readonly scale: number
   private readonly rawPoints: Vec2[] = []
+  private readonly rawWidths: number[] = []
+  private readonly widthMode: 'uniform' | 'pressure' | 'velocity'
+  private lastInput: FreehandInputPoint | null = null
   private previewPoints: Vec2[] = []
 
-  constructor(options: FreehandPipelineOptions, coordinateScale = 1) {
+  /** `pointerType` is the PointerEvent type that started the stroke; it picks the width source. */
+  constructor(options: FreehandPipelineOptions, coordinateScale = 1, pointerType = 'mouse') {
     this.options = options
+    this.widthMode = resolveWidthMode(options.widthMode, pointerType)
     this.scale = Number.isFinite(coordinateScale) && coordinateScale > 1e-9 ? coordinateScale : 1
     this.pointer = options.enableStabilizer
       ? new StabilizedPointer().addFilter(oneEuroFilter({ minCutoff: 1.0, beta: 0.007, dCutoff: 1.0 }))
@@ -50,10 +91,34 @@ export class FreehandStrokePipeline {
     return points.map((point) => ({ x: point.x / this.scale, y: point.y / this.scale }))
   }
 
+  private measureWidth(point: FreehandInputPoint, scaledX: number, scaledY: number) {
+    if (this.widthMode === 'pressure') {
+      // Mid pressure draws the nominal width; the range tapers light touches and swells hard ones.
+      return clamp(0.25 + 1.5 * (point.pressure ?? 0.5), MIN_STROKE_WIDTH_SCALE, MAX_STROKE_WIDTH_SCALE)
+    }
+    const previousPoint = this.rawPoints[this.rawPoints.length - 1]
+    const previousWidth = this.rawWidths[this.rawWidths.length - 1]
+    if (!previousPoint || !this.lastInput || previousWidth === undefined) {
+      return 1
+    }
+    const elapsed = Math.max(1, point.timestamp - this.lastInput.timestamp)
+    const speed = Math.hypot(scaledX - previousPoint.x, scaledY - previousPoint.y) / elapsed
+    const target = VELOCITY_REST_WIDTH / (1 + speed * VELOCITY_THINNING)
+    return clamp(
+      previousWidth + (target - previousWidth) * VELOCITY_SMOOTHING,
+      MIN_STROKE_WIDTH_SCALE,
+      MAX_STROKE_WIDTH_SCALE,
+    )
+  }
+
   addPoint(point: FreehandInputPoint) {
     const scaledX = point.x * this.scale
     const scaledY = point.y * this.scale
+    if (this.widthMode !== 'uniform') {
+      this.rawWidths.push(this.measureWidth(point, scaledX, scaledY))
+    }
     this.rawPoints.push({ x: scaledX, y: scaledY })
+    this.lastInput = point
 
     if (!this.pointer) {
       this.previewPoints = dedupeConsecutivePoints([...this.previewPoints, { x: scaledX, y: scaledY }])
@@ -67,6 +132,33 @@ export class FreehandStrokePipeline {
     return this.unscale(this.previewPoints)
   }
 
+  /**
+   * Width scales for points this pipeline produced (preview or finished), or undefined for
+   * uniform strokes. Stabilizing and simplifying do not keep a 1:1 mapping to the input, so
+   * each point takes the width found at the same fraction of the raw stroke's length.
+   */
+  getWidths(points: Vec2[]): number[] | undefined {
+    if (this.widthMode === 'uniform' || this.rawWidths.length === 0 || points.length === 0) {
+      return undefined
+    }
+    const rawLengths = getCumulativeLengths(this.rawPoints)
+    const rawTotal = rawLengths[rawLengths.length - 1]
+    const lengths = getCumulativeLengths(points)
+    const total = lengths[lengths.length - 1]
+    let rawIndex = 0
+    return lengths.map((length) => {
+      const target = total > 0 && rawTotal > 0 ? (length / total) * rawTotal : 0
+      while (rawIndex < rawLengths.length - 2 && rawLengths[rawIndex + 1] < target) {
+        rawIndex += 1
+      }
+      const span = (rawLengths[rawIndex + 1] ?? rawLengths[rawIndex]) - rawLengths[rawIndex]
+      const t = span > 0 ? clamp((target - rawLengths[rawIndex]) / span, 0, 1) : 0
+      const from = this.rawWidths[rawIndex]
+      const to = this.rawWidths[rawIndex + 1] ?? from
+      return Number((from + (to - from) * t).toFixed(3))
+    })
+  }
+
   getPreviewPoints() {
     return this.unscale(this.previewPoints.length > 0 ? this.previewPoints : this.rawPoints)
   }
@@ -98,4 +190,5 @@ export const DEFAULT_FREEHAND_PIPELINE_OPTIONS: FreehandPipelineOptions = {
   enableSimplify: true,
   simplifyTolerance: 1.25,
   simplifyHighQuality: false,
+  widthMode: 'pressure',
 }
\ No newline at end of file
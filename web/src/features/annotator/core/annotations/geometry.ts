@@ -93,6 +93,129 @@ export function pointInPolygon(point: Vec2, vertices: Vec2[]) {
   return inside
 }
 
+export function hasSegmentGeometry(
+  geometry: AnnotationGeometry,
+): geometry is Extract<AnnotationGeometry, { from: Vec2; to: Vec2 }> {
+  return geometry.kind === 'arrow' || geometry.kind === 'callout' || geometry.kind === 'measurement'
+}
+
+/** Frame-local extent of a geometry. Text has no local extent and collapses to its anchor. */
+export function getGeometryLocalBounds(geometry: AnnotationGeometry) {
+  switch (geometry.kind) {
+    case 'text':
+      return normalizeBounds(geometry.position, geometry.position)
+    case 'freehand':
+    case 'brush':
+    case 'polygon': {
+      if (geometry.points.length === 0) {
+        return normalizeBounds({ x: 0, y: 0 }, { x: 0, y: 0 })
+      }
+      const xs = geometry.points.map((point) => point.x)
+      const ys = geometry.points.map((point) => point.y)
+      return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) }
+    }
+    case 'arrow':
+    case 'callout':
+    case 'measurement':
+      return normalizeBounds(geometry.from, geometry.to)
+    case 'rectangle':
+    case 'ellipse':
+    case 'card':
+    case 'grid':
+    case 'list':
+    default:
+      return normalizeBounds(geometry.start, geometry.end)
+  }
+}
+
+/** Tip and the two barb ends of an arrowhead pointing at `to`, in the same space as the inputs. */
+export function getArrowHeadPoints(from: Vec2, to: Vec2, size: number): [Vec2, Vec2, Vec2] {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x)
+  const spread = Math.PI / 7
+  return [
+    to,
+    { x: to.x - Math.cos(angle - spread) * size, y: to.y - Math.sin(angle - spread) * size },
+    { x: to.x - Math.cos(angle + spread) * size, y: to.y - Math.sin(angle + spread) * size },
+  ]
+}
+
+export const MIN_STROKE_WIDTH_SCALE = 0.1
+export const MAX_STROKE_WIDTH_SCALE = 2
+
+/** The per-point width scales of a variable-width stroke, or null when it is drawn at a uniform width. */
+export function getStrokeWidthScales(geometry: { points: Vec2[]; widths?: number[] }) {
+  return geometry.widths && geometry.widths.length === geometry.points.length && geometry.points.length > 0
+    ? geometry.widths
+    : null
+}
+
+const STROKE_CAP_STEPS = 8
+
+/**
+ * Closed outline of a stroke whose half-width varies per point, with round caps, for
+ * filling with the nonzero rule. Each point is offset along the normal of its
+ * neighbours' chord, so dense input (as freehand pipelines produce) gives smooth edges.
+ */
+export function getVariableWidthStrokeOutline(points: Vec2[], radii: number[]): Vec2[] {
+  if (points.length === 0) {
+    return []
+  }
+  const arc = (center: Vec2, radius: number, fromAngle: number, toAngle: number, out: Vec2[]) => {
+    for (let step = 1; step < STROKE_CAP_STEPS; step += 1) {
+      const angle = fromAngle + ((toAngle - fromAngle) * step) / STROKE_CAP_STEPS
+      out.push({ x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius })
+    }
+  }
+  if (points.length === 1) {
+    const circle: Vec2[] = [{ x: points[0].x + radii[0], y: points[0].y }]
+    arc(points[0], radii[0], 0, Math.PI, circle)
+    circle.push({ x: points[0].x - radii[0], y: points[0].y })
+    arc(points[0], radii[0], Math.PI, Math.PI * 2, circle)
+    return circle
+  }
+
+  const left: Vec2[] = []
+  const right: Vec2[] = []
+  const angles: number[] = []
+  points.forEach((point, index) => {
+    const previous = points[Math.max(0, index - 1)]
+    const next = points[Math.min(points.length - 1, index + 1)]
+    const angle = Math.atan2(next.y - previous.y, next.x - previous.x)
+    const normalX = -Math.sin(angle) * radii[index]
+    const normalY = Math.cos(angle) * radii[index]
+    angles.push(angle)
+    left.push({ x: point.x + normalX, y: point.y + normalY })
+    right.push({ x: point.x - normalX, y: point.y - normalY })
+  })
+
+  const last = points.length - 1
+  const outline = [...left]
+  // End cap sweeps from the left edge around the tip to the right edge; the start cap closes the loop.
+  arc(points[last], radii[last], angles[last] + Math.PI / 2, angles[last] - Math.PI / 2, outline)
+  for (let index = last; index >= 0; index -= 1) {
+    outline.push(right[index])
+  }
+  arc(points[0], radii[0], angles[0] - Math.PI / 2, angles[0] - (Math.PI * 3) / 2, outline)
+  return outline
+}
+
+/**
+ * Length of a measurement in world units. image2d frames map world units 1:1 to
+ * source pixels, so this is a pixel distance there regardless of viewer zoom.
+ */
+export function getMeasurementLength(frame: AnnotationFrame, geometry: { from: Vec2; to: Vec2 }) {
+  const from = framePointToWorld(frame, geometry.from)
+  const to = framePointToWorld(frame, geometry.to)
+  return Math.hypot(to.x - from.x, to.y - from.y, to.z - from.z)
+}
+
+export function formatMeasurementLabel(frame: AnnotationFrame, geometry: { from: Vec2; to: Vec2 }) {
+  const length = getMeasurementLength(frame, geometry)
+  return frame.space === 'image2d'
+    ? `${length.toFixed(1)} px`
+    : `${length.toFixed(length >= 100 ? 1 : 3)} units`
+}
+
 export function getRectangleCorners(geometry: Extract<AnnotationGeometry, { start: Vec2; end: Vec2 }>) {
   const bounds = normalizeBounds(geometry.start, geometry.end)
   return [
@@ -216,6 +339,35 @@ export function hitTestAnnotation(
         ((screenPoint.x - center.x) / radiusX) ** 2 + ((screenPoint.y - center.y) / radiusY) ** 2
       return normalizedDistance <= 1.15 ? Math.abs(1 - normalizedDistance) : null
     }
+    case 'arrow':
+    case 'measurement': {
+      const from = project(annotation.frame, annotation.geometry.from)
+      const to = project(annotation.frame, annotation.geometry.to)
+      if (!from || !to) {
+        return null
+      }
+      const distance = distanceToSegment(screenPoint, from, to)
+      return distance <= 8 ? distance : null
+    }
+    case 'callout': {
+      const from = project(annotation.frame, annotation.geometry.from)
+      const to = project(annotation.frame, annotation.geometry.to)
+      if (!from || !to) {
+        return null
+      }
+      const width = Math.max(annotation.geometry.text.length * annotation.style.fontSize * 0.56, 42)
+      const height = annotation.style.fontSize * 1.6
+      if (
+        screenPoint.x >= to.x - 10 &&
+        screenPoint.x <= to.x + width + 10 &&
+        screenPoint.y >= to.y - height / 2 - 8 &&
+        screenPoint.y <= to.y + height / 2 + 8
+      ) {
+        return 0
+      }
+      const distance = distanceToSegment(screenPoint, from, to)
+      return distance <= 8 ? distance : null
+    }
     case 'text': {
       const position = project(annotation.frame, annotation.geometry.position)
       if (!position) {
@@ -0,0 +1,143 @@
+import * as Y from 'yjs'
+import { AnnotationDocumentStore } from './store'
+import type { AnnotationDocumentSnapshot, AnnotationEntity, AnnotationGroup } from './types'
+
+export type AnnotationChangeKind = 'added' | 'removed' | 'modified'
+
+export interface AnnotationChange {
+  kind: AnnotationChangeKind
+  id: string
+  /** The annotation in the compared state; for removals, as it was in the base state. */
+  annotation: AnnotationEntity
+  previous?: AnnotationEntity
+}
+
+const AUTHOR_HIGHLIGHT_COLORS = ['#f97316', '#a855f7', '#22c55e', '#3b82f6', '#ec4899', '#eab308', '#14b8a6', '#ef4444']
+
+/** Fields every write touches; two records that differ only here have the same content. */
+const BOOKKEEPING_KEYS = new Set(['updatedAt', 'version', 'schemaVersion'])
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter((key) => !BOOKKEEPING_KEYS.has(key))
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+function isSameContent(left: unknown, right: unknown) {
+  return stableStringify(left) === stableStringify(right)
+}
+
+/** Read a stored Yjs state (a published version or a relay snapshot) without touching the live doc. */
+export function readAnnotationDocState(update: Uint8Array): AnnotationDocumentSnapshot {
+  const doc = new Y.Doc()
+  try {
+    if (update.byteLength > 0) {
+      Y.applyUpdate(doc, update)
+    }
+    const store = new AnnotationDocumentStore(doc)
+    const snapshot = store.getSnapshot()
+    store.destroy()
+    return snapshot
+  } finally {
+    doc.destroy()
+  }
+}
+
+/** Annotations added, removed and modified going from `base` to `target`, in the target's order. */
+export function diffAnnotationSnapshots(
+  base: AnnotationDocumentSnapshot,
+  target: AnnotationDocumentSnapshot,
+): AnnotationChange[] {
+  const baseById = new Map(base.annotations.map((annotation) => [annotation.id, annotation]))
+  const targetIds = new Set(target.annotations.map((annotation) => annotation.id))
+  const changes: AnnotationChange[] = []
+
+  target.annotations.forEach((annotation) => {
+    const previous = baseById.get(annotation.id)
+    if (!previous) {
+      changes.push({ kind: 'added', id: annotation.id, annotation })
+    } else if (!isSameContent(previous, annotation)) {
+      changes.push({ kind: 'modified', id: annotation.id, annotation, previous })
+    }
+  })
+  base.annotations.forEach((annotation) => {
+    if (!targetIds.has(annotation.id)) {
+      changes.push({ kind: 'removed', id: annotation.id, annotation })
+    }
+  })
+  return changes
+}
+
+/** Stable highlight color for an author, used to tell contributors apart in a diff. */
+export function getAuthorHighlightColor(authorId: string) {
+  let hash = 0
+  for (let i = 0; i < authorId.length; i += 1) {
+    hash = (hash * 31 + authorId.charCodeAt(i)) >>> 0
+  }
+  return AUTHOR_HIGHLIGHT_COLORS[hash % AUTHOR_HIGHLIGHT_COLORS.length]
+}
+
+function isSameGroup(left: AnnotationGroup | undefined, right: AnnotationGroup) {
+  return left !== undefined
+    && left.name === right.name
+    && left.annotationIds.length === right.annotationIds.length
+    && left.annotationIds.every((id, index) => id === right.annotationIds[index])
+}
+
+/**
+ * Make the live doc match a past snapshot in one transaction (a single undo step).
+ * Records that differ are written as new versions rather than rewinding the CRDT,
+ * so collaborators receive the restore as an ordinary edit. Returns false when the
+ * doc is read-only.
+ */
+export function restoreAnnotationSnapshot(store: AnnotationDocumentStore, past: AnnotationDocumentSnapshot) {
+  if (store.isReadOnly()) {
+    return false
+  }
+  const current = store.getSnapshot()
+  const currentAnnotations = new Map(current.annotations.map((annotation) => [annotation.id, annotation]))
+  const currentGroups = new Map((current.groups ?? []).map((group) => [group.id, group]))
+  const pastAnnotationIds = new Set(past.annotations.map((annotation) => annotation.id))
+  const pastLayerIds = new Set(past.layers.map((layer) => layer.id))
+  const pastGroups = new Map((past.groups ?? []).map((group) => [group.id, group]))
+
+  store.transactAsUndoStep(() => {
+    store.ungroupAnnotations(
+      (current.groups ?? [])
+        .filter((group) => !isSameGroup(pastGroups.get(group.id), group))
+        .map((group) => group.id),
+    )
+    past.layers.forEach((layer) => {
+      const existing = current.layers.find((candidate) => candidate.id === layer.id)
+      if (!existing || !isSameContent(existing, layer)) {
+        store.upsertLayer(layer)
+      }
+    })
+    store.removeAnnotations(
+      current.annotations.filter((annotation) => !pastAnnotationIds.has(annotation.id)).map((annotation) => annotation.id),
+    )
+    past.annotations.forEach((annotation) => {
+      const existing = currentAnnotations.get(annotation.id)
+      if (!existing || !isSameContent(existing, annotation)) {
+        store.upsertAnnotation(annotation)
+      }
+    })
+    current.layers
+      .filter((layer) => !pastLayerIds.has(layer.id))
+      .forEach((layer) => store.removeLayer(layer.id))
+    pastGroups.forEach((group) => {
+      if (!isSameGroup(currentGroups.get(group.id), group)) {
+        store.groupAnnotations(group.annotationIds, { id: group.id, name: group.name, authorId: group.authorId })
+      }
+    })
+  })
+  return true
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import { migrateDocument, type StoredSchemaDocument } from './migrations'
+import { ANNOTATION_SCHEMA_VERSION, normalizeAnnotationSnapshot } from './schema'
+import type { AnnotationDocumentSnapshot, AnnotationEntity } from './types'
+import {
+  schemaV1Document,
+  schemaV2Document,
+  schemaV3Document,
+  schemaV4Document,
+  schemaV5Document,
+  schemaV6Document,
+  schemaV7Document,
+  schemaV8Document,
+  schemaV9Document,
+  schemaV10Document,
+} from './__fixtures__/schemaDocuments'
+
+const fixtures: Array<[number, StoredSchemaDocument]> = [
+  [1, schemaV1Document],
+  [2, schemaV2Document],
+  [3, schemaV3Document],
+  [4, schemaV4Document],
+  [5, schemaV5Document],
+  [6, schemaV6Document],
+  [7, schemaV7Document],
+  [8, schemaV8Document],
+  [9, schemaV9Document],
+  [10, schemaV10Document],
+]
+
+/** The field each version added, which no step rewrites and both upgrade paths must keep. */
+const addedFields: Array<[string, number, StoredSchemaDocument, keyof AnnotationEntity]> = [
+  ['stroke widths', 5, schemaV5Document, 'geometry'],
+  ['extension kinds', 6, schemaV6Document, 'geometry'],
+  ['rich text runs', 7, schemaV7Document, 'geometry'],
+  ['thread links', 8, schemaV8Document, 'thread'],
+  ['review state', 9, schemaV9Document, 'review'],
+  ['derivation', 10, schemaV10Document, 'derivedFrom'],
+]
+
+function toSnapshot(document: StoredSchemaDocument) {
+  return { ...document, version: 0 } as unknown as AnnotationDocumentSnapshot
+}
+
+describe('migrateDocument', () => {
+  it.each(fixtures)('upgrades a v%i document to the current schema', (_, document) => {
+    const migrated = migrateDocument(document, ANNOTATION_SCHEMA_VERSION)
+
+    expect(migrated.schemaVersion).toBe(ANNOTATION_SCHEMA_VERSION)
+    expect(migrated.annotations.every((annotation) => annotation.schemaVersion === ANNOTATION_SCHEMA_VERSION)).toBe(true)
+    expect(migrated.layers.every((layer) => layer.schemaVersion === ANNOTATION_SCHEMA_VERSION)).toBe(true)
+    expect(migrated).toMatchSnapshot()
+  })
+
+  it.each(fixtures)('produces a writable snapshot from a v%i document', (_, document) => {
+    const normalized = normalizeAnnotationSnapshot(toSnapshot(migrateDocument(document, ANNOTATION_SCHEMA_VERSION)))
+
+    expect(normalized.readOnly).toBeUndefined()
+    expect(normalized.annotations.map((annotation) => annotation.id).sort())
+      .toEqual(document.annotations.map((annotation) => annotation.id).sort())
+  })
+
+  it.each(addedFields)('keeps %s from a v%i document', (_, __, document, field) => {
+    const [stored] = document.annotations
+    const migrated = migrateDocument(document, ANNOTATION_SCHEMA_VERSION).annotations[0]
+    const normalized = normalizeAnnotationSnapshot(toSnapshot(migrateDocument(document, ANNOTATION_SCHEMA_VERSION)))
+      .annotations[0]
+
+    expect(stored[field]).toBeDefined()
+    expect(migrated[field]).toEqual(stored[field])
+    expect(normalized[field]).toEqual(stored[field])
+  })
+
+  it('backfills v1 draw order from createdAt and layer viewer spaces', () => {
+    const migrated = migrateDocument(schemaV1Document, 2)
+
+    expect(migrated.annotations.map((annotation) => annotation.drawOrder)).toEqual([1_700_000_000_000, 1_700_000_001_000])
+    expect(migrated.layers.map((layer) => layer.supportedSpaces)).toEqual([
+      ['image2d', 'world3d'],
+      ['image2d', 'world3d'],
+    ])
+  })
+
+  it('keeps explicit draw order and viewer spaces from later versions', () => {
+    const migrated = migrateDocument(schemaV2Document, ANNOTATION_SCHEMA_VERSION)
+
+    expect(migrated.annotations[0].drawOrder).toBe(5)
+    expect(migrated.layers[0].supportedSpaces).toEqual(['image2d'])
+  })
+
+  it('upgrades old-shaped records written into an already upgraded doc', () => {
+    const callout = migrateDocument(schemaV3Document, ANNOTATION_SCHEMA_VERSION).annotations[1]
+
+    expect(callout.schemaVersion).toBe(ANNOTATION_SCHEMA_VERSION)
+    expect(callout.drawOrder).toBe(2)
+  })
+
+  it('is idempotent', () => {
+    const once = migrateDocument(schemaV1Document, ANNOTATION_SCHEMA_VERSION)
+
+    expect(migrateDocument(once, ANNOTATION_SCHEMA_VERSION)).toEqual(once)
+  })
+
+  it('returns a document with a newer record untouched', () => {
+    const newer = {
+      ...schemaV4Document,
+      annotations: [...schemaV4Document.annotations, { ...schemaV4Document.annotations[0], id: 'future', schemaVersion: 99 }],
+    }
+
+    expect(migrateDocument(newer, ANNOTATION_SCHEMA_VERSION)).toBe(newer)
+  })
+})
@@ -0,0 +1,156 @@
+/**
+ * Versioned upgrades for stored annotation and layer records. Records are migrated
+ * one step at a time, before normalization, so each step only has to understand
+ * the shape written by the version directly before it.
+ */
+
+/** A record as read from the Yjs doc: untyped until it has been migrated and normalized. */
+export type StoredSchemaRecord = Record<string, unknown>
+
+export interface AnnotationSchemaMigration {
+  /** Version this step upgrades from; it produces `from + 1`. */
+  from: number
+  description: string
+  migrateAnnotation?: (record: StoredSchemaRecord) => StoredSchemaRecord
+  migrateLayer?: (record: StoredSchemaRecord) => StoredSchemaRecord
+}
+
+/** Records (and docs) written before versioning carry no stamp and are v1. */
+export const LEGACY_SCHEMA_VERSION = 1
+
+/**
+ * Ordered registry of migration steps. Steps must be idempotent: clients on an older
+ * build can keep writing old-shaped records into a doc that has already been upgraded.
+ */
+export const ANNOTATION_SCHEMA_MIGRATIONS: readonly AnnotationSchemaMigration[] = [
+  {
+    from: 1,
+    description: 'Make draw order explicit and backfill layer viewer spaces.',
+    migrateAnnotation(record) {
+      // v1 ordered by createdAt when drawOrder was absent; v2 always stores it.
+      return typeof record.drawOrder === 'number'
+        ? record
+        : { ...record, drawOrder: typeof record.createdAt === 'number' ? record.createdAt : 0 }
+    },
+    migrateLayer(record) {
+      return Array.isArray(record.supportedSpaces)
+        ? record
+        : { ...record, supportedSpaces: ['image2d', 'world3d'] }
+    },
+  },
+  {
+    // No record rewrite: the step exists so v2 builds, which cannot draw the new
+    // kinds, open docs containing them read-only instead of mangling them.
+    from: 2,
+    description: 'Add arrow, callout and measurement geometry kinds.',
+  },
+  {
+    // No record rewrite: v3 builds would draw keyframed annotations frozen in their
+    // base pose, and edits there would silently desync the keys.
+    from: 3,
+    description: 'Add geometry keyframes for interpolated video annotations.',
+  },
+  {
+    // No record rewrite: v4 builds ignore `widths` and would save tapered strokes back
+    // at a uniform width, dropping the pressure data on the next edit.
+    from: 4,
+    description: 'Add per-point stroke widths for pressure and velocity tapering.',
+  },
+  {
+    // No record rewrite: v5 builds have no registry for `x-*` extension kinds and
+    // would fail to normalize them, so their edits could drop the unknown shapes.
+    from: 5,
+    description: 'Allow registered extension geometry kinds (`x-*`).',
+  },
+  {
+    // No record rewrite: v6 builds only know plain `text` strings and would write
+    // edits back without the runs, losing formatting, links and mentions.
+    from: 6,
+    description: 'Add rich text runs to notes, cards and lists.',
+  },
+  {
+    // No record rewrite: threads live in their own map, which v7 builds never read,
+    // so deleting an annotation there would leave its replies orphaned.
+    from: 7,
+    description: 'Anchor discussion threads to annotations.',
+  },
+  {
+    // No record rewrite: v8 builds would drop `review` on edit, reopening notes
+    // that were already addressed or approved.
+    from: 8,
+    description: 'Add review status and assignee to annotations.',
+  },
+  {
+    // No record rewrite: v9 builds would drop `derivedFrom` on edit, so carried
+    // notes would lose the link back to the version they came from.
+    from: 9,
+    description: 'Record the source version of carried annotations.',
+  },
+]
+
+export function getRecordSchemaVersion(record: { schemaVersion?: unknown }) {
+  return typeof record.schemaVersion === 'number' && Number.isInteger(record.schemaVersion)
+    ? record.schemaVersion
+    : LEGACY_SCHEMA_VERSION
+}
+
+function migrateRecord<T extends { schemaVersion?: number }>(
+  record: T,
+  targetVersion: number,
+  step: (migration: AnnotationSchemaMigration) => AnnotationSchemaMigration['migrateAnnotation'],
+): T {
+  const startVersion = getRecordSchemaVersion(record)
+  if (startVersion >= targetVersion) {
+    return record
+  }
+
+  let migrated = record as unknown as StoredSchemaRecord
+  for (let version = startVersion; version < targetVersion; version += 1) {
+    const migration = ANNOTATION_SCHEMA_MIGRATIONS.find((candidate) => candidate.from === version)
+    if (!migration) {
+      throw new Error(`No annotation schema migration registered from v${version}`)
+    }
+    migrated = step(migration)?.(migrated) ?? migrated
+  }
+  return { ...migrated, schemaVersion: targetVersion } as unknown as T
+}
+
+/** Upgrade a stored annotation record to `targetVersion`; newer records are returned untouched. */
+export function migrateAnnotationRecord<T extends { schemaVersion?: number }>(record: T, targetVersion: number) {
+  return migrateRecord(record, targetVersion, (migration) => migration.migrateAnnotation)
+}
+
+/** Upgrade a stored layer record to `targetVersion`; newer records are returned untouched. */
+export function migrateLayerRecord<T extends { schemaVersion?: number }>(record: T, targetVersion: number) {
+  return migrateRecord(record, targetVersion, (migration) => migration.migrateLayer)
+}
+
+/** A stored doc as exported or read out of the Yjs maps: its stamp plus raw records. */
+export interface StoredSchemaDocument {
+  schemaVersion?: unknown
+  annotations: StoredSchemaRecord[]
+  layers: StoredSchemaRecord[]
+}
+
+/**
+ * Upgrade every record of a stored doc to `targetVersion` and stamp the doc. A doc that
+ * is, or holds any record that is, newer than the target is returned untouched.
+ */
+export function migrateDocument<T extends StoredSchemaDocument>(document: T, targetVersion: number): T {
+  const documentVersion = Math.max(
+    getRecordSchemaVersion(document),
+    ...document.annotations.map((annotation) => getRecordSchemaVersion(annotation)),
+    ...document.layers.map((layer) => getRecordSchemaVersion(layer)),
+  )
+  if (documentVersion > targetVersion) {
+    return document
+  }
+  return {
+    ...document,
+    schemaVersion: targetVersion,
+    annotations: document.annotations.map((annotation) => (
+      migrateAnnotationRecord(annotation as { schemaVersion?: number }, targetVersion)
+    )),
+    layers: document.layers.map((layer) => migrateLayerRecord(layer as { schemaVersion?: number }, targetVersion)),
+  }
+}
@@ -0,0 +1,174 @@
+import type { AnnotationDocumentSnapshot, AnnotationEntity, AnnotationReviewStatus } from './types'
+
+/** The parts of a playlist clip the exporter places in the timeline. */
+export interface OtioExportClip {
+  id: string
+  label: string
+  src: string
+  duration: number
+  sourceIn: number
+}
+
+export interface OtioExportOptions {
+  /** Only export annotations bound to this viewer target (frame.targetId). */
+  targetId?: string
+  /** The reviewed sequence; clip-bound notes become markers on their clip. */
+  playlist?: OtioExportClip[]
+  /** Edit rate marker and clip times are written at; defaults to 24. */
+  frameRate?: number
+  timelineName?: string
+}
+
+interface OtioRationalTime {
+  OTIO_SCHEMA: 'RationalTime.1'
+  rate: number
+  value: number
+}
+
+interface OtioTimeRange {
+  OTIO_SCHEMA: 'TimeRange.1'
+  start_time: OtioRationalTime
+  duration: OtioRationalTime
+}
+
+export interface OtioMarker {
+  OTIO_SCHEMA: 'Marker.2'
+  name: string
+  color: string
+  comment: string
+  marked_range: OtioTimeRange
+  metadata: { nexus8: { annotationId: string; author: string; status: AnnotationReviewStatus; layerId: string } }
+}
+
+const REVIEW_MARKER_COLORS: Record<AnnotationReviewStatus, string> = {
+  open: 'RED',
+  addressed: 'YELLOW',
+  approved: 'GREEN',
+}
+
+function rationalTime(seconds: number, rate: number): OtioRationalTime {
+  return { OTIO_SCHEMA: 'RationalTime.1', rate, value: Math.round(seconds * rate) }
+}
+
+function timeRange(start: number, duration: number, rate: number): OtioTimeRange {
+  return { OTIO_SCHEMA: 'TimeRange.1', start_time: rationalTime(start, rate), duration: rationalTime(duration, rate) }
+}
+
+function getNoteText(annotation: AnnotationEntity) {
+  const { geometry } = annotation
+  switch (geometry.kind) {
+    case 'text':
+    case 'callout':
+      return geometry.text
+    case 'card':
+      return geometry.body.join('\n')
+    case 'grid':
+      return geometry.title
+    case 'list':
+      return [geometry.title, ...geometry.items].join('\n')
+    default:
+      return ''
+  }
+}
+
+/** Start and length of a note in the time base `pick` reads off its binding or keys. */
+function getNoteSpan(annotation: AnnotationEntity, pick: (key: { time: number; globalTime?: number }) => number) {
+  const keys = annotation.keyframes
+  if (keys && keys.length > 0) {
+    const start = pick(keys[0])
+    return { start, duration: Math.max(pick(keys[keys.length - 1]) - start, 0) }
+  }
+  return { start: pick(annotation.frame.mediaBinding ?? { time: annotation.timeRange?.start ?? 0 }), duration: 0 }
+}
+
+function toMarker(annotation: AnnotationEntity, start: number, duration: number, rate: number): OtioMarker {
+  const text = getNoteText(annotation).trim()
+  const status = annotation.review?.status ?? 'open'
+  return {
+    OTIO_SCHEMA: 'Marker.2',
+    name: text.split('\n')[0] || `${annotation.geometry.kind} by ${annotation.authorName}`,
+    color: REVIEW_MARKER_COLORS[status],
+    comment: text,
+    marked_range: timeRange(start, duration, rate),
+    metadata: {
+      nexus8: { annotationId: annotation.id, author: annotation.authorName, status, layerId: annotation.layerId },
+    },
+  }
+}
+
+/**
+ * Export video notes as an OpenTimelineIO timeline. Each playlist clip becomes a clip on one
+ * video track; notes bound to a clip are markers on it at their media time, and any other
+ * timed note is a marker on the timeline at its sequence time.
+ */
+export function exportAnnotationsToOtio(snapshot: AnnotationDocumentSnapshot, options: OtioExportOptions = {}) {
+  const rate = options.frameRate && options.frameRate > 0 ? options.frameRate : 24
+  const playlist = options.playlist ?? []
+  const clipMarkers = new Map<string, OtioMarker[]>(playlist.map((clip) => [clip.id, []]))
+  const timelineMarkers: OtioMarker[] = []
+
+  snapshot.annotations
+    .filter((annotation) => options.targetId === undefined || annotation.frame.targetId === options.targetId)
+    .forEach((annotation) => {
+      const binding = annotation.frame.mediaBinding
+      const clip = binding
+        ? playlist.find((candidate) => candidate.id === binding.clipId)
+          ?? playlist.find((candidate) => binding.clipLabel !== undefined && candidate.label === binding.clipLabel)
+        : undefined
+      if (clip) {
+        const span = getNoteSpan(annotation, (key) => key.time)
+        clipMarkers.get(clip.id)?.push(toMarker(annotation, span.start, span.duration, rate))
+        return
+      }
+      if (binding || annotation.keyframes?.length) {
+        const span = getNoteSpan(annotation, (key) => key.globalTime ?? key.time)
+        timelineMarkers.push(toMarker(annotation, span.start, span.duration, rate))
+        return
+      }
+      if (annotation.timeRange) {
+        const { start, end } = annotation.timeRange
+        timelineMarkers.push(toMarker(annotation, Math.min(start, end), Math.abs(end - start), rate))
+      }
+    })
+
+  return {
+    OTIO_SCHEMA: 'Timeline.1',
+    name: options.timelineName ?? 'Review notes',
+    global_start_time: null,
+    metadata: {},
+    tracks: {
+      OTIO_SCHEMA: 'Stack.1',
+      name: 'tracks',
+      source_range: null,
+      effects: [],
+      markers: timelineMarkers,
+      metadata: {},
+      children: [
+        {
+          OTIO_SCHEMA: 'Track.1',
+          name: 'Video',
+          kind: 'Video',
+          source_range: null,
+          effects: [],
+          markers: [],
+          metadata: {},
+          children: playlist.map((clip) => ({
+            OTIO_SCHEMA: 'Clip.1',
+            name: clip.label,
+            source_range: timeRange(clip.sourceIn, clip.duration, rate),
+            media_reference: {
+              OTIO_SCHEMA: 'ExternalReference.1',
+              // Object URLs mean nothing outside this tab; editorial relinks by the clip name instead.
+              target_url: clip.src.startsWith('blob:') ? clip.label : clip.src,
+              available_range: null,
+              metadata: {},
+            },
+            effects: [],
+            markers: clipMarkers.get(clip.id) ?? [],
+            metadata: { nexus8: { clipId: clip.id } },
+          })),
+        },
+      ],
+    },
+  }
+}
@@ -0,0 +1,61 @@
+import type { AnnotationEntity, AnnotationReviewStatus } from './types'
+
+export const REVIEW_STATUSES: AnnotationReviewStatus[] = ['open', 'addressed', 'approved']
+
+export const REVIEW_STATUS_LABELS: Record<AnnotationReviewStatus, string> = {
+  open: 'Open',
+  addressed: 'Addressed',
+  approved: 'Approved',
+}
+
+/** Note counts by review status, as persisted alongside the doc state. */
+export type AnnotationReviewSummary = Record<AnnotationReviewStatus, number>
+
+/** Viewport filter; an empty list means every status or every author. */
+export interface AnnotationReviewFilter {
+  statuses: AnnotationReviewStatus[]
+  authorIds: string[]
+}
+
+export const EMPTY_REVIEW_FILTER: AnnotationReviewFilter = { statuses: [], authorIds: [] }
+
+export function getReviewStatus(annotation: AnnotationEntity): AnnotationReviewStatus {
+  return annotation.review?.status ?? 'open'
+}
+
+/** Mask strokes feed generation and are not review notes. */
+export function isOpenNote(annotation: AnnotationEntity) {
+  return !annotation.maskRegion && getReviewStatus(annotation) === 'open'
+}
+
+export function getReviewSummary(annotations: AnnotationEntity[]): AnnotationReviewSummary {
+  const summary: AnnotationReviewSummary = { open: 0, addressed: 0, approved: 0 }
+  annotations.forEach((annotation) => {
+    if (!annotation.maskRegion) {
+      summary[getReviewStatus(annotation)] += 1
+    }
+  })
+  return summary
+}
+
+export function isReviewFilterActive(filter: AnnotationReviewFilter) {
+  return filter.statuses.length > 0 || filter.authorIds.length > 0
+}
+
+export function matchesReviewFilter(annotation: AnnotationEntity, filter: AnnotationReviewFilter) {
+  return (
+    (filter.statuses.length === 0 || filter.statuses.includes(getReviewStatus(annotation)))
+    && (filter.authorIds.length === 0 || filter.authorIds.includes(annotation.authorId))
+  )
+}
+
+/** Distinct authors in first-seen order, for the author filter. */
+export function listAnnotationAuthors(annotations: AnnotationEntity[]) {
+  const authors = new Map<string, string>()
+  annotations.forEach((annotation) => {
+    if (!authors.has(annotation.authorId)) {
+      authors.set(annotation.authorId, annotation.authorName || annotation.authorId)
+    }
+  })
+  return Array.from(authors, ([id, name]) => ({ id, name }))
+}
@@ -0,0 +1,206 @@
+import type { AnnotationGeometry, RichText, RichTextParagraph, RichTextRun } from './types'
+
+export const NEXUS8_URI_PREFIX = 'nexus8://'
+const MENTION_TARGET_PREFIX = 'mention:'
+const MAX_BULLET_INDENT = 4
+
+type RichTextGeometry = Extract<AnnotationGeometry, { kind: 'text' | 'card' | 'list' }>
+type RunMarks = Omit<RichTextRun, 'text'>
+
+export function isRichTextGeometry(geometry: AnnotationGeometry): geometry is RichTextGeometry {
+  return geometry.kind === 'text' || geometry.kind === 'card' || geometry.kind === 'list'
+}
+
+function isSameMarks(left: RunMarks, right: RunMarks) {
+  return Boolean(left.bold) === Boolean(right.bold)
+    && Boolean(left.italic) === Boolean(right.italic)
+    && left.color === right.color
+    && left.href === right.href
+    && left.mention === right.mention
+}
+
+/** Drop empty runs and join neighbours that carry the same marks. */
+function mergeRuns(runs: RichTextRun[]) {
+  const merged: RichTextRun[] = []
+  runs.forEach((run) => {
+    if (!run.text) {
+      return
+    }
+    const previous = merged[merged.length - 1]
+    if (previous && !run.mention && !previous.mention && isSameMarks(previous, run)) {
+      previous.text += run.text
+      return
+    }
+    merged.push({ ...run })
+  })
+  return merged
+}
+
+function withMarks(text: string, marks: RunMarks): RichTextRun {
+  const run: RichTextRun = { text }
+  if (marks.bold) run.bold = true
+  if (marks.italic) run.italic = true
+  if (marks.color) run.color = marks.color
+  if (marks.href) run.href = marks.href
+  if (marks.mention) run.mention = marks.mention
+  return run
+}
+
+// Mentions, nexus8 links, color spans, bold and italic, tried in that order.
+const INLINE_PATTERN = new RegExp(
+  [
+    /@\[([^\]]+)\]\(mention:([^)\s]+)\)/.source,
+    /\[([^\]]+)\]\((nexus8:\/\/[^)\s]+)\)/.source,
+    /\[([^\]]+)\]\{color=(#[0-9a-fA-F]{3,8}|[a-zA-Z]+)\}/.source,
+    /\*\*(.+?)\*\*/.source,
+    /\*(.+?)\*/.source,
+  ].join('|'),
+  'g',
+)
+
+function parseInline(source: string, marks: RunMarks): RichTextRun[] {
+  const runs: RichTextRun[] = []
+  let cursor = 0
+  for (const match of source.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0
+    runs.push(withMarks(source.slice(cursor, index), marks))
+    cursor = index + match[0].length
+    const [, mentionName, mentionId, linkLabel, href, colorLabel, color, bold, italic] = match
+    if (mentionName !== undefined) {
+      runs.push(withMarks(mentionName, { ...marks, mention: mentionId }))
+    } else if (linkLabel !== undefined) {
+      runs.push(...parseInline(linkLabel, { ...marks, href }))
+    } else if (colorLabel !== undefined) {
+      runs.push(...parseInline(colorLabel, { ...marks, color }))
+    } else if (bold !== undefined) {
+      runs.push(...parseInline(bold, { ...marks, bold: true }))
+    } else if (italic !== undefined) {
+      runs.push(...parseInline(italic, { ...marks, italic: true }))
+    }
+  }
+  runs.push(withMarks(source.slice(cursor), marks))
+  return runs
+}
+
+/**
+ * Read the markdown subset the editors write: one paragraph per line, `- ` bullets nested
+ * by two-space indents, `**bold**`, `*italic*`, `[text]{color=#hex}`, `[text](nexus8://…)`
+ * and `@[Name](mention:participant-id)`. Anything else stays literal text.
+ */
+export function parseRichTextMarkdown(markdown: string): RichText {
+  return markdown.split('\n').map((line) => {
+    const bullet = /^(\s*)[-*] (.*)$/.exec(line)
+    const runs = mergeRuns(parseInline(bullet ? bullet[2] : line, {}))
+    if (!bullet) {
+      return { runs }
+    }
+    const indent = Math.min(MAX_BULLET_INDENT, Math.floor(bullet[1].replace(/\t/g, '  ').length / 2))
+    return { runs, bullet: true, ...(indent > 0 ? { indent } : {}) }
+  })
+}
+
+function serializeRun(run: RichTextRun) {
+  if (run.mention) {
+    return `@[${run.text}](${MENTION_TARGET_PREFIX}${run.mention})`
+  }
+  let text = run.text
+  if (run.italic) text = `*${text}*`
+  if (run.bold) text = `**${text}**`
+  if (run.href) return `[${text}](${run.href})`
+  if (run.color) return `[${text}]{color=${run.color}}`
+  return text
+}
+
+export function serializeRichTextMarkdown(rich: RichText): string {
+  return rich
+    .map((paragraph) => {
+      const prefix = paragraph.bullet ? `${'  '.repeat(paragraph.indent ?? 0)}- ` : ''
+      return prefix + paragraph.runs.map(serializeRun).join('')
+    })
+    .join('\n')
+}
+
+/** Plain text of each paragraph, without bullet markers. */
+export function richTextToPlainLines(rich: RichText): string[] {
+  return rich.map((paragraph) => paragraph.runs.map((run) => run.text).join(''))
+}
+
+export function plainLinesToRichText(lines: string[], bullet = false): RichText {
+  return lines.map((line) => ({ runs: line ? [{ text: line }] : [], ...(bullet ? { bullet: true } : {}) }))
+}
+
+/** The geometry's text as rich paragraphs, derived from its plain strings when it has none. */
+export function getGeometryRichText(geometry: RichTextGeometry): RichText {
+  if (geometry.rich) {
+    return geometry.rich
+  }
+  switch (geometry.kind) {
+    case 'text':
+      return plainLinesToRichText(geometry.text.split('\n'))
+    case 'card':
+      return plainLinesToRichText(geometry.body)
+    case 'list':
+      return plainLinesToRichText(geometry.items, true)
+  }
+}
+
+/** Store `rich` on the geometry and bring its plain strings in step. List items are always bullets. */
+export function setGeometryRichText<T extends RichTextGeometry>(geometry: T, rich: RichText): T {
+  switch (geometry.kind) {
+    case 'text':
+      return { ...geometry, rich, text: richTextToPlainLines(rich).join('\n') }
+    case 'card':
+      return { ...geometry, rich, body: richTextToPlainLines(rich) }
+    case 'list': {
+      const items = rich.map((paragraph) => ({ ...paragraph, bullet: true }))
+      return { ...geometry, rich: items, items: richTextToPlainLines(items) }
+    }
+  }
+  return geometry
+}
+
+/** Participant ids mentioned anywhere in `rich`, first mention first. */
+export function getRichTextMentions(rich: RichText | undefined) {
+  const ids = (rich ?? []).flatMap((paragraph) => paragraph.runs.flatMap((run) => (run.mention ? [run.mention] : [])))
+  return Array.from(new Set(ids))
+}
+
+export function getRichTextLinks(rich: RichText | undefined) {
+  return (rich ?? []).flatMap((paragraph) =>
+    paragraph.runs.flatMap((run) => (run.href ? [{ label: run.text, href: run.href }] : [])))
+}
+
+export function createMentionMarkdown(participant: { id: string; name: string }) {
+  return `@[${participant.name.replace(/[[\]]/g, '')}](${MENTION_TARGET_PREFIX}${participant.id})`
+}
+
+function normalizeRun(value: unknown): RichTextRun | null {
+  if (!value || typeof value !== 'object' || typeof (value as RichTextRun).text !== 'string') {
+    return null
+  }
+  const run = value as RichTextRun
+  return withMarks(run.text, {
+    bold: run.bold === true,
+    italic: run.italic === true,
+    color: typeof run.color === 'string' ? run.color : undefined,
+    // Only nexus8 references are followed; other schemes are kept as plain text.
+    href: typeof run.href === 'string' && run.href.startsWith(NEXUS8_URI_PREFIX) ? run.href : undefined,
+    mention: typeof run.mention === 'string' && run.mention ? run.mention : undefined,
+  })
+}
+
+/** Coerce stored rich text, dropping malformed runs; undefined when there is none. */
+export function normalizeRichText(value: unknown): RichText | undefined {
+  if (!Array.isArray(value)) {
+    return undefined
+  }
+  return value.flatMap((entry): RichTextParagraph[] => {
+    if (!entry || typeof entry !== 'object' || !Array.isArray((entry as RichTextParagraph).runs)) {
+      return []
+    }
+    const paragraph = entry as RichTextParagraph
+    const runs = mergeRuns(paragraph.runs.flatMap((run) => normalizeRun(run) ?? []))
+    const indent = Number.isFinite(paragraph.indent) ? Math.max(0, Math.min(MAX_BULLET_INDENT, Math.floor(paragraph.indent!))) : 0
+    return [{ runs, ...(paragraph.bullet ? { bullet: true } : {}), ...(paragraph.bullet && indent > 0 ? { indent } : {}) }]
+  })
+}
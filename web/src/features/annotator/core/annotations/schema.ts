@@ -5,13 +5,28 @@ import type {
   AnnotationFrame,
   AnnotationGeometry,
   AnnotationGeometryKind,
+  AnnotationGroup,
+  AnnotationKeyframe,
   AnnotationLayer,
   AnnotationStyle,
+  AnnotationDerivation,
+  AnnotationReview,
+  AnnotationThread,
   Vec2,
   Vec3,
 } from './types'
+import { isExtensionGeometryKind } from './types'
+import { MAX_STROKE_WIDTH_SCALE, MIN_STROKE_WIDTH_SCALE } from './geometry'
+import { normalizeRichText } from './richText'
+import {
+  LEGACY_SCHEMA_VERSION,
+  getRecordSchemaVersion,
+  migrateAnnotationRecord,
+  migrateLayerRecord,
+} from './migrations'
 
-export const ANNOTATION_SCHEMA_VERSION = 1
+/** Bump together with a new step in ANNOTATION_SCHEMA_MIGRATIONS (see migrations.ts). */
+export const ANNOTATION_SCHEMA_VERSION = 10
 
 export interface AnnotationColor {
   r: number
@@ -37,6 +52,7 @@ export interface NormalizedAnnotationEntity {
   layerId: string
   frame: AnnotationFrame
   geometry: AnnotationGeometry
+  keyframes?: AnnotationKeyframe[]
   style: NormalizedAnnotationStyle
   drawOrder: number
   authorId: string
@@ -61,6 +77,26 @@ function normalizeVec2(value: Vec2 | undefined, fallback: Vec2): Vec2 {
   }
 }
 
+function normalizeExtensionFields(fields: Record<string, unknown> | undefined): Record<string, string> {
+  const normalized: Record<string, string> = {}
+  Object.entries(fields ?? {}).forEach(([key, value]) => {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      normalized[key] = `${value}`
+    }
+  })
+  return normalized
+}
+
+/** Width scales survive only when they line up with the points they describe. */
+function normalizeStrokeWidths(widths: number[] | undefined, pointCount: number) {
+  if (!Array.isArray(widths) || widths.length !== pointCount || pointCount === 0) {
+    return {}
+  }
+  return {
+    widths: widths.map((width) => Math.min(MAX_STROKE_WIDTH_SCALE, Math.max(MIN_STROKE_WIDTH_SCALE, finiteNumber(width, 1)))),
+  }
+}
+
 function normalizeVec3(value: Vec3 | undefined, fallback: Vec3): Vec3 {
   return {
     x: finiteNumber(value?.x, fallback.x),
@@ -151,17 +187,25 @@ export function getAnnotationTimeRange(annotation: AnnotationEntity): Annotation
   return { start, end: start }
 }
 
+/** Spread into a text, card or list geometry; omits `rich` when there is none. */
+function normalizeRichTextField(value: unknown) {
+  const rich = normalizeRichText(value)
+  return rich ? { rich } : {}
+}
+
 function normalizeGeometry(geometry: AnnotationGeometry): AnnotationGeometry {
   switch (geometry.kind) {
     case 'freehand':
       return {
         kind: 'freehand',
         points: geometry.points.map((point) => normalizeVec2(point, { x: 0, y: 0 })),
+        ...normalizeStrokeWidths(geometry.widths, geometry.points.length),
       }
     case 'brush':
       return {
         kind: 'brush',
         points: geometry.points.map((point) => normalizeVec2(point, { x: 0, y: 0 })),
+        ...normalizeStrokeWidths(geometry.widths, geometry.points.length),
         radius: Math.max(0.5, finiteNumber(geometry.radius, 12)),
         // Preserve the negative (erase / "not this") polarity through the store.
         ...(geometry.negative ? { negative: true } : {}),
@@ -183,6 +227,7 @@ function normalizeGeometry(geometry: AnnotationGeometry): AnnotationGeometry {
         kind: 'text',
         position: normalizeVec2(geometry.position, { x: 0, y: 0 }),
         text: geometry.text,
+        ...normalizeRichTextField(geometry.rich),
       }
     case 'card':
       return {
@@ -190,6 +235,7 @@ function normalizeGeometry(geometry: AnnotationGeometry): AnnotationGeometry {
         start: normalizeVec2(geometry.start, { x: 0, y: 0 }),
         end: normalizeVec2(geometry.end, { x: 0, y: 0 }),
         body: geometry.body.map((entry) => `${entry}`),
+        ...normalizeRichTextField(geometry.rich),
       }
     case 'grid':
       return {
@@ -207,7 +253,100 @@ function normalizeGeometry(geometry: AnnotationGeometry): AnnotationGeometry {
         end: normalizeVec2(geometry.end, { x: 0, y: 0 }),
         title: geometry.title,
         items: geometry.items.map((entry) => `${entry}`),
+        ...normalizeRichTextField(geometry.rich),
       }
+    case 'arrow':
+    case 'measurement':
+      return {
+        kind: geometry.kind,
+        from: normalizeVec2(geometry.from, { x: 0, y: 0 }),
+        to: normalizeVec2(geometry.to, { x: 0, y: 0 }),
+      }
+    case 'callout':
+      return {
+        kind: 'callout',
+        from: normalizeVec2(geometry.from, { x: 0, y: 0 }),
+        to: normalizeVec2(geometry.to, { x: 0, y: 0 }),
+        text: `${geometry.text ?? ''}`,
+      }
+    default:
+      // Kinds registered by feature modules (or unknown to this build) are kept rather than
+      // dropped, so a client without the module still stores and relays them intact.
+      return isExtensionGeometryKind(geometry.kind)
+        ? {
+            ...geometry,
+            start: normalizeVec2(geometry.start, { x: 0, y: 0 }),
+            end: normalizeVec2(geometry.end, { x: 0, y: 0 }),
+            fields: normalizeExtensionFields(geometry.fields),
+          }
+        : { ...geometry }
+  }
+}
+
+/** Keys whose geometry kind differs from the annotation's are dropped; one key per frame. */
+function normalizeKeyframes(
+  keyframes: AnnotationKeyframe[] | undefined,
+  geometry: AnnotationGeometry,
+  frame: AnnotationFrame,
+): AnnotationKeyframe[] | undefined {
+  if (!Array.isArray(keyframes)) {
+    return undefined
+  }
+
+  const byFrame = new Map<number, AnnotationKeyframe>()
+  keyframes.forEach((keyframe) => {
+    if (!keyframe || keyframe.geometry?.kind !== geometry.kind) {
+      return
+    }
+    const index = Math.max(0, finiteInteger(keyframe.frame, 0))
+    byFrame.set(index, {
+      frame: index,
+      time: Math.max(0, finiteNumber(keyframe.time, 0)),
+      ...(typeof keyframe.globalTime === 'number' ? { globalTime: finiteNumber(keyframe.globalTime, 0) } : {}),
+      origin: normalizeVec3(keyframe.origin, frame.origin),
+      geometry: normalizeGeometry(keyframe.geometry),
+    })
+  })
+
+  const normalized = [...byFrame.values()].sort((left, right) => left.frame - right.frame)
+  return normalized.length > 0 ? normalized : undefined
+}
+
+/** A thread needs a positive discussion id; anything else is dropped. */
+function normalizeThread(thread: AnnotationThread | undefined): AnnotationThread | undefined {
+  if (!thread || !Number.isInteger(thread.discussionId) || thread.discussionId <= 0) {
+    return undefined
+  }
+  return {
+    discussionId: thread.discussionId,
+    status: thread.status === 'resolved' ? 'resolved' : 'open',
+    replyCount: Math.max(0, finiteInteger(thread.replyCount, 0)),
+  }
+}
+
+/** Unknown statuses read as open; an assignee needs an id. */
+function normalizeReview(review: AnnotationReview | undefined): AnnotationReview | undefined {
+  if (!review) {
+    return undefined
+  }
+  const status = review.status === 'addressed' || review.status === 'approved' ? review.status : 'open'
+  const assigneeId = typeof review.assigneeId === 'string' && review.assigneeId ? review.assigneeId : undefined
+  return {
+    status,
+    assigneeId,
+    assigneeName: assigneeId ? review.assigneeName ?? assigneeId : undefined,
+  }
+}
+
+function normalizeDerivation(derivation: AnnotationDerivation | undefined): AnnotationDerivation | undefined {
+  if (!derivation || typeof derivation.annotationId !== 'string' || !Number.isInteger(derivation.docId)) {
+    return undefined
+  }
+  return {
+    annotationId: derivation.annotationId,
+    docId: derivation.docId,
+    versionNumber: Number.isInteger(derivation.versionNumber) ? derivation.versionNumber : null,
+    carriedAt: finiteNumber(derivation.carriedAt, 0),
   }
 }
 
@@ -261,14 +400,20 @@ export function normalizeAnnotationEntity(
   const createdAt = Math.max(0, finiteInteger(existing?.createdAt ?? annotation.createdAt, now))
   const updatedAt = Math.max(createdAt, finiteInteger(annotation.updatedAt, now))
   const drawOrder = finiteNumber(existing?.drawOrder ?? annotation.drawOrder, createdAt)
+  const frame = normalizeFrame(annotation.frame)
+  const geometry = normalizeGeometry(annotation.geometry)
 
   return {
     ...annotation,
     id: annotation.id,
     layerId: annotation.layerId,
     timeRange: getAnnotationTimeRange(annotation),
-    frame: normalizeFrame(annotation.frame),
-    geometry: normalizeGeometry(annotation.geometry),
+    frame,
+    geometry,
+    keyframes: normalizeKeyframes(annotation.keyframes, geometry, frame),
+    thread: normalizeThread(annotation.thread),
+    review: normalizeReview(annotation.review),
+    derivedFrom: normalizeDerivation(annotation.derivedFrom),
     style: normalizeStyle(annotation.style),
     drawOrder,
     authorId: annotation.authorId,
@@ -276,9 +421,20 @@ export function normalizeAnnotationEntity(
     createdAt,
     updatedAt,
     version: Math.max(0, finiteInteger(annotation.version, existing?.version ?? 0)),
+    schemaVersion: ANNOTATION_SCHEMA_VERSION,
   }
 }
 
+/** Migrate a stored record to the current schema, then normalize it. */
+export function upgradeAnnotationEntity(annotation: AnnotationEntity): AnnotationEntity {
+  return normalizeAnnotationEntity(migrateAnnotationRecord(annotation, ANNOTATION_SCHEMA_VERSION))
+}
+
+/** True when a doc or record was written by a client with a newer schema than this build. */
+export function isNewerAnnotationSchema(schemaVersion: number) {
+  return schemaVersion > ANNOTATION_SCHEMA_VERSION
+}
+
 export function toNormalizedAnnotationEntity(annotation: AnnotationEntity): NormalizedAnnotationEntity {
   const normalized = normalizeAnnotationEntity(annotation)
   return {
@@ -289,6 +445,7 @@ export function toNormalizedAnnotationEntity(annotation: AnnotationEntity): Norm
     layerId: normalized.layerId,
     frame: normalized.frame,
     geometry: normalized.geometry,
+    keyframes: normalized.keyframes,
     style: {
       stroke: parseAnnotationColor(normalized.style.stroke),
       fill: parseAnnotationColor(normalized.style.fill),
@@ -316,6 +473,7 @@ function stableAnnotationRecord(annotation: AnnotationEntity) {
     layerId: normalized.layerId,
     frame: normalized.frame,
     geometry: normalized.geometry,
+    keyframes: normalized.keyframes,
     style: normalized.style,
     drawOrder: normalized.drawOrder,
     authorId: normalized.authorId,
@@ -360,9 +518,27 @@ function stableLayerRecord(layer: AnnotationLayer) {
         }
       : {}),
     ...(layer.source !== undefined ? { source: { layerId: layer.source.layerId } } : {}),
+    ...(layer.schemaVersion !== undefined ? { schemaVersion: layer.schemaVersion } : {}),
   }
 }
 
+/**
+ * Drop members that no longer exist (deleted, or claimed by an earlier group after a
+ * concurrent edit) and groups left with fewer than two members.
+ */
+function normalizeAnnotationGroups(groups: AnnotationGroup[], annotationIds: Set<string>) {
+  const claimed = new Set<string>()
+  return [...groups]
+    .sort((left, right) => left.createdAt - right.createdAt || left.id.localeCompare(right.id))
+    .map((group) => {
+      const members = group.annotationIds.filter((id) => annotationIds.has(id) && !claimed.has(id))
+      members.forEach((id) => claimed.add(id))
+      return { ...group, annotationIds: members }
+    })
+    .filter((group) => group.annotationIds.length >= 2)
+    .sort((left, right) => left.id.localeCompare(right.id))
+}
+
 export function serializeAnnotationSnapshot(snapshot: AnnotationDocumentSnapshot) {
   return JSON.stringify({
     schemaVersion: ANNOTATION_SCHEMA_VERSION,
@@ -373,17 +549,44 @@ export function serializeAnnotationSnapshot(snapshot: AnnotationDocumentSnapshot
     annotations: snapshot.annotations
       .map((annotation) => stableAnnotationRecord(annotation))
       .sort((left, right) => left.drawOrder - right.drawOrder || left.id.localeCompare(right.id)),
+    groups: [...(snapshot.groups ?? [])].sort((left, right) => left.id.localeCompare(right.id)),
   })
 }
 
 export function normalizeAnnotationSnapshot(snapshot: AnnotationDocumentSnapshot): AnnotationDocumentSnapshot {
+  const version = Math.max(0, finiteInteger(snapshot.version, 0))
+  const schemaVersion = Math.max(
+    snapshot.schemaVersion ?? LEGACY_SCHEMA_VERSION,
+    ...snapshot.annotations.map((annotation) => getRecordSchemaVersion(annotation)),
+    ...snapshot.layers.map((layer) => getRecordSchemaVersion(layer)),
+  )
+
+  if (isNewerAnnotationSchema(schemaVersion)) {
+    // Never coerce a newer client's records into this build's shape: keep them
+    // verbatim. Kinds without a render plugin are skipped when drawing.
+    return {
+      version,
+      schemaVersion,
+      readOnly: true,
+      layers: [...snapshot.layers].sort((left, right) => left.id.localeCompare(right.id)),
+      annotations: snapshot.annotations.filter((annotation) => typeof annotation.geometry?.kind === 'string'),
+      groups: snapshot.groups ?? [],
+    }
+  }
+
+  const annotations = snapshot.annotations
+    .map((annotation) => upgradeAnnotationEntity(annotation))
+    .sort((left, right) => (left.drawOrder ?? left.createdAt) - (right.drawOrder ?? right.createdAt) || left.id.localeCompare(right.id))
   return {
-    version: Math.max(0, finiteInteger(snapshot.version, 0)),
+    version,
+    schemaVersion: ANNOTATION_SCHEMA_VERSION,
     layers: snapshot.layers
-      .map((layer) => stableLayerRecord(layer))
+      .map((layer) => stableLayerRecord(migrateLayerRecord(layer, ANNOTATION_SCHEMA_VERSION)))
       .sort((left, right) => left.id.localeCompare(right.id)),
-    annotations: snapshot.annotations
-      .map((annotation) => normalizeAnnotationEntity(annotation))
-      .sort((left, right) => (left.drawOrder ?? left.createdAt) - (right.drawOrder ?? right.createdAt) || left.id.localeCompare(right.id)),
+    annotations,
+    groups: normalizeAnnotationGroups(
+      snapshot.groups ?? [],
+      new Set(annotations.map((annotation) => annotation.id)),
+    ),
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest'
+import * as Y from 'yjs'
+import { AnnotationDocumentStore } from './store'
+import { ANNOTATION_SCHEMA_VERSION } from './schema'
+import type { AnnotationEntity, AnnotationLayer } from './types'
+import { schemaV1Document, schemaV4Document } from './__fixtures__/schemaDocuments'
+
+function createDoc(schemaVersion: number | undefined, annotations: unknown[], layers: unknown[]) {
+  const doc = new Y.Doc()
+  doc.transact(() => {
+    if (schemaVersion !== undefined) {
+      doc.getMap('meta').set('schemaVersion', schemaVersion)
+    }
+    annotations.forEach((annotation) => {
+      const record = annotation as AnnotationEntity
+      doc.getMap<AnnotationEntity>('annotations').set(record.id, record)
+    })
+    layers.forEach((layer) => {
+      const record = layer as AnnotationLayer
+      doc.getMap<AnnotationLayer>('layers').set(record.id, record)
+    })
+  })
+  return doc
+}
+
+describe('AnnotationDocumentStore schema handling', () => {
+  let warn: MockInstance<typeof console.warn>
+
+  beforeEach(() => {
+    warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    warn.mockRestore()
+  })
+
+  describe('a doc written by a newer client', () => {
+    const newerVersion = ANNOTATION_SCHEMA_VERSION + 1
+    const futureRecord = {
+      ...schemaV4Document.annotations[0],
+      id: 'future-1',
+      geometry: { kind: 'hologram', depth: 3 },
+      schemaVersion: newerVersion,
+    }
+
+    it('opens read-only and shows records verbatim', () => {
+      const store = new AnnotationDocumentStore(createDoc(newerVersion, [futureRecord], schemaV4Document.layers))
+      const snapshot = store.getSnapshot()
+
+      expect(store.isReadOnly()).toBe(true)
+      expect(snapshot.readOnly).toBe(true)
+      expect(snapshot.schemaVersion).toBe(newerVersion)
+      expect(snapshot.annotations).toEqual([futureRecord])
+    })
+
+    it('refuses writes without migrating, restamping or logging', () => {
+      const doc = createDoc(newerVersion, [futureRecord], schemaV4Document.layers)
+      const store = new AnnotationDocumentStore(doc)
+      const before = Y.encodeStateAsUpdate(doc)
+
+      store.upsertAnnotation({ ...(schemaV4Document.annotations[0] as unknown as AnnotationEntity), id: 'local-1' })
+      store.removeAnnotation('future-1')
+      store.setImageSize({ width: 1920, height: 1080 })
+
+      expect(store.isReadOnly()).toBe(true)
+      expect(warn).not.toHaveBeenCalled()
+      expect(Y.encodeStateAsUpdate(doc)).toEqual(before)
+      expect(store.getSchemaVersion()).toBe(newerVersion)
+      expect(store.getSnapshot().annotations.map((annotation) => annotation.id)).toEqual(['future-1'])
+    })
+  })
+
+  describe('a doc written by an older client', () => {
+    it('is not rewritten by viewing it', () => {
+      const doc = createDoc(undefined, schemaV1Document.annotations, schemaV1Document.layers)
+      const store = new AnnotationDocumentStore(doc)
+
+      expect(store.getSnapshot().readOnly).toBeUndefined()
+      expect(store.getSchemaVersion()).toBe(1)
+      expect(doc.getMap<AnnotationEntity>('annotations').get('rect-1')?.schemaVersion).toBeUndefined()
+    })
+
+    it('is migrated and stamped before the first edit', () => {
+      const doc = createDoc(undefined, schemaV1Document.annotations, schemaV1Document.layers)
+      const store = new AnnotationDocumentStore(doc)
+
+      store.removeAnnotation('text-1')
+
+      expect(warn).not.toHaveBeenCalled()
+      expect(store.getSchemaVersion()).toBe(ANNOTATION_SCHEMA_VERSION)
+      const stored = doc.getMap<AnnotationEntity>('annotations').get('rect-1')
+      expect(stored?.schemaVersion).toBe(ANNOTATION_SCHEMA_VERSION)
+      expect(stored?.drawOrder).toBe(1_700_000_000_000)
+      expect(doc.getMap<AnnotationLayer>('layers').get('notes')?.supportedSpaces).toEqual(['image2d', 'world3d'])
+    })
+  })
+})
+
+describe('AnnotationDocumentStore thread links', () => {
+  const thread = { discussionId: 9, status: 'open' as const, replyCount: 1 }
+  const note = { ...(schemaV4Document.annotations[0] as unknown as AnnotationEntity), id: 'note-1' }
+
+  it('drops the link with its annotation and brings both back on one undo', () => {
+    const doc = new Y.Doc()
+    const store = new AnnotationDocumentStore(doc)
+    store.upsertAnnotation(note)
+    store.setAnnotationThread('note-1', thread)
+
+    store.transactAsUndoStep(() => store.removeAnnotation('note-1'))
+
+    expect(doc.getMap('threads').has('note-1')).toBe(false)
+
+    store.undo()
+
+    expect(store.getAnnotation('note-1')?.thread).toEqual(thread)
+  })
+
+  it('does not hand an old discussion to a new annotation that reuses the id', () => {
+    const store = new AnnotationDocumentStore(new Y.Doc())
+    store.upsertAnnotation(note)
+    store.setAnnotationThread('note-1', thread)
+    store.clearAnnotations()
+
+    store.upsertAnnotation(note)
+
+    expect(store.getAnnotation('note-1')?.thread).toBeUndefined()
+  })
+
+  it('keeps linking a thread out of the undo history', () => {
+    const store = new AnnotationDocumentStore(new Y.Doc())
+    store.upsertAnnotation(note)
+    store.setAnnotationThread('note-1', thread)
+
+    store.undo()
+
+    expect(store.getAnnotation('note-1')).toBeUndefined()
+    expect(store.canUndo()).toBe(false)
+  })
+})
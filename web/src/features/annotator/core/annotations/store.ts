@@ -2,12 +2,30 @@ import * as Y from 'yjs'
 import type {
   AnnotationDocumentSnapshot,
   AnnotationEntity,
+  AnnotationGroup,
   AnnotationLayer,
+  AnnotationThread,
   ViewerSpace,
 } from './types'
-import { normalizeAnnotationEntity, normalizeAnnotationSnapshot } from './schema'
+import { LEGACY_SCHEMA_VERSION, getRecordSchemaVersion, migrateLayerRecord } from './migrations'
+import {
+  ANNOTATION_SCHEMA_VERSION,
+  isNewerAnnotationSchema,
+  normalizeAnnotationEntity,
+  normalizeAnnotationSnapshot,
+  upgradeAnnotationEntity,
+} from './schema'
+import { transformAnnotation, type AnnotationTransform } from './transform'
+import type { AnnotationArrangeMove } from './arrange'
 import { DEFAULT_LAYER } from './types'
 
+/** Transaction origin for schema upgrades; not tracked by the undo manager. */
+const SCHEMA_MIGRATION_ORIGIN = Symbol('annotation-schema-migration')
+/** Linking a thread is not an undo step; only the deletes that drop a link are. */
+const THREAD_LINK_ORIGIN = Symbol('annotation-thread-link')
+const SCHEMA_VERSION_KEY = 'schemaVersion'
+const IMAGE_SIZE_KEY = 'imageSize'
+
 function cloneValue<T>(value: T): T {
   return structuredClone(value)
 }
@@ -25,6 +43,13 @@ export class AnnotationDocumentStore {
 
   private readonly annotations: Y.Map<AnnotationEntity>
   private readonly layers: Y.Map<AnnotationLayer>
+  private readonly groups: Y.Map<AnnotationGroup>
+  private readonly meta: Y.Map<unknown>
+  /**
+   * Discussion links by annotation id, kept apart so undoing a shape edit never unlinks its
+   * thread. A link is deleted with its annotation, so undoing the delete brings both back.
+   */
+  private readonly threads: Y.Map<AnnotationThread>
   private readonly undoManager: Y.UndoManager
   private version = 0
 
@@ -32,7 +57,10 @@ export class AnnotationDocumentStore {
     this.doc = doc
     this.annotations = this.doc.getMap<AnnotationEntity>('annotations')
     this.layers = this.doc.getMap<AnnotationLayer>('layers')
-    this.undoManager = new Y.UndoManager([this.annotations, this.layers])
+    this.groups = this.doc.getMap<AnnotationGroup>('groups')
+    this.meta = this.doc.getMap<unknown>('meta')
+    this.threads = this.doc.getMap<AnnotationThread>('threads')
+    this.undoManager = new Y.UndoManager([this.annotations, this.layers, this.groups, this.threads])
 
     if (!this.layers.has(DEFAULT_LAYER.id)) {
       this.layers.set(DEFAULT_LAYER.id, DEFAULT_LAYER)
@@ -56,26 +84,107 @@ export class AnnotationDocumentStore {
   }
 
   getSnapshot(): AnnotationDocumentSnapshot {
-    const annotations = Array.from(this.annotations.values())
-      .map((annotation) => normalizeAnnotationEntity(cloneValue(annotation)))
-      .sort((left, right) => getAnnotationOrder(left) - getAnnotationOrder(right))
+    // Records are migrated inside normalizeAnnotationSnapshot, so pass them through raw.
+    const annotations = Array.from(this.annotations.values()).map((annotation) => this.withThread(cloneValue(annotation)))
     const layers = Array.from(this.layers.values())
       .map((layer) => cloneValue(layer))
       .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+    const groups = Array.from(this.groups.values()).map((group) => cloneValue(group))
 
     return normalizeAnnotationSnapshot({
       annotations,
       layers,
+      groups,
       version: this.version,
+      schemaVersion: this.getSchemaVersion(),
     })
   }
 
+  private withThread(annotation: AnnotationEntity): AnnotationEntity {
+    const thread = this.threads.get(annotation.id)
+    return thread ? { ...annotation, thread: cloneValue(thread) } : annotation
+  }
+
+  /** Delete an annotation and its thread link; call inside the caller's transaction. */
+  private deleteAnnotation(id: string) {
+    this.annotations.delete(id)
+    this.threads.delete(id)
+  }
+
+  /** Highest schema version written into this doc; docs without a marker predate versioning. */
+  getSchemaVersion() {
+    const stored = this.meta.get(SCHEMA_VERSION_KEY)
+    return typeof stored === 'number' ? stored : LEGACY_SCHEMA_VERSION
+  }
+
+  /** Pixel size of the image the doc was last annotated against, used to reproject carried notes. */
+  getImageSize(): { width: number; height: number } | undefined {
+    const stored = this.meta.get(IMAGE_SIZE_KEY) as { width?: unknown; height?: unknown } | undefined
+    return typeof stored?.width === 'number' && typeof stored.height === 'number' && stored.width > 0 && stored.height > 0
+      ? { width: stored.width, height: stored.height }
+      : undefined
+  }
+
+  /** Record the annotated image's size. Not an undo step; unchanged sizes are not rewritten. */
+  setImageSize(size: { width: number; height: number }) {
+    const current = this.getImageSize()
+    if ((current?.width === size.width && current.height === size.height) || this.isReadOnly()) {
+      return
+    }
+    this.meta.set(IMAGE_SIZE_KEY, { width: size.width, height: size.height })
+  }
+
+  /** A doc written by a newer client is never edited (or migrated) by this build. */
+  isReadOnly() {
+    return isNewerAnnotationSchema(this.getSchemaVersion())
+  }
+
+  /**
+   * Upgrade every stored record to the current schema step by step and stamp the doc.
+   * Runs lazily before the first local edit, so merely viewing an old doc never rewrites it.
+   */
+  migrateDocument() {
+    if (this.isReadOnly() || this.getSchemaVersion() === ANNOTATION_SCHEMA_VERSION) {
+      return
+    }
+    this.doc.transact(() => {
+      this.annotations.forEach((annotation, id) => {
+        if (getRecordSchemaVersion(annotation) < ANNOTATION_SCHEMA_VERSION) {
+          this.annotations.set(id, upgradeAnnotationEntity(cloneValue(annotation)))
+        }
+      })
+      this.layers.forEach((layer, id) => {
+        if (getRecordSchemaVersion(layer) < ANNOTATION_SCHEMA_VERSION) {
+          this.layers.set(id, migrateLayerRecord(cloneValue(layer), ANNOTATION_SCHEMA_VERSION))
+        }
+      })
+      this.meta.set(SCHEMA_VERSION_KEY, ANNOTATION_SCHEMA_VERSION)
+    }, SCHEMA_MIGRATION_ORIGIN)
+  }
+
+  /**
+   * Migrate before a local write. False on a read-only doc, where every write is a no-op;
+   * the UI checks `isReadOnly()` (or `snapshot.readOnly`) to block edits up front.
+   */
+  private prepareWrite() {
+    if (this.isReadOnly()) {
+      return false
+    }
+    this.migrateDocument()
+    return true
+  }
+
   upsertAnnotation(annotation: AnnotationEntity) {
+    if (!this.prepareWrite()) {
+      return
+    }
     const existing = this.annotations.get(annotation.id)
     const now = Date.now()
     const normalized = normalizeAnnotationEntity(annotation, { now, existing })
     this.annotations.set(annotation.id, {
       ...normalized,
+      // Threads are stored in their own map; see setAnnotationThread.
+      thread: undefined,
       drawOrder: existing?.drawOrder ?? normalized.drawOrder ?? normalized.createdAt ?? now,
       createdAt: existing?.createdAt ?? normalized.createdAt ?? now,
       updatedAt: now,
@@ -93,7 +202,7 @@ export class AnnotationDocumentStore {
 
   private moveAnnotationByOffset(id: string, offset: -1 | 1) {
     const target = this.annotations.get(id)
-    if (!target) {
+    if (!target || !this.prepareWrite()) {
       return
     }
 
@@ -129,55 +238,225 @@ export class AnnotationDocumentStore {
   }
 
   removeAnnotation(id: string) {
-    this.annotations.delete(id)
+    this.removeAnnotations([id])
+  }
+
+  /** Delete several annotations (and their group memberships) as one undo step. */
+  removeAnnotations(ids: string[]) {
+    if (ids.length === 0 || !this.prepareWrite()) {
+      return
+    }
+    const removed = new Set(ids)
+    this.doc.transact(() => {
+      ids.forEach((id) => {
+        this.deleteAnnotation(id)
+      })
+      this.pruneGroups(removed)
+    })
+  }
+
+  /**
+   * Group annotations under a new (or given) group id and return it. Members are
+   * taken out of any group they belonged to; groups left with one member dissolve.
+   */
+  groupAnnotations(ids: string[], options: { id?: string; name?: string; authorId?: string } = {}) {
+    const annotationIds = Array.from(new Set(ids)).filter((id) => this.annotations.has(id))
+    if (annotationIds.length < 2 || !this.prepareWrite()) {
+      return undefined
+    }
+    const id = options.id ?? crypto.randomUUID()
+    const now = Date.now()
+    this.undoManager.stopCapturing()
+    this.doc.transact(() => {
+      this.pruneGroups(new Set(annotationIds))
+      this.groups.set(id, {
+        id,
+        name: options.name ?? `Group of ${annotationIds.length}`,
+        annotationIds,
+        authorId: options.authorId ?? 'local',
+        createdAt: now,
+        updatedAt: now,
+        version: 1,
+      })
+    })
+    this.undoManager.stopCapturing()
+    return id
+  }
+
+  /** Dissolve groups (members stay where they are) as one undo step. */
+  ungroupAnnotations(groupIds: string[]) {
+    const existing = groupIds.filter((id) => this.groups.has(id))
+    if (existing.length === 0 || !this.prepareWrite()) {
+      return
+    }
+    this.undoManager.stopCapturing()
+    this.doc.transact(() => {
+      existing.forEach((id) => {
+        this.groups.delete(id)
+      })
+    })
+    this.undoManager.stopCapturing()
+  }
+
+  /** Group that currently owns an annotation, if any. */
+  getGroupForAnnotation(annotationId: string) {
+    for (const group of this.groups.values()) {
+      if (group.annotationIds.includes(annotationId)) {
+        return cloneValue(group)
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Move/scale/rotate several annotations about a shared pivot in one transaction,
+   * captured as a single undo step regardless of how quickly edits follow each other.
+   */
+  transformAnnotations(ids: string[], transform: AnnotationTransform) {
+    this.applyTransforms(ids.map((id) => [id, transform]))
+  }
+
+  /** Apply align/distribute moves, each shifting its own annotations, as one undo step. */
+  arrangeAnnotations(moves: AnnotationArrangeMove[]) {
+    const pivot = { x: 0, y: 0, z: 0 }
+    this.applyTransforms(moves.flatMap((move) => move.ids.map((id) => [id, { pivot, translate: move.translate }] as const)))
+  }
+
+  private applyTransforms(transforms: ReadonlyArray<readonly [string, AnnotationTransform]>) {
+    if (transforms.length === 0 || !this.prepareWrite()) {
+      return
+    }
+    const now = Date.now()
+    this.undoManager.stopCapturing()
+    this.doc.transact(() => {
+      transforms.forEach(([id, transform]) => {
+        const existing = this.annotations.get(id)
+        if (!existing) {
+          return
+        }
+        const transformed = transformAnnotation(upgradeAnnotationEntity(cloneValue(existing)), transform)
+        this.annotations.set(id, {
+          ...normalizeAnnotationEntity(transformed, { now, existing }),
+          updatedAt: now,
+          version: (existing.version ?? 0) + 1,
+        })
+      })
+    })
+    this.undoManager.stopCapturing()
+  }
+
+  /** Remove `annotationIds` from every group, dissolving groups that fall below two members. */
+  private pruneGroups(annotationIds: Set<string>) {
+    const now = Date.now()
+    Array.from(this.groups.values()).forEach((group) => {
+      if (!group.annotationIds.some((id) => annotationIds.has(id))) {
+        return
+      }
+      const remaining = group.annotationIds.filter((id) => !annotationIds.has(id))
+      if (remaining.length < 2) {
+        this.groups.delete(group.id)
+        return
+      }
+      this.groups.set(group.id, {
+        ...group,
+        annotationIds: remaining,
+        updatedAt: now,
+        version: group.version + 1,
+      })
+    })
   }
 
   upsertLayer(layer: AnnotationLayer) {
-    this.layers.set(layer.id, layer)
+    if (!this.prepareWrite()) {
+      return
+    }
+    this.layers.set(layer.id, { ...layer, schemaVersion: ANNOTATION_SCHEMA_VERSION })
   }
 
   removeLayer(id: string) {
-    if (id === DEFAULT_LAYER.id) {
+    if (id === DEFAULT_LAYER.id || !this.prepareWrite()) {
       return
     }
     this.doc.transact(() => {
+      const removed = new Set<string>()
       Array.from(this.annotations.entries()).forEach(([annotationId, annotation]) => {
         if (annotation.layerId === id) {
-          this.annotations.delete(annotationId)
+          this.deleteAnnotation(annotationId)
+          removed.add(annotationId)
         }
       })
+      this.pruneGroups(removed)
       this.layers.delete(id)
     })
   }
 
   clearAnnotations() {
+    if (!this.prepareWrite()) {
+      return
+    }
     this.doc.transact(() => {
       Array.from(this.annotations.keys()).forEach((id) => {
-        this.annotations.delete(id)
+        this.deleteAnnotation(id)
+      })
+      Array.from(this.groups.keys()).forEach((id) => {
+        this.groups.delete(id)
       })
     })
   }
 
   clearAnnotationsForSpace(space: ViewerSpace) {
+    if (!this.prepareWrite()) {
+      return
+    }
     this.doc.transact(() => {
+      const removed = new Set<string>()
       Array.from(this.annotations.entries()).forEach(([id, annotation]) => {
         if (annotation.frame.space === space) {
-          this.annotations.delete(id)
+          this.deleteAnnotation(id)
+          removed.add(id)
         }
       })
+      this.pruneGroups(removed)
     })
   }
 
   getAnnotation(id: string) {
     const annotation = this.annotations.get(id)
-    return annotation ? normalizeAnnotationEntity(cloneValue(annotation)) : undefined
+    return annotation ? this.withThread(upgradeAnnotationEntity(cloneValue(annotation))) : undefined
+  }
+
+  /** Link an annotation to its discussion thread, or unlink it. Not an undo step. */
+  setAnnotationThread(id: string, thread: AnnotationThread | undefined) {
+    if (!this.prepareWrite()) {
+      return
+    }
+    this.doc.transact(() => {
+      if (thread) {
+        this.threads.set(id, cloneValue(thread))
+      } else {
+        this.threads.delete(id)
+      }
+    }, THREAD_LINK_ORIGIN)
+  }
+
+  /** Apply several writes as one transaction that undoes on its own, never merged with neighbouring edits. */
+  transactAsUndoStep(write: () => void) {
+    this.undoManager.stopCapturing()
+    this.doc.transact(write)
+    this.undoManager.stopCapturing()
   }
 
   undo() {
+    if (!this.prepareWrite()) {
+      return
+    }
     this.undoManager.undo()
   }
 
   redo() {
+    if (!this.prepareWrite()) {
+      return
+    }
     this.undoManager.redo()
   }
 
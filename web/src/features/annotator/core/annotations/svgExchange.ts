@@ -0,0 +1,671 @@
+import type {
+  AnnotationDocumentSnapshot,
+  AnnotationEntity,
+  AnnotationFrame,
+  AnnotationGeometry,
+  RichText,
+  Vec2,
+} from './types'
+import { formatMeasurementLabel, framePointToWorld, getArrowHeadPoints } from './geometry'
+import { richTextToPlainLines } from './richText'
+import { ANNOTATION_SCHEMA_VERSION } from './schema'
+import { DEFAULT_STYLE, isExtensionGeometryKind } from './types'
+import { validateAnnotationEntity, type AnnotationImportResult } from './validation'
+
+export const SVG_NAMESPACE = 'http://www.w3.org/2000/svg'
+
+export interface SvgExportOptions {
+  /** Only export annotations bound to this viewer target (frame.targetId). */
+  targetId?: string
+  /** Canvas size in world units (e.g. source image pixels). Defaults to the annotation bounds. */
+  width?: number
+  height?: number
+  /** Asset the annotations belong to, so an import back into it can keep thread links. */
+  assetId?: number
+}
+
+export interface SvgImportOptions {
+  /** Target assigned to shapes that carry no frame metadata (foreign SVGs, selector fragments). */
+  targetId?: string
+}
+
+/** Entity fields that SVG cannot express natively; embedded per shape so import is lossless. */
+type SvgAnnotationMetadata = Omit<AnnotationEntity, 'geometry'> & {
+  geometry?: Partial<AnnotationGeometry>
+}
+
+const TEXT_LINE_HEIGHT = 1.3
+const STRUCTURED_PADDING = 12
+
+function formatNumber(value: number) {
+  return `${Number(value.toFixed(4))}`
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function formatPoints(points: Vec2[]) {
+  return points.map((point) => `${formatNumber(point.x)},${formatNumber(point.y)}`).join(' ')
+}
+
+function formatWidths(widths: number[] | undefined) {
+  return widths ? widths.map(formatNumber).join(' ') : undefined
+}
+
+function formatAttributes(attributes: Record<string, string | number | undefined>) {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}="${escapeXml(typeof value === 'number' ? formatNumber(value) : value as string)}"`)
+    .join(' ')
+}
+
+function formatTextLines(lines: string[], x: number, y: number, fontSize: number, role: string, fill: string) {
+  const spans = lines
+    .map((line, index) =>
+      `<tspan ${formatAttributes({ x, dy: index === 0 ? 0 : fontSize * TEXT_LINE_HEIGHT })}>${escapeXml(line)}</tspan>`,
+    )
+    .join('')
+  return `<text ${formatAttributes({ 'data-role': role, x, y, fill, stroke: 'none', 'font-size': fontSize })}>${spans}</text>`
+}
+
+function formatSegment(from: Vec2, to: Vec2) {
+  return { x1: from.x, y1: from.y, x2: to.x, y2: to.y }
+}
+
+function getBox(start: Vec2, end: Vec2) {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  }
+}
+
+function getGeometryPoints(geometry: AnnotationGeometry): Vec2[] {
+  switch (geometry.kind) {
+    case 'freehand':
+    case 'polygon':
+      return geometry.points
+    case 'brush':
+      return geometry.points.flatMap((point) => [
+        { x: point.x - geometry.radius, y: point.y - geometry.radius },
+        { x: point.x + geometry.radius, y: point.y + geometry.radius },
+      ])
+    case 'text':
+      return [geometry.position]
+    case 'arrow':
+    case 'callout':
+    case 'measurement':
+      return [geometry.from, geometry.to]
+    case 'rectangle':
+    case 'ellipse':
+    case 'card':
+    case 'grid':
+    case 'list':
+    default:
+      return [geometry.start, geometry.end]
+  }
+}
+
+function buildShapeMarkup(annotation: AnnotationEntity) {
+  const { geometry, style } = annotation
+  switch (geometry.kind) {
+    case 'freehand':
+      return `<polyline ${formatAttributes({
+        points: formatPoints(geometry.points),
+        fill: 'none',
+        'data-widths': formatWidths(geometry.widths),
+      })}/>`
+    case 'brush':
+      return `<polyline ${formatAttributes({
+        points: formatPoints(geometry.points),
+        fill: 'none',
+        'stroke-width': geometry.radius * 2,
+        'data-radius': geometry.radius,
+        'data-widths': formatWidths(geometry.widths),
+        'data-negative': geometry.negative ? 'true' : undefined,
+      })}/>`
+    case 'polygon':
+      return `<polygon ${formatAttributes({ points: formatPoints(geometry.points) })}/>`
+    case 'rectangle':
+      return `<rect ${formatAttributes(getBox(geometry.start, geometry.end))}/>`
+    case 'ellipse': {
+      const box = getBox(geometry.start, geometry.end)
+      return `<ellipse ${formatAttributes({
+        cx: box.x + box.width / 2,
+        cy: box.y + box.height / 2,
+        rx: box.width / 2,
+        ry: box.height / 2,
+      })}/>`
+    }
+    case 'text':
+      return formatTextLines(geometry.text.split('\n'), geometry.position.x, geometry.position.y, style.fontSize, 'text', style.stroke)
+    case 'card': {
+      const box = getBox(geometry.start, geometry.end)
+      return [
+        `<rect ${formatAttributes({ 'data-role': 'frame', ...box, rx: STRUCTURED_PADDING })}/>`,
+        formatTextLines(geometry.body, box.x + STRUCTURED_PADDING, box.y + STRUCTURED_PADDING + style.fontSize, style.fontSize, 'body', '#10243a'),
+      ].join('')
+    }
+    case 'grid': {
+      const box = getBox(geometry.start, geometry.end)
+      const headerHeight = style.fontSize + STRUCTURED_PADDING * 2
+      const cellWidth = box.width / geometry.columns
+      const cellHeight = (box.height - headerHeight) / geometry.rows
+      const lines: string[] = []
+      for (let column = 1; column < geometry.columns; column += 1) {
+        const x = box.x + cellWidth * column
+        lines.push(`<line ${formatAttributes({ x1: x, y1: box.y + headerHeight, x2: x, y2: box.y + box.height })}/>`)
+      }
+      for (let row = 0; row < geometry.rows; row += 1) {
+        const y = box.y + headerHeight + cellHeight * row
+        lines.push(`<line ${formatAttributes({ x1: box.x, y1: y, x2: box.x + box.width, y2: y })}/>`)
+      }
+      return [
+        `<rect ${formatAttributes({ 'data-role': 'frame', ...box, rx: STRUCTURED_PADDING, 'data-rows': geometry.rows, 'data-columns': geometry.columns })}/>`,
+        formatTextLines([geometry.title], box.x + STRUCTURED_PADDING, box.y + STRUCTURED_PADDING + style.fontSize, style.fontSize, 'title', '#f8fafc'),
+        `<g data-role="cells" fill="none">${lines.join('')}</g>`,
+      ].join('')
+    }
+    case 'list': {
+      const box = getBox(geometry.start, geometry.end)
+      const itemsTop = box.y + STRUCTURED_PADDING * 2 + style.fontSize * 2
+      return [
+        `<rect ${formatAttributes({ 'data-role': 'frame', ...box, rx: STRUCTURED_PADDING })}/>`,
+        formatTextLines([geometry.title], box.x + STRUCTURED_PADDING, box.y + STRUCTURED_PADDING + style.fontSize, style.fontSize, 'title', '#f8fafc'),
+        formatTextLines(geometry.items.map((item) => `• ${item}`), box.x + STRUCTURED_PADDING, itemsTop, style.fontSize, 'items', '#f8fafc'),
+      ].join('')
+    }
+    case 'arrow':
+      return [
+        `<line ${formatAttributes({ 'data-role': 'shaft', ...formatSegment(geometry.from, geometry.to) })}/>`,
+        `<polygon ${formatAttributes({
+          'data-role': 'head',
+          points: formatPoints(getArrowHeadPoints(geometry.from, geometry.to, Math.max(10, style.strokeWidth * 4))),
+          fill: style.stroke,
+        })}/>`,
+      ].join('')
+    case 'callout':
+      return [
+        `<line ${formatAttributes({ 'data-role': 'leader', ...formatSegment(geometry.from, geometry.to) })}/>`,
+        `<circle ${formatAttributes({ 'data-role': 'anchor', cx: geometry.from.x, cy: geometry.from.y, r: 3, fill: style.stroke })}/>`,
+        formatTextLines(geometry.text.split('\n'), geometry.to.x, geometry.to.y, style.fontSize, 'text', style.stroke),
+      ].join('')
+    case 'measurement':
+      return [
+        `<line ${formatAttributes({ 'data-role': 'dimension', ...formatSegment(geometry.from, geometry.to) })}/>`,
+        formatTextLines(
+          [formatMeasurementLabel(annotation.frame, geometry)],
+          (geometry.from.x + geometry.to.x) / 2,
+          (geometry.from.y + geometry.to.y) / 2 - style.fontSize * 0.5,
+          style.fontSize,
+          'label',
+          style.stroke,
+        ),
+      ].join('')
+    default:
+      // Extension kinds draw through their registered plugin; SVG keeps the box and the field values.
+      return `<rect ${formatAttributes({
+        'data-role': 'frame',
+        ...getBox(geometry.start, geometry.end),
+        'data-fields': JSON.stringify(geometry.fields),
+      })}/>`
+  }
+}
+
+function buildMetadata(annotation: AnnotationEntity): SvgAnnotationMetadata {
+  const { geometry } = annotation
+  // Orientation of box kinds (which corner was start) is not recoverable from <rect>, and
+  // <tspan> lines carry no formatting.
+  const hint = {
+    ...('start' in geometry ? { start: geometry.start, end: geometry.end } : {}),
+    ...('rich' in geometry && geometry.rich ? { rich: geometry.rich } : {}),
+  }
+  return {
+    ...annotation,
+    geometry: Object.keys(hint).length > 0 ? hint : undefined,
+  }
+}
+
+export interface SvgAnnotationCandidate {
+  id?: string
+  errors: string[]
+  /** Unvalidated entity fields recovered from the group; absent when the shape itself is unreadable. */
+  candidate?: Record<string, unknown>
+}
+
+/**
+ * Render one annotation as an SVG group in frame-local units. With embedMetadata the
+ * group also carries the entity fields SVG cannot express, making it self-describing.
+ */
+export function buildAnnotationSvgElement(
+  annotation: AnnotationEntity,
+  { embedMetadata = true }: { embedMetadata?: boolean } = {},
+) {
+  const { frame, style } = annotation
+  const attributes = formatAttributes({
+    id: `annotation-${annotation.id}`,
+    'data-annotation-id': annotation.id,
+    'data-kind': annotation.geometry.kind,
+    // Frame-local → world is an affine map; its x/y rows become the SVG transform.
+    transform: `matrix(${[
+      frame.xAxis.x,
+      frame.xAxis.y,
+      frame.yAxis.x,
+      frame.yAxis.y,
+      frame.origin.x,
+      frame.origin.y,
+    ].map(formatNumber).join(' ')})`,
+    stroke: style.stroke,
+    fill: style.fill,
+    'stroke-width': style.strokeWidth,
+    'stroke-linecap': 'round',
+    'stroke-linejoin': 'round',
+    'stroke-dasharray': style.dashed ? '6 4' : undefined,
+    opacity: style.opacity,
+    'font-size': style.fontSize,
+    'font-family': 'Inter, system-ui, sans-serif',
+    'data-annotation': embedMetadata ? JSON.stringify(buildMetadata(annotation)) : undefined,
+  })
+  return `<g ${attributes}>${buildShapeMarkup(annotation)}</g>`
+}
+
+function computeWorldBounds(annotations: AnnotationEntity[]) {
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  annotations.forEach((annotation) => {
+    getGeometryPoints(annotation.geometry).forEach((point) => {
+      const world = framePointToWorld(annotation.frame, point)
+      minX = Math.min(minX, world.x)
+      minY = Math.min(minY, world.y)
+      maxX = Math.max(maxX, world.x)
+      maxY = Math.max(maxY, world.y)
+    })
+  })
+  if (!Number.isFinite(minX)) {
+    return { x: 0, y: 0, width: 1, height: 1 }
+  }
+  const padding = 16
+  return {
+    x: minX - padding,
+    y: minY - padding,
+    width: Math.max(1, maxX - minX + padding * 2),
+    height: Math.max(1, maxY - minY + padding * 2),
+  }
+}
+
+/** Export a document snapshot as a standalone SVG, one group per layer, in world (image) units. */
+export function exportAnnotationsToSvg(snapshot: AnnotationDocumentSnapshot, options: SvgExportOptions = {}) {
+  const annotations = snapshot.annotations.filter((annotation) =>
+    options.targetId === undefined || annotation.frame.targetId === options.targetId,
+  )
+  const viewBox = options.width && options.height
+    ? { x: 0, y: 0, width: options.width, height: options.height }
+    : computeWorldBounds(annotations)
+  const knownLayerIds = new Set(snapshot.layers.map((layer) => layer.id))
+  const layerGroups = snapshot.layers.map((layer) => ({
+    layer,
+    annotations: annotations.filter((annotation) => annotation.layerId === layer.id),
+  }))
+  const orphaned = annotations.filter((annotation) => !knownLayerIds.has(annotation.layerId))
+
+  const body = layerGroups
+    .filter((group) => group.annotations.length > 0)
+    .map(({ layer, annotations: layerAnnotations }) => {
+      const attributes = formatAttributes({
+        'data-layer-id': layer.id,
+        'data-layer-name': layer.name,
+        display: layer.visible ? undefined : 'none',
+      })
+      return `<g ${attributes}>${layerAnnotations.map((annotation) => buildAnnotationSvgElement(annotation)).join('')}</g>`
+    })
+    .concat(orphaned.map((annotation) => buildAnnotationSvgElement(annotation)))
+    .join('\n')
+
+  const rootAttributes = formatAttributes({
+    xmlns: SVG_NAMESPACE,
+    viewBox: [viewBox.x, viewBox.y, viewBox.width, viewBox.height].map(formatNumber).join(' '),
+    width: viewBox.width,
+    height: viewBox.height,
+    'data-schema-version': ANNOTATION_SCHEMA_VERSION,
+    'data-asset-id': options.assetId,
+  })
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<svg ${rootAttributes}>\n${body}\n</svg>\n`
+}
+
+function readNumber(element: Element, name: string) {
+  const value = Number.parseFloat(element.getAttribute(name) ?? '')
+  return Number.isFinite(value) ? value : undefined
+}
+
+/** Width scales from `data-widths`; validation rejects them if they do not match the points. */
+function readWidths(element: Element | null): { widths?: number[] } {
+  const raw = element?.getAttribute('data-widths')?.trim()
+  return raw ? { widths: raw.split(/\s+/).map((part) => Number.parseFloat(part)) } : {}
+}
+
+/** Extension field values from `data-fields`; validation rejects anything that is not a string map. */
+function readFields(element: Element | null): unknown {
+  const raw = element?.getAttribute('data-fields')
+  if (!raw) {
+    return {}
+  }
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return undefined
+  }
+}
+
+function readPoints(element: Element | null): Vec2[] {
+  const raw = element?.getAttribute('points')?.trim()
+  if (!raw) {
+    return []
+  }
+  const values = raw.split(/[\s,]+/).map((part) => Number.parseFloat(part))
+  const points: Vec2[] = []
+  for (let index = 0; index + 1 < values.length; index += 2) {
+    points.push({ x: values[index], y: values[index + 1] })
+  }
+  return points
+}
+
+function readTextLines(element: Element | null) {
+  if (!element) {
+    return []
+  }
+  const spans = Array.from(element.getElementsByTagName('tspan'))
+  return spans.length > 0
+    ? spans.map((span) => span.textContent ?? '')
+    : [element.textContent ?? '']
+}
+
+function readBox(element: Element | null, errors: string[]) {
+  const x = element ? readNumber(element, 'x') : undefined
+  const y = element ? readNumber(element, 'y') : undefined
+  const width = element ? readNumber(element, 'width') : undefined
+  const height = element ? readNumber(element, 'height') : undefined
+  if (x === undefined || y === undefined || width === undefined || height === undefined) {
+    errors.push('shape is missing a rectangle with x, y, width and height')
+    return null
+  }
+  return { start: { x, y }, end: { x: x + width, y: y + height } }
+}
+
+function readSegment(element: Element | null, errors: string[]) {
+  const x1 = element ? readNumber(element, 'x1') : undefined
+  const y1 = element ? readNumber(element, 'y1') : undefined
+  const x2 = element ? readNumber(element, 'x2') : undefined
+  const y2 = element ? readNumber(element, 'y2') : undefined
+  if (x1 === undefined || y1 === undefined || x2 === undefined || y2 === undefined) {
+    errors.push('shape is missing a line with x1, y1, x2 and y2')
+    return null
+  }
+  return { from: { x: x1, y: y1 }, to: { x: x2, y: y2 } }
+}
+
+/** Keep the exported corner orientation when the box itself was not edited externally. */
+function restoreBoxOrientation(
+  box: { start: Vec2; end: Vec2 },
+  hint: Partial<AnnotationGeometry> | undefined,
+) {
+  if (!hint || !('start' in hint) || !hint.start || !hint.end) {
+    return box
+  }
+  const normalized = getBox(hint.start, hint.end)
+  const sameBox =
+    Math.abs(normalized.x - box.start.x) < 1e-3 &&
+    Math.abs(normalized.y - box.start.y) < 1e-3 &&
+    Math.abs(normalized.x + normalized.width - box.end.x) < 1e-3 &&
+    Math.abs(normalized.y + normalized.height - box.end.y) < 1e-3
+  return sameBox ? { start: hint.start, end: hint.end } : box
+}
+
+/**
+ * Put formatting back on a text, card or list read from plain lines. It is dropped once the
+ * words were edited elsewhere, since the runs would no longer match the text they format.
+ */
+export function restoreRichText(geometry: Partial<AnnotationGeometry>, rich: unknown): Partial<AnnotationGeometry> {
+  if (!Array.isArray(rich)) {
+    return geometry
+  }
+  const lines = geometry.kind === 'text' && 'text' in geometry && typeof geometry.text === 'string'
+    ? geometry.text.split('\n')
+    : geometry.kind === 'card' && 'body' in geometry
+      ? geometry.body
+      : geometry.kind === 'list' && 'items' in geometry
+        ? geometry.items
+        : undefined
+  if (!lines) {
+    return geometry
+  }
+  if (!rich.every((paragraph) => typeof paragraph === 'object' && paragraph !== null && Array.isArray(paragraph.runs))) {
+    // Malformed runs are left for validation to report.
+    return { ...geometry, rich } as Partial<AnnotationGeometry>
+  }
+  const richLines = richTextToPlainLines(rich as RichText)
+  const matches = richLines.length === lines.length && richLines.every((line, index) => line === lines[index])
+  return matches ? { ...geometry, rich } as Partial<AnnotationGeometry> : geometry
+}
+
+function parseGeometry(
+  group: Element,
+  kind: string,
+  hint: Partial<AnnotationGeometry> | undefined,
+  errors: string[],
+): Partial<AnnotationGeometry> | null {
+  const first = (selector: string) => group.querySelector(selector)
+  switch (kind) {
+    case 'freehand': {
+      const line = first('polyline')
+      return { kind, points: readPoints(line), ...readWidths(line) }
+    }
+    case 'polygon':
+      return { kind, points: readPoints(first('polygon')) }
+    case 'brush': {
+      const line = first('polyline')
+      const radius = line
+        ? readNumber(line, 'data-radius') ?? (readNumber(line, 'stroke-width') ?? 0) / 2
+        : undefined
+      return {
+        kind,
+        points: readPoints(line),
+        ...readWidths(line),
+        radius,
+        ...(line?.getAttribute('data-negative') === 'true' ? { negative: true } : {}),
+      } as Partial<AnnotationGeometry>
+    }
+    case 'rectangle': {
+      const box = readBox(first('rect'), errors)
+      return box ? { kind, ...restoreBoxOrientation(box, hint) } : null
+    }
+    case 'ellipse': {
+      const ellipse = first('ellipse')
+      const cx = ellipse ? readNumber(ellipse, 'cx') : undefined
+      const cy = ellipse ? readNumber(ellipse, 'cy') : undefined
+      const rx = ellipse ? readNumber(ellipse, 'rx') : undefined
+      const ry = ellipse ? readNumber(ellipse, 'ry') : undefined
+      if (cx === undefined || cy === undefined || rx === undefined || ry === undefined) {
+        errors.push('ellipse is missing cx, cy, rx or ry')
+        return null
+      }
+      const box = { start: { x: cx - rx, y: cy - ry }, end: { x: cx + rx, y: cy + ry } }
+      return { kind, ...restoreBoxOrientation(box, hint) }
+    }
+    case 'text': {
+      const text = first('text')
+      const x = text ? readNumber(text, 'x') : undefined
+      const y = text ? readNumber(text, 'y') : undefined
+      if (x === undefined || y === undefined) {
+        errors.push('text is missing an x/y position')
+        return null
+      }
+      return { kind, position: { x, y }, text: readTextLines(text).join('\n') }
+    }
+    case 'card': {
+      const box = readBox(first('rect[data-role="frame"]') ?? first('rect'), errors)
+      return box ? { kind, ...restoreBoxOrientation(box, hint), body: readTextLines(first('text[data-role="body"]')) } : null
+    }
+    case 'grid': {
+      const frame = first('rect[data-role="frame"]') ?? first('rect')
+      const box = readBox(frame, errors)
+      return box
+        ? {
+            kind,
+            ...restoreBoxOrientation(box, hint),
+            title: readTextLines(first('text[data-role="title"]')).join(' '),
+            rows: frame ? readNumber(frame, 'data-rows') : undefined,
+            columns: frame ? readNumber(frame, 'data-columns') : undefined,
+          }
+        : null
+    }
+    case 'list': {
+      const box = readBox(first('rect[data-role="frame"]') ?? first('rect'), errors)
+      return box
+        ? {
+            kind,
+            ...restoreBoxOrientation(box, hint),
+            title: readTextLines(first('text[data-role="title"]')).join(' '),
+            items: readTextLines(first('text[data-role="items"]')).map((item) => item.replace(/^•\s?/, '')),
+          }
+        : null
+    }
+    case 'arrow':
+    case 'callout':
+    case 'measurement': {
+      const segment = readSegment(first('line'), errors)
+      if (!segment) {
+        return null
+      }
+      return kind === 'callout'
+        ? { kind, ...segment, text: readTextLines(first('text[data-role="text"]') ?? first('text')).join('\n') }
+        : { kind, ...segment }
+    }
+    default: {
+      if (!isExtensionGeometryKind(kind)) {
+        errors.push(`data-kind "${kind}" is not a known annotation kind`)
+        return null
+      }
+      const frame = first('rect[data-role="frame"]') ?? first('rect')
+      const box = readBox(frame, errors)
+      return box
+        ? { kind, ...restoreBoxOrientation(box, hint), fields: readFields(frame) } as Partial<AnnotationGeometry>
+        : null
+    }
+  }
+}
+
+function parseTransformFrame(group: Element, targetId: string | undefined): AnnotationFrame {
+  const match = group.getAttribute('transform')?.match(/matrix\(([^)]+)\)/)
+  const values = match?.[1].split(/[\s,]+/).map((part) => Number.parseFloat(part))
+  const [a, b, c, d, e, f] = values && values.length === 6 && values.every(Number.isFinite)
+    ? values
+    : [1, 0, 0, 1, 0, 0]
+  return {
+    space: 'image2d',
+    origin: { x: e, y: f, z: 0 },
+    xAxis: { x: a, y: b, z: 0 },
+    yAxis: { x: c, y: d, z: 0 },
+    ...(targetId !== undefined ? { targetId } : {}),
+  }
+}
+
+function parseMetadata(group: Element, errors: string[]): Partial<SvgAnnotationMetadata> {
+  const raw = group.getAttribute('data-annotation')
+  if (!raw) {
+    return {}
+  }
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    return typeof parsed === 'object' && parsed !== null ? parsed as Partial<SvgAnnotationMetadata> : {}
+  } catch {
+    errors.push('data-annotation is not valid JSON')
+    return {}
+  }
+}
+
+function parseStyle(group: Element, fallback: Partial<AnnotationEntity['style']> | undefined) {
+  const base = { ...DEFAULT_STYLE, ...fallback }
+  return {
+    stroke: group.getAttribute('stroke') ?? base.stroke,
+    fill: group.getAttribute('fill') ?? base.fill,
+    strokeWidth: readNumber(group, 'stroke-width') ?? base.strokeWidth,
+    opacity: readNumber(group, 'opacity') ?? base.opacity,
+    fontSize: readNumber(group, 'font-size') ?? base.fontSize,
+    ...(group.hasAttribute('stroke-dasharray') || base.dashed ? { dashed: group.hasAttribute('stroke-dasharray') } : {}),
+  }
+}
+
+function parseAnnotationGroup(group: Element, options: SvgImportOptions): SvgAnnotationCandidate {
+  const errors: string[] = []
+  const id = group.getAttribute('data-annotation-id') ?? undefined
+  const metadata = parseMetadata(group, errors)
+  const geometry = parseGeometry(group, group.getAttribute('data-kind') ?? '', metadata.geometry, errors)
+  if (errors.length > 0 || !geometry) {
+    return { id, errors }
+  }
+  const hint = metadata.geometry
+  const candidate = {
+    ...metadata,
+    id,
+    layerId: group.closest('[data-layer-id]')?.getAttribute('data-layer-id') ?? metadata.layerId,
+    frame: metadata.frame ?? parseTransformFrame(group, options.targetId),
+    geometry: hint && 'rich' in hint ? restoreRichText(geometry, hint.rich) : geometry,
+    style: parseStyle(group, metadata.style),
+  }
+  return { id, errors, candidate }
+}
+
+function parseSvgDocument(source: string) {
+  const document = new DOMParser().parseFromString(source, 'image/svg+xml')
+  return document.getElementsByTagName('parsererror').length > 0 ? null : document
+}
+
+/**
+ * Recover unvalidated annotation fields from every `g[data-kind]` group in an SVG document.
+ * Returns null when the source is not well-formed SVG.
+ */
+export function parseAnnotationSvgCandidates(
+  source: string,
+  options: SvgImportOptions = {},
+): SvgAnnotationCandidate[] | null {
+  const document = parseSvgDocument(source)
+  return document
+    ? Array.from(document.querySelectorAll('g[data-kind]')).map((group) => parseAnnotationGroup(group, options))
+    : null
+}
+
+/** Read annotations back from an SVG produced by exportAnnotationsToSvg (or edited in another tool). */
+export function parseAnnotationSvg(source: string, options: SvgImportOptions = {}): AnnotationImportResult {
+  const result: AnnotationImportResult = { annotations: [], errors: [] }
+  const document = parseSvgDocument(source)
+  if (!document) {
+    result.errors.push({ index: -1, errors: ['document is not well-formed SVG'] })
+    return result
+  }
+  const sourceAssetId = Number.parseInt(document.documentElement.getAttribute('data-asset-id') ?? '', 10)
+  if (Number.isInteger(sourceAssetId)) {
+    result.sourceAssetId = sourceAssetId
+  }
+
+  Array.from(document.querySelectorAll('g[data-kind]')).forEach((group, index) => {
+    const parsed = parseAnnotationGroup(group, options)
+    const validated = parsed.candidate
+      ? validateAnnotationEntity(parsed.candidate)
+      : { ok: false as const, errors: parsed.errors }
+    if (validated.ok) {
+      result.annotations.push(validated.annotation)
+    } else {
+      result.errors.push({ index, id: parsed.id, errors: validated.errors })
+    }
+  })
+  return result
+}
@@ -1,4 +1,12 @@
-import type { AnnotationEntity, AnnotationTimeRange } from './types'
+import type {
+  AnnotationEntity,
+  AnnotationFrame,
+  AnnotationGeometry,
+  AnnotationKeyframe,
+  AnnotationTimeRange,
+  Vec2,
+  Vec3,
+} from './types'
 
 export interface AnnotationPlaybackState {
   currentTime: number
@@ -55,31 +63,44 @@ export function getAnnotationTimelineKey(annotation: AnnotationEntity): Annotati
   }
 }
 
+type MediaBinding = NonNullable<AnnotationFrame['mediaBinding']>
+
+function matchesBoundClip(binding: MediaBinding, playback: AnnotationPlaybackState) {
+  const hasExplicitClipBinding = Boolean(binding.clipId || binding.clipLabel)
+  const matchesClipId = Boolean(
+    binding.clipId
+    && playback.activeClipId
+    && binding.clipId === playback.activeClipId,
+  )
+  const matchesClipLabel = Boolean(
+    binding.clipLabel
+    && playback.sourceLabel
+    && binding.clipLabel === playback.sourceLabel,
+  )
+
+  return !hasExplicitClipBinding || matchesClipId || matchesClipLabel
+}
+
 export function isAnnotationVisibleAtPlaybackTime(
   annotation: AnnotationEntity,
   playback: AnnotationPlaybackState,
 ) {
   const binding = annotation.frame.mediaBinding
-  if (binding) {
-    const hasExplicitClipBinding = Boolean(binding.clipId || binding.clipLabel)
-    const matchesClipId = Boolean(
-      binding.clipId
-      && playback.activeClipId
-      && binding.clipId === playback.activeClipId,
-    )
-    const matchesClipLabel = Boolean(
-      binding.clipLabel
-      && playback.sourceLabel
-      && binding.clipLabel === playback.sourceLabel,
-    )
-
-    if (hasExplicitClipBinding && !matchesClipId && !matchesClipLabel) {
-      return false
-    }
+  if (binding && !matchesBoundClip(binding, playback)) {
+    return false
+  }
 
-    const frameDuration = 1 / Math.max(playback.frameRate, 1)
-    const halfFrame = frameDuration * 0.5
+  const frameDuration = 1 / Math.max(playback.frameRate, 1)
+  const halfFrame = frameDuration * 0.5
 
+  // Keyframed annotations span their keys (in the bound clip) instead of one frame.
+  const keyframes = annotation.keyframes
+  if (keyframes && keyframes.length > 0) {
+    return playback.currentTime >= keyframes[0].time - halfFrame
+      && playback.currentTime <= keyframes[keyframes.length - 1].time + halfFrame
+  }
+
+  if (binding) {
     if (
       typeof binding.globalTime === 'number'
       && playback.playlistDuration > 0
@@ -102,4 +123,168 @@ export function isAnnotationVisibleAtPlaybackTime(
 
   const timelineTime = playback.playlistDuration > 0 ? playback.playlistCurrentTime : playback.currentTime
   return timelineTime >= range.start && timelineTime <= range.end
-}
\ No newline at end of file
+}
+
+function lerp(from: number, to: number, t: number) {
+  return from + (to - from) * t
+}
+
+function lerpVec2(from: Vec2, to: Vec2, t: number): Vec2 {
+  return { x: lerp(from.x, to.x, t), y: lerp(from.y, to.y, t) }
+}
+
+function lerpVec3(from: Vec3, to: Vec3, t: number): Vec3 {
+  return { x: lerp(from.x, to.x, t), y: lerp(from.y, to.y, t), z: lerp(from.z, to.z, t) }
+}
+
+/** Point lists only morph when both keys have the same count; otherwise they hold the earlier shape. */
+function lerpPoints(from: Vec2[], to: Vec2[], t: number) {
+  return from.length === to.length ? from.map((point, index) => lerpVec2(point, to[index], t)) : from
+}
+
+/**
+ * Blend the positional fields of two keys onto `base`, which supplies everything
+ * that is not keyed (text, rows, polarity).
+ */
+function interpolateGeometry(
+  base: AnnotationGeometry,
+  from: AnnotationGeometry,
+  to: AnnotationGeometry,
+  t: number,
+): AnnotationGeometry {
+  switch (base.kind) {
+    case 'polygon':
+      return from.kind === 'polygon' && to.kind === 'polygon'
+        ? { ...base, points: lerpPoints(from.points, to.points, t) }
+        : base
+    case 'freehand':
+      // Width scales follow the points they describe, which come from `from` when the keys differ in length.
+      return from.kind === 'freehand' && to.kind === 'freehand'
+        ? { ...base, points: lerpPoints(from.points, to.points, t), widths: from.widths }
+        : base
+    case 'brush':
+      return from.kind === 'brush' && to.kind === 'brush'
+        ? {
+            ...base,
+            points: lerpPoints(from.points, to.points, t),
+            widths: from.widths,
+            radius: lerp(from.radius, to.radius, t),
+          }
+        : base
+    case 'text':
+      return from.kind === 'text' && to.kind === 'text'
+        ? { ...base, position: lerpVec2(from.position, to.position, t) }
+        : base
+    case 'arrow':
+    case 'callout':
+    case 'measurement':
+      return from.kind === base.kind && to.kind === base.kind
+        ? { ...base, from: lerpVec2(from.from, to.from, t), to: lerpVec2(from.to, to.to, t) }
+        : base
+    case 'rectangle':
+    case 'ellipse':
+    case 'card':
+    case 'grid':
+    case 'list':
+    default:
+      return from.kind === base.kind && to.kind === base.kind
+        ? { ...base, start: lerpVec2(from.start, to.start, t), end: lerpVec2(from.end, to.end, t) }
+        : base
+  }
+}
+
+/**
+ * Pose of a keyframed annotation at the playhead: origin and geometry interpolated
+ * linearly between the bracketing keys and held past either end. Annotations
+ * without keys are returned unchanged.
+ */
+export function evaluateAnnotationAtPlaybackTime(
+  annotation: AnnotationEntity,
+  playback: Pick<AnnotationPlaybackState, 'currentTime'>,
+): AnnotationEntity {
+  const keyframes = annotation.keyframes
+  if (!keyframes || keyframes.length === 0) {
+    return annotation
+  }
+
+  const nextIndex = keyframes.findIndex((keyframe) => keyframe.time > playback.currentTime)
+  const from = keyframes[nextIndex === -1 ? keyframes.length - 1 : Math.max(0, nextIndex - 1)]
+  const to = nextIndex <= 0 ? from : keyframes[nextIndex]
+  const span = to.time - from.time
+  const t = span > 0 ? Math.min(1, Math.max(0, (playback.currentTime - from.time) / span)) : 0
+
+  return {
+    ...annotation,
+    frame: { ...annotation.frame, origin: lerpVec3(from.origin, to.origin, t) },
+    geometry: interpolateGeometry(annotation.geometry, from.geometry, to.geometry, t),
+  }
+}
+
+/** Snapshot an annotation's current origin and geometry as a key at the playhead. */
+export function createAnnotationKeyframe(
+  annotation: AnnotationEntity,
+  playback: Pick<AnnotationPlaybackState, 'currentTime' | 'currentFrame' | 'playlistCurrentTime' | 'playlistDuration'>,
+): AnnotationKeyframe {
+  return {
+    frame: playback.currentFrame,
+    time: playback.currentTime,
+    ...(playback.playlistDuration > 0 ? { globalTime: playback.playlistCurrentTime } : {}),
+    origin: annotation.frame.origin,
+    geometry: annotation.geometry,
+  }
+}
+
+/**
+ * Add `keyframe` to an annotation, replacing any key on the same frame. An annotation
+ * gaining its first key also keys its current pose at its bound frame, so it keeps
+ * showing where it was drawn.
+ */
+export function setAnnotationKeyframe(annotation: AnnotationEntity, keyframe: AnnotationKeyframe): AnnotationEntity {
+  let keyframes = annotation.keyframes ?? []
+  const binding = annotation.frame.mediaBinding
+  if (keyframes.length === 0 && binding && binding.frame !== keyframe.frame) {
+    keyframes = [{
+      frame: binding.frame,
+      time: binding.time,
+      ...(typeof binding.globalTime === 'number' ? { globalTime: binding.globalTime } : {}),
+      origin: annotation.frame.origin,
+      geometry: annotation.geometry,
+    }]
+  }
+
+  return {
+    ...annotation,
+    // The un-keyed fields (text, rows) are read from the base geometry, so keep it in step.
+    geometry: keyframe.geometry,
+    keyframes: [...keyframes.filter((candidate) => candidate.frame !== keyframe.frame), keyframe]
+      .sort((left, right) => left.frame - right.frame),
+  }
+}
+
+/** Drop the key on `frame`; removing the last key leaves a plain annotation in that key's pose. */
+export function removeAnnotationKeyframe(annotation: AnnotationEntity, frame: number): AnnotationEntity {
+  const keyframes = annotation.keyframes ?? []
+  const removed = keyframes.find((keyframe) => keyframe.frame === frame)
+  if (!removed) {
+    return annotation
+  }
+
+  const remaining = keyframes.filter((keyframe) => keyframe !== removed)
+  if (remaining.length > 0) {
+    return { ...annotation, keyframes: remaining }
+  }
+
+  const binding = annotation.frame.mediaBinding
+  return {
+    ...annotation,
+    frame: {
+      ...annotation.frame,
+      origin: removed.origin,
+      ...(binding
+        ? { mediaBinding: { ...binding, frame: removed.frame, time: removed.time, globalTime: removed.globalTime ?? binding.globalTime } }
+        : {}),
+    },
+    geometry: interpolateGeometry(annotation.geometry, removed.geometry, removed.geometry, 0),
+    keyframes: undefined,
+  }
+}
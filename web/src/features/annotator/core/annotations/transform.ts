@@ -0,0 +1,188 @@
+import type {
+  AnnotationEntity,
+  AnnotationFrame,
+  AnnotationGeometry,
+  Vec2,
+  Vec3,
+} from './types'
+import { framePointToWorld, getGeometryLocalBounds } from './geometry'
+
+/** A shared move/scale/rotate applied to several annotations about one world-space pivot. */
+export interface AnnotationTransform {
+  pivot: Vec3
+  translate?: Vec3
+  /** Uniform scale factor about the pivot. */
+  scale?: number
+  /** Rotation in radians about `axis` (clockwise on screen for image2d, whose y axis points down). */
+  rotate?: number
+  /** Rotation axis; defaults to the image plane normal (+z). */
+  axis?: Vec3
+}
+
+/** Notes and structured objects stay upright and keep their size ratio to text; only their anchor moves. */
+const UPRIGHT_KINDS = new Set<AnnotationGeometry['kind']>(['text', 'card', 'grid', 'list'])
+
+function add(left: Vec3, right: Vec3): Vec3 {
+  return { x: left.x + right.x, y: left.y + right.y, z: left.z + right.z }
+}
+
+function subtract(left: Vec3, right: Vec3): Vec3 {
+  return { x: left.x - right.x, y: left.y - right.y, z: left.z - right.z }
+}
+
+function multiply(vector: Vec3, factor: number): Vec3 {
+  return { x: vector.x * factor, y: vector.y * factor, z: vector.z * factor }
+}
+
+function cross(left: Vec3, right: Vec3): Vec3 {
+  return {
+    x: left.y * right.z - left.z * right.y,
+    y: left.z * right.x - left.x * right.z,
+    z: left.x * right.y - left.y * right.x,
+  }
+}
+
+function dot(left: Vec3, right: Vec3) {
+  return left.x * right.x + left.y * right.y + left.z * right.z
+}
+
+/** Rodrigues rotation of `vector` about a (normalized) axis. */
+function rotateVector(vector: Vec3, axis: Vec3, angle: number): Vec3 {
+  if (angle === 0) {
+    return vector
+  }
+  const length = Math.hypot(axis.x, axis.y, axis.z) || 1
+  const unit = multiply(axis, 1 / length)
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  return add(
+    add(multiply(vector, cos), multiply(cross(unit, vector), sin)),
+    multiply(unit, dot(unit, vector) * (1 - cos)),
+  )
+}
+
+/** Normal of an annotation's drawing plane, usable as a rotation axis. */
+export function getFrameNormal(frame: AnnotationFrame): Vec3 {
+  const normal = cross(frame.xAxis, frame.yAxis)
+  const length = Math.hypot(normal.x, normal.y, normal.z)
+  return length > 1e-9 ? multiply(normal, 1 / length) : { x: 0, y: 0, z: 1 }
+}
+
+export function transformWorldPoint(point: Vec3, transform: AnnotationTransform): Vec3 {
+  const offset = multiply(subtract(point, transform.pivot), transform.scale ?? 1)
+  const rotated = rotateVector(offset, transform.axis ?? { x: 0, y: 0, z: 1 }, transform.rotate ?? 0)
+  return add(add(transform.pivot, rotated), transform.translate ?? { x: 0, y: 0, z: 0 })
+}
+
+function scalePoint(point: Vec2, factor: number, about: Vec2 = { x: 0, y: 0 }): Vec2 {
+  return {
+    x: about.x + (point.x - about.x) * factor,
+    y: about.y + (point.y - about.y) * factor,
+  }
+}
+
+/** Frame-local center of a geometry's extent. */
+export function getGeometryCenter(geometry: AnnotationGeometry): Vec2 {
+  const bounds = getGeometryLocalBounds(geometry)
+  return { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 }
+}
+
+function scaleGeometry(geometry: AnnotationGeometry, factor: number, about?: Vec2): AnnotationGeometry {
+  if (factor === 1) {
+    return geometry
+  }
+  switch (geometry.kind) {
+    case 'freehand':
+    case 'polygon':
+      return { ...geometry, points: geometry.points.map((point) => scalePoint(point, factor, about)) }
+    case 'brush':
+      return {
+        ...geometry,
+        points: geometry.points.map((point) => scalePoint(point, factor, about)),
+        radius: geometry.radius * factor,
+      }
+    case 'text':
+      return geometry
+    case 'arrow':
+    case 'callout':
+    case 'measurement':
+      return {
+        ...geometry,
+        from: scalePoint(geometry.from, factor, about),
+        to: scalePoint(geometry.to, factor, about),
+      }
+    case 'rectangle':
+    case 'ellipse':
+    case 'card':
+    case 'grid':
+    case 'list':
+    default:
+      return {
+        ...geometry,
+        start: scalePoint(geometry.start, factor, about),
+        end: scalePoint(geometry.end, factor, about),
+      }
+  }
+}
+
+function transformPose(annotation: AnnotationEntity, transform: AnnotationTransform): AnnotationEntity {
+  const { frame, geometry } = annotation
+  const scale = transform.scale ?? 1
+  const axis = transform.axis ?? { x: 0, y: 0, z: 1 }
+  const rotate = transform.rotate ?? 0
+
+  if (UPRIGHT_KINDS.has(geometry.kind)) {
+    const center = getGeometryCenter(geometry)
+    const anchor = framePointToWorld(frame, center)
+    const moved = transformWorldPoint(anchor, transform)
+    return {
+      ...annotation,
+      frame: { ...frame, origin: add(frame.origin, subtract(moved, anchor)) },
+      geometry: scaleGeometry(geometry, scale, center),
+    }
+  }
+
+  return {
+    ...annotation,
+    frame: {
+      ...frame,
+      origin: transformWorldPoint(frame.origin, transform),
+      xAxis: rotateVector(frame.xAxis, axis, rotate),
+      yAxis: rotateVector(frame.yAxis, axis, rotate),
+    },
+    geometry: scaleGeometry(geometry, scale),
+  }
+}
+
+/**
+ * Apply a shared transform to one annotation. Drawn shapes carry rotation in their
+ * frame axes and scale in their geometry; upright kinds only re-anchor (and resize
+ * about their own center) so text stays readable. Keyframes move with the annotation.
+ */
+export function transformAnnotation(annotation: AnnotationEntity, transform: AnnotationTransform): AnnotationEntity {
+  const transformed = transformPose(annotation, transform)
+  if (!annotation.keyframes) {
+    return transformed
+  }
+
+  return {
+    ...transformed,
+    keyframes: annotation.keyframes.map((keyframe) => {
+      const pose = transformPose(
+        { ...annotation, frame: { ...annotation.frame, origin: keyframe.origin }, geometry: keyframe.geometry },
+        transform,
+      )
+      return { ...keyframe, origin: pose.frame.origin, geometry: pose.geometry }
+    }),
+  }
+}
+
+/** World-space center of the combined extent of several annotations (the default pivot). */
+export function getAnnotationsWorldCenter(annotations: AnnotationEntity[]): Vec3 | null {
+  const points = annotations.map((annotation) => framePointToWorld(annotation.frame, getGeometryCenter(annotation.geometry)))
+  if (points.length === 0) {
+    return null
+  }
+  const sum = points.reduce((total, point) => add(total, point), { x: 0, y: 0, z: 0 })
+  return multiply(sum, 1 / points.length)
+}
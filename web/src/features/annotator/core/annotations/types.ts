@@ -1,6 +1,8 @@
 export type ViewerSpace = 'image2d' | 'world3d'
 export type AnnotationTool =
   | 'select'
+  | 'marquee'
+  | 'lasso'
   | 'freehand'
   | 'rectangle'
   | 'ellipse'
@@ -10,7 +12,21 @@ export type AnnotationTool =
   | 'list'
   | 'brush'
   | 'polygon'
-export type AnnotationGeometryKind = Exclude<AnnotationTool, 'select'>
+  | 'arrow'
+  | 'callout'
+  | 'measurement'
+  | ExtensionGeometryKind
+export type AnnotationGeometryKind = Exclude<AnnotationTool, SelectionTool>
+
+/**
+ * Kinds contributed by feature modules (see annotationToolRegistry.ts). The `x-` prefix keeps
+ * them apart from built-in kinds, so narrowing on a built-in literal still works.
+ */
+export type ExtensionGeometryKind = `x-${string}`
+
+export function isExtensionGeometryKind(kind: string): kind is ExtensionGeometryKind {
+  return kind.startsWith('x-')
+}
 
 export interface Vec2 {
   x: number
@@ -54,14 +70,44 @@ export interface AnnotationStyle {
   dashed?: boolean
 }
 
+/** A span of text with one set of inline marks. */
+export interface RichTextRun {
+  text: string
+  bold?: boolean
+  italic?: boolean
+  /** CSS color for the run; links and mentions use their own colors. */
+  color?: string
+  /** `nexus8://` URI the run links to. */
+  href?: string
+  /** Participant id of an @-mention; `text` holds the display name at mention time. */
+  mention?: string
+}
+
+export interface RichTextParagraph {
+  runs: RichTextRun[]
+  bullet?: boolean
+  /** Bullet nesting depth, 0 for top-level bullets. */
+  indent?: number
+}
+
+/**
+ * Formatted text for notes, cards and lists. Geometries keep their plain strings in step
+ * as a projection, so readers that ignore `rich` still see the words.
+ */
+export type RichText = RichTextParagraph[]
+
 export type AnnotationGeometry =
   | {
       kind: 'freehand'
       points: Vec2[]
+      /** Per-point width scale, parallel to `points`, relative to style.strokeWidth. Absent = uniform. */
+      widths?: number[]
     }
   | {
       kind: 'brush'
       points: Vec2[]
+      /** Per-point width scale, parallel to `points`, relative to the radius. Absent = uniform. */
+      widths?: number[]
       /** Brush half-width in frame-local (image-pixel) units. */
       radius: number
       /** True = negative prompt ("not this object") for SAM 2; drawn red.
@@ -86,12 +132,15 @@ export type AnnotationGeometry =
       kind: 'text'
       position: Vec2
       text: string
+      rich?: RichText
     }
   | {
       kind: 'card'
       start: Vec2
       end: Vec2
       body: string[]
+      /** One paragraph per body line. */
+      rich?: RichText
     }
   | {
       kind: 'grid'
@@ -107,28 +156,117 @@ export type AnnotationGeometry =
       end: Vec2
       title: string
       items: string[]
+      /** One paragraph per item; nesting comes from each paragraph's indent. */
+      rich?: RichText
     }
+  | {
+      kind: 'arrow'
+      from: Vec2
+      /** The arrowhead end. */
+      to: Vec2
+    }
+  | {
+      kind: 'callout'
+      /** Point the leader line attaches to. */
+      from: Vec2
+      /** Where the label sits. */
+      to: Vec2
+      text: string
+    }
+  | {
+      kind: 'measurement'
+      from: Vec2
+      to: Vec2
+    }
+  | ExtensionGeometry
+
+/**
+ * A registered extension kind. It is placed by a box like a rectangle, so moving, scaling and
+ * keyframing work without knowing the kind. `fields` holds the values for the editor fields
+ * the module declares, and is stored and synced verbatim.
+ */
+export interface ExtensionGeometry {
+  kind: ExtensionGeometryKind
+  start: Vec2
+  end: Vec2
+  fields: Record<string, string>
+}
 
 export interface AnnotationTimeRange {
   start: number
   end: number
 }
 
+/**
+ * One pose of a keyframed annotation, pinned to a media frame like `frame.mediaBinding`.
+ * Only positional data is keyed: the frame axes, text and style stay the annotation's own.
+ */
+export interface AnnotationKeyframe {
+  /** Clip-local frame index. */
+  frame: number
+  /** Clip-local media time in seconds. */
+  time: number
+  /** Playlist time in seconds, when the key was set in a playlist. */
+  globalTime?: number
+  origin: Vec3
+  /** Same kind as the annotation's geometry. */
+  geometry: AnnotationGeometry
+}
+
+/**
+ * The discussion thread a shape owns. Status and reply count are mirrored here so every
+ * collaborator sees the canvas badge without fetching; the comments live on the server.
+ */
+export interface AnnotationThread {
+  discussionId: number
+  status: 'open' | 'resolved'
+  replyCount: number
+}
+
+/** Where a note stands in review; open notes are carried onto newly uploaded versions. */
+export type AnnotationReviewStatus = 'open' | 'addressed' | 'approved'
+
+export interface AnnotationReview {
+  status: AnnotationReviewStatus
+  assigneeId?: string
+  assigneeName?: string
+}
+
+/** The note an annotation was carried forward from, in another version's document. */
+export interface AnnotationDerivation {
+  annotationId: string
+  docId: number
+  /** Asset version the source doc is pinned to; null for the asset's unpinned doc. */
+  versionNumber: number | null
+  carriedAt: number
+}
+
 export interface AnnotationEntity {
   id: string
   layerId: string
   timeRange?: AnnotationTimeRange
   frame: AnnotationFrame
   geometry: AnnotationGeometry
+  /**
+   * Geometry poses sorted by frame. When present the annotation shows from the first key
+   * to the last and its origin and shape are interpolated between keys during playback.
+   */
+  keyframes?: AnnotationKeyframe[]
   style: AnnotationStyle
   drawOrder?: number
   /** When true, this shape contributes to rasterized mask generation. */
   maskRegion?: boolean
+  thread?: AnnotationThread
+  /** Review state; an annotation without one counts as an open note. */
+  review?: AnnotationReview
+  derivedFrom?: AnnotationDerivation
   authorId: string
   authorName: string
   createdAt: number
   updatedAt: number
   version: number
+  /** Schema version the record was written with; absent on records that predate versioning. */
+  schemaVersion?: number
 }
 
 export type MaskOp = 'inpaint' | 'outpaint' | 'background_replace' | 'remove' | 'segment' | 'scribble' | 'sketch_inpaint'
@@ -216,12 +354,31 @@ export interface AnnotationLayer {
    *  the library asset. Frame indices/coords stay source-based everywhere;
    *  the backend rebases once at frame extraction. */
   source?: { layerId: string }
+  /** Schema version the record was written with; absent on records that predate versioning. */
+  schemaVersion?: number
+}
+
+/** A named set of annotations that select, move, scale and rotate together. */
+export interface AnnotationGroup {
+  id: string
+  name: string
+  /** Member annotation ids; an annotation belongs to at most one group. */
+  annotationIds: string[]
+  authorId: string
+  createdAt: number
+  updatedAt: number
+  version: number
 }
 
 export interface AnnotationDocumentSnapshot {
   annotations: AnnotationEntity[]
   layers: AnnotationLayer[]
+  groups?: AnnotationGroup[]
   version: number
+  /** Highest schema version any client has written into the doc. */
+  schemaVersion?: number
+  /** Set when the doc was written by a newer client; it is shown as-is and edits are refused. */
+  readOnly?: boolean
 }
 
 export interface CollaborationProfile {
@@ -254,8 +411,29 @@ export const DEFAULT_STYLE: AnnotationStyle = {
   fontSize: 15,
 }
 
+/** Tools that pick existing annotations rather than drawing one. */
+export const SELECTION_TOOLS = ['select', 'marquee', 'lasso'] as const
+
+export type SelectionTool = (typeof SELECTION_TOOLS)[number]
+
+/** Drag out a rectangle (marquee) or a freeform outline (lasso) to select what it touches. */
+export type RegionSelectionTool = Exclude<SelectionTool, 'select'>
+
+export function isRegionSelectionTool(tool: AnnotationTool): tool is RegionSelectionTool {
+  return tool === 'marquee' || tool === 'lasso'
+}
+
 export const STRUCTURED_OBJECT_TOOLS = ['card', 'grid', 'list'] as const
 
+/** Tools drawn as a single drag from one point to another (`from` → `to`). */
+export const SEGMENT_TOOLS = ['arrow', 'callout', 'measurement'] as const
+
+export type SegmentTool = (typeof SEGMENT_TOOLS)[number]
+
+export function isSegmentTool(tool: AnnotationTool): tool is SegmentTool {
+  return SEGMENT_TOOLS.includes(tool as SegmentTool)
+}
+
 export type StructuredObjectTool = (typeof STRUCTURED_OBJECT_TOOLS)[number]
 
 export function isStructuredObjectTool(tool: AnnotationTool): tool is StructuredObjectTool {
@@ -0,0 +1,515 @@
+import type {
+  AnnotationDerivation,
+  AnnotationEntity,
+  AnnotationFrame,
+  AnnotationGeometry,
+  AnnotationKeyframe,
+  AnnotationReview,
+  AnnotationReviewStatus,
+  AnnotationStyle,
+  AnnotationThread,
+  RichText,
+  Vec2,
+  Vec3,
+  ViewerSpace,
+} from './types'
+import { getRecordSchemaVersion, migrateAnnotationRecord } from './migrations'
+import { ANNOTATION_SCHEMA_VERSION, isNewerAnnotationSchema, normalizeAnnotationEntity } from './schema'
+import { DEFAULT_LAYER_ID, DEFAULT_STYLE, isExtensionGeometryKind } from './types'
+
+export type AnnotationValidationResult =
+  | { ok: true; annotation: AnnotationEntity }
+  | { ok: false; errors: string[] }
+
+/** One rejected entity from an import, keyed by its position in the source document (-1 = whole document). */
+export interface AnnotationImportError {
+  index: number
+  id?: string
+  errors: string[]
+}
+
+export interface AnnotationImportResult {
+  annotations: AnnotationEntity[]
+  errors: AnnotationImportError[]
+  /** Asset the file was exported from, when it records one. */
+  sourceAssetId?: number
+}
+
+const VIEWER_SPACES: ViewerSpace[] = ['image2d', 'world3d']
+const REVIEW_STATUSES: AnnotationReviewStatus[] = ['open', 'addressed', 'approved']
+
+type UnknownRecord = Record<string, unknown>
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function readVec2(value: unknown, path: string, errors: string[]): Vec2 | null {
+  if (!isRecord(value) || !isFiniteNumber(value.x) || !isFiniteNumber(value.y)) {
+    errors.push(`${path} must be a point with finite x and y`)
+    return null
+  }
+  return { x: value.x, y: value.y }
+}
+
+function readVec3(value: unknown, path: string, errors: string[]): Vec3 | null {
+  if (
+    !isRecord(value) ||
+    !isFiniteNumber(value.x) ||
+    !isFiniteNumber(value.y) ||
+    !isFiniteNumber(value.z)
+  ) {
+    errors.push(`${path} must be a vector with finite x, y and z`)
+    return null
+  }
+  return { x: value.x, y: value.y, z: value.z }
+}
+
+function readPoints(value: unknown, path: string, minimum: number, errors: string[]): Vec2[] | null {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array of points`)
+    return null
+  }
+  const points: Vec2[] = []
+  for (let index = 0; index < value.length; index += 1) {
+    const point = readVec2(value[index], `${path}[${index}]`, errors)
+    if (!point) {
+      return null
+    }
+    points.push(point)
+  }
+  if (points.length < minimum) {
+    errors.push(`${path} needs at least ${minimum} point${minimum === 1 ? '' : 's'}`)
+    return null
+  }
+  return points
+}
+
+/** Optional per-point width scales; when present there must be one positive number per point. */
+function readStrokeWidths(value: unknown, pointCount: number, errors: string[]): { widths?: number[] } | null {
+  if (value === undefined) {
+    return {}
+  }
+  if (!Array.isArray(value) || value.length !== pointCount || value.some((entry) => !isFiniteNumber(entry) || entry <= 0)) {
+    errors.push('geometry.widths must hold one positive number per point')
+    return null
+  }
+  return { widths: value as number[] }
+}
+
+function readStrings(value: unknown, path: string, errors: string[]): string[] | null {
+  if (!Array.isArray(value) || value.some((entry) => typeof entry !== 'string')) {
+    errors.push(`${path} must be an array of strings`)
+    return null
+  }
+  return value as string[]
+}
+
+function isOptional(value: unknown, type: 'boolean' | 'number' | 'string') {
+  return value === undefined || typeof value === type
+}
+
+/**
+ * Optional formatted text on notes, cards and lists: paragraphs of runs that each carry a
+ * string `text`, with marks, bullets and indents of the types the editor writes.
+ */
+function readRichText(value: unknown, errors: string[]): { rich?: RichText } | null {
+  if (value === undefined) {
+    return {}
+  }
+  const isValid = Array.isArray(value) && value.every((paragraph) =>
+    isRecord(paragraph)
+    && isOptional(paragraph.bullet, 'boolean')
+    && isOptional(paragraph.indent, 'number')
+    && Array.isArray(paragraph.runs)
+    && paragraph.runs.every((run) =>
+      isRecord(run)
+      && typeof run.text === 'string'
+      && isOptional(run.bold, 'boolean')
+      && isOptional(run.italic, 'boolean')
+      && isOptional(run.color, 'string')
+      && isOptional(run.href, 'string')
+      && isOptional(run.mention, 'string')))
+  if (!isValid) {
+    errors.push('geometry.rich must be an array of paragraphs with text runs')
+    return null
+  }
+  return { rich: value as RichText }
+}
+
+/** Extension kinds carry their editor values as a flat string map. */
+function readExtensionFields(value: unknown, errors: string[]): Record<string, string> | null {
+  if (value === undefined) {
+    return {}
+  }
+  if (!isRecord(value) || Object.values(value).some((entry) => typeof entry !== 'string')) {
+    errors.push('geometry.fields must map field names to strings')
+    return null
+  }
+  return value as Record<string, string>
+}
+
+function readBoxGeometry(geometry: UnknownRecord, errors: string[]) {
+  const start = readVec2(geometry.start, 'geometry.start', errors)
+  const end = readVec2(geometry.end, 'geometry.end', errors)
+  return start && end ? { start, end } : null
+}
+
+function validateGeometry(value: unknown, errors: string[]): AnnotationGeometry | null {
+  if (!isRecord(value) || typeof value.kind !== 'string') {
+    errors.push('geometry must be an object with a kind')
+    return null
+  }
+
+  switch (value.kind) {
+    case 'polygon': {
+      const points = readPoints(value.points, 'geometry.points', 3, errors)
+      return points ? { kind: 'polygon', points } : null
+    }
+    case 'freehand': {
+      const points = readPoints(value.points, 'geometry.points', 2, errors)
+      const widths = points ? readStrokeWidths(value.widths, points.length, errors) : null
+      return points && widths ? { kind: 'freehand', points, ...widths } : null
+    }
+    case 'brush': {
+      const points = readPoints(value.points, 'geometry.points', 1, errors)
+      if (!isFiniteNumber(value.radius) || value.radius <= 0) {
+        errors.push('geometry.radius must be a positive number')
+        return null
+      }
+      const widths = points ? readStrokeWidths(value.widths, points.length, errors) : null
+      return points && widths
+        ? { kind: 'brush', points, ...widths, radius: value.radius, ...(value.negative === true ? { negative: true } : {}) }
+        : null
+    }
+    case 'rectangle':
+    case 'ellipse': {
+      const box = readBoxGeometry(value, errors)
+      return box ? { kind: value.kind, ...box } : null
+    }
+    case 'text': {
+      const position = readVec2(value.position, 'geometry.position', errors)
+      if (typeof value.text !== 'string') {
+        errors.push('geometry.text must be a string')
+        return null
+      }
+      const rich = readRichText(value.rich, errors)
+      return position && rich !== null ? { kind: 'text', position, text: value.text, ...rich } : null
+    }
+    case 'card': {
+      const box = readBoxGeometry(value, errors)
+      const body = readStrings(value.body, 'geometry.body', errors)
+      const rich = readRichText(value.rich, errors)
+      return box && body && rich !== null ? { kind: 'card', ...box, body, ...rich } : null
+    }
+    case 'grid': {
+      const box = readBoxGeometry(value, errors)
+      if (typeof value.title !== 'string') {
+        errors.push('geometry.title must be a string')
+        return null
+      }
+      if (!isFiniteNumber(value.rows) || value.rows < 1 || !isFiniteNumber(value.columns) || value.columns < 1) {
+        errors.push('geometry.rows and geometry.columns must be at least 1')
+        return null
+      }
+      return box
+        ? { kind: 'grid', ...box, title: value.title, rows: value.rows, columns: value.columns }
+        : null
+    }
+    case 'list': {
+      const box = readBoxGeometry(value, errors)
+      const items = readStrings(value.items, 'geometry.items', errors)
+      if (typeof value.title !== 'string') {
+        errors.push('geometry.title must be a string')
+        return null
+      }
+      const rich = readRichText(value.rich, errors)
+      return box && items && rich !== null ? { kind: 'list', ...box, title: value.title, items, ...rich } : null
+    }
+    case 'arrow':
+    case 'callout':
+    case 'measurement': {
+      const from = readVec2(value.from, 'geometry.from', errors)
+      const to = readVec2(value.to, 'geometry.to', errors)
+      if (!from || !to) {
+        return null
+      }
+      if (value.kind !== 'callout') {
+        return { kind: value.kind, from, to }
+      }
+      if (typeof value.text !== 'string') {
+        errors.push('geometry.text must be a string')
+        return null
+      }
+      return { kind: 'callout', from, to, text: value.text }
+    }
+    default: {
+      if (!isExtensionGeometryKind(value.kind)) {
+        errors.push(`geometry.kind "${value.kind}" is not a known annotation kind`)
+        return null
+      }
+      const box = readBoxGeometry(value, errors)
+      const fields = readExtensionFields(value.fields, errors)
+      return box && fields ? { kind: value.kind, ...box, fields } : null
+    }
+  }
+}
+
+function validateFrame(value: unknown, errors: string[]): AnnotationFrame | null {
+  if (!isRecord(value)) {
+    errors.push('frame must be an object')
+    return null
+  }
+  if (!VIEWER_SPACES.includes(value.space as ViewerSpace)) {
+    errors.push(`frame.space must be one of ${VIEWER_SPACES.join(', ')}`)
+    return null
+  }
+  const origin = readVec3(value.origin, 'frame.origin', errors)
+  const xAxis = readVec3(value.xAxis, 'frame.xAxis', errors)
+  const yAxis = readVec3(value.yAxis, 'frame.yAxis', errors)
+  if (!origin || !xAxis || !yAxis) {
+    return null
+  }
+  if (value.targetId !== undefined && typeof value.targetId !== 'string') {
+    errors.push('frame.targetId must be a string')
+    return null
+  }
+
+  const frame: AnnotationFrame = {
+    space: value.space as ViewerSpace,
+    origin,
+    xAxis,
+    yAxis,
+    ...(value.targetId !== undefined ? { targetId: value.targetId as string } : {}),
+  }
+
+  if (value.cameraView !== undefined) {
+    const camera = value.cameraView
+    if (!isRecord(camera)) {
+      errors.push('frame.cameraView must be an object')
+      return null
+    }
+    const position = readVec3(camera.position, 'frame.cameraView.position', errors)
+    const target = readVec3(camera.target, 'frame.cameraView.target', errors)
+    if (!position || !target) {
+      return null
+    }
+    frame.cameraView = {
+      position,
+      target,
+      radius: isFiniteNumber(camera.radius) ? camera.radius : 0,
+      theta: isFiniteNumber(camera.theta) ? camera.theta : 0,
+      phi: isFiniteNumber(camera.phi) ? camera.phi : 0,
+    }
+  }
+
+  if (value.mediaBinding !== undefined) {
+    const binding = value.mediaBinding
+    if (!isRecord(binding) || !isFiniteNumber(binding.time) || !isFiniteNumber(binding.frame)) {
+      errors.push('frame.mediaBinding needs a finite time and frame')
+      return null
+    }
+    frame.mediaBinding = {
+      time: binding.time,
+      frame: binding.frame,
+      ...(typeof binding.clipId === 'string' ? { clipId: binding.clipId } : {}),
+      ...(typeof binding.clipLabel === 'string' ? { clipLabel: binding.clipLabel } : {}),
+      ...(isFiniteNumber(binding.globalTime) ? { globalTime: binding.globalTime } : {}),
+    }
+  }
+
+  return frame
+}
+
+function validateKeyframes(value: unknown, kind: AnnotationGeometry['kind'], errors: string[]): AnnotationKeyframe[] | null {
+  if (!Array.isArray(value)) {
+    errors.push('keyframes must be an array')
+    return null
+  }
+  const keyframes: AnnotationKeyframe[] = []
+  value.forEach((keyframe, index) => {
+    if (!isRecord(keyframe) || !isFiniteNumber(keyframe.frame) || !isFiniteNumber(keyframe.time)) {
+      errors.push(`keyframes[${index}] needs a finite time and frame`)
+      return
+    }
+    const origin = readVec3(keyframe.origin, `keyframes[${index}].origin`, errors)
+    const geometry = validateGeometry(keyframe.geometry, errors)
+    if (geometry && geometry.kind !== kind) {
+      errors.push(`keyframes[${index}].geometry must be a ${kind}`)
+      return
+    }
+    if (origin && geometry) {
+      keyframes.push({
+        frame: keyframe.frame,
+        time: keyframe.time,
+        ...(isFiniteNumber(keyframe.globalTime) ? { globalTime: keyframe.globalTime } : {}),
+        origin,
+        geometry,
+      })
+    }
+  })
+  return keyframes
+}
+
+function readStyle(value: unknown, errors: string[]): AnnotationStyle {
+  if (value === undefined) {
+    return { ...DEFAULT_STYLE }
+  }
+  if (!isRecord(value)) {
+    errors.push('style must be an object')
+    return { ...DEFAULT_STYLE }
+  }
+  return {
+    stroke: typeof value.stroke === 'string' ? value.stroke : DEFAULT_STYLE.stroke,
+    fill: typeof value.fill === 'string' ? value.fill : DEFAULT_STYLE.fill,
+    strokeWidth: isFiniteNumber(value.strokeWidth) ? value.strokeWidth : DEFAULT_STYLE.strokeWidth,
+    opacity: isFiniteNumber(value.opacity) ? value.opacity : DEFAULT_STYLE.opacity,
+    fontSize: isFiniteNumber(value.fontSize) ? value.fontSize : DEFAULT_STYLE.fontSize,
+    ...(value.dashed === true ? { dashed: true } : {}),
+  }
+}
+
+function readReview(value: unknown, errors: string[]): { review?: AnnotationReview } | null {
+  if (value === undefined) {
+    return {}
+  }
+  if (
+    !isRecord(value) ||
+    !REVIEW_STATUSES.includes(value.status as AnnotationReviewStatus) ||
+    !isOptional(value.assigneeId, 'string') ||
+    !isOptional(value.assigneeName, 'string')
+  ) {
+    errors.push(`review needs a status of ${REVIEW_STATUSES.join(', ')} and string assignee fields`)
+    return null
+  }
+  return { review: value as unknown as AnnotationReview }
+}
+
+function readThread(value: unknown, errors: string[]): { thread?: AnnotationThread } | null {
+  if (value === undefined) {
+    return {}
+  }
+  if (
+    !isRecord(value) ||
+    !Number.isInteger(value.discussionId) ||
+    (value.discussionId as number) <= 0 ||
+    (value.status !== 'open' && value.status !== 'resolved') ||
+    !Number.isInteger(value.replyCount) ||
+    (value.replyCount as number) < 0
+  ) {
+    errors.push('thread needs a positive discussionId, an open or resolved status and a replyCount')
+    return null
+  }
+  return { thread: value as unknown as AnnotationThread }
+}
+
+function readDerivation(value: unknown, errors: string[]): { derivedFrom?: AnnotationDerivation } | null {
+  if (value === undefined) {
+    return {}
+  }
+  if (
+    !isRecord(value) ||
+    typeof value.annotationId !== 'string' ||
+    value.annotationId === '' ||
+    !Number.isInteger(value.docId) ||
+    (value.versionNumber !== null && !Number.isInteger(value.versionNumber)) ||
+    !isFiniteNumber(value.carriedAt)
+  ) {
+    errors.push('derivedFrom needs an annotationId, docId, versionNumber (or null) and carriedAt')
+    return null
+  }
+  return { derivedFrom: value as unknown as AnnotationDerivation }
+}
+
+/**
+ * Validate an untrusted annotation record (from an imported file) and normalize it.
+ * Structural fields (id, frame, geometry) are required; style, authorship and
+ * timestamps fall back to defaults so hand-written documents still import.
+ */
+export function validateAnnotationEntity(input: unknown): AnnotationValidationResult {
+  const errors: string[] = []
+  if (!isRecord(input)) {
+    return { ok: false, errors: ['annotation must be an object'] }
+  }
+  const recordVersion = getRecordSchemaVersion(input)
+  if (isNewerAnnotationSchema(recordVersion)) {
+    return { ok: false, errors: [`written with schema v${recordVersion}; this build reads up to v${ANNOTATION_SCHEMA_VERSION}`] }
+  }
+  const value = migrateAnnotationRecord(input, ANNOTATION_SCHEMA_VERSION)
+
+  if (typeof value.id !== 'string' || value.id.trim() === '') {
+    errors.push('id must be a non-empty string')
+  }
+  if (value.layerId !== undefined && typeof value.layerId !== 'string') {
+    errors.push('layerId must be a string')
+  }
+  const frame = validateFrame(value.frame, errors)
+  const geometry = validateGeometry(value.geometry, errors)
+  const style = readStyle(value.style, errors)
+  const review = readReview(value.review, errors)
+  const thread = readThread(value.thread, errors)
+  const derivedFrom = readDerivation(value.derivedFrom, errors)
+
+  let timeRange: AnnotationEntity['timeRange']
+  if (value.timeRange !== undefined) {
+    const range = value.timeRange
+    if (!isRecord(range) || !isFiniteNumber(range.start) || !isFiniteNumber(range.end)) {
+      errors.push('timeRange needs a finite start and end')
+    } else {
+      timeRange = { start: range.start, end: range.end }
+    }
+  }
+
+  const keyframes = value.keyframes !== undefined && geometry
+    ? validateKeyframes(value.keyframes, geometry.kind, errors)
+    : null
+
+  if (errors.length > 0 || !frame || !geometry || !review || !thread || !derivedFrom) {
+    return { ok: false, errors }
+  }
+
+  const now = Date.now()
+  const annotation: AnnotationEntity = {
+    id: value.id as string,
+    layerId: (value.layerId as string | undefined) ?? DEFAULT_LAYER_ID,
+    ...(timeRange ? { timeRange } : {}),
+    frame,
+    geometry,
+    ...(keyframes ? { keyframes } : {}),
+    style,
+    ...(isFiniteNumber(value.drawOrder) ? { drawOrder: value.drawOrder } : {}),
+    ...(value.maskRegion === true ? { maskRegion: true } : {}),
+    ...thread,
+    ...review,
+    ...derivedFrom,
+    authorId: typeof value.authorId === 'string' ? value.authorId : 'import',
+    authorName: typeof value.authorName === 'string' ? value.authorName : 'Imported',
+    createdAt: isFiniteNumber(value.createdAt) ? value.createdAt : now,
+    updatedAt: isFiniteNumber(value.updatedAt) ? value.updatedAt : now,
+    version: isFiniteNumber(value.version) ? value.version : 0,
+  }
+
+  return { ok: true, annotation: normalizeAnnotationEntity(annotation, { now }) }
+}
+
+/** Validate a batch of records, collecting accepted entities and per-entity errors. */
+export function validateAnnotationEntities(values: unknown[]): AnnotationImportResult {
+  const result: AnnotationImportResult = { annotations: [], errors: [] }
+  values.forEach((value, index) => {
+    const validated = validateAnnotationEntity(value)
+    if (validated.ok) {
+      result.annotations.push(validated.annotation)
+      return
+    }
+    result.errors.push({
+      index,
+      id: isRecord(value) && typeof value.id === 'string' ? value.id : undefined,
+      errors: validated.errors,
+    })
+  })
+  return result
+}
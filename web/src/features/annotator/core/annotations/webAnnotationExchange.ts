@@ -0,0 +1,329 @@
+import type {
+  AnnotationDocumentSnapshot,
+  AnnotationEntity,
+  AnnotationFrame,
+  RichText,
+} from './types'
+import {
+  SVG_NAMESPACE,
+  buildAnnotationSvgElement,
+  parseAnnotationSvgCandidates,
+  restoreRichText,
+} from './svgExchange'
+import { validateAnnotationEntity, type AnnotationImportResult } from './validation'
+
+export const WEB_ANNOTATION_CONTEXT = 'http://www.w3.org/ns/anno.jsonld'
+const MEDIA_FRAGMENTS_SPEC = 'http://www.w3.org/TR/media-frags/'
+const NEXUS8_NAMESPACE = 'nexus8://ns/annotation#'
+const ANNOTATION_ID_PREFIX = 'urn:nexus8:annotation:'
+const UNBOUND_TARGET = 'urn:nexus8:target:unbound'
+
+export interface WebAnnotationSvgSelector {
+  type: 'SvgSelector'
+  value: string
+}
+
+export interface WebAnnotationFragmentSelector {
+  type: 'FragmentSelector'
+  conformsTo: string
+  value: string
+  refinedBy?: WebAnnotationSvgSelector
+}
+
+export interface WebAnnotationTextualBody {
+  type: 'TextualBody'
+  value: string
+  format: 'text/plain'
+  purpose: 'commenting'
+}
+
+export interface WebAnnotation {
+  id: string
+  type: 'Annotation'
+  motivation: 'commenting' | 'highlighting'
+  created: string
+  modified: string
+  creator: { id: string; type: 'Person'; name: string }
+  body?: WebAnnotationTextualBody
+  target: {
+    source: string
+    selector: WebAnnotationSvgSelector | WebAnnotationFragmentSelector
+    'nexus8:space': AnnotationFrame['space']
+    'nexus8:mediaBinding'?: AnnotationFrame['mediaBinding']
+    'nexus8:cameraView'?: AnnotationFrame['cameraView']
+    /** Full 3D frame basis; the SvgSelector transform only carries its x/y rows. */
+    'nexus8:frame': Pick<AnnotationFrame, 'origin' | 'xAxis' | 'yAxis'>
+  }
+  'nexus8:layerId': string
+  'nexus8:drawOrder'?: number
+  'nexus8:version': number
+  'nexus8:timeRange'?: AnnotationEntity['timeRange']
+  'nexus8:keyframes'?: AnnotationEntity['keyframes']
+  'nexus8:maskRegion'?: boolean
+  'nexus8:review'?: AnnotationEntity['review']
+  'nexus8:thread'?: AnnotationEntity['thread']
+  'nexus8:derivedFrom'?: AnnotationEntity['derivedFrom']
+  /** Formatting of the body text, which is written as plain text. */
+  'nexus8:rich'?: RichText
+}
+
+export interface WebAnnotationPage {
+  '@context': [typeof WEB_ANNOTATION_CONTEXT, { nexus8: string }]
+  type: 'AnnotationPage'
+  'nexus8:assetId'?: number
+  items: WebAnnotation[]
+}
+
+export interface WebAnnotationExportOptions {
+  /** Only export annotations bound to this viewer target (frame.targetId). */
+  targetId?: string
+  /** Target source for annotations without a frame.targetId, e.g. the asset's nexus8:// URI. */
+  source?: string
+  /** Asset the annotations belong to, so an import back into it can keep thread links. */
+  assetId?: number
+}
+
+export interface WebAnnotationImportOptions {
+  /** Target assigned to annotations whose source is unbound or missing. */
+  targetId?: string
+  /** Frame rate that places a time-only media fragment on a frame; without it such annotations are rejected. */
+  frameRate?: number
+}
+
+function getBodyText(annotation: AnnotationEntity) {
+  const { geometry } = annotation
+  switch (geometry.kind) {
+    case 'text':
+      return geometry.text
+    case 'card':
+      return geometry.body.join('\n')
+    case 'grid':
+      return geometry.title
+    case 'list':
+      return [geometry.title, ...geometry.items].join('\n')
+    case 'callout':
+      return geometry.text
+    default:
+      return undefined
+  }
+}
+
+function buildSelector(annotation: AnnotationEntity): WebAnnotation['target']['selector'] {
+  const svgSelector: WebAnnotationSvgSelector = {
+    type: 'SvgSelector',
+    value: `<svg xmlns="${SVG_NAMESPACE}">${buildAnnotationSvgElement(annotation, { embedMetadata: false })}</svg>`,
+  }
+  const binding = annotation.frame.mediaBinding
+  if (!binding) {
+    return svgSelector
+  }
+  // Temporal media fragment on the source, refined to the shape drawn on that frame.
+  return {
+    type: 'FragmentSelector',
+    conformsTo: MEDIA_FRAGMENTS_SPEC,
+    value: `t=${binding.time}`,
+    refinedBy: svgSelector,
+  }
+}
+
+/** Convert one annotation into a W3C Web Annotation bound to its viewer target. */
+export function toWebAnnotation(annotation: AnnotationEntity, options: WebAnnotationExportOptions = {}): WebAnnotation {
+  const { frame } = annotation
+  const text = getBodyText(annotation)
+  return {
+    id: `${ANNOTATION_ID_PREFIX}${encodeURIComponent(annotation.id)}`,
+    type: 'Annotation',
+    motivation: text === undefined ? 'highlighting' : 'commenting',
+    created: new Date(annotation.createdAt).toISOString(),
+    modified: new Date(annotation.updatedAt).toISOString(),
+    creator: { id: annotation.authorId, type: 'Person', name: annotation.authorName },
+    ...(text !== undefined
+      ? { body: { type: 'TextualBody', value: text, format: 'text/plain', purpose: 'commenting' } }
+      : {}),
+    target: {
+      source: frame.targetId ?? options.source ?? UNBOUND_TARGET,
+      selector: buildSelector(annotation),
+      'nexus8:space': frame.space,
+      ...(frame.mediaBinding ? { 'nexus8:mediaBinding': frame.mediaBinding } : {}),
+      ...(frame.cameraView ? { 'nexus8:cameraView': frame.cameraView } : {}),
+      'nexus8:frame': { origin: frame.origin, xAxis: frame.xAxis, yAxis: frame.yAxis },
+    },
+    'nexus8:layerId': annotation.layerId,
+    ...(annotation.drawOrder !== undefined ? { 'nexus8:drawOrder': annotation.drawOrder } : {}),
+    'nexus8:version': annotation.version,
+    ...(annotation.timeRange ? { 'nexus8:timeRange': annotation.timeRange } : {}),
+    ...(annotation.keyframes ? { 'nexus8:keyframes': annotation.keyframes } : {}),
+    ...(annotation.maskRegion ? { 'nexus8:maskRegion': true } : {}),
+    ...(annotation.review ? { 'nexus8:review': annotation.review } : {}),
+    ...(annotation.thread ? { 'nexus8:thread': annotation.thread } : {}),
+    ...(annotation.derivedFrom ? { 'nexus8:derivedFrom': annotation.derivedFrom } : {}),
+    ...('rich' in annotation.geometry && annotation.geometry.rich ? { 'nexus8:rich': annotation.geometry.rich } : {}),
+  }
+}
+
+/** Export a document snapshot as a W3C Web Annotation page (JSON-LD). */
+export function exportWebAnnotations(
+  snapshot: AnnotationDocumentSnapshot,
+  options: WebAnnotationExportOptions = {},
+): WebAnnotationPage {
+  return {
+    '@context': [WEB_ANNOTATION_CONTEXT, { nexus8: NEXUS8_NAMESPACE }],
+    type: 'AnnotationPage',
+    ...(options.assetId !== undefined ? { 'nexus8:assetId': options.assetId } : {}),
+    items: snapshot.annotations
+      .filter((annotation) => options.targetId === undefined || annotation.frame.targetId === options.targetId)
+      .map((annotation) => toWebAnnotation(annotation, options)),
+  }
+}
+
+type UnknownRecord = Record<string, unknown>
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function parseTimestamp(value: unknown) {
+  const parsed = typeof value === 'string' ? Date.parse(value) : Number.NaN
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+function parseAnnotationId(value: unknown) {
+  if (typeof value !== 'string' || value === '') {
+    return undefined
+  }
+  if (value.startsWith(ANNOTATION_ID_PREFIX)) {
+    return decodeURIComponent(value.slice(ANNOTATION_ID_PREFIX.length))
+  }
+  return value.split(/[#/]/).filter(Boolean).pop()
+}
+
+/** Walk a selector (or refinement chain) for the SVG shape and any temporal fragment. */
+function readSelectors(selector: unknown) {
+  let svg: string | undefined
+  let time: number | undefined
+  const pending = Array.isArray(selector) ? [...selector] : [selector]
+  while (pending.length > 0) {
+    const current = pending.shift()
+    if (!isRecord(current)) {
+      continue
+    }
+    if (current.type === 'SvgSelector' && typeof current.value === 'string') {
+      svg ??= current.value
+    }
+    if (current.type === 'FragmentSelector' && typeof current.value === 'string') {
+      const match = current.value.match(/(?:^|&)t=(?:npt:)?([\d.]+)/)
+      if (match) {
+        time ??= Number.parseFloat(match[1])
+      }
+    }
+    if (current.refinedBy !== undefined) {
+      pending.push(current.refinedBy)
+    }
+  }
+  return { svg, time }
+}
+
+function parseWebAnnotationItem(
+  item: unknown,
+  options: WebAnnotationImportOptions,
+): { id?: string; errors: string[]; candidate?: UnknownRecord } {
+  if (!isRecord(item)) {
+    return { errors: ['annotation must be an object'] }
+  }
+  const id = parseAnnotationId(item.id)
+  const target = Array.isArray(item.target) ? item.target[0] : item.target
+  if (!isRecord(target)) {
+    return { id, errors: ['target must be an object with a selector'] }
+  }
+
+  const { svg, time } = readSelectors(target.selector)
+  if (!svg) {
+    return { id, errors: ['target has no SvgSelector'] }
+  }
+  const source = typeof target.source === 'string' && target.source !== UNBOUND_TARGET ? target.source : options.targetId
+  const [shape] = parseAnnotationSvgCandidates(svg, { targetId: source }) ?? []
+  if (!shape) {
+    return { id, errors: ['SvgSelector does not contain an annotation shape'] }
+  }
+  if (!shape.candidate) {
+    return { id, errors: shape.errors }
+  }
+
+  const shapeFrame = shape.candidate.frame as AnnotationFrame
+  const basis = isRecord(target['nexus8:frame']) ? target['nexus8:frame'] : {}
+  let binding = isRecord(target['nexus8:mediaBinding']) ? target['nexus8:mediaBinding'] : undefined
+  if (!binding && time !== undefined) {
+    if (!options.frameRate || options.frameRate <= 0) {
+      return { id, errors: [`media fragment t=${time} has no frame rate to place it on a frame`] }
+    }
+    // Same frame the player reports for that time (see timeToFrame).
+    binding = { time, frame: Math.max(0, Math.floor(time * options.frameRate + 1e-6)) }
+  }
+  const frame = {
+    ...shapeFrame,
+    ...basis,
+    space: target['nexus8:space'] ?? shapeFrame.space,
+    ...(source !== undefined ? { targetId: source } : {}),
+    ...(binding ? { mediaBinding: binding } : {}),
+    ...(target['nexus8:cameraView'] !== undefined ? { cameraView: target['nexus8:cameraView'] } : {}),
+  }
+  const creator = isRecord(item.creator) ? item.creator : {}
+
+  return {
+    id,
+    errors: [],
+    candidate: {
+      ...shape.candidate,
+      id: id ?? shape.id,
+      layerId: item['nexus8:layerId'],
+      frame,
+      geometry: restoreRichText(shape.candidate.geometry as Partial<AnnotationEntity['geometry']>, item['nexus8:rich']),
+      timeRange: item['nexus8:timeRange'],
+      keyframes: item['nexus8:keyframes'],
+      drawOrder: item['nexus8:drawOrder'],
+      version: item['nexus8:version'],
+      maskRegion: item['nexus8:maskRegion'],
+      review: item['nexus8:review'],
+      thread: item['nexus8:thread'],
+      derivedFrom: item['nexus8:derivedFrom'],
+      authorId: creator.id,
+      authorName: creator.name,
+      createdAt: parseTimestamp(item.created),
+      updatedAt: parseTimestamp(item.modified),
+    },
+  }
+}
+
+/** Read annotations back from a Web Annotation page, collection, array or single annotation. */
+export function parseWebAnnotations(input: unknown, options: WebAnnotationImportOptions = {}): AnnotationImportResult {
+  const result: AnnotationImportResult = { annotations: [], errors: [] }
+  const items = Array.isArray(input)
+    ? input
+    : isRecord(input) && Array.isArray(input.items)
+      ? input.items
+      : isRecord(input) && isRecord(input.first) && Array.isArray(input.first.items)
+        ? input.first.items
+        : isRecord(input) && input.type === 'Annotation'
+          ? [input]
+          : null
+  if (!items) {
+    result.errors.push({ index: -1, errors: ['document is not a Web Annotation page or annotation list'] })
+    return result
+  }
+  if (isRecord(input) && Number.isInteger(input['nexus8:assetId'])) {
+    result.sourceAssetId = input['nexus8:assetId'] as number
+  }
+
+  items.forEach((item, index) => {
+    const parsed = parseWebAnnotationItem(item, options)
+    const validated = parsed.candidate
+      ? validateAnnotationEntity(parsed.candidate)
+      : { ok: false as const, errors: parsed.errors }
+    if (validated.ok) {
+      result.annotations.push(validated.annotation)
+    } else {
+      result.errors.push({ index, id: parsed.id, errors: validated.errors })
+    }
+  })
+  return result
+}
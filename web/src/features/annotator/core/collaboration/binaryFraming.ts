@@ -0,0 +1,82 @@
+import * as decoding from 'lib0/decoding'
+import * as encoding from 'lib0/encoding'
+import * as authProtocol from 'y-protocols/auth'
+import * as syncProtocol from 'y-protocols/sync'
+import type * as Y from 'yjs'
+
+// WebSocket subprotocols offered to the relay. JSON is offered first: relays that
+// predate binary framing accept the first offer and keep speaking JSON, while
+// newer relays pick binary. Must match web/relay/sync-framing.mjs.
+export const JSON_SUBPROTOCOL = 'nexus8-collab.json'
+export const BINARY_SUBPROTOCOL = 'nexus8-collab.yjs'
+
+// Top-level message tags, as used by y-websocket.
+const MESSAGE_SYNC = 0
+const MESSAGE_AWARENESS = 1
+const MESSAGE_AUTH = 2
+
+/** lib0 always encodes into a fresh ArrayBuffer, which `WebSocket.send` requires. */
+function toFrame(encoder: encoding.Encoder) {
+  return encoding.toUint8Array(encoder) as Uint8Array<ArrayBuffer>
+}
+
+export type BinaryFrame =
+  | { type: 'sync-step-1'; stateVector: Uint8Array }
+  | { type: 'sync-step-2'; update: Uint8Array }
+  | { type: 'update'; update: Uint8Array }
+  | { type: 'awareness'; update: Uint8Array }
+  | { type: 'permission-denied'; reason: string }
+
+export function encodeSyncStep1Frame(doc: Y.Doc) {
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, MESSAGE_SYNC)
+  syncProtocol.writeSyncStep1(encoder, doc)
+  return toFrame(encoder)
+}
+
+export function encodeSyncStep2Frame(doc: Y.Doc, stateVector: Uint8Array) {
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, MESSAGE_SYNC)
+  syncProtocol.writeSyncStep2(encoder, doc, stateVector)
+  return toFrame(encoder)
+}
+
+export function encodeUpdateFrame(update: Uint8Array) {
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, MESSAGE_SYNC)
+  syncProtocol.writeUpdate(encoder, update)
+  return toFrame(encoder)
+}
+
+export function encodeAwarenessFrame(update: Uint8Array) {
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, MESSAGE_AWARENESS)
+  encoding.writeVarUint8Array(encoder, update)
+  return toFrame(encoder)
+}
+
+/** Decode one binary relay frame; null for tags this client does not speak. */
+export function decodeBinaryFrame(data: Uint8Array): BinaryFrame | null {
+  const decoder = decoding.createDecoder(data)
+  switch (decoding.readVarUint(decoder)) {
+    case MESSAGE_SYNC:
+      switch (decoding.readVarUint(decoder)) {
+        case syncProtocol.messageYjsSyncStep1:
+          return { type: 'sync-step-1', stateVector: decoding.readVarUint8Array(decoder) }
+        case syncProtocol.messageYjsSyncStep2:
+          return { type: 'sync-step-2', update: decoding.readVarUint8Array(decoder) }
+        case syncProtocol.messageYjsUpdate:
+          return { type: 'update', update: decoding.readVarUint8Array(decoder) }
+        default:
+          return null
+      }
+    case MESSAGE_AWARENESS:
+      return { type: 'awareness', update: decoding.readVarUint8Array(decoder) }
+    case MESSAGE_AUTH:
+      return decoding.readVarUint(decoder) === authProtocol.messagePermissionDenied
+        ? { type: 'permission-denied', reason: decoding.readVarString(decoder) }
+        : null
+    default:
+      return null
+  }
+}
@@ -12,6 +12,21 @@ import type {
   ParticipantState,
   Vec2,
 } from '../annotations/types'
+import {
+  BINARY_SUBPROTOCOL,
+  JSON_SUBPROTOCOL,
+  decodeBinaryFrame,
+  encodeAwarenessFrame,
+  encodeSyncStep1Frame,
+  encodeSyncStep2Frame,
+  encodeUpdateFrame,
+  type BinaryFrame,
+} from './binaryFraming'
+import {
+  INDEXEDDB_RESTORE_ORIGIN,
+  IndexedDbRoomPersistence,
+  isIndexedDbAvailable,
+} from './indexedDbPersistence'
 
 interface SyncRequestMessage {
   type: 'sync-request'
@@ -48,6 +63,8 @@ interface SocketSyncResponseMessage {
   sender: 'server'
   update: string
   awareness?: string
+  /** This connection's access; absent from relays that predate room auth. */
+  role?: CollaborationRelayRole
 }
 
 interface SocketDocUpdateMessage {
@@ -78,10 +95,32 @@ interface SocketPongMessage {
   timestamp: number
 }
 
+interface SocketErrorMessage {
+  type: 'error'
+  roomId: string
+  sender: 'server'
+  code: 'read-only' | (string & {})
+}
+
 export type CollaborationSocketState = 'disabled' | 'connecting' | 'connected' | 'reconnecting'
 
 export type CollaborationHeartbeatState = 'disabled' | 'idle' | 'waiting' | 'healthy'
 
+export type CollaborationPersistenceState = 'disabled' | 'restoring' | 'ready' | 'failed'
+
+export type CollaborationRelayRole = 'editor' | 'viewer'
+
+/** Wire format negotiated with the relay: base64-in-JSON, or y-protocols binary frames. */
+export type CollaborationSocketFraming = 'json' | 'binary'
+
+export interface CollaborationRoomOptions {
+  /**
+   * Fetches a relay access token. Called before every (re)connect, since tokens are
+   * short-lived and the relay closes sockets whose token has expired.
+   */
+  getAuthToken?: () => Promise<string | null | undefined>
+}
+
 export interface CollaborationStatus {
   socketState: CollaborationSocketState
   endpoint?: string
@@ -94,6 +133,42 @@ export interface CollaborationStatus {
   lastHeartbeatAckAt?: number
   reconnectAttemptCount: number
   nextReconnectAt?: number
+  /** IndexedDB offline copy of the doc. */
+  persistenceState: CollaborationPersistenceState
+  /** Local edits the relay is not known to have received yet. */
+  unsyncedChanges: boolean
+  /** Access granted by the relay for this room; viewers' edits stay local. */
+  relayRole?: CollaborationRelayRole
+  socketFraming: CollaborationSocketFraming
+}
+
+/** A compacted state the relay keeps for its room, with who changed the doc since the previous one. */
+export interface RelayHistorySnapshot {
+  id: number | string
+  createdAt: string
+  actors: string[]
+  updateCount: number
+  byteLength: number
+}
+
+/** A logged update not yet folded into a snapshot. */
+export interface RelayHistoryUpdate {
+  id: number | string
+  createdAt: string
+  actor: string | null
+  byteLength: number
+}
+
+export interface RelayRoomHistory {
+  snapshots: RelayHistorySnapshot[]
+  updates: RelayHistoryUpdate[]
+}
+
+export interface RelayRoomState {
+  at: string
+  update: Uint8Array
+  snapshotCreatedAt: string | null
+  actors: string[]
 }
 
 type CollaborationMessage =
@@ -109,10 +184,12 @@ type SocketCollaborationMessage =
   | SocketAwarenessMessage
   | SocketPingMessage
   | SocketPongMessage
+  | SocketErrorMessage
 
 const BROADCAST_REMOTE_ORIGIN = 'broadcast-remote'
 const STORAGE_REMOTE_ORIGIN = 'storage-remote'
 const WEBSOCKET_REMOTE_ORIGIN = 'websocket-remote'
+const SERVER_HYDRATE_ORIGIN = 'server-hydrate'
 const DEFAULT_SOCKET_HEARTBEAT_MS = 20_000
 const DEFAULT_SOCKET_PONG_TIMEOUT_MS = 10_000
 
@@ -136,6 +213,17 @@ function resolveWebSocketUrl() {
   return `${protocol}//${window.location.host}/collab-ws`
 }
 
+/** HTTP base of the relay: same host and path as its WebSocket endpoint, without the query. */
+function toRelayHttpUrl(webSocketUrl: string) {
+  return webSocketUrl.split('?')[0].replace(/^ws(s?):/, 'http$1:').replace(/\/$/, '')
+}
+
+function resolvePreferredFraming(): CollaborationSocketFraming {
+  // VITE_COLLAB_WS_FRAMING=json pins the legacy JSON frames, e.g. behind proxies
+  // that mangle binary WebSocket messages.
+  return import.meta.env.VITE_COLLAB_WS_FRAMING?.trim() === 'json' ? 'json' : 'binary'
+}
+
 function resolveHeartbeatIntervalMs() {
   const configured = Number(import.meta.env.VITE_COLLAB_HEARTBEAT_MS)
   if (Number.isFinite(configured) && configured >= 0) {
@@ -165,6 +253,12 @@ function fromBase64(serialized: string) {
   return Uint8Array.from(binary, (character) => character.charCodeAt(0))
 }
 
+function mergeStateVector(target: Map<number, number>, update: Map<number, number>) {
+  update.forEach((clock, client) => {
+    target.set(client, Math.max(clock, target.get(client) ?? 0))
+  })
+}
+
 export class BroadcastCollaborationRoom {
   readonly doc = new Y.Doc()
   readonly store = new AnnotationDocumentStore(this.doc)
@@ -176,6 +270,7 @@ export class BroadcastCollaborationRoom {
   private readonly participants = new Set<() => void>()
   private readonly statusListeners = new Set<() => void>()
   private readonly webSocketUrl = resolveWebSocketUrl()
+  private readonly preferredFraming = resolvePreferredFraming()
   private readonly heartbeatIntervalMs = resolveHeartbeatIntervalMs()
   private readonly heartbeatTimeoutMs = resolveHeartbeatTimeoutMs(this.heartbeatIntervalMs)
   private readonly heartbeatEnabled = Boolean(this.webSocketUrl) && this.heartbeatIntervalMs > 0
@@ -193,9 +288,23 @@ export class BroadcastCollaborationRoom {
   private destroyed = false
   private socketState: CollaborationSocketState
   private heartbeatState: CollaborationHeartbeatState
-
-  constructor(roomId: string, profile: CollaborationProfile) {
+  private persistence: IndexedDbRoomPersistence | null = null
+  private persistenceState: CollaborationPersistenceState = 'disabled'
+  // What the relay is known to hold: its sync-response, its broadcasts, and
+  // whatever this client sent over an open socket.
+  private readonly relayStateVector = new Map<number, number>()
+  private unsyncedChanges = false
+  private readonly getAuthToken: CollaborationRoomOptions['getAuthToken']
+  private authTokenPending = false
+  private relayRole: CollaborationRelayRole | undefined
+  private socketFraming: CollaborationSocketFraming = 'json'
+  // Binary relays announce read-only access with a permission-denied frame before
+  // their first sync step; reset for every socket.
+  private socketReadOnly = false
+
+  constructor(roomId: string, profile: CollaborationProfile, options: CollaborationRoomOptions = {}) {
     this.roomId = roomId
+    this.getAuthToken = options.getAuthToken
     this.storageKey = `annotation-room:${roomId}:snapshot`
     this.channelName = `annotation-room:${roomId}`
     this.profile = profile
@@ -203,6 +312,7 @@ export class BroadcastCollaborationRoom {
     this.heartbeatState = this.heartbeatEnabled ? 'idle' : 'disabled'
 
     this.restoreSnapshot()
+    this.openPersistence()
     this.channel = new BroadcastChannel(this.channelName)
     this.channel.onmessage = this.handleChannelMessage
     window.addEventListener('storage', this.handleStorageEvent)
@@ -232,6 +342,60 @@ export class BroadcastCollaborationRoom {
     }
   }
 
+  private openPersistence() {
+    if (!isIndexedDbAvailable()) {
+      return
+    }
+
+    const persistence = new IndexedDbRoomPersistence(this.roomId, this.doc)
+    this.persistence = persistence
+    this.persistenceState = 'restoring'
+    persistence.whenRestored
+      .then(({ relayStateVector }) => {
+        if (this.persistence !== persistence) {
+          return
+        }
+        if (relayStateVector) {
+          mergeStateVector(this.relayStateVector, Y.decodeStateVector(relayStateVector))
+        }
+        this.persistenceState = 'ready'
+        this.refreshUnsyncedChanges()
+        this.emitStatus()
+      })
+      .catch((error) => {
+        console.warn('Offline annotation storage is unavailable', error)
+        persistence.destroy()
+        if (this.persistence === persistence) {
+          this.persistence = null
+          this.persistenceState = 'failed'
+          this.emitStatus()
+        }
+      })
+  }
+
+  /** Record that the relay holds everything described by `stateVector`. */
+  private noteRelayState(stateVector: Map<number, number>) {
+    mergeStateVector(this.relayStateVector, stateVector)
+    this.persistence?.saveRelayStateVector(Y.encodeStateVector(this.relayStateVector))
+    this.refreshUnsyncedChanges()
+  }
+
+  private refreshUnsyncedChanges() {
+    let unsynced = false
+    if (this.webSocketUrl) {
+      Y.decodeStateVector(Y.encodeStateVector(this.doc)).forEach((clock, client) => {
+        if (clock > (this.relayStateVector.get(client) ?? 0)) {
+          unsynced = true
+        }
+      })
+    }
+
+    if (unsynced !== this.unsyncedChanges) {
+      this.unsyncedChanges = unsynced
+      this.emitStatus()
+    }
+  }
+
   private persistSnapshot() {
     const update = Y.encodeStateAsUpdate(this.doc)
     const serialized = toBase64(update)
@@ -249,10 +413,53 @@ export class BroadcastCollaborationRoom {
 
   private postSocketMessage(message: SocketCollaborationMessage) {
     if (this.socket?.readyState !== WebSocket.OPEN) {
-      return
+      return false
     }
 
     this.socket.send(JSON.stringify(message))
+    return true
+  }
+
+  private postSocketFrame(frame: Uint8Array<ArrayBuffer>) {
+    if (this.socket?.readyState !== WebSocket.OPEN) {
+      return false
+    }
+
+    this.socket.send(frame)
+    return true
+  }
+
+  private sendSocketDocUpdate(update: Uint8Array) {
+    if (this.socketFraming === 'binary') {
+      return this.postSocketFrame(encodeUpdateFrame(update))
+    }
+    return this.postSocketMessage({
+      type: 'doc-update',
+      roomId: this.roomId,
+      sender: this.doc.clientID,
+      update: toBase64(update),
+    })
+  }
+
+  private sendSocketAwareness(update: Uint8Array) {
+    if (this.socketFraming === 'binary') {
+      return this.postSocketFrame(encodeAwarenessFrame(update))
+    }
+    return this.postSocketMessage({
+      type: 'awareness-update',
+      roomId: this.roomId,
+      sender: this.doc.clientID,
+      update: toBase64(update),
+    })
+  }
+
+  /** Ask the relay for its state: a `sync-request`, or a y-protocols sync step 1. */
+  private requestRelaySync() {
+    if (this.socketFraming === 'binary') {
+      this.postSocketFrame(encodeSyncStep1Frame(this.doc))
+      return
+    }
+    this.postSocketMessage({ type: 'sync-request', roomId: this.roomId, sender: this.doc.clientID })
   }
 
   private connectWebSocket() {
@@ -262,16 +469,45 @@ export class BroadcastCollaborationRoom {
       return
     }
 
-    if (this.socket && (this.socket.readyState === WebSocket.OPEN || this.socket.readyState === WebSocket.CONNECTING)) {
+    if (
+      this.authTokenPending
+      || (this.socket && (this.socket.readyState === WebSocket.OPEN || this.socket.readyState === WebSocket.CONNECTING))
+    ) {
       return
     }
 
     this.setSocketState(this.reconnectTimer === null ? 'connecting' : 'reconnecting')
 
-    const separator = this.webSocketUrl.includes('?') ? '&' : '?'
+    if (!this.getAuthToken) {
+      this.openWebSocket(this.webSocketUrl)
+      return
+    }
+
+    const webSocketUrl = this.webSocketUrl
+    this.authTokenPending = true
+    this.getAuthToken().then(
+      (token) => {
+        this.authTokenPending = false
+        if (!this.destroyed) {
+          this.openWebSocket(webSocketUrl, token ?? undefined)
+        }
+      },
+      (error) => {
+        this.authTokenPending = false
+        console.warn('Failed to fetch collaboration relay token', error)
+        this.scheduleReconnect()
+      },
+    )
+  }
+
+  private openWebSocket(webSocketUrl: string, token?: string) {
+    const separator = webSocketUrl.includes('?') ? '&' : '?'
+    const tokenParam = token ? `&token=${encodeURIComponent(token)}` : ''
     const socket = new WebSocket(
-      `${this.webSocketUrl}${separator}room=${encodeURIComponent(this.roomId)}&clientId=${encodeURIComponent(String(this.doc.clientID))}`,
+      `${webSocketUrl}${separator}room=${encodeURIComponent(this.roomId)}&clientId=${encodeURIComponent(String(this.doc.clientID))}${tokenParam}`,
+      this.preferredFraming === 'binary' ? [JSON_SUBPROTOCOL, BINARY_SUBPROTOCOL] : undefined,
     )
+    socket.binaryType = 'arraybuffer'
     this.socket = socket
 
     socket.addEventListener('open', () => {
@@ -281,17 +517,19 @@ export class BroadcastCollaborationRoom {
 
       this.reconnectAttemptCount = 0
       this.nextReconnectAt = undefined
+      this.socketFraming = socket.protocol === BINARY_SUBPROTOCOL ? 'binary' : 'json'
+      this.socketReadOnly = false
       this.heartbeatState = this.heartbeatEnabled ? 'idle' : 'disabled'
       this.setSocketState('connected')
       this.stopHeartbeatDeadline()
       this.startHeartbeat(socket)
 
-      this.postSocketMessage({
-        type: 'sync-request',
-        roomId: this.roomId,
-        sender: this.doc.clientID,
-      })
-      this.pushLocalDocumentToSocket()
+      this.requestRelaySync()
+      // Binary sync sends local state in reply to the relay's sync step 1 instead,
+      // as a diff against what the relay already has.
+      if (this.socketFraming === 'json') {
+        this.pushLocalDocumentToSocket()
+      }
       this.pushLocalAwarenessToSocket()
     })
 
@@ -407,42 +645,44 @@ export class BroadcastCollaborationRoom {
       return
     }
 
-    const update = encodeAwarenessUpdate(this.awareness, [this.doc.clientID])
-    this.postSocketMessage({
-      type: 'awareness-update',
-      roomId: this.roomId,
-      sender: this.doc.clientID,
-      update: toBase64(update),
-    })
+    this.sendSocketAwareness(encodeAwarenessUpdate(this.awareness, [this.doc.clientID]))
   }
 
   private pushLocalDocumentToSocket() {
-    this.postSocketMessage({
+    const sent = this.postSocketMessage({
       type: 'doc-update',
       roomId: this.roomId,
       sender: this.doc.clientID,
       update: toBase64(Y.encodeStateAsUpdate(this.doc)),
     })
+    if (sent && this.relayRole !== 'viewer') {
+      this.noteRelayState(Y.decodeStateVector(Y.encodeStateVector(this.doc)))
+    }
   }
 
   private readonly handleDocUpdate = (update: Uint8Array, origin: unknown) => {
     this.persistSnapshot()
     if (origin === BROADCAST_REMOTE_ORIGIN || origin === STORAGE_REMOTE_ORIGIN || origin === WEBSOCKET_REMOTE_ORIGIN) {
+      // Tab-to-tab edits may not have reached the relay yet either.
+      this.refreshUnsyncedChanges()
       return
     }
 
-    this.postMessage({
-      type: 'doc-update',
-      sender: this.doc.clientID,
-      update,
-    })
+    // Edits replayed from IndexedDB are new to the other tabs and the relay too.
+    if (origin !== INDEXEDDB_RESTORE_ORIGIN) {
+      this.postMessage({
+        type: 'doc-update',
+        sender: this.doc.clientID,
+        update,
+      })
+    }
 
-    this.postSocketMessage({
-      type: 'doc-update',
-      roomId: this.roomId,
-      sender: this.doc.clientID,
-      update: toBase64(update),
-    })
+    const sent = this.sendSocketDocUpdate(update)
+    if (sent && this.relayRole !== 'viewer') {
+      this.noteRelayState(Y.decodeStateVector(Y.encodeStateVectorFromUpdate(update)))
+    } else {
+      this.refreshUnsyncedChanges()
+    }
   }
 
   private readonly handleAwarenessChange = (
@@ -462,12 +702,7 @@ export class BroadcastCollaborationRoom {
       update,
     })
 
-    this.postSocketMessage({
-      type: 'awareness-update',
-      roomId: this.roomId,
-      sender: this.doc.clientID,
-      update: toBase64(update),
-    })
+    this.sendSocketAwareness(update)
   }
 
   private readonly handleChannelMessage = (event: MessageEvent<CollaborationMessage>) => {
@@ -494,13 +729,77 @@ export class BroadcastCollaborationRoom {
     }
   }
 
-  private readonly handleSocketMessage = (event: MessageEvent<string>, socket: WebSocket) => {
-    if (this.socket !== socket || typeof event.data !== 'string') {
+  private setRelayRole(role: CollaborationRelayRole) {
+    if (role !== this.relayRole) {
+      this.relayRole = role
+      this.emitStatus()
+    }
+  }
+
+  private handleRelayReadOnly() {
+    this.socketReadOnly = true
+    if (this.relayRole === 'viewer') {
+      return
+    }
+    // Edits already counted as delivered were refused: forget what the relay
+    // was assumed to hold and let a fresh sync re-establish it.
+    console.warn(`Collaboration relay room ${this.roomId} is read-only for this user; edits stay local`)
+    this.relayRole = 'viewer'
+    this.relayStateVector.clear()
+    this.requestRelaySync()
+    this.refreshUnsyncedChanges()
+    this.emitStatus()
+  }
+
+  private handleBinaryFrame(data: Uint8Array) {
+    let frame: BinaryFrame | null
+
+    try {
+      frame = decodeBinaryFrame(data)
+    } catch (error) {
+      console.warn('Failed to decode collaboration socket frame', error)
+      return
+    }
+
+    switch (frame?.type) {
+      case 'sync-step-1': {
+        // The relay's state vector is exactly what it holds; reply with the rest.
+        this.noteRelayState(Y.decodeStateVector(frame.stateVector))
+        const sent = this.postSocketFrame(encodeSyncStep2Frame(this.doc, frame.stateVector))
+        if (sent && this.relayRole !== 'viewer') {
+          this.noteRelayState(Y.decodeStateVector(Y.encodeStateVector(this.doc)))
+        }
+        return
+      }
+      case 'sync-step-2':
+      case 'update':
+        Y.applyUpdate(this.doc, frame.update, WEBSOCKET_REMOTE_ORIGIN)
+        this.noteRelayState(Y.decodeStateVector(Y.encodeStateVectorFromUpdate(frame.update)))
+        if (frame.type === 'sync-step-2') {
+          this.setRelayRole(this.socketReadOnly ? 'viewer' : 'editor')
+        }
+        return
+      case 'awareness':
+        applyAwarenessUpdate(this.awareness, frame.update, WEBSOCKET_REMOTE_ORIGIN)
+        return
+      case 'permission-denied':
+        this.handleRelayReadOnly()
+        return
+    }
+  }
+
+  private readonly handleSocketMessage = (event: MessageEvent<string | ArrayBuffer>, socket: WebSocket) => {
+    if (this.socket !== socket) {
       return
     }
 
     this.stopHeartbeatDeadline()
 
+    if (event.data instanceof ArrayBuffer) {
+      this.handleBinaryFrame(new Uint8Array(event.data))
+      return
+    }
+
     let message: SocketCollaborationMessage | null = null
 
     try {
@@ -525,12 +824,23 @@ export class BroadcastCollaborationRoom {
         this.emitStatus()
         return
       case 'sync-response':
-      case 'doc-update':
-        Y.applyUpdate(this.doc, fromBase64(message.update), WEBSOCKET_REMOTE_ORIGIN)
+      case 'doc-update': {
+        const update = fromBase64(message.update)
+        Y.applyUpdate(this.doc, update, WEBSOCKET_REMOTE_ORIGIN)
+        this.noteRelayState(Y.decodeStateVector(Y.encodeStateVectorFromUpdate(update)))
         if (message.type === 'sync-response' && message.awareness) {
           applyAwarenessUpdate(this.awareness, fromBase64(message.awareness), WEBSOCKET_REMOTE_ORIGIN)
         }
+        if (message.type === 'sync-response' && message.role) {
+          this.setRelayRole(message.role)
+        }
         break
+      }
+      case 'error':
+        if (message.code === 'read-only') {
+          this.handleRelayReadOnly()
+        }
+        return
       case 'awareness-update':
         applyAwarenessUpdate(this.awareness, fromBase64(message.update), WEBSOCKET_REMOTE_ORIGIN)
         break
@@ -551,6 +861,69 @@ export class BroadcastCollaborationRoom {
     }
   }
 
+  /**
+   * Apply the doc state saved on the server. That save can hold edits the relay never
+   * received, so what the relay holds is left to its own sync messages.
+   */
+  hydrateFromServer(update: Uint8Array) {
+    Y.applyUpdate(this.doc, update, SERVER_HYDRATE_ORIGIN)
+  }
+
+  /** Stored snapshots and pending updates for this room; null without a relay. */
+  async fetchRelayHistory(): Promise<RelayRoomHistory | null> {
+    const response = await this.fetchRelayResource('history')
+    if (!response) {
+      return null
+    }
+    const body = await response.json() as RelayRoomHistory
+    return { snapshots: body.snapshots ?? [], updates: body.updates ?? [] }
+  }
+
+  /** The room's stored Yjs state as of `at` (epoch ms); null when the relay has nothing that old. */
+  async fetchRelayStateAt(at: number): Promise<RelayRoomState | null> {
+    const response = await this.fetchRelayResource('state', `at=${at}`)
+    if (!response) {
+      return null
+    }
+    const body = await response.json() as Omit<RelayRoomState, 'update'> & { update: string }
+    return {
+      at: body.at,
+      update: fromBase64(body.update),
+      snapshotCreatedAt: body.snapshotCreatedAt,
+      actors: body.actors ?? [],
+    }
+  }
+
+  /**
+   * Relay actor of the last edit to each annotation changed between two times (epoch ms),
+   * from the relay's per-actor update log; null without a relay.
+   */
+  async fetchRelayEditors(from: number, to: number): Promise<Record<string, string> | null> {
+    const response = await this.fetchRelayResource('editors', `from=${from}&to=${to}`)
+    if (!response) {
+      return null
+    }
+    const body = await response.json() as { editors?: Record<string, string> }
+    return body.editors ?? {}
+  }
+
+  private async fetchRelayResource(resource: 'history' | 'state' | 'editors', query = '') {
+    if (!this.webSocketUrl) {
+      return null
+    }
+    const token = await this.getAuthToken?.()
+    const params = [query, token ? `token=${encodeURIComponent(token)}` : ''].filter(Boolean).join('&')
+    const url = `${toRelayHttpUrl(this.webSocketUrl)}/rooms/${encodeURIComponent(this.roomId)}/${resource}`
+    const response = await fetch(params ? `${url}?${params}` : url)
+    if (response.status === 404) {
+      return null
+    }
+    if (!response.ok) {
+      throw new Error(`Relay ${resource} request failed with ${response.status}`)
+    }
+    return response
+  }
+
   private emitParticipants() {
     this.participants.forEach((listener) => listener())
   }
@@ -582,6 +955,10 @@ export class BroadcastCollaborationRoom {
       lastHeartbeatAckAt: this.lastHeartbeatAckAt,
       reconnectAttemptCount: this.reconnectAttemptCount,
       nextReconnectAt: this.nextReconnectAt,
+      persistenceState: this.persistenceState,
+      unsyncedChanges: this.unsyncedChanges,
+      relayRole: this.relayRole,
+      socketFraming: this.socketFraming,
     }
   }
 
@@ -649,6 +1026,8 @@ export class BroadcastCollaborationRoom {
     this.stopHeartbeat()
     removeAwarenessStates(this.awareness, [this.doc.clientID], 'dispose')
     this.store.destroy()
+    this.persistence?.destroy()
+    this.persistence = null
     this.doc.off('update', this.handleDocUpdate)
     this.awareness.off('update', this.handleAwarenessChange)
     window.removeEventListener('storage', this.handleStorageEvent)
@@ -0,0 +1,163 @@
+import * as Y from 'yjs'
+
+/** Transaction origin for updates replayed from IndexedDB when a room opens. */
+export const INDEXEDDB_RESTORE_ORIGIN = 'indexeddb-restore'
+
+const DATABASE_PREFIX = 'annotation-room:'
+const UPDATES_STORE = 'updates'
+const META_STORE = 'meta'
+const RELAY_STATE_VECTOR_KEY = 'relay-state-vector'
+// Incremental updates are appended per edit; past this many the log is folded into
+// one full-state record so replay on open stays cheap.
+const COMPACT_AFTER_UPDATES = 200
+
+export interface IndexedDbRestoreResult {
+  /** Relay state vector last saved with the doc, for recomputing unsynced changes offline. */
+  relayStateVector?: Uint8Array
+}
+
+function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+function openDatabase(name: string) {
+  const request = indexedDB.open(name, 1)
+  request.onupgradeneeded = () => {
+    const database = request.result
+    if (!database.objectStoreNames.contains(UPDATES_STORE)) {
+      database.createObjectStore(UPDATES_STORE, { autoIncrement: true })
+    }
+    if (!database.objectStoreNames.contains(META_STORE)) {
+      database.createObjectStore(META_STORE)
+    }
+  }
+  return requestToPromise(request)
+}
+
+export function isIndexedDbAvailable() {
+  return typeof indexedDB !== 'undefined'
+}
+
+/**
+ * Offline copy of a room's Y.Doc in IndexedDB, one database per room id. Every doc
+ * update is appended as it happens (awareness is not stored), and the log is
+ * replayed into the doc on open. Because replay is an ordinary Yjs update, it merges
+ * with whatever the relay's `sync-response` brings in, in either order.
+ */
+export class IndexedDbRoomPersistence {
+  readonly whenRestored: Promise<IndexedDbRestoreResult>
+
+  private readonly doc: Y.Doc
+  private database: IDBDatabase | null = null
+  private pendingUpdates: Uint8Array[] = []
+  private storedUpdateCount = 0
+  private destroyed = false
+
+  constructor(roomId: string, doc: Y.Doc) {
+    this.doc = doc
+    this.doc.on('update', this.handleDocUpdate)
+    this.whenRestored = this.restore(`${DATABASE_PREFIX}${roomId}`)
+  }
+
+  private async restore(databaseName: string): Promise<IndexedDbRestoreResult> {
+    const database = await openDatabase(databaseName)
+    if (this.destroyed) {
+      database.close()
+      return {}
+    }
+    this.database = database
+
+    const transaction = database.transaction([UPDATES_STORE, META_STORE], 'readonly')
+    const [updates, relayStateVector] = await Promise.all([
+      requestToPromise(transaction.objectStore(UPDATES_STORE).getAll() as IDBRequest<Uint8Array[]>),
+      requestToPromise(transaction.objectStore(META_STORE).get(RELAY_STATE_VECTOR_KEY) as IDBRequest<Uint8Array | undefined>),
+    ])
+    this.storedUpdateCount = updates.length
+
+    Y.transact(this.doc, () => {
+      updates.forEach((update) => {
+        try {
+          Y.applyUpdate(this.doc, update, INDEXEDDB_RESTORE_ORIGIN)
+        } catch (error) {
+          console.warn('Skipped unreadable offline annotation update', error)
+        }
+      })
+    }, INDEXEDDB_RESTORE_ORIGIN)
+
+    // Edits made while the database was opening; written after replay so the
+    // log never holds them twice.
+    const pending = this.pendingUpdates
+    this.pendingUpdates = []
+    if (pending.length > 0) {
+      await this.appendUpdates(pending)
+    }
+    return relayStateVector ? { relayStateVector } : {}
+  }
+
+  private async appendUpdates(updates: Uint8Array[]) {
+    const database = this.database
+    if (!database || this.destroyed) {
+      return
+    }
+
+    if (this.storedUpdateCount + updates.length > COMPACT_AFTER_UPDATES) {
+      const transaction = database.transaction(UPDATES_STORE, 'readwrite')
+      const store = transaction.objectStore(UPDATES_STORE)
+      store.clear()
+      store.add(Y.encodeStateAsUpdate(this.doc))
+      this.storedUpdateCount = 1
+      await transactionDone(transaction)
+      return
+    }
+
+    const transaction = database.transaction(UPDATES_STORE, 'readwrite')
+    const store = transaction.objectStore(UPDATES_STORE)
+    updates.forEach((update) => store.add(update))
+    this.storedUpdateCount += updates.length
+    await transactionDone(transaction)
+  }
+
+  private readonly handleDocUpdate = (update: Uint8Array, origin: unknown) => {
+    if (origin === INDEXEDDB_RESTORE_ORIGIN || this.destroyed) {
+      return
+    }
+    if (!this.database) {
+      this.pendingUpdates.push(update)
+      return
+    }
+    this.appendUpdates([update]).catch((error) => {
+      console.warn('Failed to store annotation update offline', error)
+    })
+  }
+
+  /** Remember how far the relay is known to have caught up, so a reopened offline tab still reports unsynced edits. */
+  saveRelayStateVector(stateVector: Uint8Array) {
+    const database = this.database
+    if (!database || this.destroyed) {
+      return
+    }
+    const transaction = database.transaction(META_STORE, 'readwrite')
+    transaction.objectStore(META_STORE).put(stateVector, RELAY_STATE_VECTOR_KEY)
+    transactionDone(transaction).catch((error) => {
+      console.warn('Failed to store relay sync state offline', error)
+    })
+  }
+
+  destroy() {
+    this.destroyed = true
+    this.doc.off('update', this.handleDocUpdate)
+    this.database?.close()
+    this.database = null
+  }
+}
@@ -1,10 +1,12 @@
 import { getRectangleCorners } from '../annotations/geometry'
 import type {
   AnnotationEntity,
+  RichText,
   Vec2,
 } from '../annotations/types'
 import type { AnnotationProjectionHost, ViewportSize } from './host'
-import { getLabelBounds } from './textLayout'
+import type { RenderTextStyle } from './primitives'
+import { getLabelBounds, getRichTextBlockRows } from './textLayout'
 
 export interface AnnotationScreenBounds {
   left: number
@@ -55,6 +57,45 @@ export function getCardMoveHandleTargets(bounds: AnnotationScreenBounds) {
   ]
 }
 
+export const TEXT_NOTE_PADDING_X = 10
+export const TEXT_NOTE_PADDING_Y = 7
+/** Rich notes wrap at this width; plain notes stay on one line. */
+const RICH_TEXT_NOTE_MAX_WIDTH = 360
+const RICH_TEXT_NOTE_MAX_ROWS = 24
+
+export function getTextNoteStyle(fontSize: number): RenderTextStyle {
+  return {
+    fontSize,
+    fontWeight: 600,
+    fontFamily: 'Inter, system-ui, sans-serif',
+    color: { r: 248, g: 250, b: 252, a: 1 },
+  }
+}
+
+/**
+ * Box and text placement of a note with formatted text. Its last row sits where a plain
+ * note's single line would, and further rows stack upward so the anchor stays clear.
+ */
+export function getRichTextNoteLayout(rich: RichText, fontSize: number, anchor: Vec2) {
+  const style = getTextNoteStyle(fontSize)
+  const lineHeight = fontSize * 1.35
+  const rows = getRichTextBlockRows({ rich, maxWidth: RICH_TEXT_NOTE_MAX_WIDTH, maxLines: RICH_TEXT_NOTE_MAX_ROWS, style })
+  const rowCount = Math.max(1, rows.length)
+  const contentWidth = Math.max(fontSize, ...rows.map((row) => row.width))
+  const top = anchor.y - (fontSize + 14) - (rowCount - 1) * lineHeight
+  return {
+    left: anchor.x,
+    top,
+    width: contentWidth + TEXT_NOTE_PADDING_X * 2,
+    height: fontSize * 1.05 + (rowCount - 1) * lineHeight + TEXT_NOTE_PADDING_Y * 2,
+    textPosition: { x: anchor.x + TEXT_NOTE_PADDING_X, y: top + TEXT_NOTE_PADDING_Y + fontSize * 0.82 },
+    lineHeight,
+    maxWidth: RICH_TEXT_NOTE_MAX_WIDTH,
+    maxLines: RICH_TEXT_NOTE_MAX_ROWS,
+    style,
+  }
+}
+
 function getProjectedBounds(
   annotation: AnnotationEntity,
   projectionHost: AnnotationProjectionHost,
@@ -98,24 +139,22 @@ export function getAnnotationScreenBounds(
     case 'card':
     case 'grid':
     case 'list':
+    default:
       return getProjectedBounds(annotation, projectionHost, viewport)
     case 'text': {
       const anchor = projectionHost.project(annotation.frame, annotation.geometry.position, viewport)
       if (!anchor) {
         return null
       }
-      const bounds = getLabelBounds({
-        text: annotation.geometry.text,
-        position: { x: anchor.x, y: anchor.y - (annotation.style.fontSize + 14) },
-        paddingX: 10,
-        paddingY: 7,
-        style: {
-          fontSize: annotation.style.fontSize,
-          fontWeight: 600,
-          fontFamily: 'Inter, system-ui, sans-serif',
-          color: { r: 248, g: 250, b: 252, a: 1 },
-        },
-      })
+      const bounds = annotation.geometry.rich
+        ? getRichTextNoteLayout(annotation.geometry.rich, annotation.style.fontSize, anchor)
+        : getLabelBounds({
+            text: annotation.geometry.text,
+            position: { x: anchor.x, y: anchor.y - (annotation.style.fontSize + 14) },
+            paddingX: TEXT_NOTE_PADDING_X,
+            paddingY: TEXT_NOTE_PADDING_Y,
+            style: getTextNoteStyle(annotation.style.fontSize),
+          })
       return {
         left: bounds.left,
         top: bounds.top,
@@ -127,8 +166,14 @@ export function getAnnotationScreenBounds(
     }
     case 'freehand':
     case 'brush':
-    case 'polygon': {
-      const points = annotation.geometry.points
+    case 'polygon':
+    case 'arrow':
+    case 'callout':
+    case 'measurement': {
+      const localPoints = 'points' in annotation.geometry
+        ? annotation.geometry.points
+        : [annotation.geometry.from, annotation.geometry.to]
+      const points = localPoints
         .map((point) => projectionHost.project(annotation.frame, point, viewport))
         .filter((point): point is Vec2 => point !== null)
       if (points.length === 0) {
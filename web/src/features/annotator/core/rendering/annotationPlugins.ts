@@ -1,10 +1,20 @@
-import { getRectangleCorners, normalizeBounds, pointInPolygon, vec2Distance } from '../annotations/geometry'
+import {
+  formatMeasurementLabel,
+  getArrowHeadPoints,
+  getRectangleCorners,
+  getStrokeWidthScales,
+  getVariableWidthStrokeOutline,
+  normalizeBounds,
+  pointInPolygon,
+  vec2Distance,
+} from '../annotations/geometry'
 import { parseAnnotationColor } from '../annotations/schema'
-import type { AnnotationEntity, AnnotationGeometryKind, ParticipantState, Vec2 } from '../annotations/types'
+import type { AnnotationEntity, AnnotationGeometryKind, AnnotationThread, ParticipantState, Vec2 } from '../annotations/types'
 import {
   getAnnotationScreenBounds,
   getCardMoveHandleTargets,
   getDetailCardMetrics,
+  getRichTextNoteLayout,
   type AnnotationScreenBounds,
 } from './annotationLayout'
 import type { AnnotationProjectionHost, ViewportSize } from './host'
@@ -19,6 +29,8 @@ type TextAnnotation = AnnotationEntity & { geometry: Extract<AnnotationEntity['g
 type CardAnnotation = AnnotationEntity & { geometry: Extract<AnnotationEntity['geometry'], { kind: 'card' }> }
 type ListAnnotation = AnnotationEntity & { geometry: Extract<AnnotationEntity['geometry'], { kind: 'list' }> }
 type GridAnnotation = AnnotationEntity & { geometry: Extract<AnnotationEntity['geometry'], { kind: 'grid' }> }
+type SegmentAnnotation = AnnotationEntity & { geometry: Extract<AnnotationEntity['geometry'], { from: Vec2; to: Vec2 }> }
+type CalloutAnnotation = AnnotationEntity & { geometry: Extract<AnnotationEntity['geometry'], { kind: 'callout' }> }
 
 export interface AnnotationRenderEntry {
   annotation: AnnotationEntity
@@ -62,7 +74,7 @@ function distanceToSegment(point: Vec2, start: Vec2, end: Vec2) {
   return vec2Distance(point, projection)
 }
 
-function createStroke(annotation: AnnotationEntity, selected: boolean, dash?: number[]): RenderStrokeStyle {
+export function createStroke(annotation: AnnotationEntity, selected: boolean, dash?: number[]): RenderStrokeStyle {
   return {
     color: parseAnnotationColor(annotation.style.stroke),
     width: selected ? annotation.style.strokeWidth + 1 : annotation.style.strokeWidth,
@@ -72,7 +84,7 @@ function createStroke(annotation: AnnotationEntity, selected: boolean, dash?: nu
   }
 }
 
-function createTextStyle(fontSize: number, color: string, fontWeight = 500): RenderTextStyle {
+export function createTextStyle(fontSize: number, color: string, fontWeight = 500): RenderTextStyle {
   return {
     fontSize,
     fontWeight,
@@ -113,7 +125,7 @@ function buildSelectionAnchor(annotation: AnnotationEntity, context: AnnotationR
   }]
 }
 
-function appendSelectionPrimitives(
+export function appendSelectionPrimitives(
   primitives: RenderPrimitive[],
   annotation: AnnotationEntity,
   selected: boolean,
@@ -124,7 +136,7 @@ function appendSelectionPrimitives(
   }
 }
 
-function buildWorldMarker(entry: AnnotationRenderEntry, context: AnnotationRenderContext): RenderPrimitive[] | null {
+export function buildWorldMarker(entry: AnnotationRenderEntry, context: AnnotationRenderContext): RenderPrimitive[] | null {
   const { annotation, selected, alphaMultiplier = 1, collapseUnselectedWorldMarker = true } = entry
   if (!(annotation.frame.space === 'world3d' && !selected && collapseUnselectedWorldMarker)) {
     return null
@@ -225,7 +237,7 @@ function getTextScreenBounds(entry: AnnotationRenderEntry, context: AnnotationRe
   } satisfies AnnotationScreenBounds
 }
 
-function getAnnotationHitBounds(entry: AnnotationRenderEntry, context: AnnotationRenderContext, padding: number) {
+export function getAnnotationHitBounds(entry: AnnotationRenderEntry, context: AnnotationRenderContext, padding: number) {
   const worldMarkerBounds = getWorldMarkerBounds(entry, context)
   if (worldMarkerBounds) {
     return worldMarkerBounds
@@ -250,6 +262,42 @@ function hitTestWorldMarker(entry: AnnotationRenderEntry, screenPoint: Vec2, con
   return distance <= 12 ? distance : null
 }
 
+/**
+ * Filled outline for a stroke with per-point widths, or null when the stroke is uniform.
+ * Points that do not project are dropped together with their widths.
+ */
+function buildVariableWidthStroke(
+  annotation: FreehandAnnotation | BrushAnnotation,
+  context: AnnotationRenderContext,
+  baseWidth: number,
+  color: string,
+  opacity: number,
+): RenderPrimitive | null {
+  const scales = getStrokeWidthScales(annotation.geometry)
+  if (!scales) {
+    return null
+  }
+  const points: Vec2[] = []
+  const radii: number[] = []
+  annotation.geometry.points.forEach((point, index) => {
+    const projected = context.projectionHost.project(annotation.frame, point, context.viewport)
+    if (projected) {
+      points.push(projected)
+      radii.push(Math.max(0.5, (baseWidth * scales[index]) / 2))
+    }
+  })
+  if (points.length === 0) {
+    return null
+  }
+  return {
+    kind: 'polyline',
+    points: getVariableWidthStrokeOutline(points, radii),
+    closed: true,
+    fill: parseAnnotationColor(color),
+    opacity,
+  }
+}
+
 function buildFreehand(entry: AnnotationRenderEntry, context: AnnotationRenderContext): RenderPrimitive[] {
   const worldMarker = buildWorldMarker(entry, context)
   if (worldMarker) {
@@ -257,6 +305,19 @@ function buildFreehand(entry: AnnotationRenderEntry, context: AnnotationRenderCo
   }
   const annotation = entry.annotation as FreehandAnnotation
   const { selected, alphaMultiplier = 1 } = entry
+  const stroke = createStroke(annotation, selected)
+  const outline = buildVariableWidthStroke(
+    annotation,
+    context,
+    stroke.width,
+    annotation.style.stroke,
+    annotation.style.opacity * alphaMultiplier,
+  )
+  if (outline) {
+    const primitives = [outline]
+    appendSelectionPrimitives(primitives, annotation, selected, context)
+    return primitives
+  }
   const points = annotation.geometry.points
     .map((point) => context.projectionHost.project(annotation.frame, point, context.viewport))
     .filter((point): point is Vec2 => point !== null)
@@ -266,7 +327,7 @@ function buildFreehand(entry: AnnotationRenderEntry, context: AnnotationRenderCo
   const primitives: RenderPrimitive[] = [{
     kind: 'polyline',
     points,
-    stroke: createStroke(annotation, selected),
+    stroke,
     opacity: annotation.style.opacity * alphaMultiplier,
   }]
   appendSelectionPrimitives(primitives, annotation, selected, context)
@@ -311,15 +372,21 @@ function buildBrush(entry: AnnotationRenderEntry, context: AnnotationRenderConte
   }
   const annotation = entry.annotation as BrushAnnotation
   const { selected, alphaMultiplier = 1 } = entry
+  const scale = getFrameScreenScale(annotation, context)
+  const width = Math.max(1, annotation.geometry.radius * 2 * scale)
+  const opacity = annotation.style.opacity * alphaMultiplier
+  const outline = buildVariableWidthStroke(annotation, context, selected ? width + 2 : width, annotation.style.stroke, opacity)
+  if (outline) {
+    const primitives = [outline]
+    appendSelectionPrimitives(primitives, annotation, selected, context)
+    return primitives
+  }
   const points = annotation.geometry.points
     .map((point) => context.projectionHost.project(annotation.frame, point, context.viewport))
     .filter((point): point is Vec2 => point !== null)
   if (points.length === 0) {
     return []
   }
-  const scale = getFrameScreenScale(annotation, context)
-  const width = Math.max(1, annotation.geometry.radius * 2 * scale)
-  const opacity = annotation.style.opacity * alphaMultiplier
   if (points.length === 1) {
     return [{
       kind: 'circle',
@@ -441,7 +508,7 @@ function buildRectangle(entry: AnnotationRenderEntry, context: AnnotationRenderC
   return primitives
 }
 
-function hitTestBoundsRect(entry: AnnotationRenderEntry, screenPoint: Vec2, context: AnnotationRenderContext) {
+export function hitTestBoundsRect(entry: AnnotationRenderEntry, screenPoint: Vec2, context: AnnotationRenderContext) {
   const markerDistance = hitTestWorldMarker(entry, screenPoint, context)
   if (markerDistance !== null) {
     return markerDistance
@@ -539,6 +606,32 @@ function buildText(entry: AnnotationRenderEntry, context: AnnotationRenderContex
   if (!anchor) {
     return []
   }
+  if (annotation.geometry.rich) {
+    const layout = getRichTextNoteLayout(annotation.geometry.rich, annotation.style.fontSize, anchor)
+    const primitives: RenderPrimitive[] = [{
+      kind: 'roundedRect',
+      x: layout.left,
+      y: layout.top,
+      width: layout.width,
+      height: layout.height,
+      radius: 10,
+      fill: parseAnnotationColor(annotation.style.fill),
+      stroke: createStroke(annotation, selected),
+      opacity: annotation.style.opacity * alphaMultiplier,
+    }, {
+      kind: 'textBlock',
+      lines: [],
+      rich: annotation.geometry.rich,
+      position: layout.textPosition,
+      maxWidth: layout.maxWidth,
+      lineHeight: layout.lineHeight,
+      maxLines: layout.maxLines,
+      style: layout.style,
+      opacity: annotation.style.opacity * alphaMultiplier,
+    }]
+    appendSelectionPrimitives(primitives, annotation, selected, context)
+    return primitives
+  }
   const primitives: RenderPrimitive[] = [{
     kind: 'label',
     text: annotation.geometry.text,
@@ -562,6 +655,16 @@ function hitTestText(entry: AnnotationRenderEntry, screenPoint: Vec2, context: A
   }
 
   const annotation = entry.annotation as TextAnnotation
+  if (annotation.geometry.rich) {
+    const bounds = getAnnotationScreenBounds(annotation, context.projectionHost, context.viewport)
+    return bounds
+      && screenPoint.x >= bounds.left - 4
+      && screenPoint.x <= bounds.left + bounds.width + 4
+      && screenPoint.y >= bounds.top - 4
+      && screenPoint.y <= bounds.top + bounds.height + 10
+      ? 0
+      : null
+  }
   const position = context.projectionHost.project(annotation.frame, annotation.geometry.position, context.viewport)
   if (!position) {
     return null
@@ -607,6 +710,7 @@ function buildCard(entry: AnnotationRenderEntry, context: AnnotationRenderContex
     {
       kind: 'textBlock',
       lines: annotation.geometry.body,
+      rich: annotation.geometry.rich,
       position: { x: bounds.left + paddingX, y: bounds.top + topOffset },
       maxWidth: Math.max(20, bounds.width - paddingX * 2),
       lineHeight,
@@ -657,6 +761,21 @@ function buildList(entry: AnnotationRenderEntry, context: AnnotationRenderContex
     style: createTextStyle(titleSize, '#f8fafc', 700),
     opacity: annotation.style.opacity * alphaMultiplier,
   }]
+  if (annotation.geometry.rich) {
+    primitives.push({
+      kind: 'textBlock',
+      lines: annotation.geometry.items,
+      rich: annotation.geometry.rich,
+      position: { x: bounds.left + padding, y: top + lineHeight * 0.8 },
+      maxWidth: Math.max(20, bounds.width - padding * 2),
+      lineHeight,
+      maxLines: maxItems,
+      style: createTextStyle(itemSize, '#f8fafc', 500),
+      opacity: annotation.style.opacity * alphaMultiplier,
+    })
+    appendSelectionPrimitives(primitives, annotation, selected, context)
+    return primitives
+  }
   annotation.geometry.items.slice(0, maxItems).forEach((item: string, index: number) => {
     const y = top + lineHeight * (index + 0.8)
     primitives.push({
@@ -752,6 +871,217 @@ function buildGrid(entry: AnnotationRenderEntry, context: AnnotationRenderContex
   return primitives
 }
 
+function projectSegment(annotation: SegmentAnnotation, context: AnnotationRenderContext) {
+  const from = context.projectionHost.project(annotation.frame, annotation.geometry.from, context.viewport)
+  const to = context.projectionHost.project(annotation.frame, annotation.geometry.to, context.viewport)
+  return from && to ? { from, to } : null
+}
+
+function buildArrow(entry: AnnotationRenderEntry, context: AnnotationRenderContext): RenderPrimitive[] {
+  const worldMarker = buildWorldMarker(entry, context)
+  if (worldMarker) {
+    return worldMarker
+  }
+  const annotation = entry.annotation as SegmentAnnotation
+  const { selected, alphaMultiplier = 1 } = entry
+  const segment = projectSegment(annotation, context)
+  if (!segment) {
+    return []
+  }
+  const stroke = createStroke(annotation, selected)
+  const primitives: RenderPrimitive[] = [{
+    kind: 'line',
+    start: segment.from,
+    end: segment.to,
+    stroke,
+    opacity: annotation.style.opacity * alphaMultiplier,
+  }, {
+    kind: 'polyline',
+    points: getArrowHeadPoints(segment.from, segment.to, Math.max(10, stroke.width * 4)),
+    closed: true,
+    fill: stroke.color,
+    stroke,
+    opacity: annotation.style.opacity * alphaMultiplier,
+  }]
+  appendSelectionPrimitives(primitives, annotation, selected, context)
+  return primitives
+}
+
+function getMeasurementLabel(annotation: SegmentAnnotation, from: Vec2, to: Vec2) {
+  const text = formatMeasurementLabel(annotation.frame, annotation.geometry)
+  const style = createTextStyle(Math.max(11, annotation.style.fontSize - 2), '#f8fafc', 600)
+  const size = getLabelBounds({ text, position: { x: 0, y: 0 }, paddingX: 7, paddingY: 4, style })
+  return {
+    text,
+    style,
+    position: {
+      x: (from.x + to.x) / 2 - size.width / 2,
+      y: (from.y + to.y) / 2 - size.height - 6,
+    },
+    width: size.width,
+    height: size.height,
+  }
+}
+
+function buildMeasurement(entry: AnnotationRenderEntry, context: AnnotationRenderContext): RenderPrimitive[] {
+  const worldMarker = buildWorldMarker(entry, context)
+  if (worldMarker) {
+    return worldMarker
+  }
+  const annotation = entry.annotation as SegmentAnnotation
+  const { selected, alphaMultiplier = 1 } = entry
+  const segment = projectSegment(annotation, context)
+  if (!segment) {
+    return []
+  }
+  const { from, to } = segment
+  const length = Math.max(vec2Distance(from, to), 1e-6)
+  // Perpendicular end ticks, fixed in screen pixels.
+  const tick = { x: (-(to.y - from.y) / length) * 7, y: ((to.x - from.x) / length) * 7 }
+  const stroke = createStroke(annotation, selected)
+  const opacity = annotation.style.opacity * alphaMultiplier
+  const label = getMeasurementLabel(annotation, from, to)
+  const primitives: RenderPrimitive[] = [
+    { kind: 'line', start: from, end: to, stroke, opacity },
+    ...[from, to].map((point) => ({
+      kind: 'line' as const,
+      start: { x: point.x - tick.x, y: point.y - tick.y },
+      end: { x: point.x + tick.x, y: point.y + tick.y },
+      stroke,
+      opacity,
+    })),
+    {
+      kind: 'label',
+      text: label.text,
+      position: label.position,
+      paddingX: 7,
+      paddingY: 4,
+      radius: 6,
+      background: parseAnnotationColor('rgba(2, 6, 23, 0.78)'),
+      style: label.style,
+      opacity,
+    },
+  ]
+  appendSelectionPrimitives(primitives, annotation, selected, context)
+  return primitives
+}
+
+function hitTestSegment(entry: AnnotationRenderEntry, screenPoint: Vec2, context: AnnotationRenderContext) {
+  const markerDistance = hitTestWorldMarker(entry, screenPoint, context)
+  if (markerDistance !== null) {
+    return markerDistance
+  }
+  const annotation = entry.annotation as SegmentAnnotation
+  const segment = projectSegment(annotation, context)
+  if (!segment) {
+    return null
+  }
+  if (annotation.geometry.kind === 'measurement') {
+    const label = getMeasurementLabel(annotation, segment.from, segment.to)
+    if (
+      screenPoint.x >= label.position.x &&
+      screenPoint.x <= label.position.x + label.width &&
+      screenPoint.y >= label.position.y &&
+      screenPoint.y <= label.position.y + label.height
+    ) {
+      return 0
+    }
+  }
+  const distance = distanceToSegment(screenPoint, segment.from, segment.to)
+  return distance <= 8 ? distance : null
+}
+
+function getCalloutLabel(annotation: CalloutAnnotation, from: Vec2, to: Vec2) {
+  const style = createTextStyle(annotation.style.fontSize, '#f8fafc', 600)
+  const text = annotation.geometry.text || ' '
+  const size = getLabelBounds({ text, position: { x: 0, y: 0 }, paddingX: 10, paddingY: 7, style })
+  // The label hangs off the side of the leader's end that faces away from the anchor.
+  const left = to.x >= from.x ? to.x : to.x - size.width
+  return {
+    text,
+    style,
+    bounds: {
+      left,
+      top: to.y - size.height / 2,
+      width: size.width,
+      height: size.height,
+      centerX: left + size.width / 2,
+      centerY: to.y,
+    } satisfies AnnotationScreenBounds,
+  }
+}
+
+function buildCallout(entry: AnnotationRenderEntry, context: AnnotationRenderContext): RenderPrimitive[] {
+  const worldMarker = buildWorldMarker(entry, context)
+  if (worldMarker) {
+    return worldMarker
+  }
+  const annotation = entry.annotation as CalloutAnnotation
+  const { selected, alphaMultiplier = 1 } = entry
+  const segment = projectSegment(annotation, context)
+  if (!segment) {
+    return []
+  }
+  const stroke = createStroke(annotation, selected)
+  const opacity = annotation.style.opacity * alphaMultiplier
+  const label = getCalloutLabel(annotation, segment.from, segment.to)
+  const primitives: RenderPrimitive[] = [
+    { kind: 'line', start: segment.from, end: segment.to, stroke, opacity },
+    { kind: 'circle', center: segment.from, radius: Math.max(3, stroke.width * 1.5), fill: stroke.color, opacity },
+    {
+      kind: 'label',
+      text: label.text,
+      position: { x: label.bounds.left, y: label.bounds.top },
+      paddingX: 10,
+      paddingY: 7,
+      radius: 10,
+      background: parseAnnotationColor(annotation.style.fill),
+      stroke,
+      style: label.style,
+      opacity,
+    },
+  ]
+  appendSelectionPrimitives(primitives, annotation, selected, context)
+  return primitives
+}
+
+function hitTestCallout(entry: AnnotationRenderEntry, screenPoint: Vec2, context: AnnotationRenderContext) {
+  const markerDistance = hitTestWorldMarker(entry, screenPoint, context)
+  if (markerDistance !== null) {
+    return markerDistance
+  }
+  const annotation = entry.annotation as CalloutAnnotation
+  const segment = projectSegment(annotation, context)
+  if (!segment) {
+    return null
+  }
+  const { bounds } = getCalloutLabel(annotation, segment.from, segment.to)
+  if (
+    screenPoint.x >= bounds.left &&
+    screenPoint.x <= bounds.left + bounds.width &&
+    screenPoint.y >= bounds.top &&
+    screenPoint.y <= bounds.top + bounds.height
+  ) {
+    return 0
+  }
+  const distance = distanceToSegment(screenPoint, segment.from, segment.to)
+  return distance <= 8 ? distance : null
+}
+
+function getCalloutScreenBounds(entry: AnnotationRenderEntry, context: AnnotationRenderContext) {
+  const lineBounds = getAnnotationHitBounds(entry, context, 8)
+  const segment = projectSegment(entry.annotation as CalloutAnnotation, context)
+  if (!lineBounds || !segment || getWorldMarkerBounds(entry, context)) {
+    return lineBounds
+  }
+  const { bounds } = getCalloutLabel(entry.annotation as CalloutAnnotation, segment.from, segment.to)
+  const left = Math.min(lineBounds.left, bounds.left)
+  const top = Math.min(lineBounds.top, bounds.top)
+  const width = Math.max(lineBounds.left + lineBounds.width, bounds.left + bounds.width) - left
+  const height = Math.max(lineBounds.top + lineBounds.height, bounds.top + bounds.height) - top
+  return { left, top, width, height, centerX: left + width / 2, centerY: top + height / 2 }
+}
+
 const BUILTIN_PLUGINS: AnnotationRenderPlugin[] = [
   {
     id: 'freehand',
@@ -816,13 +1146,52 @@ const BUILTIN_PLUGINS: AnnotationRenderPlugin[] = [
     hitTest: (entry, screenPoint, context) => hitTestBoundsRect(entry, screenPoint, context),
     getScreenBounds: (entry, context) => getAnnotationHitBounds(entry, context, 8),
   },
+  {
+    id: 'arrow',
+    kinds: ['arrow'],
+    renderBatch: (entries, context) => entries.flatMap((entry) => buildArrow(entry, context)),
+    hitTest: (entry, screenPoint, context) => hitTestSegment(entry, screenPoint, context),
+    getScreenBounds: (entry, context) => getAnnotationHitBounds(entry, context, 14),
+  },
+  {
+    id: 'measurement',
+    kinds: ['measurement'],
+    renderBatch: (entries, context) => entries.flatMap((entry) => buildMeasurement(entry, context)),
+    hitTest: (entry, screenPoint, context) => hitTestSegment(entry, screenPoint, context),
+    // Padding covers the end ticks and the distance label above the midpoint.
+    getScreenBounds: (entry, context) => getAnnotationHitBounds(entry, context, 40),
+  },
+  {
+    id: 'callout',
+    kinds: ['callout'],
+    renderBatch: (entries, context) => entries.flatMap((entry) => buildCallout(entry, context)),
+    hitTest: (entry, screenPoint, context) => hitTestCallout(entry, screenPoint, context),
+    getScreenBounds: (entry, context) => getCalloutScreenBounds(entry, context),
+  },
 ]
 
 export class AnnotationRenderPluginManager {
-  private readonly plugins: AnnotationRenderPlugin[]
+  private plugins: AnnotationRenderPlugin[]
 
   constructor(plugins: AnnotationRenderPlugin[]) {
-    this.plugins = plugins
+    this.plugins = [...plugins]
+  }
+
+  /**
+   * Add a plugin for further geometry kinds. A plugin with the same id replaces the earlier
+   * one; kinds another plugin already draws stay with that plugin. Returns an unregister callback.
+   */
+  register(plugin: AnnotationRenderPlugin) {
+    const remaining = this.plugins.filter((candidate) => candidate.id !== plugin.id)
+    const claimed = plugin.kinds.filter((kind) => remaining.some((candidate) => candidate.kinds.includes(kind)))
+    if (claimed.length > 0) {
+      console.warn(`Annotation render plugin "${plugin.id}" cannot take over kinds already drawn by another plugin`, claimed)
+    }
+    this.plugins = [...remaining, plugin]
+
+    return () => {
+      this.plugins = this.plugins.filter((candidate) => candidate !== plugin)
+    }
   }
 
   resolvePlugin(annotation: AnnotationEntity) {
@@ -877,4 +1246,30 @@ export function buildParticipantRenderPrimitives(participant: ParticipantState):
       style: createTextStyle(12, '#f8fafc', 600),
     },
   ]
-}
\ No newline at end of file
+}
+
+/** Reply count pinned above the top-right corner of a shape that owns a thread; resolved threads are muted. */
+export function buildThreadBadgePrimitives(
+  thread: AnnotationThread,
+  bounds: AnnotationScreenBounds,
+  opacity = 1,
+): RenderPrimitive[] {
+  const resolved = thread.status === 'resolved'
+  return [
+    {
+      kind: 'label',
+      text: resolved ? `✓ ${thread.replyCount}` : `${thread.replyCount}`,
+      position: { x: bounds.left + bounds.width - 6, y: bounds.top - 16 },
+      paddingX: 6,
+      paddingY: 3,
+      radius: 9,
+      background: parseAnnotationColor(resolved ? '#334155' : '#f59e0b'),
+      stroke: {
+        color: parseAnnotationColor('#020617'),
+        width: 1.5,
+      },
+      style: createTextStyle(11, resolved ? '#cbd5e1' : '#111827', 700),
+      opacity,
+    },
+  ]
+}
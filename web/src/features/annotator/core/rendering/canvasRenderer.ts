@@ -3,6 +3,7 @@ import type {
   RenderLabelPrimitive,
   RenderPrimitive,
   RenderStrokeStyle,
+  RenderTextBlockPrimitive,
   RenderTextStyle,
 } from './primitives'
 import type {
@@ -12,15 +13,19 @@ import type {
 import {
   createCanvasFont,
   getLabelMeasurement,
+  getRichTextBlockRows,
   getWrappedTextBlockRows,
 } from './textLayout'
 
+/** The renderer draws the same way on a DOM canvas and on an OffscreenCanvas in a worker. */
+export type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
 function toCanvasColor(color: AnnotationColor, opacity = 1) {
   const alpha = Math.min(1, Math.max(0, color.a * opacity))
   return `rgba(${Math.round(color.r)}, ${Math.round(color.g)}, ${Math.round(color.b)}, ${alpha})`
 }
 
-function applyStroke(context: CanvasRenderingContext2D, stroke: RenderStrokeStyle | undefined, opacity: number) {
+function applyStroke(context: Canvas2DContext, stroke: RenderStrokeStyle | undefined, opacity: number) {
   if (!stroke) {
     return false
   }
@@ -33,7 +38,7 @@ function applyStroke(context: CanvasRenderingContext2D, stroke: RenderStrokeStyl
   return true
 }
 
-function applyFill(context: CanvasRenderingContext2D, fill: AnnotationColor | undefined, opacity: number) {
+function applyFill(context: Canvas2DContext, fill: AnnotationColor | undefined, opacity: number) {
   if (!fill) {
     return false
   }
@@ -42,13 +47,13 @@ function applyFill(context: CanvasRenderingContext2D, fill: AnnotationColor | un
   return true
 }
 
-function applyText(context: CanvasRenderingContext2D, style: RenderTextStyle, opacity: number) {
+function applyText(context: Canvas2DContext, style: RenderTextStyle, opacity: number) {
   context.fillStyle = toCanvasColor(style.color, opacity)
   context.font = createCanvasFont(style)
 }
 
 function roundRectPath(
-  context: CanvasRenderingContext2D,
+  context: Canvas2DContext,
   x: number,
   y: number,
   width: number,
@@ -69,10 +74,14 @@ function roundRectPath(
 }
 
 function drawWrappedTextBlock(
-  context: CanvasRenderingContext2D,
+  context: Canvas2DContext,
   primitive: Extract<RenderPrimitive, { kind: 'textBlock' }>,
   opacity: number,
 ) {
+  if (primitive.rich) {
+    drawRichTextBlock(context, primitive, primitive.rich, opacity)
+    return
+  }
   applyText(context, primitive.style, opacity)
   getWrappedTextBlockRows(primitive).forEach((line, row) => {
     if (row < primitive.maxLines) {
@@ -81,7 +90,26 @@ function drawWrappedTextBlock(
   })
 }
 
-function drawLabel(context: CanvasRenderingContext2D, primitive: RenderLabelPrimitive, opacity: number) {
+function drawRichTextBlock(
+  context: Canvas2DContext,
+  primitive: Extract<RenderPrimitive, { kind: 'textBlock' }>,
+  rich: NonNullable<RenderTextBlockPrimitive['rich']>,
+  opacity: number,
+) {
+  getRichTextBlockRows({ ...primitive, rich }).forEach((row, index) => {
+    const baseline = primitive.position.y + primitive.lineHeight * index
+    row.pieces.forEach((piece) => {
+      const x = primitive.position.x + piece.x
+      applyText(context, piece.style, opacity)
+      context.fillText(piece.text, x, baseline)
+      if (piece.underline) {
+        context.fillRect(x, baseline + Math.max(1, piece.style.fontSize * 0.12), piece.width, 1)
+      }
+    })
+  })
+}
+
+function drawLabel(context: Canvas2DContext, primitive: RenderLabelPrimitive, opacity: number) {
   context.save()
   applyText(context, primitive.style, opacity)
   const measurement = getLabelMeasurement(primitive)
@@ -107,7 +135,7 @@ function drawLabel(context: CanvasRenderingContext2D, primitive: RenderLabelPrim
 }
 
 function renderPackedBatchToCanvas(
-  context: CanvasRenderingContext2D,
+  context: Canvas2DContext,
   packed: PackedPrimitiveBatch,
   exemplar: RenderPrimitive,
 ) {
@@ -235,7 +263,7 @@ function renderPackedBatchToCanvas(
   }
 }
 
-export function renderPrimitivesToCanvas(context: CanvasRenderingContext2D, primitives: RenderPrimitive[]) {
+export function renderPrimitivesToCanvas(context: Canvas2DContext, primitives: RenderPrimitive[]) {
   primitives.forEach((primitive) => {
     const opacity = primitive.opacity ?? 1
     context.save()
@@ -336,7 +364,7 @@ export function renderPrimitivesToCanvas(context: CanvasRenderingContext2D, prim
   })
 }
 
-export function renderPrimitiveBatchesToCanvas(context: CanvasRenderingContext2D, batches: RenderPrimitiveBatch[]) {
+export function renderPrimitiveBatchesToCanvas(context: Canvas2DContext, batches: RenderPrimitiveBatch[]) {
   batches.forEach((batch) => {
     if (batch.packed && batch.primitives[0]) {
       renderPackedBatchToCanvas(context, batch.packed, batch.primitives[0])
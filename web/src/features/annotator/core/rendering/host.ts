@@ -1,3 +1,4 @@
+import { framePointToWorld } from '../annotations/geometry'
 import type { AnnotationFrame, Vec2 } from '../annotations/types'
 
 export interface ViewportSize {
@@ -9,6 +10,19 @@ export interface AnnotationProjectionHost {
   project: (frame: AnnotationFrame, localPoint: Vec2, viewport: ViewportSize) => Vec2 | null
   screenToFrameLocal: (screenPoint: Vec2, frame: AnnotationFrame, viewport: ViewportSize) => Vec2 | null
   getProjectionRevision?: () => string
+  /** Serializable copy of the current projection, for laying annotations out off the main thread. */
+  getProjectionSnapshot?: (viewport: ViewportSize) => AnnotationProjectionSnapshot | null
+}
+
+/**
+ * A host's world-to-screen projection as plain data. `matrix` is a column-major 4x4
+ * homogeneous transform from world coordinates to screen pixels; with `clipDepth` set,
+ * points whose normalized depth falls outside [-1, 1] do not project.
+ */
+export interface AnnotationProjectionSnapshot {
+  revision: string
+  matrix: number[]
+  clipDepth: boolean
 }
 
 interface CachedProjectionEntry {
@@ -128,5 +142,51 @@ export function createCachedProjectionHost(
     getProjectionRevision() {
       return projectionHost.getProjectionRevision?.() ?? ''
     },
+    getProjectionSnapshot: projectionHost.getProjectionSnapshot
+      ? (viewport) => projectionHost.getProjectionSnapshot?.(viewport) ?? null
+      : undefined,
+  }
+}
+/** Snapshot for a 2D pan/zoom view, where screen = world * scale + offset. */
+export function createPanZoomProjectionSnapshot(
+  revision: string,
+  scale: number,
+  offsetX: number,
+  offsetY: number,
+): AnnotationProjectionSnapshot {
+  return {
+    revision,
+    matrix: [scale, 0, 0, 0, 0, scale, 0, 0, 0, 0, 1, 0, offsetX, offsetY, 0, 1],
+    clipDepth: false,
+  }
+}
+
+/**
+ * Projection host replaying a snapshot, e.g. inside the overlay render worker. It only
+ * projects; screen-to-frame picking stays with the live host on the main thread.
+ */
+export function createSnapshotProjectionHost(snapshot: AnnotationProjectionSnapshot): AnnotationProjectionHost {
+  const m = snapshot.matrix
+  return {
+    project(frame, localPoint) {
+      const world = framePointToWorld(frame, localPoint)
+      const x = m[0] * world.x + m[4] * world.y + m[8] * world.z + m[12]
+      const y = m[1] * world.x + m[5] * world.y + m[9] * world.z + m[13]
+      const z = m[2] * world.x + m[6] * world.y + m[10] * world.z + m[14]
+      const w = m[3] * world.x + m[7] * world.y + m[11] * world.z + m[15]
+      if (w === 0 || !Number.isFinite(x / w) || !Number.isFinite(y / w)) {
+        return null
+      }
+      if (snapshot.clipDepth && (z / w < -1 || z / w > 1)) {
+        return null
+      }
+      return { x: x / w, y: y / w }
+    },
+    screenToFrameLocal() {
+      return null
+    },
+    getProjectionRevision() {
+      return snapshot.revision
+    },
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,92 @@
+/**
+ * Worker entry for the annotation overlay. Keeps the annotations it was sent, lays them out
+ * with the regular plugin manager and render plan against a projection snapshot, and draws
+ * through the batch renderer into the transferred OffscreenCanvas. Frames that arrive faster
+ * than the display refreshes are coalesced; only the latest one is drawn.
+ */
+import type { AnnotationEntity } from '../annotations/types'
+import { createSnapshotProjectionHost } from './host'
+import type { OverlayWorkerFrame, OverlayWorkerRequest } from './overlayWorker'
+import { buildAnnotationSceneRenderPlan } from './renderService'
+import { createAnnotationBatchRenderer, type AnnotationBatchRenderer } from './webglRenderer'
+
+const annotations = new Map<string, AnnotationEntity>()
+let canvas: OffscreenCanvas | null = null
+let context: OffscreenCanvasRenderingContext2D | null = null
+let renderer: AnnotationBatchRenderer | null = null
+let pendingFrame: OverlayWorkerFrame | null = null
+let isDrawScheduled = false
+
+function draw() {
+  isDrawScheduled = false
+  if (!canvas || !context) {
+    return
+  }
+  const frame = pendingFrame
+  if (!frame) {
+    context.setTransform(1, 0, 0, 1, 0, 0)
+    context.clearRect(0, 0, canvas.width, canvas.height)
+    return
+  }
+
+  const { viewport, pixelRatio } = frame
+  const width = Math.floor(viewport.width * pixelRatio)
+  const height = Math.floor(viewport.height * pixelRatio)
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width
+    canvas.height = height
+  }
+  context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+  context.clearRect(0, 0, viewport.width, viewport.height)
+
+  const plan = buildAnnotationSceneRenderPlan({
+    projectionHost: createSnapshotProjectionHost(frame.projection),
+    viewport,
+    annotations: frame.entries.flatMap((entry) => {
+      const annotation = annotations.get(entry.id)
+      return annotation
+        ? [{
+            annotation,
+            selected: entry.selected,
+            alphaMultiplier: entry.alphaMultiplier,
+            collapseUnselectedWorldMarker: entry.collapseUnselectedWorldMarker,
+          }]
+        : []
+    }),
+    participants: frame.participants,
+  })
+  renderer ??= createAnnotationBatchRenderer()
+  renderer.render(context, plan.batches, viewport, pixelRatio)
+}
+
+function scheduleDraw() {
+  if (isDrawScheduled) {
+    return
+  }
+  isDrawScheduled = true
+  if (typeof requestAnimationFrame === 'function') {
+    requestAnimationFrame(draw)
+  } else {
+    setTimeout(draw, 16)
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<OverlayWorkerRequest>) => {
+  const request = event.data
+  switch (request.type) {
+    case 'init':
+      canvas = request.canvas
+      context = canvas.getContext('2d')
+      if (!context) {
+        console.warn('Annotation overlay worker could not create a 2D context')
+      }
+      scheduleDraw()
+      return
+    case 'frame':
+      request.removals.forEach((id) => annotations.delete(id))
+      request.upserts.forEach((annotation) => annotations.set(annotation.id, annotation))
+      pendingFrame = request.frame
+      scheduleDraw()
+      return
+  }
+})
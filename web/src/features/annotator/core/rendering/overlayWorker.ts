@@ -0,0 +1,150 @@
+import type { AnnotationEntity, ParticipantState } from '../annotations/types'
+import type { AnnotationRenderEntry } from './annotationPlugins'
+import type { AnnotationProjectionSnapshot, ViewportSize } from './host'
+
+/** A render entry as posted to the worker; the annotation itself is referenced by id. */
+export interface OverlayWorkerEntry {
+  id: string
+  selected: boolean
+  alphaMultiplier?: number
+  collapseUnselectedWorldMarker?: boolean
+}
+
+export interface OverlayWorkerFrame {
+  viewport: ViewportSize
+  pixelRatio: number
+  projection: AnnotationProjectionSnapshot
+  entries: OverlayWorkerEntry[]
+  participants: ParticipantState[]
+}
+
+export type OverlayWorkerRequest =
+  | { type: 'init'; canvas: OffscreenCanvas }
+  | {
+      type: 'frame'
+      /** Annotations that are new or changed since the previous message. */
+      upserts: AnnotationEntity[]
+      /** Annotations no longer drawn; the worker forgets them. */
+      removals: string[]
+      /** Null clears the overlay. */
+      frame: OverlayWorkerFrame | null
+    }
+
+export interface AnnotationOverlayFrame {
+  viewport: ViewportSize
+  pixelRatio: number
+  projection: AnnotationProjectionSnapshot
+  annotations: AnnotationRenderEntry[]
+  participants: ParticipantState[]
+}
+
+/**
+ * Annotation overlay rendered by a Web Worker into its own OffscreenCanvas. Each frame
+ * posts the viewport, a projection snapshot and only the annotations whose records
+ * changed since the last frame, so large docs do not re-clone on every pan or scrub.
+ */
+export interface AnnotationOverlayWorker {
+  render(frame: AnnotationOverlayFrame): void
+  clear(): void
+  destroy(): void
+}
+
+function supportsOverlayWorker() {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof HTMLCanvasElement !== 'undefined'
+    && 'transferControlToOffscreen' in HTMLCanvasElement.prototype
+}
+
+/**
+ * Mounts a worker-driven canvas into `host`, or returns null when workers or OffscreenCanvas
+ * are unavailable. VITE_ANNOTATION_OVERLAY_WORKER=off keeps rendering on the main thread.
+ * `onError` fires once if the worker fails; the caller should fall back to drawing itself.
+ */
+export function createAnnotationOverlayWorker(host: HTMLElement, onError: () => void): AnnotationOverlayWorker | null {
+  if (import.meta.env.VITE_ANNOTATION_OVERLAY_WORKER?.trim() === 'off' || !supportsOverlayWorker()) {
+    return null
+  }
+
+  // The canvas is created here rather than by React: control can only be transferred once
+  // per element, and a fresh element per worker keeps remounts safe.
+  const canvas = document.createElement('canvas')
+  canvas.className = 'viewer-canvas__worker-surface'
+  let worker: Worker
+  try {
+    worker = new Worker(new URL('./overlayRenderWorker.ts', import.meta.url), { type: 'module' })
+    const offscreen = canvas.transferControlToOffscreen()
+    worker.postMessage({ type: 'init', canvas: offscreen } satisfies OverlayWorkerRequest, [offscreen])
+  } catch (error) {
+    console.warn('Annotation overlay worker unavailable; rendering on the main thread', error)
+    return null
+  }
+  host.appendChild(canvas)
+
+  const sent = new Map<string, AnnotationEntity>()
+  let failed = false
+  worker.addEventListener('error', (event) => {
+    console.warn('Annotation overlay worker failed; rendering on the main thread', event.message)
+    if (!failed) {
+      failed = true
+      canvas.remove()
+      onError()
+    }
+  })
+
+  function post(request: OverlayWorkerRequest) {
+    if (!failed) {
+      worker.postMessage(request)
+    }
+  }
+
+  return {
+    render(frame) {
+      const upserts: AnnotationEntity[] = []
+      const drawnIds = new Set<string>()
+      const entries = frame.annotations.map((entry) => {
+        const { annotation } = entry
+        drawnIds.add(annotation.id)
+        if (sent.get(annotation.id) !== annotation) {
+          sent.set(annotation.id, annotation)
+          upserts.push(annotation)
+        }
+        return {
+          id: annotation.id,
+          selected: entry.selected,
+          alphaMultiplier: entry.alphaMultiplier,
+          collapseUnselectedWorldMarker: entry.collapseUnselectedWorldMarker,
+        }
+      })
+      const removals: string[] = []
+      sent.forEach((_annotation, id) => {
+        if (!drawnIds.has(id)) {
+          removals.push(id)
+        }
+      })
+      removals.forEach((id) => sent.delete(id))
+
+      post({
+        type: 'frame',
+        upserts,
+        removals,
+        frame: {
+          viewport: frame.viewport,
+          pixelRatio: frame.pixelRatio,
+          projection: frame.projection,
+          entries,
+          participants: frame.participants,
+        },
+      })
+    },
+    clear() {
+      post({ type: 'frame', upserts: [], removals: [], frame: null })
+    },
+    destroy() {
+      failed = true
+      worker.terminate()
+      canvas.remove()
+      sent.clear()
+    },
+  }
+}
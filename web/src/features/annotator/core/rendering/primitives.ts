@@ -1,4 +1,4 @@
-import type { Vec2 } from '../annotations/types'
+import type { RichText, Vec2 } from '../annotations/types'
 import type { AnnotationColor } from '../annotations/schema'
 
 export interface RenderStrokeStyle {
@@ -13,6 +13,7 @@ export interface RenderTextStyle {
   color: AnnotationColor
   fontSize: number
   fontWeight?: number
+  fontStyle?: 'normal' | 'italic'
   fontFamily?: string
 }
 
@@ -73,6 +74,8 @@ export interface RenderTextPrimitive extends RenderPrimitiveBase {
 export interface RenderTextBlockPrimitive extends RenderPrimitiveBase {
   kind: 'textBlock'
   lines: string[]
+  /** Formatted paragraphs drawn instead of `lines`; `style` is the unmarked run style. */
+  rich?: RichText
   position: Vec2
   maxWidth: number
   lineHeight: number
@@ -3,6 +3,7 @@ import type { AnnotationProjectionHost, ViewportSize } from './host'
 import {
   defaultAnnotationRenderPluginManager,
   buildParticipantRenderPrimitives,
+  buildThreadBadgePrimitives,
   type AnnotationRenderEntry,
   type AnnotationRenderPluginManager,
 } from './annotationPlugins'
@@ -229,6 +230,16 @@ export function buildAnnotationSceneRenderPlan(options: {
 
   flushRun(primitives, run, runKey, options.projectionHost, options.viewport, pluginManager)
 
+  // Thread badges go above every shape so overlapping markup cannot hide them.
+  const context = { projectionHost: options.projectionHost, viewport: options.viewport }
+  options.annotations.forEach((entry) => {
+    const thread = entry.annotation.thread
+    const bounds = thread ? pluginManager.getScreenBounds(entry, context) : null
+    if (thread && bounds) {
+      primitives.push(...buildThreadBadgePrimitives(thread, bounds, entry.alphaMultiplier ?? 1))
+    }
+  })
+
   options.participants?.forEach((participant) => {
     primitives.push(...buildParticipantRenderPrimitives(participant))
   })
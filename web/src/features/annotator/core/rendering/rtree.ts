@@ -0,0 +1,327 @@
+import type { Vec2 } from '../annotations/types'
+
+export interface RTreeBox {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+export interface RTreeItem<T> extends RTreeBox {
+  value: T
+}
+
+interface RTreeNode<T> extends RTreeBox {
+  /** 1 for nodes whose children are items. */
+  height: number
+  children: Array<RTreeNode<T> | RTreeItem<T>>
+}
+
+/**
+ * A dynamic R-tree over axis-aligned boxes. Items can be inserted and removed one at a
+ * time, with overfull nodes split along the axis of least margin as in R*-trees, or bulk
+ * loaded with Sort-Tile-Recursive packing when everything changes at once.
+ */
+export interface RTree<T> {
+  insert: (item: RTreeItem<T>) => void
+  /** Remove by identity; returns false when the item is not in the tree. */
+  remove: (item: RTreeItem<T>) => boolean
+  /** Replace the whole contents. */
+  load: (items: RTreeItem<T>[]) => void
+  clear: () => void
+  search: (box: RTreeBox) => RTreeItem<T>[]
+  /** Items ordered by distance from `point` to their box, up to `limit` and `maxDistance`. */
+  nearest: (point: Vec2, limit?: number, maxDistance?: number) => RTreeItem<T>[]
+  size: () => number
+}
+
+function createNode<T>(children: Array<RTreeNode<T> | RTreeItem<T>>, height: number): RTreeNode<T> {
+  const node: RTreeNode<T> = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity, height, children }
+  refreshBox(node)
+  return node
+}
+
+function refreshBox<T>(node: RTreeNode<T>) {
+  node.minX = Infinity
+  node.minY = Infinity
+  node.maxX = -Infinity
+  node.maxY = -Infinity
+  node.children.forEach((child) => extend(node, child))
+}
+
+function extend(target: RTreeBox, box: RTreeBox) {
+  target.minX = Math.min(target.minX, box.minX)
+  target.minY = Math.min(target.minY, box.minY)
+  target.maxX = Math.max(target.maxX, box.maxX)
+  target.maxY = Math.max(target.maxY, box.maxY)
+}
+
+function area(box: RTreeBox) {
+  return (box.maxX - box.minX) * (box.maxY - box.minY)
+}
+
+function margin(box: RTreeBox) {
+  return (box.maxX - box.minX) + (box.maxY - box.minY)
+}
+
+function enlargedArea(box: RTreeBox, addition: RTreeBox) {
+  return (Math.max(addition.maxX, box.maxX) - Math.min(addition.minX, box.minX))
+    * (Math.max(addition.maxY, box.maxY) - Math.min(addition.minY, box.minY))
+}
+
+function intersectionArea(a: RTreeBox, b: RTreeBox) {
+  const width = Math.min(a.maxX, b.maxX) - Math.max(a.minX, b.minX)
+  const height = Math.min(a.maxY, b.maxY) - Math.max(a.minY, b.minY)
+  return Math.max(0, width) * Math.max(0, height)
+}
+
+export function boxesIntersect(a: RTreeBox, b: RTreeBox) {
+  return a.minX <= b.maxX && a.minY <= b.maxY && a.maxX >= b.minX && a.maxY >= b.minY
+}
+
+function boxContains(outer: RTreeBox, inner: RTreeBox) {
+  return outer.minX <= inner.minX && outer.minY <= inner.minY && outer.maxX >= inner.maxX && outer.maxY >= inner.maxY
+}
+
+function distanceToBox(point: Vec2, box: RTreeBox) {
+  const dx = Math.max(box.minX - point.x, 0, point.x - box.maxX)
+  const dy = Math.max(box.minY - point.y, 0, point.y - box.maxY)
+  return Math.hypot(dx, dy)
+}
+
+function boundsOf<T>(children: Array<RTreeNode<T> | RTreeItem<T>>, start: number, end: number): RTreeBox {
+  const box = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+  for (let index = start; index < end; index += 1) {
+    extend(box, children[index])
+  }
+  return box
+}
+
+export function createRTree<T>(maxEntries = 9): RTree<T> {
+  const maxChildren = Math.max(4, maxEntries)
+  const minChildren = Math.max(2, Math.ceil(maxChildren * 0.4))
+  let root = createNode<T>([], 1)
+  let count = 0
+
+  function chooseSubtree(box: RTreeBox, path: RTreeNode<T>[]) {
+    let node = root
+    path.push(node)
+    while (node.height > 1) {
+      let best: RTreeNode<T> | null = null
+      let bestEnlargement = Infinity
+      let bestArea = Infinity
+      for (const child of node.children as RTreeNode<T>[]) {
+        const childArea = area(child)
+        const enlargement = enlargedArea(child, box) - childArea
+        if (enlargement < bestEnlargement || (enlargement === bestEnlargement && childArea < bestArea)) {
+          best = child
+          bestEnlargement = enlargement
+          bestArea = childArea
+        }
+      }
+      node = best ?? (node.children[0] as RTreeNode<T>)
+      path.push(node)
+    }
+    return node
+  }
+
+  /** Sorts the children along the axis whose distributions have the least total margin. */
+  function sortBySplitAxis(node: RTreeNode<T>) {
+    const children = node.children
+    const sumMargins = (compare: (a: RTreeBox, b: RTreeBox) => number) => {
+      children.sort(compare)
+      let total = 0
+      for (let index = minChildren; index <= children.length - minChildren; index += 1) {
+        total += margin(boundsOf(children, 0, index)) + margin(boundsOf(children, index, children.length))
+      }
+      return total
+    }
+    const byX = (a: RTreeBox, b: RTreeBox) => a.minX - b.minX
+    const byY = (a: RTreeBox, b: RTreeBox) => a.minY - b.minY
+    if (sumMargins(byX) < sumMargins(byY)) {
+      children.sort(byX)
+    }
+  }
+
+  /** Index that splits the sorted children with the least overlap, then the least area. */
+  function chooseSplitIndex(node: RTreeNode<T>) {
+    const children = node.children
+    let bestIndex = children.length - minChildren
+    let bestOverlap = Infinity
+    let bestArea = Infinity
+    for (let index = minChildren; index <= children.length - minChildren; index += 1) {
+      const left = boundsOf(children, 0, index)
+      const right = boundsOf(children, index, children.length)
+      const overlap = intersectionArea(left, right)
+      const combinedArea = area(left) + area(right)
+      if (overlap < bestOverlap || (overlap === bestOverlap && combinedArea < bestArea)) {
+        bestIndex = index
+        bestOverlap = overlap
+        bestArea = combinedArea
+      }
+    }
+    return bestIndex
+  }
+
+  function split(path: RTreeNode<T>[], level: number) {
+    const node = path[level]
+    sortBySplitAxis(node)
+    const splitIndex = chooseSplitIndex(node)
+    const sibling = createNode(node.children.splice(splitIndex), node.height)
+    refreshBox(node)
+    if (level > 0) {
+      path[level - 1].children.push(sibling)
+    } else {
+      root = createNode([node, sibling], node.height + 1)
+    }
+  }
+
+  function insert(item: RTreeItem<T>) {
+    const path: RTreeNode<T>[] = []
+    const leaf = chooseSubtree(item, path)
+    leaf.children.push(item)
+    path.forEach((node) => extend(node, item))
+    for (let level = path.length - 1; level >= 0 && path[level].children.length > maxChildren; level -= 1) {
+      split(path, level)
+    }
+    count += 1
+  }
+
+  /** Fills `path` with the nodes from `node` down to the leaf holding `item`. */
+  function findPath(node: RTreeNode<T>, item: RTreeItem<T>, path: RTreeNode<T>[]): boolean {
+    path.push(node)
+    if (node.height === 1) {
+      if (node.children.includes(item)) {
+        return true
+      }
+    } else if ((node.children as RTreeNode<T>[]).some((child) => boxContains(child, item) && findPath(child, item, path))) {
+      return true
+    }
+    path.pop()
+    return false
+  }
+
+  function remove(item: RTreeItem<T>) {
+    const path: RTreeNode<T>[] = []
+    if (!findPath(root, item, path)) {
+      return false
+    }
+    const leaf = path[path.length - 1]
+    leaf.children.splice(leaf.children.indexOf(item), 1)
+    condense(path)
+    count -= 1
+    return true
+  }
+
+  /** Drop emptied nodes along `path` and shrink the boxes of the rest. */
+  function condense(path: RTreeNode<T>[]) {
+    for (let level = path.length - 1; level >= 0; level -= 1) {
+      const node = path[level]
+      if (node.children.length === 0 && level > 0) {
+        const siblings = path[level - 1].children
+        siblings.splice(siblings.indexOf(node), 1)
+      } else {
+        refreshBox(node)
+      }
+    }
+    while (root.height > 1 && root.children.length === 1) {
+      root = root.children[0] as RTreeNode<T>
+    }
+    if (root.children.length === 0) {
+      root = createNode<T>([], 1)
+    }
+  }
+
+  /** Sort-Tile-Recursive: tile by x, then by y inside each vertical slice. */
+  function packLevel(children: Array<RTreeNode<T> | RTreeItem<T>>, height: number) {
+    const centerX = (box: RTreeBox) => box.minX + box.maxX
+    const centerY = (box: RTreeBox) => box.minY + box.maxY
+    const sorted = [...children].sort((a, b) => centerX(a) - centerX(b))
+    const nodeCount = Math.ceil(sorted.length / maxChildren)
+    const sliceSize = maxChildren * Math.ceil(Math.sqrt(nodeCount))
+    const nodes: RTreeNode<T>[] = []
+    for (let sliceStart = 0; sliceStart < sorted.length; sliceStart += sliceSize) {
+      const slice = sorted.slice(sliceStart, sliceStart + sliceSize).sort((a, b) => centerY(a) - centerY(b))
+      for (let start = 0; start < slice.length; start += maxChildren) {
+        nodes.push(createNode(slice.slice(start, start + maxChildren), height))
+      }
+    }
+    return nodes
+  }
+
+  function load(items: RTreeItem<T>[]) {
+    count = items.length
+    if (items.length === 0) {
+      root = createNode<T>([], 1)
+      return
+    }
+    let nodes = packLevel(items, 1)
+    let height = 1
+    while (nodes.length > 1) {
+      height += 1
+      nodes = packLevel(nodes, height)
+    }
+    root = nodes[0]
+  }
+
+  function search(box: RTreeBox) {
+    const matches: RTreeItem<T>[] = []
+    if (!boxesIntersect(root, box)) {
+      return matches
+    }
+    const stack: RTreeNode<T>[] = [root]
+    while (stack.length > 0) {
+      const node = stack.pop()!
+      for (const child of node.children) {
+        if (!boxesIntersect(child, box)) {
+          continue
+        }
+        if (node.height === 1) {
+          matches.push(child as RTreeItem<T>)
+        } else {
+          stack.push(child as RTreeNode<T>)
+        }
+      }
+    }
+    return matches
+  }
+
+  function nearest(point: Vec2, limit = 1, maxDistance = Infinity) {
+    // Best-first traversal; the queue is small, so a sorted array is enough.
+    const queue: Array<{ distance: number; node?: RTreeNode<T>; item?: RTreeItem<T> }> = [{ distance: 0, node: root }]
+    const results: RTreeItem<T>[] = []
+    while (queue.length > 0 && results.length < limit) {
+      const next = queue.shift()!
+      if (next.distance > maxDistance) {
+        break
+      }
+      if (next.item) {
+        results.push(next.item)
+        continue
+      }
+      const node = next.node!
+      node.children.forEach((child) => {
+        const distance = distanceToBox(point, child)
+        const entry = node.height === 1
+          ? { distance, item: child as RTreeItem<T> }
+          : { distance, node: child as RTreeNode<T> }
+        let index = queue.findIndex((queued) => queued.distance > distance)
+        if (index === -1) {
+          index = queue.length
+        }
+        queue.splice(index, 0, entry)
+      })
+    }
+    return results
+  }
+
+  return {
+    insert,
+    remove,
+    load,
+    clear: () => load([]),
+    search,
+    nearest,
+    size: () => count,
+  }
+}
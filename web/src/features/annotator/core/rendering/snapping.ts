@@ -0,0 +1,149 @@
+import type { Vec2 } from '../annotations/types'
+import { parseAnnotationColor } from '../annotations/schema'
+import type { RenderPrimitive } from './primitives'
+import type { RTreeBox } from './rtree'
+
+/** Which targets drawing and dragging snap to. */
+export interface SnapSettings {
+  /** Other annotations' edges and centers. */
+  objects: boolean
+  /** Whole image pixels. */
+  pixelGrid: boolean
+  /** The image's edges and center lines. */
+  imageEdges: boolean
+  /** 15 degree increments for arrows, callouts and measurements. */
+  angle: boolean
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  objects: true,
+  pixelGrid: false,
+  imageEdges: true,
+  angle: true,
+}
+
+/** Screen distance within which a point or edge is pulled onto a target line. */
+export const SNAP_THRESHOLD_PX = 6
+
+export const SNAP_ANGLE_STEP = Math.PI / 12
+
+/** A screen-space line a point can snap to; `from`/`to` span the feature that contributed it. */
+export interface SnapLine {
+  position: number
+  from: number
+  to: number
+}
+
+export interface SnapLines {
+  /** Lines of constant x. */
+  vertical: SnapLine[]
+  /** Lines of constant y. */
+  horizontal: SnapLine[]
+}
+
+/** A guide drawn while a snap is active, spanning the target and the snapped point or box. */
+export interface SnapGuide {
+  axis: 'vertical' | 'horizontal'
+  position: number
+  from: number
+  to: number
+}
+
+interface AxisMatch {
+  line: SnapLine
+  delta: number
+}
+
+export function createSnapLines(): SnapLines {
+  return { vertical: [], horizontal: [] }
+}
+
+/** Add the edges and center lines of each box. */
+export function addBoxSnapLines(lines: SnapLines, boxes: RTreeBox[]) {
+  boxes.forEach((box) => {
+    const centerX = (box.minX + box.maxX) / 2
+    const centerY = (box.minY + box.maxY) / 2
+    for (const position of [box.minX, centerX, box.maxX]) {
+      lines.vertical.push({ position, from: box.minY, to: box.maxY })
+    }
+    for (const position of [box.minY, centerY, box.maxY]) {
+      lines.horizontal.push({ position, from: box.minX, to: box.maxX })
+    }
+  })
+  return lines
+}
+
+/** The closest line to any of `positions`, as the offset that moves onto it. */
+function findAxisMatch(positions: number[], lines: SnapLine[], threshold: number): AxisMatch | null {
+  let best: AxisMatch | null = null
+  positions.forEach((position) => {
+    lines.forEach((line) => {
+      const delta = line.position - position
+      if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+        best = { line, delta }
+      }
+    })
+  })
+  return best
+}
+
+function toGuide(axis: SnapGuide['axis'], match: AxisMatch, from: number, to: number): SnapGuide {
+  return {
+    axis,
+    position: match.line.position,
+    from: Math.min(match.line.from, from),
+    to: Math.max(match.line.to, to),
+  }
+}
+
+/** Pull a point onto the nearest vertical and horizontal lines within `threshold`. */
+export function snapPointToLines(point: Vec2, lines: SnapLines, threshold = SNAP_THRESHOLD_PX) {
+  const matchX = findAxisMatch([point.x], lines.vertical, threshold)
+  const matchY = findAxisMatch([point.y], lines.horizontal, threshold)
+  const snapped = { x: point.x + (matchX?.delta ?? 0), y: point.y + (matchY?.delta ?? 0) }
+  const guides: SnapGuide[] = []
+  if (matchX) {
+    guides.push(toGuide('vertical', matchX, snapped.y, snapped.y))
+  }
+  if (matchY) {
+    guides.push(toGuide('horizontal', matchY, snapped.x, snapped.x))
+  }
+  return { point: snapped, guides, snappedX: Boolean(matchX), snappedY: Boolean(matchY) }
+}
+
+/** Offset that brings the box's nearest edge or center onto a line within `threshold`. */
+export function snapBoxToLines(box: RTreeBox, lines: SnapLines, threshold = SNAP_THRESHOLD_PX) {
+  const matchX = findAxisMatch([box.minX, (box.minX + box.maxX) / 2, box.maxX], lines.vertical, threshold)
+  const matchY = findAxisMatch([box.minY, (box.minY + box.maxY) / 2, box.maxY], lines.horizontal, threshold)
+  const offset = { x: matchX?.delta ?? 0, y: matchY?.delta ?? 0 }
+  const guides: SnapGuide[] = []
+  if (matchX) {
+    guides.push(toGuide('vertical', matchX, box.minY + offset.y, box.maxY + offset.y))
+  }
+  if (matchY) {
+    guides.push(toGuide('horizontal', matchY, box.minX + offset.x, box.maxX + offset.x))
+  }
+  return { offset, guides, snappedX: Boolean(matchX), snappedY: Boolean(matchY) }
+}
+
+/** Rotate `to` about `from` onto the nearest multiple of `step`, keeping its length. */
+export function snapSegmentAngle(from: Vec2, to: Vec2, step = SNAP_ANGLE_STEP): Vec2 {
+  const length = Math.hypot(to.x - from.x, to.y - from.y)
+  if (length === 0) {
+    return to
+  }
+  const angle = Math.round(Math.atan2(to.y - from.y, to.x - from.x) / step) * step
+  return { x: from.x + Math.cos(angle) * length, y: from.y + Math.sin(angle) * length }
+}
+
+const GUIDE_COLOR = parseAnnotationColor('#f472b6')
+
+export function buildSnapGuidePrimitives(guides: SnapGuide[]): RenderPrimitive[] {
+  return guides.map((guide) => ({
+    kind: 'line',
+    start: guide.axis === 'vertical' ? { x: guide.position, y: guide.from } : { x: guide.from, y: guide.position },
+    end: guide.axis === 'vertical' ? { x: guide.position, y: guide.to } : { x: guide.to, y: guide.position },
+    stroke: { color: GUIDE_COLOR, width: 1, dash: [4, 3] },
+    opacity: 0.9,
+  }))
+}
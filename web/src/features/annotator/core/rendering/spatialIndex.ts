@@ -1,3 +1,4 @@
+import { pointInPolygon } from '../annotations/geometry'
 import type { Vec2 } from '../annotations/types'
 import {
   defaultAnnotationRenderPluginManager,
@@ -5,83 +6,216 @@ import {
   type AnnotationRenderEntry,
   type AnnotationRenderPluginManager,
 } from './annotationPlugins'
+import { createRTree, type RTreeBox, type RTreeItem } from './rtree'
 
 interface IndexedAnnotationEntry {
   entry: AnnotationRenderEntry
   order: number
+  /** Null when the annotation has no screen bounds (e.g. behind the camera). */
+  item: RTreeItem<IndexedAnnotationEntry> | null
 }
 
+/** Screen-space queries over the drawn annotations. */
 export interface AnnotationSpatialIndex {
+  /** Candidates under `point`, topmost first; callers confirm with the plugin hit test. */
   queryPoint: (point: Vec2) => AnnotationRenderEntry[]
+  /** Entries whose screen bounds intersect the rectangle, in draw order. */
+  queryRect: (rect: RTreeBox) => AnnotationRenderEntry[]
+  /** Entries whose screen bounds intersect the closed polygon (a lasso), in draw order. */
+  queryPolygon: (polygon: Vec2[]) => AnnotationRenderEntry[]
+  /** The entry whose screen bounds lie closest to `point`, within `maxDistance` pixels. */
+  nearest: (point: Vec2, maxDistance?: number) => AnnotationRenderEntry | undefined
 }
 
-function getCellKey(column: number, row: number) {
-  return `${column}:${row}`
+export interface IncrementalAnnotationSpatialIndex extends AnnotationSpatialIndex {
+  /**
+   * Bring the index in line with `entries`. While the projection is unchanged only the
+   * entries whose annotation or selection changed are re-indexed; a new projection host,
+   * viewport size or `revision` (bumped by pan, zoom or camera moves) reloads everything.
+   */
+  update: (entries: AnnotationRenderEntry[], context: AnnotationRenderContext, revision?: number) => void
 }
 
-export function buildAnnotationSpatialIndex(options: {
-  entries: AnnotationRenderEntry[]
-  context: AnnotationRenderContext
+function segmentsIntersect(a: Vec2, b: Vec2, c: Vec2, d: Vec2) {
+  const cross = (origin: Vec2, first: Vec2, second: Vec2) =>
+    (first.x - origin.x) * (second.y - origin.y) - (first.y - origin.y) * (second.x - origin.x)
+  const d1 = cross(c, d, a)
+  const d2 = cross(c, d, b)
+  const d3 = cross(a, b, c)
+  const d4 = cross(a, b, d)
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))
+}
+
+function boxIntersectsPolygon(box: RTreeBox, polygon: Vec2[]) {
+  const corners = [
+    { x: box.minX, y: box.minY },
+    { x: box.maxX, y: box.minY },
+    { x: box.maxX, y: box.maxY },
+    { x: box.minX, y: box.maxY },
+  ]
+  if (polygon.some((point) => point.x >= box.minX && point.x <= box.maxX && point.y >= box.minY && point.y <= box.maxY)) {
+    return true
+  }
+  if (corners.some((corner) => pointInPolygon(corner, polygon))) {
+    return true
+  }
+  return polygon.some((point, index) => {
+    const next = polygon[(index + 1) % polygon.length]
+    return corners.some((corner, cornerIndex) => segmentsIntersect(point, next, corner, corners[(cornerIndex + 1) % 4]))
+  })
+}
+
+function isSameEntry(left: AnnotationRenderEntry, right: AnnotationRenderEntry) {
+  return left.annotation === right.annotation
+    && left.selected === right.selected
+    && left.alphaMultiplier === right.alphaMultiplier
+    && left.collapseUnselectedWorldMarker === right.collapseUnselectedWorldMarker
+}
+
+function byDrawOrder(left: IndexedAnnotationEntry, right: IndexedAnnotationEntry) {
+  return left.order - right.order
+}
+
+/** An R-tree of annotation screen bounds that is kept up to date across renders. */
+export function createAnnotationSpatialIndex(options: {
   pluginManager?: AnnotationRenderPluginManager
-  cellSize?: number
-}): AnnotationSpatialIndex {
+} = {}): IncrementalAnnotationSpatialIndex {
   const pluginManager = options.pluginManager ?? defaultAnnotationRenderPluginManager
-  const cellSize = options.cellSize ?? 128
-  const buckets = new Map<string, IndexedAnnotationEntry[]>()
-  const overflow: IndexedAnnotationEntry[] = []
+  const tree = createRTree<IndexedAnnotationEntry>()
+  let indexed = new Map<string, IndexedAnnotationEntry>()
+  const unbounded = new Set<IndexedAnnotationEntry>()
+  let lastContext: AnnotationRenderContext | null = null
+  let lastRevision: number | undefined
 
-  options.entries.forEach((entry, order) => {
-    const bounds = pluginManager.getScreenBounds(entry, options.context)
-    const indexedEntry = { entry, order }
-    if (!bounds || bounds.width <= 0 || bounds.height <= 0) {
-      overflow.push(indexedEntry)
-      return
+  function measure(indexedEntry: IndexedAnnotationEntry, context: AnnotationRenderContext) {
+    const bounds = pluginManager.getScreenBounds(indexedEntry.entry, context)
+    indexedEntry.item = bounds
+      ? {
+          minX: bounds.left,
+          minY: bounds.top,
+          maxX: bounds.left + bounds.width,
+          maxY: bounds.top + bounds.height,
+          value: indexedEntry,
+        }
+      : null
+    if (!indexedEntry.item) {
+      unbounded.add(indexedEntry)
     }
+    return indexedEntry.item
+  }
 
-    const minColumn = Math.floor(bounds.left / cellSize)
-    const maxColumn = Math.floor((bounds.left + bounds.width) / cellSize)
-    const minRow = Math.floor(bounds.top / cellSize)
-    const maxRow = Math.floor((bounds.top + bounds.height) / cellSize)
+  function forget(indexedEntry: IndexedAnnotationEntry) {
+    if (indexedEntry.item) {
+      tree.remove(indexedEntry.item)
+    }
+    unbounded.delete(indexedEntry)
+  }
 
-    for (let column = minColumn; column <= maxColumn; column += 1) {
-      for (let row = minRow; row <= maxRow; row += 1) {
-        const key = getCellKey(column, row)
-        const bucket = buckets.get(key)
-        if (bucket) {
-          bucket.push(indexedEntry)
-        } else {
-          buckets.set(key, [indexedEntry])
-        }
+  function reload(entries: AnnotationRenderEntry[], context: AnnotationRenderContext) {
+    indexed = new Map()
+    unbounded.clear()
+    const items: RTreeItem<IndexedAnnotationEntry>[] = []
+    entries.forEach((entry, order) => {
+      const indexedEntry: IndexedAnnotationEntry = { entry, order, item: null }
+      indexed.set(entry.annotation.id, indexedEntry)
+      const item = measure(indexedEntry, context)
+      if (item) {
+        items.push(item)
       }
-    }
-  })
+    })
+    tree.load(items)
+  }
+
+  function patch(entries: AnnotationRenderEntry[], context: AnnotationRenderContext) {
+    const next = new Map<string, IndexedAnnotationEntry>()
+    entries.forEach((entry, order) => {
+      const previous = indexed.get(entry.annotation.id)
+      if (previous && isSameEntry(previous.entry, entry)) {
+        previous.entry = entry
+        previous.order = order
+        next.set(entry.annotation.id, previous)
+        return
+      }
+      if (previous) {
+        forget(previous)
+      }
+      const indexedEntry: IndexedAnnotationEntry = { entry, order, item: null }
+      const item = measure(indexedEntry, context)
+      if (item) {
+        tree.insert(item)
+      }
+      next.set(entry.annotation.id, indexedEntry)
+    })
+    indexed.forEach((indexedEntry, id) => {
+      if (next.get(id) !== indexedEntry) {
+        forget(indexedEntry)
+      }
+    })
+    indexed = next
+  }
+
+  function toEntries(matches: IndexedAnnotationEntry[]) {
+    return matches.sort(byDrawOrder).map((match) => match.entry)
+  }
 
   return {
+    update(entries, context, revision) {
+      const projectionChanged = !lastContext
+        || lastContext.projectionHost !== context.projectionHost
+        || lastContext.viewport.width !== context.viewport.width
+        || lastContext.viewport.height !== context.viewport.height
+        || lastRevision !== revision
+      lastContext = context
+      lastRevision = revision
+      if (projectionChanged) {
+        reload(entries, context)
+      } else {
+        patch(entries, context)
+      }
+    },
     queryPoint(point) {
-      const key = getCellKey(Math.floor(point.x / cellSize), Math.floor(point.y / cellSize))
-      const bucket = buckets.get(key) ?? []
-      const seen = new Set<number>()
-      const matches: IndexedAnnotationEntry[] = []
-
-      for (let index = bucket.length - 1; index >= 0; index -= 1) {
-        const candidate = bucket[index]
-        if (seen.has(candidate.order)) {
-          continue
-        }
-        seen.add(candidate.order)
-        matches.push(candidate)
+      const matches = tree
+        .search({ minX: point.x, minY: point.y, maxX: point.x, maxY: point.y })
+        .map((item) => item.value)
+      // Unprojectable entries stay candidates; their own hit test decides.
+      return toEntries([...matches, ...unbounded]).reverse()
+    },
+    queryRect(rect) {
+      const box = {
+        minX: Math.min(rect.minX, rect.maxX),
+        minY: Math.min(rect.minY, rect.maxY),
+        maxX: Math.max(rect.minX, rect.maxX),
+        maxY: Math.max(rect.minY, rect.maxY),
       }
-
-      for (let index = overflow.length - 1; index >= 0; index -= 1) {
-        const candidate = overflow[index]
-        if (seen.has(candidate.order)) {
-          continue
-        }
-        seen.add(candidate.order)
-        matches.push(candidate)
+      return toEntries(tree.search(box).map((item) => item.value))
+    },
+    queryPolygon(polygon) {
+      if (polygon.length < 3) {
+        return []
       }
-
-      return matches.map((candidate) => candidate.entry)
+      const xs = polygon.map((point) => point.x)
+      const ys = polygon.map((point) => point.y)
+      const box = { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) }
+      return toEntries(
+        tree
+          .search(box)
+          .filter((item) => boxIntersectsPolygon(item, polygon))
+          .map((item) => item.value),
+      )
+    },
+    nearest(point, maxDistance = Infinity) {
+      return tree.nearest(point, 1, maxDistance)[0]?.value.entry
     },
   }
-}
\ No newline at end of file
+}
+
+/** One-off index over `entries`; use createAnnotationSpatialIndex to keep one across renders. */
+export function buildAnnotationSpatialIndex(options: {
+  entries: AnnotationRenderEntry[]
+  context: AnnotationRenderContext
+  pluginManager?: AnnotationRenderPluginManager
+}): AnnotationSpatialIndex {
+  const index = createAnnotationSpatialIndex({ pluginManager: options.pluginManager })
+  index.update(options.entries, options.context)
+  return index
+}
@@ -1,4 +1,5 @@
-import type { Vec2 } from '../annotations/types'
+import { parseAnnotationColor } from '../annotations/schema'
+import type { RichText, RichTextRun, Vec2 } from '../annotations/types'
 import type {
   RenderLabelPrimitive,
   RenderTextBlockPrimitive,
@@ -25,8 +26,26 @@ const LABEL_MEASUREMENT_CACHE_LIMIT = 512
 const textMetricCache = new Map<string, MeasuredTextMetrics>()
 const wrappedTextCache = new Map<string, string[]>()
 const labelMeasurementCache = new Map<string, LabelMeasurement>()
+const richTextRowCache = new Map<string, RichTextRow[]>()
 
-let measurementContext: CanvasRenderingContext2D | null | undefined
+const LINK_COLOR = '#38bdf8'
+const MENTION_COLOR = '#5eead4'
+
+/** A stretch of one row drawn with one style, `x` measured from the block's left edge. */
+export interface RichTextPiece {
+  text: string
+  x: number
+  width: number
+  style: RenderTextStyle
+  underline: boolean
+}
+
+export interface RichTextRow {
+  pieces: RichTextPiece[]
+  width: number
+}
+
+let measurementContext: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null | undefined
 
 function rememberCachedValue<T>(cache: Map<string, T>, key: string, value: T, limit: number) {
   cache.set(key, value)
@@ -47,7 +66,8 @@ function getMeasurementContext() {
   }
 
   if (typeof document === 'undefined') {
-    measurementContext = null
+    // Inside the overlay render worker there is no DOM, but OffscreenCanvas measures the same way.
+    measurementContext = typeof OffscreenCanvas === 'undefined' ? null : new OffscreenCanvas(1, 1).getContext('2d')
     return measurementContext
   }
 
@@ -56,7 +76,8 @@ function getMeasurementContext() {
 }
 
 export function createCanvasFont(style: RenderTextStyle) {
-  return `${style.fontWeight ?? 500} ${style.fontSize}px ${style.fontFamily ?? 'Inter, system-ui, sans-serif'}`
+  const fontStyle = style.fontStyle === 'italic' ? 'italic ' : ''
+  return `${fontStyle}${style.fontWeight ?? 500} ${style.fontSize}px ${style.fontFamily ?? 'Inter, system-ui, sans-serif'}`
 }
 
 export function measureTextMetrics(text: string, style: RenderTextStyle): MeasuredTextMetrics {
@@ -194,4 +215,107 @@ export function getTextBounds(text: string, position: Vec2, style: RenderTextSty
     width: metrics.width,
     height: metrics.ascent + metrics.descent,
   }
-}
\ No newline at end of file
+}
+function getRunStyle(run: RichTextRun, base: RenderTextStyle): RenderTextStyle {
+  let color = base.color
+  if (run.mention) {
+    color = parseAnnotationColor(MENTION_COLOR)
+  } else if (run.href) {
+    color = parseAnnotationColor(LINK_COLOR)
+  } else if (run.color) {
+    color = parseAnnotationColor(run.color)
+  }
+  return {
+    ...base,
+    color,
+    fontWeight: run.bold || run.mention ? 700 : base.fontWeight,
+    fontStyle: run.italic ? 'italic' : base.fontStyle,
+  }
+}
+
+/**
+ * Lay formatted paragraphs out in rows no wider than `maxWidth`, wrapping between words
+ * across run boundaries. Bullets are indented by their nesting depth and wrapped bullet
+ * text hangs under the first word.
+ */
+export function getRichTextBlockRows(options: {
+  rich: RichText
+  maxWidth: number
+  maxLines: number
+  style: RenderTextStyle
+}) {
+  const cacheKey = JSON.stringify({
+    rich: options.rich,
+    maxWidth: options.maxWidth,
+    maxLines: options.maxLines,
+    font: createCanvasFont(options.style),
+    color: options.style.color,
+  })
+  const cached = richTextRowCache.get(cacheKey)
+  if (cached) {
+    return cached
+  }
+
+  const indentWidth = options.style.fontSize * 1.25
+  const bulletWidth = options.style.fontSize * 0.9
+  const rows: RichTextRow[] = []
+  for (const paragraph of options.rich) {
+    if (rows.length >= options.maxLines) {
+      break
+    }
+    const left = paragraph.bullet ? (paragraph.indent ?? 0) * indentWidth : 0
+    const textLeft = paragraph.bullet ? left + bulletWidth : 0
+    let row: RichTextRow = { pieces: [], width: textLeft }
+    if (paragraph.bullet) {
+      row.pieces.push({ text: '•', x: left, width: bulletWidth, style: options.style, underline: false })
+    }
+    const pushPiece = (text: string, width: number, style: RenderTextStyle, underline: boolean) => {
+      const previous = row.pieces[row.pieces.length - 1]
+      if (previous && previous.style === style) {
+        previous.text += text
+        previous.width += width
+      } else {
+        row.pieces.push({ text, x: row.width, width, style, underline })
+      }
+      row.width += width
+    }
+
+    for (const run of paragraph.runs) {
+      const style = getRunStyle(run, options.style)
+      for (const token of run.text.match(/\S+|\s+/g) ?? []) {
+        const isSpace = /^\s/.test(token)
+        const width = measureTextMetrics(isSpace ? ' ' : token, style).width
+        const hasText = row.width > textLeft
+        if (isSpace) {
+          if (hasText) {
+            pushPiece(' ', width, style, Boolean(run.href))
+          }
+          continue
+        }
+        if (hasText && row.width + width > options.maxWidth) {
+          const trailing = row.pieces[row.pieces.length - 1]
+          if (trailing?.text.endsWith(' ')) {
+            const spaceWidth = measureTextMetrics(' ', trailing.style).width
+            trailing.text = trailing.text.slice(0, -1)
+            trailing.width -= spaceWidth
+            row.width -= spaceWidth
+          }
+          rows.push(row)
+          if (rows.length >= options.maxLines) {
+            break
+          }
+          row = { pieces: [], width: textLeft }
+        }
+        pushPiece(token, width, style, Boolean(run.href))
+      }
+      if (rows.length >= options.maxLines) {
+        break
+      }
+    }
+    if (rows.length < options.maxLines) {
+      rows.push(row)
+    }
+  }
+
+  return rememberCachedValue(richTextRowCache, cacheKey, rows, WRAPPED_TEXT_CACHE_LIMIT)
+}
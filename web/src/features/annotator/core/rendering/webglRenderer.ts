@@ -0,0 +1,716 @@
+import type { AnnotationColor } from '../annotations/schema'
+import { renderPrimitiveBatchesToCanvas, type Canvas2DContext } from './canvasRenderer'
+import type { ViewportSize } from './host'
+import type { RenderPrimitive, RenderStrokeStyle } from './primitives'
+import type {
+  PackedCircleBatch,
+  PackedEllipseBatch,
+  PackedLineBatch,
+  PackedPolylineBatch,
+  PackedRoundedRectBatch,
+  RenderPrimitiveBatch,
+} from './renderService'
+
+/**
+ * Draws a scene render plan into a Canvas 2D context. The WebGL2 backend rasterizes
+ * packed geometry batches on the GPU and composites them into the 2D context in plan
+ * order; text, dashed strokes and anything else it cannot draw go through the Canvas
+ * 2D renderer, which is also the whole backend when WebGL2 is unavailable.
+ */
+export interface AnnotationBatchRenderer {
+  readonly backend: 'webgl2' | 'canvas2d'
+  render(context: Canvas2DContext, batches: RenderPrimitiveBatch[], viewport: ViewportSize, pixelRatio: number): void
+  destroy(): void
+}
+
+const canvas2dBatchRenderer: AnnotationBatchRenderer = {
+  backend: 'canvas2d',
+  render(context, batches) {
+    renderPrimitiveBatchesToCanvas(context, batches)
+  },
+  destroy() {},
+}
+
+// Segment instances: x0, y0, x1, y1, depth.
+const SEGMENT_STRIDE = 5
+// Shape instances: center x, y, half extent x, y, corner radius.
+const SHAPE_STRIDE = 5
+const CAP_BUTT = 0
+const CAP_ROUND = 1
+const CAP_SQUARE = 2
+const SHAPE_ELLIPSE = 0
+const SHAPE_ROUNDED_RECT = 1
+// Each stroked polyline gets its own depth so its overlapping segment capsules blend once,
+// as a single Canvas 2D stroke does, while later polylines still blend over earlier ones.
+const DEPTH_STEPS = 1 << 20
+// Depth-tested strokes draw their fully covered interior first, writing depth, then the
+// anti-aliased fringe without writing it: a fringe that wrote depth would hide the next
+// capsule's interior and leave a light arc at every vertex.
+const PASS_ALL = 0
+const PASS_INTERIOR = 1
+const PASS_FRINGE = 2
+
+const CLIP_SPACE_GLSL = `
+uniform vec2 u_resolution;
+vec4 toClip(vec2 position, float depth) {
+  vec2 clip = position / u_resolution * 2.0 - 1.0;
+  return vec4(clip.x, -clip.y, depth, 1.0);
+}
+`
+
+const SEGMENT_VERTEX_SHADER = `#version 300 es
+in vec2 a_corner;
+in vec4 a_segment;
+in float a_depth;
+uniform float u_halfWidth;
+uniform float u_pixelRatio;
+uniform int u_cap;
+out vec2 v_position;
+flat out vec4 v_segment;
+${CLIP_SPACE_GLSL}
+void main() {
+  vec2 delta = a_segment.zw - a_segment.xy;
+  float len = length(delta);
+  vec2 direction = len > 0.0 ? delta / len : vec2(1.0, 0.0);
+  vec2 normal = vec2(-direction.y, direction.x);
+  float pad = u_halfWidth + 1.0 / u_pixelRatio;
+  float extend = u_cap == ${CAP_BUTT} ? 1.0 / u_pixelRatio : pad;
+  vec2 position = a_segment.xy
+    + direction * (a_corner.x < 0.0 ? -extend : len + extend)
+    + normal * a_corner.y * pad;
+  v_position = position;
+  v_segment = a_segment;
+  gl_Position = toClip(position, a_depth);
+}
+`
+
+const SEGMENT_FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+in vec2 v_position;
+flat in vec4 v_segment;
+uniform float u_halfWidth;
+uniform float u_pixelRatio;
+uniform int u_cap;
+uniform int u_pass;
+uniform vec4 u_color;
+out vec4 outColor;
+void main() {
+  vec2 start = v_segment.xy;
+  vec2 delta = v_segment.zw - start;
+  float len = length(delta);
+  vec2 direction = len > 0.0 ? delta / len : vec2(1.0, 0.0);
+  vec2 local = v_position - start;
+  float along = dot(local, direction);
+  float distance;
+  if (u_cap == ${CAP_ROUND}) {
+    distance = length(local - direction * clamp(along, 0.0, len)) - u_halfWidth;
+  } else {
+    float extend = u_cap == ${CAP_SQUARE} ? u_halfWidth : 0.0;
+    vec2 q = vec2(max(-extend - along, along - len - extend), abs(dot(local, vec2(-direction.y, direction.x))) - u_halfWidth);
+    distance = length(max(q, 0.0)) + min(max(q.x, q.y), 0.0);
+  }
+  float coverage = clamp(0.5 - distance * u_pixelRatio, 0.0, 1.0);
+  if (coverage <= 0.0 || (u_pass == ${PASS_INTERIOR} && coverage < 1.0) || (u_pass == ${PASS_FRINGE} && coverage >= 1.0)) {
+    discard;
+  }
+  outColor = u_color * coverage;
+}
+`
+
+const SHAPE_VERTEX_SHADER = `#version 300 es
+in vec2 a_corner;
+in vec4 a_shape;
+in float a_radius;
+uniform float u_halfWidth;
+uniform float u_pixelRatio;
+out vec2 v_position;
+flat out vec4 v_shape;
+flat out float v_radius;
+${CLIP_SPACE_GLSL}
+void main() {
+  vec2 position = a_shape.xy + a_corner * (abs(a_shape.zw) + u_halfWidth + 1.0 / u_pixelRatio);
+  v_position = position;
+  v_shape = a_shape;
+  v_radius = a_radius;
+  gl_Position = toClip(position, 0.0);
+}
+`
+
+const SHAPE_FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+in vec2 v_position;
+flat in vec4 v_shape;
+flat in float v_radius;
+uniform float u_halfWidth;
+uniform float u_pixelRatio;
+uniform int u_shape;
+uniform vec4 u_fill;
+uniform vec4 u_stroke;
+out vec4 outColor;
+float ellipseDistance(vec2 p, vec2 radii) {
+  if (abs(radii.x - radii.y) < 1e-3) {
+    return length(p) - radii.x;
+  }
+  float k1 = length(p / radii);
+  float k2 = length(p / (radii * radii));
+  return k2 > 0.0 ? k1 * (k1 - 1.0) / k2 : -min(radii.x, radii.y);
+}
+float roundedRectDistance(vec2 p, vec2 halfSize, float radius) {
+  float r = min(radius, min(halfSize.x, halfSize.y));
+  vec2 q = abs(p) - halfSize + r;
+  return length(max(q, 0.0)) + min(max(q.x, q.y), 0.0) - r;
+}
+void main() {
+  vec2 p = v_position - v_shape.xy;
+  vec2 halfSize = abs(v_shape.zw);
+  float distance = u_shape == ${SHAPE_ROUNDED_RECT} ? roundedRectDistance(p, halfSize, v_radius) : ellipseDistance(p, halfSize);
+  float fillCoverage = clamp(0.5 - distance * u_pixelRatio, 0.0, 1.0);
+  float strokeCoverage = u_halfWidth > 0.0 ? clamp(0.5 - (abs(distance) - u_halfWidth) * u_pixelRatio, 0.0, 1.0) : 0.0;
+  vec4 stroke = u_stroke * strokeCoverage;
+  vec4 color = stroke + u_fill * fillCoverage * (1.0 - stroke.a);
+  if (color.a <= 0.0) {
+    discard;
+  }
+  outColor = color;
+}
+`
+
+const FILL_VERTEX_SHADER = `#version 300 es
+in vec2 a_position;
+${CLIP_SPACE_GLSL}
+void main() {
+  gl_Position = toClip(a_position, 0.0);
+}
+`
+
+const FILL_FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+uniform vec4 u_color;
+out vec4 outColor;
+void main() {
+  outColor = u_color;
+}
+`
+
+interface ProgramInfo {
+  program: WebGLProgram
+  uniforms: Record<string, WebGLUniformLocation | null>
+  attributes: Record<string, number>
+}
+
+function compileShader(gl: WebGL2RenderingContext, type: number, source: string) {
+  const shader = gl.createShader(type)
+  if (!shader) {
+    throw new Error('Failed to create WebGL shader')
+  }
+  gl.shaderSource(shader, source)
+  gl.compileShader(shader)
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader)
+    gl.deleteShader(shader)
+    throw new Error(`Failed to compile annotation shader: ${log}`)
+  }
+  return shader
+}
+
+function createProgram(
+  gl: WebGL2RenderingContext,
+  vertexSource: string,
+  fragmentSource: string,
+  uniformNames: string[],
+  attributeNames: string[],
+): ProgramInfo {
+  const program = gl.createProgram()
+  const vertexShader = compileShader(gl, gl.VERTEX_SHADER, vertexSource)
+  const fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, fragmentSource)
+  gl.attachShader(program, vertexShader)
+  gl.attachShader(program, fragmentShader)
+  gl.linkProgram(program)
+  gl.deleteShader(vertexShader)
+  gl.deleteShader(fragmentShader)
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    const log = gl.getProgramInfoLog(program)
+    gl.deleteProgram(program)
+    throw new Error(`Failed to link annotation shader: ${log}`)
+  }
+  return {
+    program,
+    uniforms: Object.fromEntries(uniformNames.map((name) => [name, gl.getUniformLocation(program, name)])),
+    attributes: Object.fromEntries(attributeNames.map((name) => [name, gl.getAttribLocation(program, name)])),
+  }
+}
+
+/** Premultiplied RGBA in 0..1, as the blend function expects. */
+function toPremultipliedColor(color: AnnotationColor | undefined, opacity: number): [number, number, number, number] {
+  if (!color) {
+    return [0, 0, 0, 0]
+  }
+  const alpha = Math.min(1, Math.max(0, color.a * opacity))
+  return [(color.r / 255) * alpha, (color.g / 255) * alpha, (color.b / 255) * alpha, alpha]
+}
+
+function getCapMode(stroke: RenderStrokeStyle) {
+  switch (stroke.lineCap ?? 'round') {
+    case 'butt':
+      return CAP_BUTT
+    case 'square':
+      return CAP_SQUARE
+    default:
+      return CAP_ROUND
+  }
+}
+
+function hasDash(stroke: RenderStrokeStyle | undefined) {
+  return Boolean(stroke?.dash?.length)
+}
+
+/**
+ * Whether the GPU path reproduces the Canvas 2D result for a batch. Polylines are drawn
+ * as round-capped capsules, so only round joins and caps match; dashes are left to Canvas 2D.
+ */
+function canDrawWithWebGL(batch: RenderPrimitiveBatch) {
+  const exemplar = batch.primitives[0]
+  if (!batch.packed || !exemplar) {
+    return false
+  }
+  switch (exemplar.kind) {
+    case 'polyline':
+      return !exemplar.stroke
+        || (!hasDash(exemplar.stroke) && getCapMode(exemplar.stroke) === CAP_ROUND && (exemplar.stroke.lineJoin ?? 'round') === 'round')
+    case 'line':
+      return !hasDash(exemplar.stroke)
+    case 'circle':
+    case 'ellipse':
+    case 'roundedRect':
+      return !hasDash(exemplar.stroke)
+    default:
+      return false
+  }
+}
+
+/** Growable typed array reused across frames to avoid per-batch allocations. */
+function createScratch() {
+  let data = new Float32Array(4096)
+  return (length: number) => {
+    if (data.length < length) {
+      data = new Float32Array(Math.max(length, data.length * 2))
+    }
+    return data
+  }
+}
+
+function createOutputCanvas(): HTMLCanvasElement | OffscreenCanvas | null {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(1, 1)
+  }
+  return typeof document === 'undefined' ? null : document.createElement('canvas')
+}
+
+/**
+ * WebGL2 backend for the render plan; null when WebGL2 or its shaders are unavailable.
+ * Draws into a private GL canvas that is composited into the caller's 2D context whenever
+ * a batch has to go through Canvas 2D, so plan order is preserved exactly.
+ */
+export function createWebGL2BatchRenderer(): AnnotationBatchRenderer | null {
+  const glCanvas = createOutputCanvas()
+  const gl = glCanvas?.getContext('webgl2', {
+    alpha: true,
+    antialias: true,
+    depth: true,
+    stencil: true,
+    premultipliedAlpha: true,
+    preserveDrawingBuffer: false,
+  }) as WebGL2RenderingContext | null | undefined
+  if (!glCanvas || !gl) {
+    return null
+  }
+
+  let segmentProgram: ProgramInfo
+  let shapeProgram: ProgramInfo
+  let fillProgram: ProgramInfo
+  try {
+    segmentProgram = createProgram(
+      gl,
+      SEGMENT_VERTEX_SHADER,
+      SEGMENT_FRAGMENT_SHADER,
+      ['u_resolution', 'u_halfWidth', 'u_pixelRatio', 'u_cap', 'u_pass', 'u_color'],
+      ['a_corner', 'a_segment', 'a_depth'],
+    )
+    shapeProgram = createProgram(
+      gl,
+      SHAPE_VERTEX_SHADER,
+      SHAPE_FRAGMENT_SHADER,
+      ['u_resolution', 'u_halfWidth', 'u_pixelRatio', 'u_shape', 'u_fill', 'u_stroke'],
+      ['a_corner', 'a_shape', 'a_radius'],
+    )
+    fillProgram = createProgram(gl, FILL_VERTEX_SHADER, FILL_FRAGMENT_SHADER, ['u_resolution', 'u_color'], ['a_position'])
+  } catch (error) {
+    console.warn('WebGL2 annotation renderer unavailable; using Canvas 2D', error)
+    return null
+  }
+
+  const cornerBuffer = gl.createBuffer()
+  gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer)
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW)
+  const instanceBuffer = gl.createBuffer()
+  const fillBuffer = gl.createBuffer()
+  const segmentScratch = createScratch()
+  const shapeScratch = createScratch()
+  const fillScratch = createScratch()
+
+  function createInstancedVertexArray(program: ProgramInfo) {
+    const vertexArray = gl!.createVertexArray()
+    gl!.bindVertexArray(vertexArray)
+    gl!.bindBuffer(gl!.ARRAY_BUFFER, cornerBuffer)
+    gl!.enableVertexAttribArray(program.attributes.a_corner)
+    gl!.vertexAttribPointer(program.attributes.a_corner, 2, gl!.FLOAT, false, 0, 0)
+    gl!.bindVertexArray(null)
+    return vertexArray
+  }
+
+  const segmentVertexArray = createInstancedVertexArray(segmentProgram)
+  const shapeVertexArray = createInstancedVertexArray(shapeProgram)
+  const fillVertexArray = gl.createVertexArray()
+  gl.bindVertexArray(fillVertexArray)
+  gl.bindBuffer(gl.ARRAY_BUFFER, fillBuffer)
+  gl.enableVertexAttribArray(fillProgram.attributes.a_position)
+  gl.vertexAttribPointer(fillProgram.attributes.a_position, 2, gl.FLOAT, false, 0, 0)
+  gl.bindVertexArray(null)
+
+  let contextLost = false
+  const handleContextLost = (event: Event) => {
+    event.preventDefault()
+    contextLost = true
+    console.warn('WebGL2 annotation context lost; falling back to Canvas 2D')
+  }
+  glCanvas.addEventListener('webglcontextlost', handleContextLost)
+
+  let viewport: ViewportSize = { width: 0, height: 0 }
+  let pixelRatio = 1
+  let depthIndex = 0
+  let dirty = false
+
+  function nextDepth() {
+    depthIndex = Math.min(depthIndex + 1, DEPTH_STEPS - 1)
+    return 1 - (2 * depthIndex) / DEPTH_STEPS
+  }
+
+  function bindSegmentInstances(byteOffset: number) {
+    const { a_segment: segment, a_depth: depth } = segmentProgram.attributes
+    gl!.bindBuffer(gl!.ARRAY_BUFFER, instanceBuffer)
+    gl!.enableVertexAttribArray(segment)
+    gl!.vertexAttribPointer(segment, 4, gl!.FLOAT, false, SEGMENT_STRIDE * 4, byteOffset)
+    gl!.vertexAttribDivisor(segment, 1)
+    gl!.enableVertexAttribArray(depth)
+    gl!.vertexAttribPointer(depth, 1, gl!.FLOAT, false, SEGMENT_STRIDE * 4, byteOffset + 16)
+    gl!.vertexAttribDivisor(depth, 1)
+  }
+
+  function bindSegmentProgram(stroke: RenderStrokeStyle, opacity: number) {
+    gl!.useProgram(segmentProgram.program)
+    gl!.bindVertexArray(segmentVertexArray)
+    gl!.uniform2f(segmentProgram.uniforms.u_resolution, viewport.width, viewport.height)
+    gl!.uniform1f(segmentProgram.uniforms.u_halfWidth, stroke.width / 2)
+    gl!.uniform1f(segmentProgram.uniforms.u_pixelRatio, pixelRatio)
+    gl!.uniform1i(segmentProgram.uniforms.u_cap, getCapMode(stroke))
+    gl!.uniform4fv(segmentProgram.uniforms.u_color, toPremultipliedColor(stroke.color, opacity))
+  }
+
+  /** Stencil-and-cover fill with Canvas 2D's nonzero winding rule. */
+  function fillPolygon(points: Float32Array, pointOffset: number, count: number, color: [number, number, number, number]) {
+    const vertices = fillScratch(count * 2 + 8)
+    let minX = Infinity
+    let minY = Infinity
+    let maxX = -Infinity
+    let maxY = -Infinity
+    for (let index = 0; index < count; index += 1) {
+      const x = points[pointOffset + index * 2]
+      const y = points[pointOffset + index * 2 + 1]
+      vertices[index * 2] = x
+      vertices[index * 2 + 1] = y
+      minX = Math.min(minX, x)
+      minY = Math.min(minY, y)
+      maxX = Math.max(maxX, x)
+      maxY = Math.max(maxY, y)
+    }
+    vertices.set([minX, minY, maxX, minY, minX, maxY, maxX, maxY], count * 2)
+
+    gl!.useProgram(fillProgram.program)
+    gl!.bindVertexArray(fillVertexArray)
+    gl!.bindBuffer(gl!.ARRAY_BUFFER, fillBuffer)
+    gl!.bufferData(gl!.ARRAY_BUFFER, vertices.subarray(0, count * 2 + 8), gl!.STREAM_DRAW)
+    gl!.uniform2f(fillProgram.uniforms.u_resolution, viewport.width, viewport.height)
+    gl!.uniform4fv(fillProgram.uniforms.u_color, color)
+
+    gl!.enable(gl!.STENCIL_TEST)
+    gl!.colorMask(false, false, false, false)
+    gl!.stencilFunc(gl!.ALWAYS, 0, 0xff)
+    gl!.stencilOpSeparate(gl!.FRONT, gl!.KEEP, gl!.KEEP, gl!.INCR_WRAP)
+    gl!.stencilOpSeparate(gl!.BACK, gl!.KEEP, gl!.KEEP, gl!.DECR_WRAP)
+    gl!.drawArrays(gl!.TRIANGLE_FAN, 0, count)
+
+    gl!.colorMask(true, true, true, true)
+    gl!.stencilFunc(gl!.NOTEQUAL, 0, 0xff)
+    gl!.stencilOp(gl!.KEEP, gl!.KEEP, gl!.ZERO)
+    gl!.drawArrays(gl!.TRIANGLE_STRIP, count, 4)
+    gl!.disable(gl!.STENCIL_TEST)
+  }
+
+  /** Write one polyline's segments (plus the closing one) at `segmentCount`; returns the new count. */
+  function appendPolylineSegments(
+    target: Float32Array,
+    segmentCount: number,
+    points: Float32Array,
+    pointOffset: number,
+    count: number,
+    closed: boolean,
+  ) {
+    const depth = nextDepth()
+    const total = closed ? count : count - 1
+    for (let index = 0; index < total; index += 1) {
+      const from = pointOffset + index * 2
+      const to = pointOffset + ((index + 1) % count) * 2
+      const offset = (segmentCount + index) * SEGMENT_STRIDE
+      target[offset] = points[from]
+      target[offset + 1] = points[from + 1]
+      target[offset + 2] = points[to]
+      target[offset + 3] = points[to + 1]
+      target[offset + 4] = depth
+    }
+    return segmentCount + total
+  }
+
+  function drawSegments(data: Float32Array, segmentCount: number, depthTest: boolean) {
+    if (segmentCount === 0) {
+      return
+    }
+    gl!.bindBuffer(gl!.ARRAY_BUFFER, instanceBuffer)
+    gl!.bufferData(gl!.ARRAY_BUFFER, data.subarray(0, segmentCount * SEGMENT_STRIDE), gl!.STREAM_DRAW)
+    bindSegmentInstances(0)
+    if (!depthTest) {
+      gl!.uniform1i(segmentProgram.uniforms.u_pass, PASS_ALL)
+      gl!.drawArraysInstanced(gl!.TRIANGLE_STRIP, 0, 4, segmentCount)
+      return
+    }
+    // A fringe under a later polyline's interior is rejected by that interior's depth; it
+    // would only show through a translucent stroke, where it is a sub-pixel difference.
+    gl!.enable(gl!.DEPTH_TEST)
+    gl!.uniform1i(segmentProgram.uniforms.u_pass, PASS_INTERIOR)
+    gl!.drawArraysInstanced(gl!.TRIANGLE_STRIP, 0, 4, segmentCount)
+    gl!.depthMask(false)
+    gl!.uniform1i(segmentProgram.uniforms.u_pass, PASS_FRINGE)
+    gl!.drawArraysInstanced(gl!.TRIANGLE_STRIP, 0, 4, segmentCount)
+    gl!.depthMask(true)
+    gl!.disable(gl!.DEPTH_TEST)
+  }
+
+  function drawPolylineBatch(packed: PackedPolylineBatch, exemplar: Extract<RenderPrimitive, { kind: 'polyline' }>) {
+    const opacity = exemplar.opacity ?? 1
+    const closed = exemplar.closed ?? false
+    const minimumPoints = closed ? 3 : 2
+    const stroke = exemplar.stroke && exemplar.stroke.width > 0 ? exemplar.stroke : undefined
+
+    // Fills need per-polyline stencil passes, and each stroke must land right after its fill.
+    if (exemplar.fill) {
+      const fillColor = toPremultipliedColor(exemplar.fill, opacity)
+      let pointOffset = 0
+      packed.pointCounts.forEach((count) => {
+        if (count >= minimumPoints) {
+          fillPolygon(packed.points, pointOffset, count, fillColor)
+          if (stroke) {
+            const data = segmentScratch(count * SEGMENT_STRIDE)
+            const segmentCount = appendPolylineSegments(data, 0, packed.points, pointOffset, count, closed)
+            bindSegmentProgram(stroke, opacity)
+            drawSegments(data, segmentCount, true)
+          }
+        }
+        pointOffset += count * 2
+      })
+      return
+    }
+
+    if (!stroke) {
+      return
+    }
+    const data = segmentScratch((packed.points.length / 2 + packed.pointCounts.length) * SEGMENT_STRIDE)
+    let segmentCount = 0
+    let pointOffset = 0
+    packed.pointCounts.forEach((count) => {
+      if (count >= minimumPoints) {
+        segmentCount = appendPolylineSegments(data, segmentCount, packed.points, pointOffset, count, closed)
+      }
+      pointOffset += count * 2
+    })
+    bindSegmentProgram(stroke, opacity)
+    drawSegments(data, segmentCount, true)
+  }
+
+  function drawLineBatch(packed: PackedLineBatch, exemplar: Extract<RenderPrimitive, { kind: 'line' }>) {
+    const segmentCount = packed.segments.length / 4
+    const data = segmentScratch(segmentCount * SEGMENT_STRIDE)
+    for (let index = 0; index < segmentCount; index += 1) {
+      data.set(packed.segments.subarray(index * 4, index * 4 + 4), index * SEGMENT_STRIDE)
+      data[index * SEGMENT_STRIDE + 4] = 0
+    }
+    bindSegmentProgram(exemplar.stroke, exemplar.opacity ?? 1)
+    drawSegments(data, segmentCount, false)
+  }
+
+  function drawShapeBatch(
+    packed: PackedCircleBatch | PackedEllipseBatch | PackedRoundedRectBatch,
+    exemplar: Extract<RenderPrimitive, { kind: 'circle' | 'ellipse' | 'roundedRect' }>,
+  ) {
+    let instanceCount = 0
+    let data: Float32Array
+    switch (packed.kind) {
+      case 'circle':
+        instanceCount = packed.circles.length / 3
+        data = shapeScratch(instanceCount * SHAPE_STRIDE)
+        for (let index = 0; index < instanceCount; index += 1) {
+          const radius = packed.circles[index * 3 + 2]
+          data.set([packed.circles[index * 3], packed.circles[index * 3 + 1], radius, radius, 0], index * SHAPE_STRIDE)
+        }
+        break
+      case 'ellipse':
+        instanceCount = packed.ellipses.length / 4
+        data = shapeScratch(instanceCount * SHAPE_STRIDE)
+        for (let index = 0; index < instanceCount; index += 1) {
+          data.set(packed.ellipses.subarray(index * 4, index * 4 + 4), index * SHAPE_STRIDE)
+          data[index * SHAPE_STRIDE + 4] = 0
+        }
+        break
+      case 'roundedRect':
+        instanceCount = packed.rects.length / 5
+        data = shapeScratch(instanceCount * SHAPE_STRIDE)
+        for (let index = 0; index < instanceCount; index += 1) {
+          const offset = index * 5
+          const [x, y, width, height, radius] = packed.rects.subarray(offset, offset + 5)
+          data.set([x + width / 2, y + height / 2, width / 2, height / 2, radius], index * SHAPE_STRIDE)
+        }
+        break
+    }
+    if (instanceCount === 0) {
+      return
+    }
+
+    const opacity = exemplar.opacity ?? 1
+    const stroke = exemplar.stroke
+    gl!.useProgram(shapeProgram.program)
+    gl!.bindVertexArray(shapeVertexArray)
+    gl!.uniform2f(shapeProgram.uniforms.u_resolution, viewport.width, viewport.height)
+    gl!.uniform1f(shapeProgram.uniforms.u_halfWidth, stroke ? stroke.width / 2 : 0)
+    gl!.uniform1f(shapeProgram.uniforms.u_pixelRatio, pixelRatio)
+    gl!.uniform1i(shapeProgram.uniforms.u_shape, packed.kind === 'roundedRect' ? SHAPE_ROUNDED_RECT : SHAPE_ELLIPSE)
+    gl!.uniform4fv(shapeProgram.uniforms.u_fill, toPremultipliedColor(exemplar.fill, opacity))
+    gl!.uniform4fv(shapeProgram.uniforms.u_stroke, toPremultipliedColor(stroke?.color, opacity))
+
+    const { a_shape: shape, a_radius: radius } = shapeProgram.attributes
+    gl!.bindBuffer(gl!.ARRAY_BUFFER, instanceBuffer)
+    gl!.bufferData(gl!.ARRAY_BUFFER, data.subarray(0, instanceCount * SHAPE_STRIDE), gl!.STREAM_DRAW)
+    gl!.enableVertexAttribArray(shape)
+    gl!.vertexAttribPointer(shape, 4, gl!.FLOAT, false, SHAPE_STRIDE * 4, 0)
+    gl!.vertexAttribDivisor(shape, 1)
+    gl!.enableVertexAttribArray(radius)
+    gl!.vertexAttribPointer(radius, 1, gl!.FLOAT, false, SHAPE_STRIDE * 4, 16)
+    gl!.vertexAttribDivisor(radius, 1)
+    gl!.drawArraysInstanced(gl!.TRIANGLE_STRIP, 0, 4, instanceCount)
+  }
+
+  function drawBatch(batch: RenderPrimitiveBatch) {
+    const exemplar = batch.primitives[0]
+    const packed = batch.packed
+    if (!packed) {
+      return
+    }
+    if (packed.kind === 'polyline' && exemplar.kind === 'polyline') {
+      drawPolylineBatch(packed, exemplar)
+    } else if (packed.kind === 'line' && exemplar.kind === 'line') {
+      drawLineBatch(packed, exemplar)
+    } else if (
+      (packed.kind === 'circle' && exemplar.kind === 'circle')
+      || (packed.kind === 'ellipse' && exemplar.kind === 'ellipse')
+      || (packed.kind === 'roundedRect' && exemplar.kind === 'roundedRect')
+    ) {
+      drawShapeBatch(packed, exemplar)
+    }
+    dirty = true
+  }
+
+  function beginFrame(nextViewport: ViewportSize, nextPixelRatio: number) {
+    viewport = nextViewport
+    pixelRatio = nextPixelRatio
+    const width = Math.max(1, Math.floor(viewport.width * pixelRatio))
+    const height = Math.max(1, Math.floor(viewport.height * pixelRatio))
+    if (glCanvas!.width !== width || glCanvas!.height !== height) {
+      glCanvas!.width = width
+      glCanvas!.height = height
+    }
+    gl!.viewport(0, 0, width, height)
+    gl!.enable(gl!.BLEND)
+    gl!.blendFunc(gl!.ONE, gl!.ONE_MINUS_SRC_ALPHA)
+    gl!.depthFunc(gl!.LESS)
+    gl!.clearColor(0, 0, 0, 0)
+    gl!.clearDepth(1)
+    gl!.clearStencil(0)
+    gl!.clear(gl!.COLOR_BUFFER_BIT | gl!.DEPTH_BUFFER_BIT | gl!.STENCIL_BUFFER_BIT)
+    depthIndex = 0
+    dirty = false
+  }
+
+  /** Copy what the GPU drew so far into the 2D context and start a fresh layer. */
+  function composite(context: Canvas2DContext) {
+    if (!dirty) {
+      return
+    }
+    context.drawImage(glCanvas!, 0, 0, viewport.width, viewport.height)
+    gl!.clear(gl!.COLOR_BUFFER_BIT)
+    dirty = false
+  }
+
+  return {
+    backend: 'webgl2',
+    render(context, batches, nextViewport, nextPixelRatio) {
+      if (contextLost || gl.isContextLost()) {
+        renderPrimitiveBatchesToCanvas(context, batches)
+        return
+      }
+      beginFrame(nextViewport, nextPixelRatio)
+      batches.forEach((batch) => {
+        if (canDrawWithWebGL(batch)) {
+          drawBatch(batch)
+          return
+        }
+        composite(context)
+        renderPrimitiveBatchesToCanvas(context, [batch])
+      })
+      composite(context)
+    },
+    destroy() {
+      glCanvas.removeEventListener('webglcontextlost', handleContextLost)
+      if (gl.isContextLost()) {
+        return
+      }
+      gl.deleteBuffer(cornerBuffer)
+      gl.deleteBuffer(instanceBuffer)
+      gl.deleteBuffer(fillBuffer)
+      gl.deleteVertexArray(segmentVertexArray)
+      gl.deleteVertexArray(shapeVertexArray)
+      gl.deleteVertexArray(fillVertexArray)
+      gl.deleteProgram(segmentProgram.program)
+      gl.deleteProgram(shapeProgram.program)
+      gl.deleteProgram(fillProgram.program)
+      gl.getExtension('WEBGL_lose_context')?.loseContext()
+    },
+  }
+}
+
+/**
+ * Renderer for the annotation overlay: WebGL2 when available, Canvas 2D otherwise.
+ * VITE_ANNOTATION_RENDERER=canvas2d pins the Canvas 2D path, e.g. to compare output.
+ */
+export function createAnnotationBatchRenderer(): AnnotationBatchRenderer {
+  if (import.meta.env.VITE_ANNOTATION_RENDERER?.trim() === 'canvas2d') {
+    return canvas2dBatchRenderer
+  }
+  return createWebGL2BatchRenderer() ?? canvas2dBatchRenderer
+}
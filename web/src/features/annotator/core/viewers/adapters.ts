@@ -58,11 +58,17 @@ export interface ViewerAdapter extends AnnotationProjectionHost {
   mountSurface?: (host: HTMLElement) => ViewerSurfaceController
   subscribe?: (listener: () => void) => () => void
   onSelectionChange?: (annotation?: AnnotationEntity) => void
+  /** Bring an annotation into view on request, e.g. seek to its video frame or restore its 3D camera. */
+  focusAnnotation?: (annotation: AnnotationEntity) => void
   getStatusBadges?: (viewport: ViewportSize) => string[]
   /** Reports asset readiness so the viewport can defer annotations until the surface is drawable. */
   getLoadState?: () => ViewerLoadState
   getDiagnostics?: () => ViewerDiagnosticItem[]
+  /** Pixel size of the displayed image or video frame, in world units, for snapping to its edges. */
+  getImageSize?: () => { width: number; height: number }
   getActions?: () => ViewerAction[]
+  /** Cursor position over the surface, or null when it leaves, for readouts such as a pixel probe. */
+  updatePointer?: (screenPoint: Vec2 | null, viewport: ViewportSize) => void
   selectSceneObjectAt?: (screenPoint: Vec2, viewport: ViewportSize) => boolean
   handleWheel?: (screenPoint: Vec2, deltaY: number, viewport: ViewportSize) => boolean
   beginNavigation?: (
@@ -176,6 +182,18 @@ export const worldViewerAdapter: ViewerAdapter = {
     const worldPoint = worldViewerAdapter.screenToWorld(screenPoint, viewport)
     return worldPoint ? worldToFrame(frame, worldPoint) : null
   },
+  getProjectionSnapshot(viewport) {
+    const scale = Math.min(viewport.width / 28, viewport.height / 18)
+    const { centerX, centerY } = worldViewportCenter(viewport)
+    const alongX = scale * (ISO_SCALE_X / 20)
+    const alongY = scale * (ISO_SCALE_Y / 20)
+    const alongZ = scale * (ISO_SCALE_Z / 20)
+    return {
+      revision: '',
+      matrix: [alongX, alongY, 0, 0, -alongX, alongY, 0, 0, 0, -alongZ, 1, 0, centerX, centerY, 0, 1],
+      clipDepth: false,
+    }
+  },
   renderBackdrop(context, viewport) {
     context.clearRect(0, 0, viewport.width, viewport.height)
     const gradient = context.createLinearGradient(0, 0, 0, viewport.height)
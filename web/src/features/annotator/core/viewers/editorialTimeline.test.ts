@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { parseEdl, resolveEditorialSources } from './editorialTimeline'
+
+const EDL = [
+  'TITLE: Reel 1',
+  'FCM: NON-DROP FRAME',
+  '001  A001     V     C        01:00:00:00 01:00:01:00 00:00:00:00 00:00:01:00',
+  '* FROM CLIP NAME: 50% plate.mov',
+  '002  A002     V     C        01:00:00:00 01:00:02:00 00:00:01:00 00:00:03:00',
+  '* SOURCE FILE: shots/grade%20v2.mov',
+].join('\n')
+
+describe('resolveEditorialSources', () => {
+  it('matches names with a bare % instead of failing the whole import', () => {
+    const timeline = parseEdl(EDL, { frameRate: 24 })
+    const { sources, missing } = resolveEditorialSources(timeline, [
+      { name: '50% plate.mov', src: 'blob:plate' },
+      { name: 'grade v2.mov', src: 'blob:grade' },
+    ])
+
+    expect(missing).toEqual([])
+    expect(sources.map((source) => [source.label, source.src])).toEqual([
+      ['50% plate.mov', 'blob:plate'],
+      ['A002', 'blob:grade'],
+    ])
+  })
+})
@@ -0,0 +1,313 @@
+import type { VideoSourceOption } from './videoAdapter'
+
+export type EditorialFormat = 'edl' | 'otio'
+
+/** One shot of an imported cut, in record order. */
+export interface EditorialClip {
+  /** Stable per event, so notes bound by `mediaBinding.clipId` find their shot again on re-import. */
+  id: string
+  name: string
+  /** File name or reel the clip's media is known by. */
+  mediaName: string
+  /** Media URL from the timeline, when it carries one. */
+  mediaUrl?: string
+  /** In and out points in seconds from the start of the media file; out is exclusive. */
+  sourceIn: number
+  sourceOut: number
+}
+
+export interface EditorialTimeline {
+  name: string
+  format: EditorialFormat
+  frameRate: number
+  clips: EditorialClip[]
+}
+
+/** A media file or loaded source a cut's clips can be matched against by name. */
+export interface EditorialMediaCandidate {
+  name: string
+  src: string
+  type?: string
+}
+
+export interface EditorialParseOptions {
+  /** Edit rate for EDL timecodes, which do not state one. */
+  frameRate?: number
+}
+
+// Black and auxiliary sources have no media to play.
+const NON_MEDIA_REELS = new Set(['BL', 'BLK', 'BLACK', 'AX', 'AUX'])
+const EDL_EVENT = /^(\d+)\s+(\S+)\s+(\S+)\s+(C|D|W\d+|K[BO]?)\s+(?:\d+\s+)?(\S+)\s+(\S+)\s+(\S+)\s+(\S+)\s*$/
+
+/** Detect a cut file by extension, falling back to its contents. */
+export function detectEditorialFormat(fileName: string, contents?: string): EditorialFormat | null {
+  const lower = fileName.toLowerCase()
+  if (lower.endsWith('.edl')) {
+    return 'edl'
+  }
+  if (lower.endsWith('.otio')) {
+    return 'otio'
+  }
+  const trimmed = contents?.trimStart()
+  if (trimmed?.startsWith('{') && trimmed.includes('OTIO_SCHEMA')) {
+    return 'otio'
+  }
+  if (trimmed && /^(TITLE:|\d{3,}\s)/m.test(trimmed)) {
+    return 'edl'
+  }
+  return null
+}
+
+/**
+ * Frame count of an SMPTE timecode at a frame rate. A `;` before the frames field marks
+ * drop-frame, which skips two (four at 59.94) frame numbers each minute except every tenth.
+ */
+export function timecodeToFrames(timecode: string, frameRate: number, dropFrame = false) {
+  const match = /^(\d{1,2}):(\d{2}):(\d{2})([:;.])(\d{2,3})$/.exec(timecode.trim())
+  if (!match) {
+    throw new Error(`Invalid timecode ${timecode}`)
+  }
+  const [hours, minutes, seconds, frames] = [match[1], match[2], match[3], match[5]].map(Number)
+  const nominal = Math.round(frameRate)
+  let total = ((hours * 60 + minutes) * 60 + seconds) * nominal + frames
+  if ((dropFrame || match[4] === ';') && (nominal === 30 || nominal === 60)) {
+    const totalMinutes = hours * 60 + minutes
+    total -= (nominal / 15) * (totalMinutes - Math.floor(totalMinutes / 10))
+  }
+  return total
+}
+
+function getBaseName(path: string) {
+  const withoutQuery = path.split(/[?#]/)[0]
+  const name = withoutQuery.slice(withoutQuery.lastIndexOf('/') + 1)
+  try {
+    return decodeURIComponent(name)
+  } catch {
+    // A bare `%` (as in "50% plate.mov") is not an escape; the name is already plain.
+    return name
+  }
+}
+
+/** Case-insensitive file name without directory or extension. */
+function getMediaKey(name: string) {
+  return getBaseName(name).replace(/\.[^.]+$/, '').trim().toLowerCase()
+}
+
+/**
+ * Parse a CMX 3600 EDL. Only video events with media are kept, ordered by record in; a
+ * dissolve or wipe plays as a cut to the incoming shot and record gaps close up. Source
+ * timecodes count from each media file's start timecode, which the browser cannot read, so
+ * the hour the reel's earliest in point falls in (01:00:00:00 by camera convention) is
+ * taken as the file start.
+ */
+export function parseEdl(contents: string, options: EditorialParseOptions = {}): EditorialTimeline {
+  const frameRate = options.frameRate && options.frameRate > 0 ? options.frameRate : 24
+  let title = ''
+  let dropFrame = false
+  const events: Array<{
+    event: string
+    reel: string
+    sourceIn: number
+    sourceOut: number
+    recordIn: number
+    clipName?: string
+    sourceFile?: string
+  }> = []
+
+  contents.split(/\r?\n/).forEach((line) => {
+    const trimmed = line.trim()
+    const header = /^(TITLE|FCM):\s*(.*)$/i.exec(trimmed)
+    if (header) {
+      if (header[1].toUpperCase() === 'TITLE') {
+        title = header[2].trim()
+      } else {
+        dropFrame = /^DROP/i.test(header[2].trim())
+      }
+      return
+    }
+    const comment = /^\*\s*(FROM CLIP NAME|SOURCE FILE):\s*(.+)$/i.exec(trimmed)
+    if (comment) {
+      const last = events[events.length - 1]
+      if (last) {
+        last[comment[1].toUpperCase() === 'SOURCE FILE' ? 'sourceFile' : 'clipName'] = comment[2].trim()
+      }
+      return
+    }
+    const match = EDL_EVENT.exec(trimmed)
+    if (!match || !/[VB]/i.test(match[3]) || NON_MEDIA_REELS.has(match[2].toUpperCase())) {
+      return
+    }
+    const [sourceIn, sourceOut, recordIn] = [match[5], match[6], match[7]].map((timecode) => (
+      timecodeToFrames(timecode, frameRate, dropFrame)
+    ))
+    // The outgoing half of a transition is listed with a zero-length source range.
+    if (sourceOut > sourceIn) {
+      events.push({ event: match[1], reel: match[2], sourceIn, sourceOut, recordIn })
+    }
+  })
+
+  const hourFrames = timecodeToFrames('01:00:00:00', frameRate, dropFrame)
+  const reelStarts = new Map<string, number>()
+  events.forEach((event) => {
+    const start = Math.floor(event.sourceIn / hourFrames) * hourFrames
+    reelStarts.set(event.reel, Math.min(reelStarts.get(event.reel) ?? start, start))
+  })
+
+  const seenIds = new Map<string, number>()
+  const clips = [...events]
+    .sort((a, b) => a.recordIn - b.recordIn)
+    .map((event) => {
+      const name = event.clipName ?? event.reel
+      const repeat = seenIds.get(event.event) ?? 0
+      seenIds.set(event.event, repeat + 1)
+      const mediaStart = reelStarts.get(event.reel) ?? 0
+      return {
+        id: `edl:${event.event}${repeat > 0 ? `.${repeat}` : ''}:${name}`,
+        name,
+        mediaName: event.sourceFile ?? event.clipName ?? event.reel,
+        sourceIn: (event.sourceIn - mediaStart) / frameRate,
+        sourceOut: (event.sourceOut - mediaStart) / frameRate,
+      }
+    })
+
+  return { name: title || 'EDL', format: 'edl', frameRate, clips }
+}
+
+type OtioObject = Record<string, unknown>
+
+function isOtioObject(value: unknown): value is OtioObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function getSchema(value: unknown) {
+  return isOtioObject(value) && typeof value.OTIO_SCHEMA === 'string' ? value.OTIO_SCHEMA.split('.')[0] : ''
+}
+
+function readRationalTime(value: unknown) {
+  if (!isOtioObject(value)) {
+    return null
+  }
+  const rate = Number(value.rate)
+  const frames = Number(value.value)
+  return Number.isFinite(rate) && rate > 0 && Number.isFinite(frames) ? { seconds: frames / rate, rate } : null
+}
+
+function readTimeRange(value: unknown) {
+  if (!isOtioObject(value)) {
+    return null
+  }
+  const start = readRationalTime(value.start_time)
+  const duration = readRationalTime(value.duration)
+  return start && duration ? { start: start.seconds, duration: duration.seconds, rate: duration.rate } : null
+}
+
+function getMediaReference(clip: OtioObject) {
+  if (isOtioObject(clip.media_references)) {
+    const key = typeof clip.active_media_reference_key === 'string' ? clip.active_media_reference_key : 'DEFAULT_MEDIA'
+    return clip.media_references[key]
+  }
+  return clip.media_reference
+}
+
+/**
+ * Parse an OpenTimelineIO timeline. Clips of the first video track become the cut; gaps
+ * close up and transitions play as cuts. In points are made relative to the media file
+ * with the reference's available range, so timecode-based media lines up.
+ */
+export function parseOtio(contents: string, options: EditorialParseOptions = {}): EditorialTimeline {
+  let root: unknown
+  try {
+    root = JSON.parse(contents)
+  } catch {
+    throw new Error('OTIO file is not valid JSON')
+  }
+  if (getSchema(root) !== 'Timeline' || !isOtioObject(root)) {
+    throw new Error('OTIO file has no Timeline')
+  }
+  const stack = isOtioObject(root.tracks) && Array.isArray(root.tracks.children) ? root.tracks.children : []
+  const tracks = stack.filter((child): child is OtioObject => getSchema(child) === 'Track')
+  const track = tracks.find((candidate) => candidate.kind === 'Video') ?? tracks[0]
+  if (!track) {
+    throw new Error('OTIO timeline has no tracks')
+  }
+
+  let frameRate = options.frameRate && options.frameRate > 0 ? options.frameRate : 0
+  const clips: EditorialClip[] = []
+  const children = Array.isArray(track.children) ? track.children : []
+  children.forEach((child, index) => {
+    if (getSchema(child) !== 'Clip' || !isOtioObject(child)) {
+      return
+    }
+    const reference = getMediaReference(child)
+    const availableRange = isOtioObject(reference) ? readTimeRange(reference.available_range) : null
+    const sourceRange = readTimeRange(child.source_range) ?? availableRange
+    if (!sourceRange) {
+      console.warn('Skipped OTIO clip without a source range', child.name)
+      return
+    }
+    frameRate ||= sourceRange.rate
+    const mediaStart = availableRange?.start ?? 0
+    const targetUrl = isOtioObject(reference) && typeof reference.target_url === 'string' ? reference.target_url : undefined
+    const name = typeof child.name === 'string' && child.name ? child.name : `Clip ${clips.length + 1}`
+    clips.push({
+      id: `otio:${index + 1}:${name}`,
+      name,
+      mediaName: targetUrl ? getBaseName(targetUrl) : name,
+      mediaUrl: targetUrl,
+      sourceIn: sourceRange.start - mediaStart,
+      sourceOut: sourceRange.start - mediaStart + sourceRange.duration,
+    })
+  })
+
+  return {
+    name: typeof root.name === 'string' && root.name ? root.name : 'Timeline',
+    format: 'otio',
+    frameRate: frameRate || 24,
+    clips,
+  }
+}
+
+/** Parse an EDL or OTIO file into a cut. Throws when the format is unrecognized or malformed. */
+export function parseEditorialTimeline(contents: string, fileName: string, options: EditorialParseOptions = {}) {
+  switch (detectEditorialFormat(fileName, contents)) {
+    case 'edl':
+      return parseEdl(contents, options)
+    case 'otio':
+      return parseOtio(contents, options)
+    default:
+      throw new Error(`${fileName} is not an EDL or OTIO file`)
+  }
+}
+
+/**
+ * Match a cut's clips to media by file name (ignoring directory, extension and case), then to
+ * playable URLs the timeline itself carries. Clips with no media are returned as missing.
+ */
+export function resolveEditorialSources(timeline: EditorialTimeline, candidates: EditorialMediaCandidate[]) {
+  const byKey = new Map<string, EditorialMediaCandidate>()
+  candidates.forEach((candidate) => {
+    if (!byKey.has(getMediaKey(candidate.name))) {
+      byKey.set(getMediaKey(candidate.name), candidate)
+    }
+  })
+
+  const sources: VideoSourceOption[] = []
+  const missing: EditorialClip[] = []
+  timeline.clips.forEach((clip) => {
+    const match = byKey.get(getMediaKey(clip.mediaName)) ?? byKey.get(getMediaKey(clip.name))
+    const src = match?.src ?? (clip.mediaUrl && /^(https?|blob):/i.test(clip.mediaUrl) ? clip.mediaUrl : undefined)
+    if (!src) {
+      missing.push(clip)
+      return
+    }
+    sources.push({
+      id: clip.id,
+      src,
+      type: match?.type,
+      label: clip.name,
+      sourceIn: clip.sourceIn,
+      sourceOut: clip.sourceOut,
+    })
+  })
+  return { sources, missing }
+}
@@ -0,0 +1,222 @@
+import { parseMp4VideoTrack, type Mp4VideoTrack } from './mp4Demux'
+
+/** Frames kept decoded on either side of the most recently requested one. */
+const FRAME_CACHE_RADIUS = 12
+/** The demuxer holds the whole file in memory; larger files stay on the element path. */
+const MAX_DEMUX_BYTES = 1024 ** 3
+
+/** Exact frames of one MP4 clip, decoded by presentation index with WebCodecs. */
+export interface DecodedFrameSource {
+  codec: string
+  width: number
+  height: number
+  frameCount: number
+  /** Mean frames per second over the whole track. */
+  averageFrameRate: number
+  /** Presentation time a frame appears at, in seconds. */
+  getFrameTime(frame: number): number
+  /** Middle of a frame's display interval; parking a video element here shows that frame. */
+  getFrameMidTime(frame: number): number
+  /** The frame on screen at a time: the last one presented at or before it. */
+  getFrameAtTime(time: number): number
+  getCachedFrameCount(): number
+  /**
+   * Decode a frame by presentation index. Resolves null when a newer request superseded it
+   * before decoding started; otherwise the caller owns the returned frame and must close it.
+   */
+  requestFrame(frame: number): Promise<VideoFrame | null>
+  dispose(): void
+}
+
+export function isWebCodecsSupported() {
+  return typeof VideoDecoder !== 'undefined' && typeof EncodedVideoChunk !== 'undefined'
+}
+
+function toMicroseconds(value: number, timescale: number) {
+  return Math.round((value / timescale) * 1e6)
+}
+
+function createFrameSource(buffer: ArrayBuffer, track: Mp4VideoTrack, config: VideoDecoderConfig): DecodedFrameSource {
+  const { samples, frameSamples, frameTimes, frameDurations } = track
+  const frameCount = frameSamples.length
+  const timestamps = samples.map((sample) => toMicroseconds(sample.compositionTime, track.timescale))
+  const frameByTimestamp = new Map(frameSamples.map((sampleIndex, frame) => [timestamps[sampleIndex], frame]))
+  const cache = new Map<number, VideoFrame>()
+  const totalDuration = frameTimes[frameCount - 1] + frameDurations[frameCount - 1] - frameTimes[0]
+
+  let decoder: VideoDecoder | null = null
+  let decodeError: DOMException | null = null
+  let windowCenter = 0
+  let latestRequest = 0
+  let queue: Promise<unknown> = Promise.resolve()
+  let disposed = false
+
+  function clampFrame(frame: number) {
+    return Math.min(frameCount - 1, Math.max(0, Math.round(frame)))
+  }
+
+  function recenter(frame: number) {
+    windowCenter = frame
+    cache.forEach((decoded, cachedFrame) => {
+      if (Math.abs(cachedFrame - frame) > FRAME_CACHE_RADIUS) {
+        decoded.close()
+        cache.delete(cachedFrame)
+      }
+    })
+  }
+
+  function handleOutput(output: VideoFrame) {
+    const frame = frameByTimestamp.get(output.timestamp)
+    if (disposed || frame === undefined || cache.has(frame) || Math.abs(frame - windowCenter) > FRAME_CACHE_RADIUS) {
+      output.close()
+      return
+    }
+    cache.set(frame, output)
+  }
+
+  function getDecoder() {
+    if (!decoder || decoder.state === 'closed') {
+      decodeError = null
+      decoder = new VideoDecoder({
+        output: handleOutput,
+        error: (error) => {
+          decodeError = error
+        },
+      })
+      decoder.configure(config)
+    }
+    return decoder
+  }
+
+  function findKeyframe(sampleIndex: number) {
+    let index = sampleIndex
+    while (index > 0 && !samples[index].keyframe) {
+      index -= 1
+    }
+    return index
+  }
+
+  async function decodeAround(frame: number) {
+    const target = frameSamples[frame]
+    let first = findKeyframe(target)
+    // Open-GOP leading pictures present before their keyframe and reference the GOP before it.
+    while (first > 0 && samples[first].compositionTime > samples[target].compositionTime) {
+      first = findKeyframe(first - 1)
+    }
+    // Carry on past the target so the frames ahead of it land in the cache too.
+    let last = target
+    for (let ahead = frame + 1; ahead <= Math.min(frame + FRAME_CACHE_RADIUS, frameCount - 1); ahead += 1) {
+      last = Math.max(last, frameSamples[ahead])
+    }
+
+    const active = getDecoder()
+    for (let index = first; index <= last; index += 1) {
+      const sample = samples[index]
+      active.decode(new EncodedVideoChunk({
+        type: index === first || sample.keyframe ? 'key' : 'delta',
+        timestamp: timestamps[index],
+        duration: toMicroseconds(sample.duration, track.timescale),
+        data: new Uint8Array(buffer, sample.offset, sample.size),
+      }))
+    }
+    try {
+      await active.flush()
+    } catch (error) {
+      decoder = null
+      throw decodeError ?? error
+    }
+  }
+
+  return {
+    codec: track.codec,
+    width: track.codedWidth,
+    height: track.codedHeight,
+    frameCount,
+    averageFrameRate: totalDuration > 0 ? frameCount / totalDuration : 0,
+    getFrameTime(frame) {
+      return frameTimes[clampFrame(frame)]
+    },
+    getFrameMidTime(frame) {
+      const index = clampFrame(frame)
+      return frameTimes[index] + frameDurations[index] / 2
+    },
+    getFrameAtTime(time) {
+      let low = 0
+      let high = frameCount - 1
+      while (low < high) {
+        const middle = Math.ceil((low + high) / 2)
+        if (frameTimes[middle] <= time + 1e-6) {
+          low = middle
+        } else {
+          high = middle - 1
+        }
+      }
+      return low
+    },
+    getCachedFrameCount() {
+      return cache.size
+    },
+    requestFrame(frame) {
+      const request = ++latestRequest
+      const index = clampFrame(frame)
+      const run = queue.then(async () => {
+        if (disposed || (request !== latestRequest && !cache.has(index))) {
+          return null
+        }
+        recenter(index)
+        if (!cache.has(index)) {
+          await decodeAround(index)
+        }
+        const decoded = cache.get(index)
+        if (!decoded) {
+          throw new Error(`Decoder produced no picture for frame ${index}`)
+        }
+        return decoded.clone()
+      })
+      queue = run.catch(() => undefined)
+      return run
+    },
+    dispose() {
+      disposed = true
+      latestRequest += 1
+      cache.forEach((decoded) => decoded.close())
+      cache.clear()
+      if (decoder && decoder.state !== 'closed') {
+        decoder.close()
+      }
+      decoder = null
+    },
+  }
+}
+
+/**
+ * Fetch an MP4 clip, demux its video track and check WebCodecs can decode it. Throws when the
+ * file is too large, not a progressive MP4, or in a codec this browser cannot decode.
+ */
+export async function createDecodedFrameSource(src: string): Promise<DecodedFrameSource> {
+  const response = await fetch(src)
+  if (!response.ok) {
+    throw new Error(`Video request failed with ${response.status}`)
+  }
+  const length = Number(response.headers.get('content-length'))
+  if (length > MAX_DEMUX_BYTES) {
+    throw new Error(`Video is too large to demux in memory (${Math.round(length / 1024 ** 2)} MB)`)
+  }
+  const buffer = await response.arrayBuffer()
+  const track = parseMp4VideoTrack(buffer)
+  if (track.frameSamples.length === 0) {
+    throw new Error('MP4 video track has no frames')
+  }
+  const config: VideoDecoderConfig = {
+    codec: track.codec,
+    codedWidth: track.codedWidth,
+    codedHeight: track.codedHeight,
+    description: track.description,
+    optimizeForLatency: true,
+  }
+  const support = await VideoDecoder.isConfigSupported(config)
+  if (!support.supported) {
+    throw new Error(`WebCodecs cannot decode ${track.codec}`)
+  }
+  return createFrameSource(buffer, track, config)
+}
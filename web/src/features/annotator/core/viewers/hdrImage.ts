@@ -0,0 +1,409 @@
+/** Encoding of decoded samples before display: scene-linear Rec.709, scene-linear ACEScg, or sRGB-encoded. */
+export type HdrInputSpace = 'linear' | 'acescg' | 'srgb'
+
+/** Display transform applied after exposure. `aces` is the fitted ACES RRT + sRGB ODT. */
+export type HdrViewTransform = 'srgb' | 'rec709' | 'aces'
+
+export interface HdrImage {
+  width: number
+  height: number
+  /** Top-down, interleaved RGBA samples; 1.0 is diffuse white. */
+  data: Float32Array
+  /** Human-readable source encoding, e.g. `EXR float` or `PNG 16-bit`. */
+  format: string
+  /** Encoding detected from the file; the viewer may override it. */
+  inputSpace: HdrInputSpace
+}
+
+export interface HdrDisplaySettings {
+  /** Stops applied in linear light. */
+  exposure: number
+  /** Display gamma applied after the view transform. */
+  gamma: number
+  viewTransform: HdrViewTransform
+  inputSpace: HdrInputSpace
+}
+
+export interface HdrPixelSample {
+  x: number
+  y: number
+  /** Linear values in the input space (sRGB input is decoded first). */
+  r: number
+  g: number
+  b: number
+  a: number
+}
+
+export const DEFAULT_HDR_DISPLAY: HdrDisplaySettings = {
+  exposure: 0,
+  gamma: 1,
+  viewTransform: 'srgb',
+  inputSpace: 'linear',
+}
+
+export const HDR_INPUT_SPACES: HdrInputSpace[] = ['linear', 'acescg', 'srgb']
+export const HDR_VIEW_TRANSFORMS: HdrViewTransform[] = ['srgb', 'rec709', 'aces']
+
+export const HDR_INPUT_SPACE_LABELS: Record<HdrInputSpace, string> = {
+  linear: 'Linear Rec.709',
+  acescg: 'ACEScg',
+  srgb: 'sRGB',
+}
+
+export const HDR_VIEW_TRANSFORM_LABELS: Record<HdrViewTransform, string> = {
+  srgb: 'sRGB',
+  rec709: 'Rec.709',
+  aces: 'ACES (sRGB display)',
+}
+
+const HDR_EXTENSIONS = /\.(exr|png|tiff?)(\?.*)?$/i
+
+/** Whether a URL may hold pixels the browser would flatten to 8-bit (or cannot decode at all). */
+export function isHdrCandidate(url: string) {
+  return HDR_EXTENSIONS.test(url)
+}
+
+// ACEScg (AP1, D60) to linear Rec.709 (D65), Bradford adapted.
+const AP1_TO_REC709 = [
+  1.70505, -0.62179, -0.08326,
+  -0.13026, 1.1408, -0.01055,
+  -0.024, -0.12897, 1.15297,
+]
+// Fitted ACES RRT + ODT (Stephen Hill), linear Rec.709 in and out.
+const ACES_INPUT = [
+  0.59719, 0.35458, 0.04823,
+  0.076, 0.90834, 0.01566,
+  0.0284, 0.13383, 0.83777,
+]
+const ACES_OUTPUT = [
+  1.60475, -0.53108, -0.07367,
+  -0.10208, 1.10813, -0.00605,
+  -0.00327, -0.07276, 1.07602,
+]
+const ENCODE_LUT_SIZE = 4096
+
+export function srgbToLinear(value: number) {
+  return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4
+}
+
+function linearToSrgb(value: number) {
+  return value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055
+}
+
+function linearToRec709(value: number) {
+  return value < 0.018 ? value * 4.5 : 1.099 * value ** 0.45 - 0.099
+}
+
+function acesFit(value: number) {
+  return (value * (value + 0.0245786) - 0.000090537) / (value * (0.983729 * value + 0.432951) + 0.238081)
+}
+
+function applyAcesFit(r: number, g: number, b: number) {
+  const [inR, inG, inB] = multiply(ACES_INPUT, r, g, b)
+  return multiply(ACES_OUTPUT, acesFit(inR), acesFit(inG), acesFit(inB))
+}
+
+function multiply(matrix: number[], r: number, g: number, b: number): [number, number, number] {
+  return [
+    matrix[0] * r + matrix[1] * g + matrix[2] * b,
+    matrix[3] * r + matrix[4] * g + matrix[5] * b,
+    matrix[6] * r + matrix[7] * g + matrix[8] * b,
+  ]
+}
+
+function halfToFloat(half: number) {
+  const exponent = (half >> 10) & 0x1f
+  const mantissa = half & 0x3ff
+  const sign = half & 0x8000 ? -1 : 1
+  if (exponent === 0) {
+    return sign * 2 ** -14 * (mantissa / 1024)
+  }
+  if (exponent === 0x1f) {
+    return mantissa ? Number.NaN : sign * Number.POSITIVE_INFINITY
+  }
+  return sign * 2 ** (exponent - 15) * (1 + mantissa / 1024)
+}
+
+/** Spread 1–4 channel samples into RGBA; gray fills RGB and missing alpha is opaque. */
+function toRgba(width: number, height: number, channels: number, read: (index: number) => number) {
+  const data = new Float32Array(width * height * 4)
+  for (let pixel = 0; pixel < width * height; pixel += 1) {
+    const source = pixel * channels
+    const target = pixel * 4
+    if (channels >= 3) {
+      data[target] = read(source)
+      data[target + 1] = read(source + 1)
+      data[target + 2] = read(source + 2)
+    } else {
+      const gray = read(source)
+      data[target] = gray
+      data[target + 1] = gray
+      data[target + 2] = gray
+    }
+    data[target + 3] = channels === 4 || channels === 2 ? read(source + channels - 1) : 1
+  }
+  return data
+}
+
+function isAp1(chromaticities: { redX?: number; redY?: number } | undefined) {
+  return Boolean(chromaticities && Math.abs((chromaticities.redX ?? 0) - 0.713) < 0.002 && Math.abs((chromaticities.redY ?? 0) - 0.293) < 0.002)
+}
+
+async function decodeExr(buffer: ArrayBuffer): Promise<HdrImage> {
+  const [{ EXRLoader }, { FloatType }] = await Promise.all([
+    import('three/examples/jsm/loaders/EXRLoader.js'),
+    import('three'),
+  ])
+  const exr = new EXRLoader().setDataType(FloatType).parse(buffer)
+  const channels = exr.data.length / (exr.width * exr.height)
+  const source = exr.data as Float32Array
+  // The loader writes rows bottom-up for GPU upload; flip back to image order.
+  const data = toRgba(exr.width, exr.height, channels, (index) => {
+    const pixel = Math.floor(index / channels)
+    const row = Math.floor(pixel / exr.width)
+    const flipped = (exr.height - 1 - row) * exr.width + (pixel % exr.width)
+    return source[flipped * channels + (index % channels)]
+  })
+  const header = exr.header as { chromaticities?: { redX?: number; redY?: number } }
+  return {
+    width: exr.width,
+    height: exr.height,
+    data,
+    format: 'EXR float',
+    inputSpace: isAp1(header.chromaticities) ? 'acescg' : 'linear',
+  }
+}
+
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 }
+
+function paeth(left: number, above: number, upperLeft: number) {
+  const estimate = left + above - upperLeft
+  const distanceLeft = Math.abs(estimate - left)
+  const distanceAbove = Math.abs(estimate - above)
+  const distanceUpperLeft = Math.abs(estimate - upperLeft)
+  if (distanceLeft <= distanceAbove && distanceLeft <= distanceUpperLeft) {
+    return left
+  }
+  return distanceAbove <= distanceUpperLeft ? above : upperLeft
+}
+
+/** Decode a non-interlaced 16-bit PNG; null for 8-bit or palette files the browser handles. */
+async function decodePng16(buffer: ArrayBuffer): Promise<HdrImage | null> {
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+  let offset = 8
+  let width = 0
+  let height = 0
+  let bitDepth = 0
+  let colorType = 0
+  let inputSpace: HdrInputSpace = 'srgb'
+  const idat: Uint8Array[] = []
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset)
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8))
+    const body = offset + 8
+    if (type === 'IHDR') {
+      width = view.getUint32(body)
+      height = view.getUint32(body + 4)
+      bitDepth = bytes[body + 8]
+      colorType = bytes[body + 9]
+      const interlace = bytes[body + 12]
+      if (bitDepth !== 16 || interlace !== 0 || !PNG_CHANNELS[colorType]) {
+        return null
+      }
+    } else if (type === 'gAMA' && view.getUint32(body) === 100000) {
+      // Encoding gamma of 1.0 marks linear data.
+      inputSpace = 'linear'
+    } else if (type === 'IDAT') {
+      idat.push(bytes.subarray(body, body + length))
+    } else if (type === 'IEND') {
+      break
+    }
+    offset = body + length + 4
+  }
+  if (!width || !height || bitDepth !== 16) {
+    return null
+  }
+
+  const { unzlibSync } = await import('three/examples/jsm/libs/fflate.module.js')
+  const compressed = new Uint8Array(idat.reduce((total, chunk) => total + chunk.length, 0))
+  idat.reduce((position, chunk) => {
+    compressed.set(chunk, position)
+    return position + chunk.length
+  }, 0)
+  const raw = unzlibSync(compressed)
+  const channels = PNG_CHANNELS[colorType]
+  const bytesPerPixel = channels * 2
+  const stride = width * bytesPerPixel
+  const pixels = new Uint8Array(stride * height)
+  for (let row = 0; row < height; row += 1) {
+    const filter = raw[row * (stride + 1)]
+    const input = row * (stride + 1) + 1
+    const output = row * stride
+    for (let index = 0; index < stride; index += 1) {
+      const left = index >= bytesPerPixel ? pixels[output + index - bytesPerPixel] : 0
+      const above = row > 0 ? pixels[output - stride + index] : 0
+      const upperLeft = row > 0 && index >= bytesPerPixel ? pixels[output - stride + index - bytesPerPixel] : 0
+      const value = raw[input + index]
+      const predictor = filter === 1 ? left
+        : filter === 2 ? above
+          : filter === 3 ? (left + above) >> 1
+            : filter === 4 ? paeth(left, above, upperLeft)
+              : 0
+      pixels[output + index] = (value + predictor) & 0xff
+    }
+  }
+  const samples = new DataView(pixels.buffer)
+  return {
+    width,
+    height,
+    data: toRgba(width, height, channels, (index) => samples.getUint16(index * 2) / 65535),
+    format: 'PNG 16-bit',
+    inputSpace,
+  }
+}
+
+interface TiffIfd {
+  width: number
+  height: number
+  data: Uint8Array
+  isLE: boolean
+  [tag: `t${number}`]: number[] | undefined
+}
+
+/** Decode a TIFF at its native depth; 8-bit files go through UTIF's RGBA conversion. */
+async function decodeTiff(buffer: ArrayBuffer): Promise<HdrImage> {
+  const { default: UTIF } = await import('three/examples/jsm/libs/utif.module.js')
+  const ifds = UTIF.decode(buffer) as TiffIfd[]
+  const ifd = ifds[0]
+  UTIF.decodeImage(buffer, ifd)
+  const { width, height } = ifd
+  const bitsPerSample = ifd.t258?.[0] ?? 8
+  const channels = ifd.t277?.[0] ?? 1
+  const isFloat = ifd.t339?.[0] === 3
+  const isPlanar = ifd.t284?.[0] === 2
+
+  if ((bitsPerSample === 16 || bitsPerSample === 32) && !isPlanar && channels <= 4) {
+    const samples = new DataView(ifd.data.buffer, ifd.data.byteOffset, ifd.data.byteLength)
+    // UTIF swaps 16-bit samples to little-endian; 32-bit samples keep the file's byte order.
+    const read = bitsPerSample === 16
+      ? isFloat
+        ? (index: number) => halfToFloat(samples.getUint16(index * 2, true))
+        : (index: number) => samples.getUint16(index * 2, true) / 65535
+      : isFloat
+        ? (index: number) => samples.getFloat32(index * 4, ifd.isLE)
+        : (index: number) => samples.getUint32(index * 4, ifd.isLE) / 0xffffffff
+    return {
+      width,
+      height,
+      data: toRgba(width, height, channels, read),
+      format: `TIFF ${bitsPerSample}-bit${isFloat ? ' float' : ''}`,
+      inputSpace: isFloat ? 'linear' : 'srgb',
+    }
+  }
+
+  const rgba = UTIF.toRGBA8(ifd) as Uint8Array
+  return {
+    width,
+    height,
+    data: Float32Array.from(rgba, (value) => value / 255),
+    format: 'TIFF 8-bit',
+    inputSpace: 'srgb',
+  }
+}
+
+/**
+ * Fetch and decode an EXR, TIFF or 16-bit PNG into float RGBA. Resolves to null when the
+ * file is an ordinary 8-bit PNG, which the browser's own decoder handles better.
+ */
+export async function decodeHdrImage(url: string): Promise<HdrImage | null> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Image request failed with ${response.status}`)
+  }
+  const buffer = await response.arrayBuffer()
+  const magic = new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength))
+  if (magic[0] === 0x76 && magic[1] === 0x2f && magic[2] === 0x31 && magic[3] === 0x01) {
+    return decodeExr(buffer)
+  }
+  if (magic[0] === 0x89 && magic[1] === 0x50 && magic[2] === 0x4e && magic[3] === 0x47) {
+    return decodePng16(buffer)
+  }
+  if ((magic[0] === 0x49 && magic[1] === 0x49) || (magic[0] === 0x4d && magic[1] === 0x4d)) {
+    return decodeTiff(buffer)
+  }
+  return null
+}
+
+/** Linear Rec.709 value of one channel triple, given the settings' input space. */
+export function toLinearRec709(r: number, g: number, b: number, inputSpace: HdrInputSpace): [number, number, number] {
+  if (inputSpace === 'srgb') {
+    return [srgbToLinear(r), srgbToLinear(g), srgbToLinear(b)]
+  }
+  return inputSpace === 'acescg' ? multiply(AP1_TO_REC709, r, g, b) : [r, g, b]
+}
+
+/** Encoded 0..1 → 0..255 table for the view transform's output curve with display gamma folded in. */
+function createEncodeLut(viewTransform: HdrViewTransform, gamma: number) {
+  const encode = viewTransform === 'rec709' ? linearToRec709 : linearToSrgb
+  const inverseGamma = 1 / Math.max(0.1, gamma)
+  const lut = new Uint8ClampedArray(ENCODE_LUT_SIZE + 1)
+  for (let index = 0; index <= ENCODE_LUT_SIZE; index += 1) {
+    lut[index] = Math.round(encode(index / ENCODE_LUT_SIZE) ** inverseGamma * 255)
+  }
+  return lut
+}
+
+/** Apply exposure, view transform and gamma to produce displayable 8-bit pixels. */
+export function renderHdrImage(image: HdrImage, settings: HdrDisplaySettings): ImageData {
+  const output = new ImageData(image.width, image.height)
+  const lut = createEncodeLut(settings.viewTransform, settings.gamma)
+  const gain = 2 ** settings.exposure
+  const { data } = image
+  const pixels = output.data
+  const toLut = (value: number) => lut[Math.round(Math.min(1, Math.max(0, value)) * ENCODE_LUT_SIZE)]
+
+  for (let index = 0; index < data.length; index += 4) {
+    const [linearR, linearG, linearB] = toLinearRec709(data[index], data[index + 1], data[index + 2], settings.inputSpace)
+    const [r, g, b] = settings.viewTransform === 'aces'
+      ? applyAcesFit(linearR * gain, linearG * gain, linearB * gain)
+      : [linearR * gain, linearG * gain, linearB * gain]
+    pixels[index] = toLut(r)
+    pixels[index + 1] = toLut(g)
+    pixels[index + 2] = toLut(b)
+    pixels[index + 3] = Math.round(Math.min(1, Math.max(0, data[index + 3])) * 255)
+  }
+  return output
+}
+
+/** Linear values at a source pixel, or null outside the image. */
+export function sampleHdrPixel(image: HdrImage, inputSpace: HdrInputSpace, x: number, y: number): HdrPixelSample | null {
+  const column = Math.floor(x)
+  const row = Math.floor(y)
+  if (column < 0 || row < 0 || column >= image.width || row >= image.height) {
+    return null
+  }
+  const index = (row * image.width + column) * 4
+  const { data } = image
+  const decode = inputSpace === 'srgb' ? srgbToLinear : (value: number) => value
+  return {
+    x: column,
+    y: row,
+    r: decode(data[index]),
+    g: decode(data[index + 1]),
+    b: decode(data[index + 2]),
+    a: data[index + 3],
+  }
+}
+
+/** Linear values of an 8-bit sRGB pixel read back from a canvas. */
+export function sampleSrgbPixel(rgba: ArrayLike<number>, x: number, y: number): HdrPixelSample {
+  return {
+    x: Math.floor(x),
+    y: Math.floor(y),
+    r: srgbToLinear(rgba[0] / 255),
+    g: srgbToLinear(rgba[1] / 255),
+    b: srgbToLinear(rgba[2] / 255),
+    a: rgba[3] / 255,
+  }
+}
@@ -0,0 +1,315 @@
+/** One coded sample of the video track, in decode order. Times are in track timescale units. */
+export interface Mp4Sample {
+  offset: number
+  size: number
+  decodeTime: number
+  compositionTime: number
+  duration: number
+  keyframe: boolean
+}
+
+export interface Mp4VideoTrack {
+  /** WebCodecs codec string, e.g. `avc1.640028`. */
+  codec: string
+  /** Decoder configuration record (avcC, hvcC or av1C body) for `VideoDecoderConfig.description`. */
+  description?: Uint8Array
+  codedWidth: number
+  codedHeight: number
+  timescale: number
+  /** Decode order. */
+  samples: Mp4Sample[]
+  /** Presentation order: frame N is `samples[frameSamples[N]]`. Samples an edit list trims are left out. */
+  frameSamples: number[]
+  /** Presentation time of each frame in seconds on the movie timeline, edit list applied. */
+  frameTimes: number[]
+  /** Seconds each frame stays on screen. */
+  frameDurations: number[]
+}
+
+interface Mp4Box {
+  type: string
+  /** Payload start, after the header. */
+  start: number
+  end: number
+}
+
+const CONFIG_BOXES: Record<string, string> = {
+  avc1: 'avcC',
+  avc3: 'avcC',
+  hvc1: 'hvcC',
+  hev1: 'hvcC',
+  vp09: 'vpcC',
+  av01: 'av1C',
+}
+
+function readFourCC(view: DataView, offset: number) {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  )
+}
+
+function readUint64(view: DataView, offset: number) {
+  return view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4)
+}
+
+function readBoxes(view: DataView, start: number, end: number) {
+  const boxes: Mp4Box[] = []
+  let cursor = start
+  while (cursor + 8 <= end) {
+    let size = view.getUint32(cursor)
+    let header = 8
+    if (size === 1) {
+      size = readUint64(view, cursor + 8)
+      header = 16
+    } else if (size === 0) {
+      size = end - cursor
+    }
+    if (size < header || cursor + size > end) {
+      break
+    }
+    boxes.push({ type: readFourCC(view, cursor + 4), start: cursor + header, end: cursor + size })
+    cursor += size
+  }
+  return boxes
+}
+
+function findChild(view: DataView, parent: Mp4Box | undefined, type: string) {
+  return parent ? readBoxes(view, parent.start, parent.end).find((box) => box.type === type) : undefined
+}
+
+function requireChild(view: DataView, parent: Mp4Box | undefined, type: string) {
+  const box = findChild(view, parent, type)
+  if (!box) {
+    throw new Error(`MP4 video track has no ${type} box`)
+  }
+  return box
+}
+
+/** Timescale of an mvhd or mdhd box, which share their leading layout. */
+function readTimescale(view: DataView, box: Mp4Box) {
+  return view.getUint32(box.start + (view.getUint8(box.start) === 1 ? 20 : 12))
+}
+
+function hex(value: number) {
+  return value.toString(16).padStart(2, '0')
+}
+
+function decimal(value: number) {
+  return value.toString().padStart(2, '0')
+}
+
+function getHevcCodec(type: string, config: Uint8Array) {
+  const profileSpace = ['', 'A', 'B', 'C'][config[1] >> 6]
+  const tier = config[1] & 0x20 ? 'H' : 'L'
+  const profile = config[1] & 0x1f
+  // Compatibility flags are written bit-reversed.
+  let flags = ((config[2] << 24) | (config[3] << 16) | (config[4] << 8) | config[5]) >>> 0
+  let reversed = 0
+  for (let bit = 0; bit < 32; bit += 1) {
+    reversed = ((reversed << 1) | (flags & 1)) >>> 0
+    flags >>>= 1
+  }
+  const constraints = Array.from(config.subarray(6, 12))
+  while (constraints.length > 0 && constraints[constraints.length - 1] === 0) {
+    constraints.pop()
+  }
+  return [
+    `${type}.${profileSpace}${profile}`,
+    reversed.toString(16),
+    `${tier}${config[12]}`,
+    ...constraints.map((value) => hex(value).toUpperCase()),
+  ].join('.')
+}
+
+function getCodecString(type: string, config: Uint8Array) {
+  if (type === 'avc1' || type === 'avc3') {
+    return `${type}.${hex(config[1])}${hex(config[2])}${hex(config[3])}`
+  }
+  if (type === 'hvc1' || type === 'hev1') {
+    return getHevcCodec(type, config)
+  }
+  if (type === 'vp09') {
+    // vpcC is a full box: profile, level and bit depth follow the version and flags.
+    return `vp09.${decimal(config[4])}.${decimal(config[5])}.${decimal(config[6] >> 4)}`
+  }
+  const highBitDepth = (config[2] >> 6) & 1
+  const twelveBit = (config[2] >> 5) & 1
+  const bitDepth = highBitDepth ? (twelveBit ? 12 : 10) : 8
+  return `av01.${config[1] >> 5}.${decimal(config[1] & 0x1f)}${config[2] >> 7 ? 'H' : 'M'}.${decimal(bitDepth)}`
+}
+
+/**
+ * The edit list's shift onto the movie timeline: the media time the first non-empty edit
+ * starts at, plus any leading empty edits as a delay in seconds.
+ */
+function readEditList(view: DataView, trak: Mp4Box, movieTimescale: number) {
+  const elst = findChild(view, findChild(view, trak, 'edts'), 'elst')
+  if (!elst) {
+    return { mediaTime: 0, delay: 0 }
+  }
+  const version = view.getUint8(elst.start)
+  const count = view.getUint32(elst.start + 4)
+  const entrySize = version === 1 ? 20 : 12
+  let delay = 0
+  for (let entry = 0; entry < count; entry += 1) {
+    const offset = elst.start + 8 + entry * entrySize
+    const segmentDuration = version === 1 ? readUint64(view, offset) : view.getUint32(offset)
+    const mediaTime = version === 1
+      ? view.getInt32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12)
+      : view.getInt32(offset + 4)
+    if (mediaTime === -1) {
+      delay += segmentDuration / Math.max(movieTimescale, 1)
+      continue
+    }
+    return { mediaTime, delay }
+  }
+  return { mediaTime: 0, delay }
+}
+
+/**
+ * Read the first video track of a progressive MP4/MOV file into a sample table WebCodecs can
+ * decode from. Throws for fragmented files, files without a video track and codecs other than
+ * H.264, HEVC, VP9 and AV1.
+ */
+export function parseMp4VideoTrack(buffer: ArrayBuffer): Mp4VideoTrack {
+  const view = new DataView(buffer)
+  const moov = readBoxes(view, 0, view.byteLength).find((box) => box.type === 'moov')
+  if (!moov) {
+    throw new Error('No movie box; not an MP4 file')
+  }
+  const movieBoxes = readBoxes(view, moov.start, moov.end)
+  if (movieBoxes.some((box) => box.type === 'mvex')) {
+    throw new Error('Fragmented MP4 is not supported')
+  }
+  const mvhd = movieBoxes.find((box) => box.type === 'mvhd')
+  const movieTimescale = mvhd ? readTimescale(view, mvhd) : 1
+
+  const trak = movieBoxes.find((box) => {
+    const hdlr = findChild(view, findChild(view, box, 'mdia'), 'hdlr')
+    return box.type === 'trak' && hdlr !== undefined && readFourCC(view, hdlr.start + 8) === 'vide'
+  })
+  if (!trak) {
+    throw new Error('MP4 file has no video track')
+  }
+  const mdia = requireChild(view, trak, 'mdia')
+  const timescale = readTimescale(view, requireChild(view, mdia, 'mdhd'))
+  const stbl = requireChild(view, requireChild(view, mdia, 'minf'), 'stbl')
+  const tables = readBoxes(view, stbl.start, stbl.end)
+  const table = (type: string) => tables.find((box) => box.type === type)
+
+  const stsd = table('stsd')
+  const entry = stsd ? readBoxes(view, stsd.start + 8, stsd.end)[0] : undefined
+  if (!entry || !CONFIG_BOXES[entry.type]) {
+    throw new Error(`Unsupported video codec ${entry?.type ?? 'unknown'}`)
+  }
+  // Visual sample entries carry 78 bytes of fixed fields before their child boxes.
+  const configBox = readBoxes(view, entry.start + 78, entry.end).find((box) => box.type === CONFIG_BOXES[entry.type])
+  if (!configBox) {
+    throw new Error(`${entry.type} sample entry has no ${CONFIG_BOXES[entry.type]} box`)
+  }
+  const config = new Uint8Array(buffer.slice(configBox.start, configBox.end))
+
+  const stsz = table('stsz')
+  if (!stsz) {
+    throw new Error('MP4 video track has no stsz box')
+  }
+  const uniformSize = view.getUint32(stsz.start + 4)
+  const sampleCount = view.getUint32(stsz.start + 8)
+  const sizes = Array.from({ length: sampleCount }, (_, index) => uniformSize || view.getUint32(stsz.start + 12 + index * 4))
+
+  const durations: number[] = []
+  const stts = table('stts')
+  for (let entryIndex = 0; stts && entryIndex < view.getUint32(stts.start + 4); entryIndex += 1) {
+    const count = view.getUint32(stts.start + 8 + entryIndex * 8)
+    const delta = view.getUint32(stts.start + 12 + entryIndex * 8)
+    for (let index = 0; index < count && durations.length < sampleCount; index += 1) {
+      durations.push(delta)
+    }
+  }
+
+  const compositionOffsets: number[] = []
+  const ctts = table('ctts')
+  for (let entryIndex = 0; ctts && entryIndex < view.getUint32(ctts.start + 4); entryIndex += 1) {
+    const count = view.getUint32(ctts.start + 8 + entryIndex * 8)
+    const offset = view.getInt32(ctts.start + 12 + entryIndex * 8)
+    for (let index = 0; index < count && compositionOffsets.length < sampleCount; index += 1) {
+      compositionOffsets.push(offset)
+    }
+  }
+
+  const stss = table('stss')
+  const syncSamples = stss
+    ? new Set(Array.from({ length: view.getUint32(stss.start + 4) }, (_, index) => view.getUint32(stss.start + 8 + index * 4)))
+    : null
+
+  const stco = table('stco') ?? table('co64')
+  if (!stco) {
+    throw new Error('MP4 video track has no chunk offsets')
+  }
+  const chunkOffsets = Array.from({ length: view.getUint32(stco.start + 4) }, (_, index) => (
+    stco.type === 'co64' ? readUint64(view, stco.start + 8 + index * 8) : view.getUint32(stco.start + 8 + index * 4)
+  ))
+
+  const offsets: number[] = []
+  const stsc = table('stsc')
+  const chunkRuns = stsc
+    ? Array.from({ length: view.getUint32(stsc.start + 4) }, (_, index) => ({
+        firstChunk: view.getUint32(stsc.start + 8 + index * 12),
+        samplesPerChunk: view.getUint32(stsc.start + 12 + index * 12),
+      }))
+    : []
+  chunkRuns.forEach((run, runIndex) => {
+    const lastChunk = runIndex + 1 < chunkRuns.length ? chunkRuns[runIndex + 1].firstChunk - 1 : chunkOffsets.length
+    for (let chunk = run.firstChunk; chunk <= lastChunk; chunk += 1) {
+      let offset = chunkOffsets[chunk - 1]
+      for (let index = 0; index < run.samplesPerChunk && offsets.length < sampleCount; index += 1) {
+        offsets.push(offset)
+        offset += sizes[offsets.length - 1]
+      }
+    }
+  })
+  if (offsets.length < sampleCount) {
+    throw new Error('MP4 sample table is truncated')
+  }
+
+  let decodeTime = 0
+  const samples = sizes.map((size, index) => {
+    const duration = durations[index] ?? durations[durations.length - 1] ?? 0
+    const sample: Mp4Sample = {
+      offset: offsets[index],
+      size,
+      decodeTime,
+      compositionTime: decodeTime + (compositionOffsets[index] ?? 0),
+      duration,
+      keyframe: syncSamples ? syncSamples.has(index + 1) : true,
+    }
+    decodeTime += duration
+    return sample
+  })
+
+  const { mediaTime, delay } = readEditList(view, trak, movieTimescale)
+  const toSeconds = (sample: Mp4Sample) => (sample.compositionTime - mediaTime) / timescale + delay
+  const frameSamples = samples
+    .map((_, index) => index)
+    .filter((index) => toSeconds(samples[index]) >= delay - 1e-6)
+    .sort((a, b) => samples[a].compositionTime - samples[b].compositionTime)
+  const frameTimes = frameSamples.map((index) => toSeconds(samples[index]))
+  const frameDurations = frameTimes.map((time, frame) => (
+    frame + 1 < frameTimes.length ? frameTimes[frame + 1] - time : samples[frameSamples[frame]].duration / timescale
+  ))
+
+  return {
+    codec: getCodecString(entry.type, config),
+    description: entry.type === 'vp09' ? undefined : config,
+    codedWidth: view.getUint16(entry.start + 24),
+    codedHeight: view.getUint16(entry.start + 26),
+    timescale,
+    samples,
+    frameSamples,
+    frameTimes,
+    frameDurations,
+  }
+}
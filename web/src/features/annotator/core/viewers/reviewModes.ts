@@ -0,0 +1,133 @@
+/** Which channel the image shows; single channels and luma display as grayscale. */
+export type ImageChannelMode = 'rgb' | 'red' | 'green' | 'blue' | 'alpha' | 'luminance'
+
+export interface ImageReviewModes {
+  channel: ImageChannelMode
+  /** Paint exposure zones (stops from 18% gray) instead of the image. */
+  falseColor: boolean
+  /** Mark pixels at or above 1.0 and at or below 0.0 in linear light. */
+  clipping: boolean
+  /** Show a checkerboard through transparent pixels. */
+  checkerboard: boolean
+}
+
+export interface ExposureZone {
+  /** Upper bound in stops relative to 18% gray. */
+  maxStops: number
+  label: string
+  color: [number, number, number]
+}
+
+export const DEFAULT_IMAGE_REVIEW_MODES: ImageReviewModes = {
+  channel: 'rgb',
+  falseColor: false,
+  clipping: false,
+  checkerboard: false,
+}
+
+export const IMAGE_CHANNEL_MODES: ImageChannelMode[] = ['rgb', 'red', 'green', 'blue', 'alpha', 'luminance']
+
+export const IMAGE_CHANNEL_LABELS: Record<ImageChannelMode, string> = {
+  rgb: 'RGB',
+  red: 'Red',
+  green: 'Green',
+  blue: 'Blue',
+  alpha: 'Alpha',
+  luminance: 'Luminance',
+}
+
+// Diffuse white (linear 1.0) sits log2(1 / 0.18) ≈ 2.47 stops over middle gray.
+export const EXPOSURE_ZONES: ExposureZone[] = [
+  { maxStops: -6, label: 'Crushed', color: [91, 42, 134] },
+  { maxStops: -3, label: 'Deep shadow', color: [31, 79, 209] },
+  { maxStops: -0.5, label: 'Shadow', color: [27, 154, 170] },
+  { maxStops: 0.5, label: 'Middle gray', color: [46, 204, 64] },
+  { maxStops: 1.5, label: 'Skin', color: [255, 133, 190] },
+  { maxStops: 2.5, label: 'Highlight', color: [190, 190, 190] },
+  { maxStops: 4, label: 'Over white', color: [255, 220, 0] },
+  { maxStops: Number.POSITIVE_INFINITY, label: 'Hot', color: [255, 65, 54] },
+]
+
+const CLIPPED_HIGH: [number, number, number] = [255, 0, 64]
+const CLIPPED_LOW: [number, number, number] = [0, 96, 255]
+
+export function isReviewModeActive(modes: ImageReviewModes) {
+  return modes.channel !== 'rgb' || modes.falseColor || modes.clipping
+}
+
+export function getLinearLuminance(r: number, g: number, b: number) {
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+/** Stops relative to 18% gray; -Infinity for black. */
+export function getStopsFromGray(luminance: number) {
+  return luminance > 0 ? Math.log2(luminance / 0.18) : Number.NEGATIVE_INFINITY
+}
+
+export function getExposureZone(luminance: number): ExposureZone {
+  const stops = getStopsFromGray(luminance)
+  return EXPOSURE_ZONES.find((zone) => stops < zone.maxStops) ?? EXPOSURE_ZONES[EXPOSURE_ZONES.length - 1]
+}
+
+/**
+ * Rewrite displayed pixels in place for the active review modes. `readLinear` returns the
+ * scene-linear Rec.709 RGB behind the pixel at an RGBA offset, for zones and clipping.
+ */
+export function applyReviewModes(
+  display: ImageData,
+  modes: ImageReviewModes,
+  readLinear: (offset: number) => [number, number, number],
+) {
+  if (!isReviewModeActive(modes)) {
+    return display
+  }
+  const pixels = display.data
+  for (let offset = 0; offset < pixels.length; offset += 4) {
+    // Read before the channel rewrite, which may feed `readLinear` from these same pixels.
+    const linear = modes.falseColor || modes.clipping ? readLinear(offset) : null
+    if (modes.channel !== 'rgb') {
+      const value = modes.channel === 'red' ? pixels[offset]
+        : modes.channel === 'green' ? pixels[offset + 1]
+          : modes.channel === 'blue' ? pixels[offset + 2]
+            : modes.channel === 'alpha' ? pixels[offset + 3]
+              : Math.round(0.2126 * pixels[offset] + 0.7152 * pixels[offset + 1] + 0.0722 * pixels[offset + 2])
+      pixels[offset] = value
+      pixels[offset + 1] = value
+      pixels[offset + 2] = value
+      if (modes.channel === 'alpha') {
+        pixels[offset + 3] = 255
+      }
+    }
+    if (!linear) {
+      continue
+    }
+    const [r, g, b] = linear
+    let color: [number, number, number] | null = modes.falseColor ? getExposureZone(getLinearLuminance(r, g, b)).color : null
+    if (modes.clipping) {
+      const peak = Math.max(r, g, b)
+      color = peak >= 1 ? CLIPPED_HIGH : peak <= 0 ? CLIPPED_LOW : color
+    }
+    if (color) {
+      pixels[offset] = color[0]
+      pixels[offset + 1] = color[1]
+      pixels[offset + 2] = color[2]
+    }
+  }
+  return display
+}
+
+/** Two-tone tile for drawing a checkerboard behind transparent pixels. */
+export function createCheckerboardTile(cellSize = 8) {
+  const canvas = document.createElement('canvas')
+  canvas.width = cellSize * 2
+  canvas.height = cellSize * 2
+  const context = canvas.getContext('2d')
+  if (context) {
+    context.fillStyle = '#9ca3af'
+    context.fillRect(0, 0, cellSize * 2, cellSize * 2)
+    context.fillStyle = '#e5e7eb'
+    context.fillRect(0, 0, cellSize, cellSize)
+    context.fillRect(cellSize, cellSize, cellSize, cellSize)
+  }
+  return canvas
+}
@@ -7,6 +7,7 @@ import {
   Group,
   HemisphereLight,
   Material,
+  Matrix4,
   Mesh,
   MeshBasicMaterial,
   Object3D,
@@ -486,6 +487,19 @@ export function createThreeModelViewerAdapter(options: ThreeModelViewerOptions):
         viewState.target.z,
       ].join('|')
     },
+    getProjectionSnapshot(nextViewport) {
+      if (!camera || nextViewport.width <= 0 || nextViewport.height <= 0) {
+        return null
+      }
+      const halfWidth = nextViewport.width / 2
+      const halfHeight = nextViewport.height / 2
+      // Same mapping as worldToScreen: view, projection, then NDC to screen pixels.
+      const matrix = new Matrix4()
+        .set(halfWidth, 0, 0, halfWidth, 0, -halfHeight, 0, halfHeight, 0, 0, 1, 0, 0, 0, 0, 1)
+        .multiply(camera.projectionMatrix)
+        .multiply(camera.matrixWorldInverse)
+      return { revision: adapter.getProjectionRevision?.() ?? '', matrix: matrix.toArray(), clipDepth: true }
+    },
     renderBackdrop() {},
     formatAnchor(frame) {
       return `world(${frame.origin.x.toFixed(2)}, ${frame.origin.y.toFixed(2)}, ${frame.origin.z.toFixed(2)})`
@@ -496,6 +510,11 @@ export function createThreeModelViewerAdapter(options: ThreeModelViewerOptions):
       }
       applyCameraView(annotation.frame)
     },
+    focusAnnotation(annotation) {
+      if (annotation.frame.space === 'world3d' && annotation.frame.targetId === targetId) {
+        applyCameraView(annotation.frame)
+      }
+    },
     mountSurface(host): ViewerSurfaceController {
       hostElement = host
       host.replaceChildren()
@@ -0,0 +1,198 @@
+/** Where a pre-cut image pyramid lives: a Deep Zoom descriptor (.dzi) or a IIIF Image API info.json. */
+export interface TileSourceDescriptor {
+  type: 'dzi' | 'iiif'
+  url: string
+}
+
+/** One pyramid level, in source-pixel units so tiles place 1:1 with annotation coordinates. */
+export interface TileSourceLevel {
+  /** Source pixels per level pixel. */
+  downsample: number
+  columns: number
+  rows: number
+  /** Source pixels covered by one tile step (before any overlap). */
+  tileWidth: number
+  tileHeight: number
+}
+
+export interface TileRequest {
+  url: string
+  /** Source-pixel rectangle the tile image covers, overlap included. */
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface TileSource {
+  type: TileSourceDescriptor['type']
+  width: number
+  height: number
+  /** Finest level first. */
+  levels: TileSourceLevel[]
+  getTile(levelIndex: number, column: number, row: number): TileRequest
+}
+
+function readAttribute(xml: string, element: string, name: string) {
+  const tag = new RegExp(`<(?:\\w+:)?${element}\\b([^>]*)>`, 'i').exec(xml)?.[1] ?? ''
+  return new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`, 'i').exec(tag)?.[1]
+}
+
+function positive(value: unknown, label: string) {
+  const number = Number(value)
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`Tile source has no valid ${label}`)
+  }
+  return number
+}
+
+/**
+ * Parse a Deep Zoom descriptor, XML or its JSON form. Tiles live next to it under
+ * `<name>_files/<level>/<column>_<row>.<format>`, where level `max` is full size and each
+ * level below halves it; levels smaller than one tile are dropped.
+ */
+export function parseDeepZoomDescriptor(source: string, url: string): TileSource {
+  let attributes: { tileSize?: unknown; overlap?: unknown; format?: unknown; width?: unknown; height?: unknown }
+  if (source.trim().startsWith('{')) {
+    const image = (JSON.parse(source) as { Image?: Record<string, unknown> }).Image ?? {}
+    const size = (image.Size ?? {}) as Record<string, unknown>
+    attributes = { tileSize: image.TileSize, overlap: image.Overlap, format: image.Format, width: size.Width, height: size.Height }
+  } else {
+    attributes = {
+      tileSize: readAttribute(source, 'Image', 'TileSize'),
+      overlap: readAttribute(source, 'Image', 'Overlap'),
+      format: readAttribute(source, 'Image', 'Format'),
+      width: readAttribute(source, 'Size', 'Width'),
+      height: readAttribute(source, 'Size', 'Height'),
+    }
+  }
+  const width = positive(attributes.width, 'width')
+  const height = positive(attributes.height, 'height')
+  const tileSize = positive(attributes.tileSize, 'tile size')
+  const overlap = Math.max(0, Number(attributes.overlap) || 0)
+  const format = typeof attributes.format === 'string' && attributes.format ? attributes.format : 'jpg'
+  const base = `${url.replace(/\.(dzi|xml|json)(\?.*)?$/i, '')}_files`
+  const maxLevel = Math.ceil(Math.log2(Math.max(width, height)))
+
+  const dziLevels: number[] = []
+  const levels: TileSourceLevel[] = []
+  for (let level = maxLevel; level >= 0; level -= 1) {
+    const scale = 2 ** (maxLevel - level)
+    const levelWidth = Math.ceil(width / scale)
+    const levelHeight = Math.ceil(height / scale)
+    // Level pixels map onto source pixels by the level's true size, not the nominal power of two.
+    const downsampleX = width / levelWidth
+    const downsampleY = height / levelHeight
+    dziLevels.push(level)
+    levels.push({
+      downsample: scale,
+      columns: Math.ceil(levelWidth / tileSize),
+      rows: Math.ceil(levelHeight / tileSize),
+      tileWidth: tileSize * downsampleX,
+      tileHeight: tileSize * downsampleY,
+    })
+    if (levelWidth <= tileSize && levelHeight <= tileSize) {
+      break
+    }
+  }
+
+  return {
+    type: 'dzi',
+    width,
+    height,
+    levels,
+    getTile(levelIndex, column, row) {
+      const level = levels[levelIndex]
+      const levelWidth = Math.ceil(width / level.downsample)
+      const levelHeight = Math.ceil(height / level.downsample)
+      const x0 = Math.max(0, column * tileSize - (column > 0 ? overlap : 0))
+      const y0 = Math.max(0, row * tileSize - (row > 0 ? overlap : 0))
+      const x1 = Math.min(levelWidth, (column + 1) * tileSize + overlap)
+      const y1 = Math.min(levelHeight, (row + 1) * tileSize + overlap)
+      const downsampleX = width / levelWidth
+      const downsampleY = height / levelHeight
+      return {
+        url: `${base}/${dziLevels[levelIndex]}/${column}_${row}.${format}`,
+        x: x0 * downsampleX,
+        y: y0 * downsampleY,
+        width: (x1 - x0) * downsampleX,
+        height: (y1 - y0) * downsampleY,
+      }
+    },
+  }
+}
+
+interface IiifInfo {
+  id?: string
+  '@id'?: string
+  width?: number
+  height?: number
+  tiles?: Array<{ width?: number; height?: number; scaleFactors?: number[] }>
+  preferredFormats?: string[]
+}
+
+/**
+ * Parse a IIIF Image API (v2 or v3) info.json. Each advertised scale factor becomes a
+ * level; tiles are requested as source-pixel regions scaled down by that factor.
+ */
+export function parseIiifInfo(info: IiifInfo, url: string): TileSource {
+  const width = positive(info.width, 'width')
+  const height = positive(info.height, 'height')
+  const tiles = info.tiles?.[0]
+  const tileWidth = positive(tiles?.width, 'tile width')
+  const tileHeight = tiles?.height && tiles.height > 0 ? tiles.height : tileWidth
+  const scaleFactors = Array.from(new Set(tiles?.scaleFactors?.filter((factor) => factor > 0) ?? [1])).sort((a, b) => a - b)
+  const id = (info.id ?? info['@id'] ?? url.replace(/\/info\.json(\?.*)?$/i, '')).replace(/\/$/, '')
+  const format = info.preferredFormats?.find((candidate) => ['jpg', 'png', 'webp'].includes(candidate)) ?? 'jpg'
+
+  const levels = scaleFactors.map((factor) => ({
+    downsample: factor,
+    columns: Math.ceil(width / (tileWidth * factor)),
+    rows: Math.ceil(height / (tileHeight * factor)),
+    tileWidth: tileWidth * factor,
+    tileHeight: tileHeight * factor,
+  }))
+
+  return {
+    type: 'iiif',
+    width,
+    height,
+    levels,
+    getTile(levelIndex, column, row) {
+      const level = levels[levelIndex]
+      const x = column * level.tileWidth
+      const y = row * level.tileHeight
+      const regionWidth = Math.min(level.tileWidth, width - x)
+      const regionHeight = Math.min(level.tileHeight, height - y)
+      const outputWidth = Math.max(1, Math.ceil(regionWidth / level.downsample))
+      return {
+        url: `${id}/${x},${y},${regionWidth},${regionHeight}/${outputWidth},/0/default.${format}`,
+        x,
+        y,
+        width: regionWidth,
+        height: regionHeight,
+      }
+    },
+  }
+}
+
+/** Fetch and parse a tile source descriptor. */
+export async function loadTileSource(descriptor: TileSourceDescriptor): Promise<TileSource> {
+  const response = await fetch(descriptor.url)
+  if (!response.ok) {
+    throw new Error(`Tile source request failed with ${response.status}`)
+  }
+  return descriptor.type === 'iiif'
+    ? parseIiifInfo((await response.json()) as IiifInfo, descriptor.url)
+    : parseDeepZoomDescriptor(await response.text(), descriptor.url)
+}
+
+/** Level whose resolution best matches the current zoom (view pixels per source pixel). */
+export function pickTileLevel<Level extends { downsample: number }>(levels: Level[], scale: number): Level {
+  const targetDownsample = Math.max(1, 1 / scale)
+  return levels.reduce((best, current) => {
+    const bestDistance = Math.abs(Math.log2(best.downsample) - Math.log2(targetDownsample))
+    const currentDistance = Math.abs(Math.log2(current.downsample) - Math.log2(targetDownsample))
+    return currentDistance < bestDistance ? current : best
+  }, levels[0])
+}
@@ -3,7 +3,40 @@ import type {
   ViewportSize,
   ViewerAction,
   ViewerAdapter,
+  ViewerDiagnosticItem,
 } from './adapters'
+import { createPanZoomProjectionSnapshot } from '../rendering/host'
+import { getGeometryLocalBounds } from '../annotations/geometry'
+import {
+  DEFAULT_HDR_DISPLAY,
+  HDR_INPUT_SPACE_LABELS,
+  HDR_INPUT_SPACES,
+  HDR_VIEW_TRANSFORM_LABELS,
+  HDR_VIEW_TRANSFORMS,
+  decodeHdrImage,
+  isHdrCandidate,
+  renderHdrImage,
+  sampleHdrPixel,
+  sampleSrgbPixel,
+  srgbToLinear,
+  toLinearRec709,
+  type HdrDisplaySettings,
+  type HdrImage,
+  type HdrPixelSample,
+} from './hdrImage'
+import {
+  DEFAULT_IMAGE_REVIEW_MODES,
+  IMAGE_CHANNEL_LABELS,
+  IMAGE_CHANNEL_MODES,
+  applyReviewModes,
+  createCheckerboardTile,
+  getExposureZone,
+  getLinearLuminance,
+  getStopsFromGray,
+  isReviewModeActive,
+  type ImageReviewModes,
+} from './reviewModes'
+import { loadTileSource, pickTileLevel, type TileSource, type TileSourceDescriptor } from './tileSources'
 
 interface TileLevel {
   downsample: number
@@ -23,7 +56,8 @@ interface ViewState {
 
 export interface TiledImageViewerOptions {
   /** URL of the source image. Loaded at native resolution so annotation frame-local
-   *  coordinates map 1:1 to source pixels (required for faithful mask rasterization). */
+   *  coordinates map 1:1 to source pixels (required for faithful mask rasterization).
+   *  EXR, TIFF and 16-bit PNG are decoded to float and shown through a view transform. */
   imageUrl: string
   /** Sheet id annotations are bound to (frame.targetId). Defaults to 'stage-2-sheet'. */
   targetId?: string
@@ -31,6 +65,9 @@ export interface TiledImageViewerOptions {
    *  fit and lay out before the image finishes loading. Replaced by the real size on load. */
   width?: number
   height?: number
+  /** Pre-cut pyramid to stream instead of decoding `imageUrl` whole. Only the tiles visible
+   *  at the current level are fetched; the full image is loaded if the source fails. */
+  tileSource?: TileSourceDescriptor
 }
 
 // Fallbacks used only until the real image dimensions are known.
@@ -40,6 +77,12 @@ const TILE_SIZE = 256
 const PADDING = 32
 const MIN_SCALE = 0.02
 const MAX_SCALE = 8
+const MAX_CACHED_TILES = 384
+const EXPOSURE_STEP = 0.5
+const GAMMA_STEP = 0.1
+const SRGB_TO_LINEAR = Array.from({ length: 256 }, (_, value) => srgbToLinear(value / 255))
+
+let checkerboardTile: HTMLCanvasElement | null = null
 
 function createEmitter() {
   const listeners = new Set<() => void>()
@@ -100,6 +143,20 @@ function createPlaceholderBase(width: number, height: number) {
   return canvas
 }
 
+/** A single coarse placeholder level, so streamed sources never allocate a full-size canvas. */
+function createPlaceholderLevel(width: number, height: number): TileLevel {
+  const downsample = 2 ** Math.max(0, Math.ceil(Math.log2(Math.max(width, height) / 512)))
+  const canvas = createPlaceholderBase(Math.ceil(width / downsample), Math.ceil(height / downsample))
+  return {
+    downsample,
+    canvas,
+    width: canvas.width,
+    height: canvas.height,
+    columns: Math.ceil(canvas.width / TILE_SIZE),
+    rows: Math.ceil(canvas.height / TILE_SIZE),
+  }
+}
+
 /** Build a power-of-two mip pyramid from a base canvas (identical math to the demo). */
 function buildTileLevelsFromBase(base: HTMLCanvasElement): TileLevel[] {
   const levels: TileLevel[] = []
@@ -137,6 +194,46 @@ function buildTileLevelsFromBase(base: HTMLCanvasElement): TileLevel[] {
   return levels
 }
 
+interface CachedTile {
+  image: HTMLImageElement
+  loaded: boolean
+}
+
+/** Least-recently-used cache of streamed tile images; `onLoad` fires as each one arrives. */
+function createTileCache(onLoad: () => void) {
+  const tiles = new Map<string, CachedTile>()
+  return {
+    /** The tile image when decoded, otherwise null after queueing its request. */
+    get(url: string) {
+      const cached = tiles.get(url)
+      if (cached) {
+        tiles.delete(url)
+        tiles.set(url, cached)
+        return cached.loaded ? cached.image : null
+      }
+      const tile: CachedTile = { image: new Image(), loaded: false }
+      tile.image.crossOrigin = 'anonymous'
+      tile.image.onload = () => {
+        tile.loaded = true
+        onLoad()
+      }
+      // Failed tiles stay cached so they are not re-requested every frame.
+      tile.image.onerror = () => console.warn('Failed to load image tile', url)
+      tile.image.src = url
+      tiles.set(url, tile)
+      while (tiles.size > MAX_CACHED_TILES) {
+        const oldest = tiles.keys().next().value as string
+        tiles.delete(oldest)
+      }
+      return null
+    },
+  }
+}
+
+function cycle<T>(values: T[], current: T) {
+  return values[(values.indexOf(current) + 1) % values.length]
+}
+
 function frameToWorld(frame: AnnotationFrame, localPoint: Vec2): Vec3 {
   return {
     x: frame.origin.x + frame.xAxis.x * localPoint.x + frame.yAxis.x * localPoint.y,
@@ -159,8 +256,19 @@ export function createTiledImageViewerAdapter(options: TiledImageViewerOptions):
   const targetId = options.targetId ?? 'stage-2-sheet'
   let docWidth = options.width && options.width > 0 ? options.width : DEFAULT_DOC_WIDTH
   let docHeight = options.height && options.height > 0 ? options.height : DEFAULT_DOC_HEIGHT
-  let levels = buildTileLevelsFromBase(createPlaceholderBase(docWidth, docHeight))
+  let levels = options.tileSource
+    ? [createPlaceholderLevel(docWidth, docHeight)]
+    : buildTileLevelsFromBase(createPlaceholderBase(docWidth, docHeight))
   let imageReady = false
+  let tileSource: TileSource | null = null
+  let hdrImage: HdrImage | null = null
+  let hdrDisplay: HdrDisplaySettings = DEFAULT_HDR_DISPLAY
+  // Browser-decoded pixels, kept so review modes can re-derive the display from them.
+  let sourceBase: HTMLCanvasElement | null = null
+  let reviewModes: ImageReviewModes = DEFAULT_IMAGE_REVIEW_MODES
+  let probeEnabled = false
+  let probeSample: HdrPixelSample | null = null
+  let probeDisplay: Uint8ClampedArray | null = null
   let lastViewport: ViewportSize | null = null
 
   const emitter = createEmitter()
@@ -192,21 +300,9 @@ export function createTiledImageViewerAdapter(options: TiledImageViewerOptions):
     }
   }
 
-  // Load the real image and rebuild the pyramid at native resolution.
-  const image = new Image()
-  image.crossOrigin = 'anonymous'
-  image.onload = () => {
-    const naturalWidth = image.naturalWidth || docWidth
-    const naturalHeight = image.naturalHeight || docHeight
-    const base = createCanvas(naturalWidth, naturalHeight)
-    const context = base.getContext('2d')
-    if (context) {
-      context.imageSmoothingQuality = 'high'
-      context.drawImage(image, 0, 0, naturalWidth, naturalHeight)
-    }
-    docWidth = naturalWidth
-    docHeight = naturalHeight
-    levels = buildTileLevelsFromBase(base)
+  function handleImageReady(width: number, height: number) {
+    docWidth = width
+    docHeight = height
     imageReady = true
     // Re-fit now that the true dimensions are known.
     view.initialized = false
@@ -216,10 +312,165 @@ export function createTiledImageViewerAdapter(options: TiledImageViewerOptions):
       emitter.emit()
     }
   }
-  image.onerror = () => {
+
+  /** 8-bit pixels with the review modes applied, or the untouched source when reading it back fails. */
+  function renderReviewBase(source: HTMLCanvasElement) {
+    try {
+      const display = source.getContext('2d')?.getImageData(0, 0, source.width, source.height)
+      if (!display) {
+        return source
+      }
+      const pixels = display.data
+      applyReviewModes(display, reviewModes, (offset) => [
+        SRGB_TO_LINEAR[pixels[offset]],
+        SRGB_TO_LINEAR[pixels[offset + 1]],
+        SRGB_TO_LINEAR[pixels[offset + 2]],
+      ])
+      const base = createCanvas(source.width, source.height)
+      base.getContext('2d')?.putImageData(display, 0, 0)
+      return base
+    } catch (readError) {
+      // Cross-origin images without CORS headers taint the canvas.
+      console.warn('Review modes need readable pixels; showing the image unchanged', readError)
+      return source
+    }
+  }
+
+  /** Rebuild the displayed pyramid from the decoded pixels through the display settings and review modes. */
+  function rebuildDisplay() {
+    if (hdrImage) {
+      const { data, width, height } = hdrImage
+      const { inputSpace } = hdrDisplay
+      const display = applyReviewModes(renderHdrImage(hdrImage, hdrDisplay), reviewModes, (offset) =>
+        toLinearRec709(data[offset], data[offset + 1], data[offset + 2], inputSpace))
+      const base = createCanvas(width, height)
+      base.getContext('2d')?.putImageData(display, 0, 0)
+      levels = buildTileLevelsFromBase(base)
+    } else if (sourceBase) {
+      levels = buildTileLevelsFromBase(isReviewModeActive(reviewModes) ? renderReviewBase(sourceBase) : sourceBase)
+    }
     emitter.emit()
   }
-  image.src = options.imageUrl
+
+  function updateHdrDisplay(patch: Partial<HdrDisplaySettings>) {
+    hdrDisplay = { ...hdrDisplay, ...patch }
+    rebuildDisplay()
+  }
+
+  function updateReviewModes(patch: Partial<ImageReviewModes>) {
+    const pixelsChanged = Object.entries(patch).some(([key, value]) => key !== 'checkerboard' && reviewModes[key as keyof ImageReviewModes] !== value)
+    reviewModes = { ...reviewModes, ...patch }
+    if (pixelsChanged) {
+      rebuildDisplay()
+    } else {
+      emitter.emit()
+    }
+  }
+
+  // Load the real image and rebuild the pyramid at native resolution.
+  function loadBrowserImage() {
+    const image = new Image()
+    image.crossOrigin = 'anonymous'
+    image.onload = () => {
+      const naturalWidth = image.naturalWidth || docWidth
+      const naturalHeight = image.naturalHeight || docHeight
+      const base = createCanvas(naturalWidth, naturalHeight)
+      const context = base.getContext('2d')
+      if (context) {
+        context.imageSmoothingQuality = 'high'
+        context.drawImage(image, 0, 0, naturalWidth, naturalHeight)
+      }
+      sourceBase = base
+      rebuildDisplay()
+      handleImageReady(naturalWidth, naturalHeight)
+    }
+    image.onerror = () => {
+      emitter.emit()
+    }
+    image.src = options.imageUrl
+  }
+
+  function loadFullImage() {
+    if (!isHdrCandidate(options.imageUrl)) {
+      loadBrowserImage()
+      return
+    }
+    decodeHdrImage(options.imageUrl)
+      .then((decoded) => {
+        if (!decoded) {
+          loadBrowserImage()
+          return
+        }
+        hdrImage = decoded
+        hdrDisplay = { ...DEFAULT_HDR_DISPLAY, inputSpace: decoded.inputSpace }
+        rebuildDisplay()
+        handleImageReady(decoded.width, decoded.height)
+      })
+      .catch((decodeError) => {
+        console.warn('Failed to decode high bit depth image, using the browser decoder', decodeError)
+        loadBrowserImage()
+      })
+  }
+
+  function readPixel(canvas: HTMLCanvasElement, worldPoint: Vec3) {
+    try {
+      return canvas.getContext('2d')?.getImageData(Math.floor(worldPoint.x), Math.floor(worldPoint.y), 1, 1).data ?? null
+    } catch {
+      // Cross-origin images without CORS headers taint the canvas.
+      return null
+    }
+  }
+
+  /** Linear values under a world point: float samples when decoded here, else the 8-bit source read back. */
+  function sampleProbe(worldPoint: Vec3): HdrPixelSample | null {
+    if (hdrImage) {
+      return sampleHdrPixel(hdrImage, hdrDisplay.inputSpace, worldPoint.x, worldPoint.y)
+    }
+    if (!sourceBase || worldPoint.x < 0 || worldPoint.y < 0 || worldPoint.x >= docWidth || worldPoint.y >= docHeight) {
+      return null
+    }
+    const pixel = readPixel(sourceBase, worldPoint)
+    return pixel ? sampleSrgbPixel(pixel, worldPoint.x, worldPoint.y) : null
+  }
+
+  /** Diagnostics for the pixel under the cursor: position, linear and displayed values, exposure zone. */
+  function getInspectorDiagnostics(): ViewerDiagnosticItem[] {
+    if (!probeSample) {
+      return [{ label: 'Pixel', value: 'move over the image' }]
+    }
+    const { x, y, r, g, b, a } = probeSample
+    const [linearR, linearG, linearB] = hdrImage && hdrDisplay.inputSpace === 'acescg'
+      ? toLinearRec709(r, g, b, 'acescg')
+      : [r, g, b]
+    const luminance = getLinearLuminance(linearR, linearG, linearB)
+    const stops = getStopsFromGray(luminance)
+    return [
+      { label: 'Pixel', value: `${x}, ${y}` },
+      { label: 'Linear RGBA', value: [r, g, b, a].map((value) => value.toFixed(4)).join(' ') },
+      { label: 'Display RGB', value: probeDisplay ? Array.from(probeDisplay.subarray(0, 3)).join(' ') : '—' },
+      {
+        label: 'Luminance',
+        value: `${luminance.toFixed(4)} (${Number.isFinite(stops) ? `${stops >= 0 ? '+' : ''}${stops.toFixed(2)}` : '−∞'} stops)`,
+      },
+      { label: 'Zone', value: getExposureZone(luminance).label },
+    ]
+  }
+
+  const tileCache = createTileCache(() => emitter.emit())
+  if (options.tileSource) {
+    // The descriptor's size is the full-resolution size, so frame-local coordinates stay in source pixels.
+    loadTileSource(options.tileSource)
+      .then((source) => {
+        tileSource = source
+        handleImageReady(source.width, source.height)
+      })
+      .catch((loadError) => {
+        console.warn('Failed to load tile source, decoding the full image instead', loadError)
+        loadFullImage()
+      })
+  } else {
+    loadFullImage()
+  }
 
   function rawWorldToScreen(worldPoint: Vec3, viewport: ViewportSize) {
     ensureInitialized(viewport)
@@ -229,6 +480,11 @@ export function createTiledImageViewerAdapter(options: TiledImageViewerOptions):
     }
   }
 
+  function getProjectionRevision() {
+    // Image-space projection changes whenever zoom or pan changes (or the image loads).
+    return `${view.scale}|${view.offsetX}|${view.offsetY}|${imageReady ? 1 : 0}`
+  }
+
   function rawScreenToWorld(screenPoint: Vec2, viewport: ViewportSize): Vec3 {
     ensureInitialized(viewport)
     return {
@@ -268,20 +524,131 @@ export function createTiledImageViewerAdapter(options: TiledImageViewerOptions):
   }
 
   function getVisibleLevel() {
-    const targetDownsample = Math.max(1, 1 / view.scale)
-    return levels.reduce((best, current) => {
-      const bestDistance = Math.abs(Math.log2(best.downsample) - Math.log2(targetDownsample))
-      const currentDistance = Math.abs(Math.log2(current.downsample) - Math.log2(targetDownsample))
-      return currentDistance < bestDistance ? current : best
-    }, levels[0])
+    return tileSource ? pickTileLevel(tileSource.levels, view.scale) : pickTileLevel(levels, view.scale)
   }
 
-  const actions: ViewerAction[] = [
+  /**
+   * Draw the streamed tiles of one level that overlap a world rectangle, placing world
+   * point p at `origin + p * scale`. Tiles still loading are requested and skipped.
+   */
+  function drawStreamedLevel(
+    context: CanvasRenderingContext2D,
+    source: TileSource,
+    levelIndex: number,
+    worldRect: { left: number; top: number; right: number; bottom: number },
+    origin: Vec2,
+    scale: number,
+  ) {
+    const level = source.levels[levelIndex]
+    const startColumn = clamp(Math.floor(worldRect.left / level.tileWidth), 0, level.columns - 1)
+    const endColumn = clamp(Math.floor(worldRect.right / level.tileWidth), 0, level.columns - 1)
+    const startRow = clamp(Math.floor(worldRect.top / level.tileHeight), 0, level.rows - 1)
+    const endRow = clamp(Math.floor(worldRect.bottom / level.tileHeight), 0, level.rows - 1)
+    for (let row = startRow; row <= endRow; row += 1) {
+      for (let column = startColumn; column <= endColumn; column += 1) {
+        const tile = source.getTile(levelIndex, column, row)
+        const image = tileCache.get(tile.url)
+        if (image) {
+          context.drawImage(
+            image,
+            origin.x + tile.x * scale,
+            origin.y + tile.y * scale,
+            tile.width * scale,
+            tile.height * scale,
+          )
+        }
+      }
+    }
+  }
+
+  const navigationActions: ViewerAction[] = [
     { id: 'zoom-in', label: 'Zoom in', onSelect: (viewport) => zoomAt({ x: viewport.width / 2, y: viewport.height / 2 }, 1.2, viewport) },
     { id: 'zoom-out', label: 'Zoom out', onSelect: (viewport) => zoomAt({ x: viewport.width / 2, y: viewport.height / 2 }, 1 / 1.2, viewport) },
     { id: 'fit', label: 'Fit', onSelect: (viewport) => fitToViewport(viewport) },
   ]
 
+  function getDisplayActions(): ViewerAction[] {
+    if (!hdrImage) {
+      return []
+    }
+    const { exposure, gamma, viewTransform, inputSpace } = hdrDisplay
+    return [
+      { id: 'exposure-down', label: `Exposure −${EXPOSURE_STEP} stop`, onSelect: () => updateHdrDisplay({ exposure: exposure - EXPOSURE_STEP }) },
+      { id: 'exposure-up', label: `Exposure +${EXPOSURE_STEP} stop`, onSelect: () => updateHdrDisplay({ exposure: exposure + EXPOSURE_STEP }) },
+      {
+        id: 'gamma-down',
+        label: `Gamma −${GAMMA_STEP}`,
+        onSelect: () => updateHdrDisplay({ gamma: Math.max(0.2, Math.round((gamma - GAMMA_STEP) * 10) / 10) }),
+      },
+      {
+        id: 'gamma-up',
+        label: `Gamma +${GAMMA_STEP}`,
+        onSelect: () => updateHdrDisplay({ gamma: Math.min(4, Math.round((gamma + GAMMA_STEP) * 10) / 10) }),
+      },
+      {
+        id: 'display-reset',
+        label: 'Reset exposure and gamma',
+        active: exposure !== 0 || gamma !== 1,
+        onSelect: () => updateHdrDisplay({ exposure: 0, gamma: 1 }),
+      },
+      {
+        id: 'view-transform',
+        label: `View transform: ${HDR_VIEW_TRANSFORM_LABELS[viewTransform]}`,
+        onSelect: () => updateHdrDisplay({ viewTransform: cycle(HDR_VIEW_TRANSFORMS, viewTransform) }),
+      },
+      {
+        id: 'input-space',
+        label: `Input space: ${HDR_INPUT_SPACE_LABELS[inputSpace]}`,
+        onSelect: () => updateHdrDisplay({ inputSpace: cycle(HDR_INPUT_SPACES, inputSpace) }),
+      },
+    ]
+  }
+
+  function getReviewActions(): ViewerAction[] {
+    const checkerboard: ViewerAction = {
+      id: 'alpha-checkerboard',
+      label: 'Alpha checkerboard',
+      active: reviewModes.checkerboard,
+      onSelect: () => updateReviewModes({ checkerboard: !reviewModes.checkerboard }),
+    }
+    // Streamed tiles never hold the full-resolution pixels in memory, so only the checkerboard applies.
+    if (tileSource) {
+      return [checkerboard]
+    }
+    return [
+      {
+        id: 'channel-mode',
+        label: `Channels: ${IMAGE_CHANNEL_LABELS[reviewModes.channel]}`,
+        active: reviewModes.channel !== 'rgb',
+        onSelect: () => updateReviewModes({ channel: cycle(IMAGE_CHANNEL_MODES, reviewModes.channel) }),
+      },
+      {
+        id: 'false-color',
+        label: 'False color exposure zones',
+        active: reviewModes.falseColor,
+        onSelect: () => updateReviewModes({ falseColor: !reviewModes.falseColor }),
+      },
+      {
+        id: 'clipping',
+        label: 'Clipping overlay',
+        active: reviewModes.clipping,
+        onSelect: () => updateReviewModes({ clipping: !reviewModes.clipping }),
+      },
+      checkerboard,
+      {
+        id: 'pixel-probe',
+        label: probeEnabled ? 'Hide pixel inspector' : 'Show pixel inspector',
+        active: probeEnabled,
+        onSelect: () => {
+          probeEnabled = !probeEnabled
+          probeSample = null
+          probeDisplay = null
+          emitter.emit()
+        },
+      },
+    ]
+  }
+
   return {
     id: 'image-viewer',
     name: '2D tiled image viewer',
@@ -318,8 +685,26 @@ export function createTiledImageViewerAdapter(options: TiledImageViewerOptions):
       return worldToFrame(frame, worldPoint)
     },
     getProjectionRevision() {
-      // Image-space projection changes whenever zoom or pan changes (or the image loads).
-      return `${view.scale}|${view.offsetX}|${view.offsetY}|${imageReady ? 1 : 0}`
+      return getProjectionRevision()
+    },
+    getImageSize() {
+      return { width: docWidth, height: docHeight }
+    },
+    focusAnnotation(annotation) {
+      if (!lastViewport || annotation.frame.space !== 'image2d' || annotation.frame.targetId !== targetId) {
+        return
+      }
+      // Center the shape at the current zoom.
+      const bounds = getGeometryLocalBounds(annotation.geometry)
+      const center = frameToWorld(annotation.frame, { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 })
+      view.offsetX = lastViewport.width / 2 - center.x * view.scale
+      view.offsetY = lastViewport.height / 2 - center.y * view.scale
+      clampOffsets(lastViewport)
+      emitter.emit()
+    },
+    getProjectionSnapshot(viewport) {
+      ensureInitialized(viewport)
+      return createPanZoomProjectionSnapshot(getProjectionRevision(), view.scale, view.offsetX, view.offsetY)
     },
     renderBackdrop(context, viewport) {
       ensureInitialized(viewport)
@@ -332,7 +717,7 @@ export function createTiledImageViewerAdapter(options: TiledImageViewerOptions):
 
       const worldTopLeft = rawScreenToWorld({ x: 0, y: 0 }, viewport)
       const worldBottomRight = rawScreenToWorld({ x: viewport.width, y: viewport.height }, viewport)
-      const level = getVisibleLevel()
+      const level = pickTileLevel(levels, view.scale)
       const worldTileSize = TILE_SIZE * level.downsample
       const startColumn = clamp(Math.floor(worldTopLeft.x / worldTileSize), 0, level.columns - 1)
       const endColumn = clamp(Math.floor(worldBottomRight.x / worldTileSize), 0, level.columns - 1)
@@ -350,35 +735,55 @@ export function createTiledImageViewerAdapter(options: TiledImageViewerOptions):
       context.beginPath()
       context.rect(view.offsetX, view.offsetY, docWidth * view.scale, docHeight * view.scale)
       context.clip()
+      if (reviewModes.checkerboard && imageReady) {
+        checkerboardTile ??= createCheckerboardTile()
+        const pattern = context.createPattern(checkerboardTile, 'repeat')
+        if (pattern) {
+          context.fillStyle = pattern
+          context.fillRect(view.offsetX, view.offsetY, docWidth * view.scale, docHeight * view.scale)
+        }
+      }
       context.imageSmoothingEnabled = true
       context.imageSmoothingQuality = 'high'
 
-      for (let row = startRow; row <= endRow; row += 1) {
-        for (let column = startColumn; column <= endColumn; column += 1) {
-          const sourceX = column * TILE_SIZE
-          const sourceY = row * TILE_SIZE
-          const sourceWidth = Math.min(TILE_SIZE, level.width - sourceX)
-          const sourceHeight = Math.min(TILE_SIZE, level.height - sourceY)
-          const worldX = column * worldTileSize
-          const worldY = row * worldTileSize
-          const worldWidth = sourceWidth * level.downsample
-          const worldHeight = sourceHeight * level.downsample
-          const topLeft = rawWorldToScreen({ x: worldX, y: worldY, z: 0 }, viewport)
-          const bottomRight = rawWorldToScreen(
-            { x: worldX + worldWidth, y: worldY + worldHeight, z: 0 },
-            viewport,
-          )
-          context.drawImage(
-            level.canvas,
-            sourceX,
-            sourceY,
-            sourceWidth,
-            sourceHeight,
-            topLeft.x,
-            topLeft.y,
-            bottomRight.x - topLeft.x,
-            bottomRight.y - topLeft.y,
-          )
+      if (tileSource) {
+        // The coarsest level stays underneath so the image never blanks while finer tiles stream in.
+        const coarsest = tileSource.levels.length - 1
+        const visible = tileSource.levels.indexOf(pickTileLevel(tileSource.levels, view.scale))
+        const worldRect = { left: worldTopLeft.x, top: worldTopLeft.y, right: worldBottomRight.x, bottom: worldBottomRight.y }
+        const origin = { x: view.offsetX, y: view.offsetY }
+        drawStreamedLevel(context, tileSource, coarsest, worldRect, origin, view.scale)
+        if (visible !== coarsest) {
+          drawStreamedLevel(context, tileSource, visible, worldRect, origin, view.scale)
+        }
+      } else {
+        for (let row = startRow; row <= endRow; row += 1) {
+          for (let column = startColumn; column <= endColumn; column += 1) {
+            const sourceX = column * TILE_SIZE
+            const sourceY = row * TILE_SIZE
+            const sourceWidth = Math.min(TILE_SIZE, level.width - sourceX)
+            const sourceHeight = Math.min(TILE_SIZE, level.height - sourceY)
+            const worldX = column * worldTileSize
+            const worldY = row * worldTileSize
+            const worldWidth = sourceWidth * level.downsample
+            const worldHeight = sourceHeight * level.downsample
+            const topLeft = rawWorldToScreen({ x: worldX, y: worldY, z: 0 }, viewport)
+            const bottomRight = rawWorldToScreen(
+              { x: worldX + worldWidth, y: worldY + worldHeight, z: 0 },
+              viewport,
+            )
+            context.drawImage(
+              level.canvas,
+              sourceX,
+              sourceY,
+              sourceWidth,
+              sourceHeight,
+              topLeft.x,
+              topLeft.y,
+              bottomRight.x - topLeft.x,
+              bottomRight.y - topLeft.y,
+            )
+          }
         }
       }
       context.restore()
@@ -402,7 +807,18 @@ export function createTiledImageViewerAdapter(options: TiledImageViewerOptions):
       context.fillStyle = 'rgba(2, 6, 23, 0.78)'
       roundRect(context, minimapX - 10, minimapY - 10, minimapWidth + 20, minimapHeight + 20, 16)
       context.fill()
-      context.drawImage(levels[levels.length - 1].canvas, minimapX, minimapY, minimapWidth, minimapHeight)
+      if (tileSource) {
+        drawStreamedLevel(
+          context,
+          tileSource,
+          tileSource.levels.length - 1,
+          { left: 0, top: 0, right: docWidth, bottom: docHeight },
+          { x: minimapX, y: minimapY },
+          minimapWidth / docWidth,
+        )
+      } else {
+        context.drawImage(levels[levels.length - 1].canvas, minimapX, minimapY, minimapWidth, minimapHeight)
+      }
       context.strokeStyle = 'rgba(255, 255, 255, 0.14)'
       context.strokeRect(minimapX, minimapY, minimapWidth, minimapHeight)
 
@@ -426,10 +842,44 @@ export function createTiledImageViewerAdapter(options: TiledImageViewerOptions):
         `Zoom ${Math.round(view.scale * 100)}%`,
         `Tiles ${level.columns}×${level.rows}`,
         `Level 1:${level.downsample}`,
+        ...(tileSource ? [`Streaming ${tileSource.type === 'iiif' ? 'IIIF' : 'Deep Zoom'}`] : []),
+        ...(reviewModes.channel !== 'rgb' ? [IMAGE_CHANNEL_LABELS[reviewModes.channel]] : []),
+        ...(reviewModes.falseColor ? ['False color'] : []),
+        ...(reviewModes.clipping ? ['Clipping'] : []),
       ]
     },
     getActions() {
-      return actions
+      return [...navigationActions, ...getDisplayActions(), ...getReviewActions()]
+    },
+    getDiagnostics() {
+      const items: ViewerDiagnosticItem[] = []
+      if (hdrImage) {
+        const { exposure, gamma, viewTransform, inputSpace } = hdrDisplay
+        items.push(
+          { label: 'Source', value: `${hdrImage.format} · ${hdrImage.width}×${hdrImage.height}` },
+          { label: 'Input', value: HDR_INPUT_SPACE_LABELS[inputSpace] },
+          { label: 'View', value: HDR_VIEW_TRANSFORM_LABELS[viewTransform] },
+          { label: 'Exposure', value: `${exposure > 0 ? '+' : ''}${exposure.toFixed(1)} EV` },
+          { label: 'Gamma', value: gamma.toFixed(1) },
+        )
+      }
+      if (probeEnabled) {
+        items.push(...getInspectorDiagnostics())
+      }
+      return items
+    },
+    updatePointer(screenPoint, viewport) {
+      if (!probeEnabled) {
+        return
+      }
+      const worldPoint = screenPoint ? rawScreenToWorld(screenPoint, viewport) : null
+      const next = worldPoint ? sampleProbe(worldPoint) : null
+      if (next?.x === probeSample?.x && next?.y === probeSample?.y) {
+        return
+      }
+      probeSample = next
+      probeDisplay = worldPoint && next ? readPixel(levels[0].canvas, worldPoint) : null
+      emitter.emit()
     },
     handleWheel(screenPoint, deltaY, viewport) {
       const factor = Math.exp(-deltaY * 0.0012)
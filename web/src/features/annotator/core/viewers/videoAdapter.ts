@@ -6,6 +6,10 @@ import type {
   ViewerSurfaceController,
   ViewportSize,
 } from './adapters'
+import { createPanZoomProjectionSnapshot } from '../rendering/host'
+import { getAnnotationTimelineKey } from '../annotations/timeline'
+import { createDecodedFrameSource, isWebCodecsSupported, type DecodedFrameSource } from './frameDecoder'
+import { resolveEditorialSources, type EditorialMediaCandidate, type EditorialTimeline } from './editorialTimeline'
 
 interface ViewState {
   scale: number
@@ -19,14 +23,26 @@ export interface VideoSourceOption {
   src: string
   type?: string
   label?: string
+  /** Media time in seconds the clip starts at; plays from the top of the file when unset. */
+  sourceIn?: number
+  /** Media time in seconds the clip ends at (exclusive); plays to the end when unset. */
+  sourceOut?: number
 }
 
+/**
+ * One clip of the playlist. `duration`, `startTime` and `endTime` place it in the sequence;
+ * the media times the clip plays between are `sourceIn` and `sourceIn + duration`.
+ */
 export interface VideoPlaylistClipState {
   id: string
   label: string
   src: string
   type?: string
   duration: number
+  sourceIn: number
+  sourceOut?: number
+  /** Length of the whole media file, once known. */
+  mediaDuration: number
   startTime: number
   endTime: number
   width: number
@@ -66,12 +82,19 @@ export interface VideoViewerAdapter extends ViewerAdapter {
   previewSeekToProgress: (progress: number) => void
   endScrubbing: (progress: number) => void
   stepFrames: (delta: number) => void
+  /** Seek to a frame of the active clip, numbered like `VideoMediaState.currentFrame`. */
+  seekToFrame: (frame: number) => void
   setPlaybackRate: (rate: number) => void
   setFrameRate: (rate: number) => void
   setMuted: (muted: boolean) => void
   setVolume: (volume: number) => void
   loadSources: (sources: VideoSourceOption[]) => void
   loadFiles: (files: FileList | File[]) => void
+  /**
+   * Play an imported cut. Clips match the given files, then the current playlist's sources, by
+   * file name; returns how many clips loaded and the names of those with no media.
+   */
+  loadCut: (timeline: EditorialTimeline, files?: File[]) => { loaded: number; missing: string[] }
 }
 
 type PlaylistClipInternal = VideoPlaylistClipState
@@ -140,6 +163,14 @@ function extensionToMimeType(name: string) {
   return undefined
 }
 
+// WebCodecs decoding needs the MP4 demuxer; other containers stay on element seeking.
+function canDecodeFrames(clip: PlaylistClipInternal) {
+  if (clip.type) {
+    return clip.type === 'video/mp4' || clip.type === 'video/quicktime'
+  }
+  return !/\.(webm|ogv|ogg)(\?.*)?$/i.test(clip.src)
+}
+
 function frameToWorld(frame: AnnotationFrame, localPoint: Vec2): Vec3 {
   return {
     x: frame.origin.x + frame.xAxis.x * localPoint.x + frame.yAxis.x * localPoint.y,
@@ -159,12 +190,17 @@ function worldToFrame(frame: AnnotationFrame, worldPoint: Vec3): Vec2 {
 }
 
 function toPlaylistClip(source: VideoSourceOption, index: number): PlaylistClipInternal {
+  const sourceIn = Math.max(source.sourceIn ?? 0, 0)
+  const sourceOut = source.sourceOut !== undefined && source.sourceOut > sourceIn ? source.sourceOut : undefined
   return {
     id: source.id ?? `${index}:${source.label ?? source.src}`,
     src: source.src,
     type: source.type,
     label: source.label ?? `Clip ${index + 1}`,
-    duration: 0,
+    duration: sourceOut !== undefined ? sourceOut - sourceIn : 0,
+    sourceIn,
+    sourceOut,
+    mediaDuration: 0,
     startTime: 0,
     endTime: 0,
     width: DEFAULT_WIDTH,
@@ -173,6 +209,15 @@ function toPlaylistClip(source: VideoSourceOption, index: number): PlaylistClipI
   }
 }
 
+// Trim a clip's sequence length to its in/out points once the media length is known.
+function setClipMediaDuration(clip: PlaylistClipInternal, mediaDuration: number) {
+  clip.mediaDuration = mediaDuration
+  const end = clip.sourceOut !== undefined && mediaDuration > 0
+    ? Math.min(clip.sourceOut, mediaDuration)
+    : clip.sourceOut ?? mediaDuration
+  clip.duration = Math.max(end - clip.sourceIn, 0)
+}
+
 function recomputeClipRanges(clips: PlaylistClipInternal[]) {
   let cursor = 0
   clips.forEach((clip) => {
@@ -189,6 +234,9 @@ function clonePlaylistState(clips: PlaylistClipInternal[]): VideoPlaylistClipSta
     src: clip.src,
     type: clip.type,
     duration: clip.duration,
+    sourceIn: clip.sourceIn,
+    sourceOut: clip.sourceOut,
+    mediaDuration: clip.mediaDuration,
     startTime: clip.startTime,
     endTime: clip.endTime,
     width: clip.width,
@@ -255,7 +303,7 @@ async function measureClipMetadata(clip: PlaylistClipInternal) {
     }
   } catch {
     return {
-      duration: clip.duration,
+      duration: clip.mediaDuration,
       width: clip.width,
       height: clip.height,
       error: probe.error?.message || 'Unable to read clip metadata',
@@ -328,6 +376,16 @@ export function createVideoViewerAdapter(
   let metadataRevision = 0
   let cachedMediaStateSnapshot: VideoMediaState | null = null
   let cachedMediaStateSnapshotKey = ''
+  let handingOff = false
+  let frameRateExplicit = Boolean(options.frameRate && options.frameRate > 0)
+  // Exact decoded frames for the active clip. While paused, `decodedFrameIndex` is the
+  // frame drawn on `frameCanvas` over the element and is authoritative for media state.
+  let frameSource: DecodedFrameSource | null = null
+  let frameSourceSrc = ''
+  let frameSourceToken = 0
+  let decodedFrameIndex: number | null = null
+  let decodeRequestToken = 0
+  let frameCanvas: HTMLCanvasElement | null = null
 
   function getActiveVideo() {
     return videoElements[activeDeckIndex]
@@ -427,7 +485,7 @@ export function createVideoViewerAdapter(
 
     return {
       clipIndex: safeClipIndex,
-      clipTime: clamp(clampedTime - clip.startTime, 0, Math.max(clip.duration, 0)),
+      clipTime: clip.sourceIn + clamp(clampedTime - clip.startTime, 0, Math.max(clip.duration, 0)),
       globalTime: clampedTime,
     }
   }
@@ -451,12 +509,29 @@ export function createVideoViewerAdapter(
 
     mediaState.activeClipId = clip.id
     mediaState.sourceLabel = clip.label
-    mediaState.duration = clip.duration
+    mediaState.duration = clip.mediaDuration || clip.sourceIn + clip.duration
     mediaState.width = Math.max(activeVideo?.videoWidth || clip.width, 1)
     mediaState.height = Math.max(activeVideo?.videoHeight || clip.height, 1)
-    mediaState.currentTime = activeVideo ? activeVideo.currentTime || 0 : 0
-    mediaState.playlistCurrentTime = clip.startTime + mediaState.currentTime
-    mediaState.currentFrame = timeToFrame(mediaState.currentTime, mediaState.frameRate)
+    const source = getFrameSource()
+    if (source && decodedFrameIndex !== null) {
+      mediaState.currentTime = source.getFrameMidTime(decodedFrameIndex)
+      mediaState.currentFrame = decodedFrameIndex
+    } else {
+      mediaState.currentTime = activeVideo ? activeVideo.currentTime || 0 : 0
+      mediaState.currentFrame = source
+        ? source.getFrameAtTime(mediaState.currentTime)
+        : timeToFrame(mediaState.currentTime, mediaState.frameRate)
+    }
+    mediaState.playlistCurrentTime = clip.startTime + Math.max(mediaState.currentTime - clip.sourceIn, 0)
+  }
+
+  /** Media-time range the active clip plays, for clamping seeks into the cut. */
+  function getActiveClipBounds(activeVideo: HTMLVideoElement) {
+    const clip = mediaState.activeClipIndex >= 0 ? playlist[mediaState.activeClipIndex] : undefined
+    const mediaDuration = Number.isFinite(activeVideo.duration) ? activeVideo.duration : mediaState.duration
+    const start = clip?.sourceIn ?? 0
+    const end = clip?.sourceOut !== undefined ? clip.sourceIn + clip.duration : mediaDuration || 0
+    return { start, end: Math.max(start, end) }
   }
 
   function getVideoDimensions() {
@@ -506,14 +581,14 @@ export function createVideoViewerAdapter(
     }
 
     const { width, height } = getVideoDimensions()
-    videoElements.forEach((video) => {
-      if (!video) {
+    ;[...videoElements, frameCanvas].forEach((element) => {
+      if (!element) {
         return
       }
-      video.style.width = `${width * view.scale}px`
-      video.style.height = `${height * view.scale}px`
-      video.style.left = `${view.offsetX}px`
-      video.style.top = `${view.offsetY}px`
+      element.style.width = `${width * view.scale}px`
+      element.style.height = `${height * view.scale}px`
+      element.style.left = `${view.offsetX}px`
+      element.style.top = `${view.offsetY}px`
     })
   }
 
@@ -525,6 +600,17 @@ export function createVideoViewerAdapter(
     }
   }
 
+  function getProjectionRevision() {
+    // Video-space projection changes with zoom, pan, and layout-relative video sizing.
+    return [
+      view.scale,
+      view.offsetX,
+      view.offsetY,
+      mediaState.width,
+      mediaState.height,
+    ].join('|')
+  }
+
   function rawScreenToWorld(screenPoint: Vec2, nextViewport: ViewportSize): Vec3 {
     ensureInitialized(nextViewport)
     return {
@@ -542,7 +628,7 @@ export function createVideoViewerAdapter(
 
     const clip = mediaState.activeClipIndex >= 0 ? playlist[mediaState.activeClipIndex] : undefined
     if (clip) {
-      clip.duration = Number.isFinite(activeVideo.duration) ? activeVideo.duration : clip.duration
+      setClipMediaDuration(clip, Number.isFinite(activeVideo.duration) ? activeVideo.duration : clip.mediaDuration)
       clip.width = Math.max(activeVideo.videoWidth || clip.width, 1)
       clip.height = Math.max(activeVideo.videoHeight || clip.height, 1)
       clip.error = undefined
@@ -556,6 +642,16 @@ export function createVideoViewerAdapter(
     mediaState.muted = activeVideo.muted
     applyActiveClipState(activeVideo)
     emitter.emit()
+
+    // Cuts end before their file does; whole files hand off on `ended`.
+    if (
+      clip?.sourceOut !== undefined
+      && mediaState.playing
+      && !handingOff
+      && activeVideo.currentTime >= clip.sourceIn + clip.duration - 1e-3
+    ) {
+      void handoffToNextClip()
+    }
   }
 
   function cancelFrameLoop() {
@@ -596,7 +692,114 @@ export function createVideoViewerAdapter(
     nextFrame()
   }
 
+  // Keyed by media rather than clip, so the shots of a cut cut from one file share a decoder.
+  function getFrameSource() {
+    const clip = mediaState.activeClipIndex >= 0 ? playlist[mediaState.activeClipIndex] : undefined
+    return frameSource && clip && frameSourceSrc === clip.src ? frameSource : null
+  }
+
+  function hideDecodedFrame() {
+    decodedFrameIndex = null
+    decodeRequestToken += 1
+    if (frameCanvas) {
+      frameCanvas.style.visibility = 'hidden'
+    }
+  }
+
+  function releaseFrameSource() {
+    frameSourceToken += 1
+    frameSource?.dispose()
+    frameSource = null
+    frameSourceSrc = ''
+    hideDecodedFrame()
+  }
+
+  async function loadFrameSource(clipIndex: number) {
+    const clip = playlist[clipIndex]
+    if (frameSource && clip && frameSourceSrc === clip.src) {
+      return
+    }
+    releaseFrameSource()
+    if (!clip || !isWebCodecsSupported() || !canDecodeFrames(clip)) {
+      return
+    }
+
+    const token = frameSourceToken
+    try {
+      const source = await createDecodedFrameSource(clip.src)
+      if (token !== frameSourceToken) {
+        source.dispose()
+        return
+      }
+      frameSource = source
+      frameSourceSrc = clip.src
+      if (!frameRateExplicit && source.averageFrameRate > 0) {
+        mediaState.frameRate = source.averageFrameRate
+      }
+      const activeVideo = getActiveVideo()
+      if (clipIndex === mediaState.activeClipIndex && activeVideo?.paused) {
+        showDecodedFrame(source.getFrameAtTime(activeVideo.currentTime))
+      }
+      emitter.emit()
+    } catch (error) {
+      if (token === frameSourceToken) {
+        console.warn(`Frame-accurate decoding unavailable for ${clip.label}; seeking the video element instead`, error)
+      }
+    }
+  }
+
+  /**
+   * Show an exact decoded frame of the active clip. Media state moves to the frame at once and
+   * the element parks inside it, so playback resumes there and the element still shows it if
+   * decoding fails; the canvas picks up the picture when the decoder delivers.
+   */
+  function showDecodedFrame(frame: number) {
+    const source = getFrameSource()
+    const activeVideo = getActiveVideo()
+    if (!source || !activeVideo) {
+      return false
+    }
+
+    const index = clamp(frame, 0, source.frameCount - 1)
+    const token = ++decodeRequestToken
+    decodedFrameIndex = index
+    pendingSeek = true
+    const midTime = source.getFrameMidTime(index)
+    if (Math.abs(activeVideo.currentTime - midTime) > 1e-4) {
+      activeVideo.currentTime = midTime
+    }
+    applyActiveClipState(activeVideo)
+    emitter.emit()
+
+    source.requestFrame(index).then(
+      (decoded) => {
+        if (!decoded) {
+          return
+        }
+        if (token === decodeRequestToken && source === getFrameSource() && frameCanvas) {
+          frameCanvas.width = decoded.displayWidth
+          frameCanvas.height = decoded.displayHeight
+          frameCanvas.getContext('2d')?.drawImage(decoded, 0, 0)
+          frameCanvas.style.visibility = 'visible'
+          pendingSeek = false
+          emitter.emit()
+        }
+        decoded.close()
+      },
+      (error: unknown) => {
+        if (source !== frameSource) {
+          return
+        }
+        console.warn('Frame decoding failed; seeking the video element instead', error)
+        releaseFrameSource()
+        updateFrameState()
+      },
+    )
+    return true
+  }
+
   function clearSources() {
+    releaseFrameSource()
     cancelFrameLoop()
     cancelScrubFrame()
     metadataRevision += 1
@@ -616,7 +819,7 @@ export function createVideoViewerAdapter(
       if (!clip) {
         return
       }
-      clip.duration = result.duration
+      setClipMediaDuration(clip, result.duration)
       clip.width = result.width
       clip.height = result.height
       clip.error = result.error
@@ -651,7 +854,7 @@ export function createVideoViewerAdapter(
         return false
       }
 
-      clip.duration = Number.isFinite(video.duration) ? video.duration : clip.duration
+      setClipMediaDuration(clip, Number.isFinite(video.duration) ? video.duration : clip.mediaDuration)
       clip.width = Math.max(video.videoWidth || clip.width, 1)
       clip.height = Math.max(video.videoHeight || clip.height, 1)
       clip.error = undefined
@@ -695,7 +898,7 @@ export function createVideoViewerAdapter(
       return
     }
 
-    await prepareDeck(standbyDeckIndex, clipIndex, 0)
+    await prepareDeck(standbyDeckIndex, clipIndex, playlist[clipIndex].sourceIn)
     syncVideoPresentation()
   }
 
@@ -710,9 +913,9 @@ export function createVideoViewerAdapter(
     mediaState.activeClipIndex = clipIndex
     mediaState.activeClipId = clip.id
     mediaState.sourceLabel = clip.label
-    mediaState.duration = clip.duration
+    mediaState.duration = clip.mediaDuration || clip.sourceIn + clip.duration
     mediaState.currentTime = clipTime
-    mediaState.playlistCurrentTime = clip.startTime + clipTime
+    mediaState.playlistCurrentTime = clip.startTime + Math.max(clipTime - clip.sourceIn, 0)
     mediaState.currentFrame = timeToFrame(clipTime, mediaState.frameRate)
     mediaState.width = clip.width
     mediaState.height = clip.height
@@ -721,6 +924,7 @@ export function createVideoViewerAdapter(
     mediaState.error = clip.error
     emitter.emit()
 
+    void loadFrameSource(clipIndex)
     const loaded = await prepareDeck(activeDeckIndex, clipIndex, clipTime)
     if (!loaded || getActiveVideo() !== video) {
       return
@@ -745,10 +949,24 @@ export function createVideoViewerAdapter(
   async function handoffToNextClip() {
     const nextClipIndex = mediaState.activeClipIndex + 1
     if (nextClipIndex < 0 || nextClipIndex >= playlist.length) {
+      // The last clip of a cut stops at its out point.
+      getActiveVideo()?.pause()
       updateFrameState()
       return
     }
+    if (handingOff) {
+      return
+    }
+    handingOff = true
+    try {
+      await switchToClip(nextClipIndex)
+    } finally {
+      handingOff = false
+    }
+  }
 
+  /** Swap to the standby deck, primed at the next clip's in point, and keep playing. */
+  async function switchToClip(nextClipIndex: number) {
     const previousActive = getActiveVideo()
     const standbyDeckIndex = 1 - activeDeckIndex
     const standbyVideo = getStandbyVideo()
@@ -757,7 +975,7 @@ export function createVideoViewerAdapter(
     }
 
     if (deckClipIndices[standbyDeckIndex] !== nextClipIndex) {
-      const prepared = await prepareDeck(standbyDeckIndex, nextClipIndex, 0)
+      const prepared = await prepareDeck(standbyDeckIndex, nextClipIndex, playlist[nextClipIndex].sourceIn)
       if (!prepared) {
         return
       }
@@ -767,6 +985,7 @@ export function createVideoViewerAdapter(
     cancelFrameLoop()
     activeDeckIndex = standbyDeckIndex
     mediaState.activeClipIndex = nextClipIndex
+    void loadFrameSource(nextClipIndex)
     applyActiveClipState(getActiveVideo())
     syncVideoPresentation()
     updateFrameState(getActiveVideo())
@@ -815,7 +1034,7 @@ export function createVideoViewerAdapter(
     emitter.emit()
 
     if (playlist.length > 0) {
-      void activateClip(0, 0, false)
+      void activateClip(0, playlist[0].sourceIn, false)
       void refreshPlaylistMetadata()
     }
   }
@@ -825,8 +1044,13 @@ export function createVideoViewerAdapter(
     if (!activeVideo || mediaState.activeClipIndex < 0) {
       return
     }
-    const duration = Number.isFinite(activeVideo.duration) ? activeVideo.duration : mediaState.duration
-    const nextTime = clamp(snapTimeToFrame(time, mediaState.frameRate), 0, duration || 0)
+    const bounds = getActiveClipBounds(activeVideo)
+    const source = getFrameSource()
+    if (source && activeVideo.paused) {
+      showDecodedFrame(source.getFrameAtTime(clamp(time, bounds.start, Math.max(bounds.start, bounds.end - 1e-3))))
+      return
+    }
+    const nextTime = clamp(snapTimeToFrame(time, mediaState.frameRate), bounds.start, bounds.end)
     pendingSeek = true
     // Exact currentTime assignment (no fastSeek) keeps the landing frame-accurate.
     activeVideo.currentTime = nextTime
@@ -839,8 +1063,8 @@ export function createVideoViewerAdapter(
     }
 
     const clip = mediaState.activeClipIndex >= 0 ? playlist[mediaState.activeClipIndex] : undefined
-    const duration = Number.isFinite(activeVideo.duration) ? activeVideo.duration : mediaState.duration
-    pendingScrubGlobalTime = (clip?.startTime ?? 0) + clamp(time, 0, duration || 0)
+    const bounds = getActiveClipBounds(activeVideo)
+    pendingScrubGlobalTime = (clip?.startTime ?? 0) + clamp(time, bounds.start, bounds.end) - bounds.start
     pendingSeek = true
 
     if (scrubAnimationFrame) {
@@ -855,9 +1079,14 @@ export function createVideoViewerAdapter(
         return
       }
 
-      const nextTime = pendingScrubGlobalTime - activeClip.startTime
+      const nextTime = pendingScrubGlobalTime - activeClip.startTime + activeClip.sourceIn
       pendingScrubGlobalTime = null
 
+      const source = getFrameSource()
+      if (source && currentVideo.paused) {
+        showDecodedFrame(source.getFrameAtTime(nextTime))
+        return
+      }
       // Snap scrub previews to frame centres so the feedback is frame-accurate too.
       currentVideo.currentTime = snapTimeToFrame(nextTime, mediaState.frameRate)
     })
@@ -974,14 +1203,14 @@ export function createVideoViewerAdapter(
       return worldToFrame(frame, worldPoint)
     },
     getProjectionRevision() {
-      // Video-space projection changes with zoom, pan, and layout-relative video sizing.
-      return [
-        view.scale,
-        view.offsetX,
-        view.offsetY,
-        mediaState.width,
-        mediaState.height,
-      ].join('|')
+      return getProjectionRevision()
+    },
+    getImageSize() {
+      return getVideoDimensions()
+    },
+    getProjectionSnapshot(nextViewport) {
+      ensureInitialized(nextViewport)
+      return createPanZoomProjectionSnapshot(getProjectionRevision(), view.scale, view.offsetX, view.offsetY)
     },
     renderBackdrop() {},
     formatAnchor(frame) {
@@ -1005,6 +1234,16 @@ export function createVideoViewerAdapter(
         return video
       }) as [HTMLVideoElement, HTMLVideoElement]
 
+      // Paused frames come from the decoder and are drawn over the element decks.
+      const canvas = document.createElement('canvas')
+      canvas.style.position = 'absolute'
+      canvas.style.zIndex = '3'
+      canvas.style.borderRadius = '14px'
+      canvas.style.pointerEvents = 'none'
+      canvas.style.visibility = 'hidden'
+      host.appendChild(canvas)
+      frameCanvas = canvas
+
       videoElements = decks
       activeDeckIndex = 0
       deckClipIndices = [null, null]
@@ -1016,7 +1255,7 @@ export function createVideoViewerAdapter(
           if (clip) {
             clip.width = Math.max(video.videoWidth || clip.width, 1)
             clip.height = Math.max(video.videoHeight || clip.height, 1)
-            clip.duration = Number.isFinite(video.duration) ? video.duration : clip.duration
+            setClipMediaDuration(clip, Number.isFinite(video.duration) ? video.duration : clip.mediaDuration)
             clip.error = undefined
             syncPlaylistState()
             emitter.emit()
@@ -1035,6 +1274,7 @@ export function createVideoViewerAdapter(
             video.pause()
             return
           }
+          hideDecodedFrame()
           updateFrameState(video)
           scheduleFrameLoop()
         })
@@ -1044,6 +1284,10 @@ export function createVideoViewerAdapter(
           }
           updateFrameState(video)
           cancelFrameLoop()
+          // Settle on the exact decoded frame, inside the cut, unless a step or seek already chose one.
+          if (getFrameSource() && decodedFrameIndex === null) {
+            seekToTime(video.currentTime)
+          }
         })
         video.addEventListener('seeked', () => {
           if (video !== getActiveVideo()) {
@@ -1092,6 +1336,8 @@ export function createVideoViewerAdapter(
           cancelFrameLoop()
           cancelScrubFrame()
           clearSources()
+          frameCanvas?.remove()
+          frameCanvas = null
           videoElements.forEach((video) => {
             video?.pause()
             video?.remove()
@@ -1112,6 +1358,7 @@ export function createVideoViewerAdapter(
         `${Math.max(mediaState.activeClipIndex + 1, 0)}/${Math.max(mediaState.sourceCount, 1)} clips`,
         `${mediaState.frameRate.toFixed(2)} fps`,
         mediaState.playing ? 'Playing' : 'Paused',
+        ...(getFrameSource() ? ['Decoded frames'] : []),
       ]
     },
     getDiagnostics(): ViewerDiagnosticItem[] {
@@ -1121,6 +1368,15 @@ export function createVideoViewerAdapter(
         { label: 'Time', value: `${mediaState.currentTime.toFixed(3)}s / ${mediaState.duration.toFixed(3)}s` },
         { label: 'Playlist', value: `${mediaState.playlistCurrentTime.toFixed(3)}s / ${mediaState.playlistDuration.toFixed(3)}s` },
         { label: 'Frame', value: `${mediaState.currentFrame}` },
+        {
+          label: 'Decode',
+          value: (() => {
+            const source = getFrameSource()
+            return source
+              ? `WebCodecs ${source.codec}, ${source.frameCount} frames, ${source.getCachedFrameCount()} cached`
+              : 'element seek'
+          })(),
+        },
         { label: 'Audio', value: mediaState.muted ? 'muted' : `${Math.round(mediaState.volume * 100)}%` },
         { label: 'Scrub', value: scrubbing ? (pendingSeek ? 'scrubbing…' : 'previewing') : pendingSeek ? 'seeking…' : 'ready' },
         { label: 'Error', value: mediaState.error ?? 'none' },
@@ -1161,6 +1417,16 @@ export function createVideoViewerAdapter(
     pausePlayback() {
       getActiveVideo()?.pause()
     },
+    focusAnnotation(annotation) {
+      const key = getAnnotationTimelineKey(annotation)
+      if (!key) {
+        return
+      }
+      getActiveVideo()?.pause()
+      // Place clip-bound notes by their media time, so they follow their shot through a re-cut.
+      const clip = key.clipId ? playlist.find((candidate) => candidate.id === key.clipId) : undefined
+      seekToPlaylistTime(clip ? clip.startTime + key.time - clip.sourceIn : key.globalTime, false, false)
+    },
     seekToProgress(progress) {
       const playlistDuration = mediaState.playlistDuration || mediaState.duration
       const nextGlobalTime = playlistDuration * clamp(progress, 0, 1)
@@ -1209,10 +1475,22 @@ export function createVideoViewerAdapter(
       if (wasPlaying) {
         activeVideo?.pause()
       }
+      const source = getFrameSource()
+      if (source && activeVideo) {
+        const bounds = getActiveClipBounds(activeVideo)
+        const firstFrame = source.getFrameAtTime(bounds.start)
+        const lastFrame = Math.max(firstFrame, source.getFrameAtTime(bounds.end - 1e-3))
+        showDecodedFrame(clamp(mediaState.currentFrame + delta, firstFrame, lastFrame))
+        return
+      }
       // Step relative to the current integer frame so repeated steps don't drift.
       const currentFrame = timeToFrame(mediaState.currentTime, mediaState.frameRate)
       seekToTime(frameToMidTime(currentFrame + delta, mediaState.frameRate))
     },
+    seekToFrame(frame) {
+      const source = getFrameSource()
+      seekToTime(source ? source.getFrameMidTime(frame) : frameToMidTime(frame, mediaState.frameRate))
+    },
     setPlaybackRate(rate) {
       mediaState.playbackRate = rate
       videoElements.forEach((video) => {
@@ -1223,8 +1501,12 @@ export function createVideoViewerAdapter(
       emitter.emit()
     },
     setFrameRate(rate) {
+      frameRateExplicit = true
       mediaState.frameRate = clamp(rate, 1, 240)
-      mediaState.currentFrame = timeToFrame(mediaState.currentTime, mediaState.frameRate)
+      // Decoded clips number frames by presentation order, whatever the nominal rate.
+      if (!getFrameSource()) {
+        mediaState.currentFrame = timeToFrame(mediaState.currentTime, mediaState.frameRate)
+      }
       emitter.emit()
     },
     setMuted(muted) {
@@ -1264,6 +1546,36 @@ export function createVideoViewerAdapter(
       )
       objectUrls = nextObjectUrls
     },
+    loadCut(timeline, files = []) {
+      const fileUrls = files.map((file) => URL.createObjectURL(file))
+      const candidates: EditorialMediaCandidate[] = [
+        ...files.map((file, index) => ({
+          name: file.name,
+          src: fileUrls[index],
+          type: file.type || extensionToMimeType(file.name),
+        })),
+        ...playlist.flatMap((clip) => [
+          { name: clip.label, src: clip.src, type: clip.type },
+          { name: clip.src, src: clip.src, type: clip.type },
+        ]),
+      ]
+      const { sources, missing } = resolveEditorialSources(timeline, candidates)
+      const usedUrls = new Set(sources.map((source) => source.src))
+      fileUrls.filter((url) => !usedUrls.has(url)).forEach((url) => URL.revokeObjectURL(url))
+      if (sources.length === 0) {
+        return { loaded: 0, missing: missing.map((clip) => clip.name) }
+      }
+
+      // Files the current playlist already plays stay alive across the reload.
+      const keptUrls = objectUrls.filter((url) => usedUrls.has(url))
+      objectUrls = objectUrls.filter((url) => !usedUrls.has(url))
+      if (!frameRateExplicit && timeline.format === 'otio') {
+        mediaState.frameRate = timeline.frameRate
+      }
+      updateVideoSources(sources)
+      objectUrls = [...fileUrls.filter((url) => usedUrls.has(url)), ...keptUrls]
+      return { loaded: sources.length, missing: missing.map((clip) => clip.name) }
+    },
   }
 
   return adapter
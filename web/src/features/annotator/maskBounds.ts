@@ -1,4 +1,4 @@
-import { framePointToWorld } from './core/annotations/geometry'
+import { framePointToWorld, getStrokeWidthScales } from './core/annotations/geometry'
 import type { AnnotationEntity, AnnotationFrame } from './core/annotations/types'
 
 export interface MaskBounds {
@@ -21,8 +21,9 @@ export function computeMaskBounds(shapes: AnnotationEntity[]): MaskBounds | null
     const pts: Array<{ x: number; y: number }> = []
     const geom = shape.geometry
     if (geom.kind === 'brush') {
-      const r = geom.radius
-      for (const p of geom.points) {
+      const scales = getStrokeWidthScales(geom)
+      for (const [index, p] of geom.points.entries()) {
+        const r = geom.radius * (scales?.[index] ?? 1)
         const w = framePointToWorld(shape.frame, p)
         pts.push({ x: w.x - r, y: w.y - r })
         pts.push({ x: w.x + r, y: w.y + r })
@@ -42,6 +43,10 @@ export function computeMaskBounds(shapes: AnnotationEntity[]): MaskBounds | null
       const a = framePointToWorld(shape.frame, geom.start)
       const b = framePointToWorld(shape.frame, geom.end)
       pts.push({ x: a.x, y: a.y }, { x: b.x, y: b.y })
+    } else if (geom.kind === 'arrow' || geom.kind === 'callout' || geom.kind === 'measurement') {
+      const a = framePointToWorld(shape.frame, geom.from)
+      const b = framePointToWorld(shape.frame, geom.to)
+      pts.push({ x: a.x, y: a.y }, { x: b.x, y: b.y })
     }
     for (const p of pts) {
       if (p.x < minX) minX = p.x
@@ -1,13 +1,38 @@
-import { framePointToWorld } from './core/annotations/geometry'
+import {
+  framePointToWorld,
+  getArrowHeadPoints,
+  getStrokeWidthScales,
+  getVariableWidthStrokeOutline,
+} from './core/annotations/geometry'
 import type { AnnotationEntity, Vec2 } from './core/annotations/types'
 
+/** Fill a variable-width stroke's outline; false when the stroke has uniform width. */
+function _fillVariableWidthStroke(
+  ctx: CanvasRenderingContext2D,
+  geometry: { points: Vec2[]; widths?: number[] },
+  pixels: Vec2[],
+  lineWidth: number,
+): boolean {
+  const scales = getStrokeWidthScales(geometry)
+  if (!scales) {
+    return false
+  }
+  const outline = getVariableWidthStrokeOutline(pixels, scales.map((scale) => Math.max(0.5, (lineWidth * scale) / 2)))
+  ctx.beginPath()
+  outline.forEach((p, index) => (index === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)))
+  ctx.closePath()
+  ctx.fill()
+  return true
+}
+
 /** Draw annotation shapes to a pre-configured canvas context.
  *  The caller sets fillStyle/strokeStyle before calling; this function
  *  renders all geometry using whatever color the context already has.
  *
  *  strokeOnlyShapes — when true, shape-tool geometry (ellipse, rectangle, polygon)
- *  is rendered as outlines (strokes) rather than filled solids. Brush and freehand
- *  are always rendered as strokes. Use this for ControlNet edge-map conditioning:
+ *  is rendered as outlines (strokes) rather than filled solids. Brush, freehand,
+ *  arrow, callout leader and measurement lines are always rendered as strokes
+ *  (their labels are never rasterized). Use this for ControlNet edge-map conditioning:
  *  the scribble ControlNet is trained on line drawings, not solid fills, so a filled
  *  ellipse would be out-of-distribution and cause colour smearing artefacts. */
 function _drawAnnotationsToCanvas(
@@ -48,6 +73,9 @@ function _drawAnnotationsToCanvas(
     } else if (geometry.kind === 'brush') {
       const pixels = geometry.points.map(toPixel)
       const lineWidth = Math.max(1, geometry.radius * 2)
+      if (_fillVariableWidthStroke(ctx, geometry, pixels, lineWidth)) {
+        continue
+      }
       if (pixels.length === 1) {
         ctx.beginPath()
         ctx.arc(pixels[0].x, pixels[0].y, lineWidth / 2, 0, Math.PI * 2)
@@ -84,12 +112,31 @@ function _drawAnnotationsToCanvas(
       }
     } else if (geometry.kind === 'freehand') {
       const pixels = geometry.points.map(toPixel)
-      if (pixels.length >= 2) {
+      const lineWidth = Math.max(2, annotation.style.strokeWidth)
+      if (pixels.length >= 2 && !_fillVariableWidthStroke(ctx, geometry, pixels, lineWidth)) {
         ctx.beginPath()
         pixels.forEach((p, index) => (index === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)))
-        ctx.lineWidth = Math.max(2, annotation.style.strokeWidth)
+        ctx.lineWidth = lineWidth
         ctx.stroke()
       }
+    } else if (geometry.kind === 'arrow' || geometry.kind === 'callout' || geometry.kind === 'measurement') {
+      const from = toPixel(geometry.from)
+      const to = toPixel(geometry.to)
+      const lineWidth = Math.max(2, annotation.style.strokeWidth)
+      ctx.beginPath()
+      ctx.moveTo(from.x, from.y)
+      ctx.lineTo(to.x, to.y)
+      ctx.lineWidth = lineWidth
+      ctx.stroke()
+      if (geometry.kind === 'arrow') {
+        const [tip, left, right] = getArrowHeadPoints(from, to, Math.max(10, lineWidth * 4))
+        ctx.beginPath()
+        ctx.moveTo(tip.x, tip.y)
+        ctx.lineTo(left.x, left.y)
+        ctx.lineTo(right.x, right.y)
+        ctx.closePath()
+        ctx.fill()
+      }
     }
   }
 }
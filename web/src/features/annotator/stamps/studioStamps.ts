@@ -0,0 +1,193 @@
+import { BadgeCheck, Link2 } from 'lucide-react'
+import { parseAnnotationColor } from '../core/annotations/schema'
+import type { AnnotationEntity, ExtensionGeometry } from '../core/annotations/types'
+import { getAnnotationScreenBounds } from '../core/rendering/annotationLayout'
+import {
+  appendSelectionPrimitives,
+  buildWorldMarker,
+  createTextStyle,
+  getAnnotationHitBounds,
+  hitTestBoundsRect,
+  type AnnotationRenderContext,
+  type AnnotationRenderEntry,
+} from '../core/rendering/annotationPlugins'
+import type { RenderPrimitive } from '../core/rendering/primitives'
+import { registerAnnotationTool } from '../components/annotationToolRegistry'
+
+type StampAnnotation = AnnotationEntity & { geometry: ExtensionGeometry }
+
+export const SHOT_APPROVAL_KIND = 'x-shot-approval'
+export const CONTINUITY_MARKER_KIND = 'x-continuity-marker'
+
+const APPROVAL_STATUSES = [
+  { value: 'approved', label: 'Approved', color: '#22c55e' },
+  { value: 'changes', label: 'Changes requested', color: '#f59e0b' },
+  { value: 'pending', label: 'Pending review', color: '#94a3b8' },
+]
+
+const CONTINUITY_ISSUES = [
+  { value: 'props', label: 'Props' },
+  { value: 'wardrobe', label: 'Wardrobe' },
+  { value: 'eyeline', label: 'Eyeline' },
+  { value: 'lighting', label: 'Lighting' },
+]
+
+function getApprovalStatus(annotation: StampAnnotation) {
+  return APPROVAL_STATUSES.find((status) => status.value === annotation.geometry.fields.status) ?? APPROVAL_STATUSES[2]
+}
+
+function buildShotApproval(entry: AnnotationRenderEntry, context: AnnotationRenderContext): RenderPrimitive[] {
+  const worldMarker = buildWorldMarker(entry, context)
+  if (worldMarker) {
+    return worldMarker
+  }
+  const annotation = entry.annotation as StampAnnotation
+  const bounds = getAnnotationScreenBounds(annotation, context.projectionHost, context.viewport)
+  if (!bounds) {
+    return []
+  }
+  const { selected, alphaMultiplier = 1 } = entry
+  const status = getApprovalStatus(annotation)
+  const color = parseAnnotationColor(status.color)
+  const fontSize = annotation.style.fontSize
+  const primitives: RenderPrimitive[] = [
+    {
+      kind: 'roundedRect',
+      x: bounds.left,
+      y: bounds.top,
+      width: bounds.width,
+      height: bounds.height,
+      radius: Math.min(10, bounds.width / 2, bounds.height / 2),
+      fill: { ...color, a: 0.18 },
+      stroke: {
+        color,
+        width: selected ? 3 : 2,
+        dash: status.value === 'pending' ? [6, 4] : undefined,
+      },
+      opacity: annotation.style.opacity * alphaMultiplier,
+    },
+    {
+      kind: 'label',
+      text: status.label.toUpperCase(),
+      position: { x: bounds.left, y: bounds.top - fontSize - 16 },
+      paddingX: 8,
+      paddingY: 5,
+      radius: 6,
+      background: color,
+      style: createTextStyle(Math.max(11, fontSize - 3), '#020617', 700),
+      opacity: annotation.style.opacity * alphaMultiplier,
+    },
+  ]
+  const note = annotation.geometry.fields.note?.trim()
+  if (note) {
+    primitives.push({
+      kind: 'text',
+      text: note,
+      position: { x: bounds.left + 8, y: bounds.top + fontSize + 6 },
+      style: createTextStyle(fontSize, '#f8fafc', 600),
+      opacity: annotation.style.opacity * alphaMultiplier,
+    })
+  }
+  appendSelectionPrimitives(primitives, annotation, selected, context)
+  return primitives
+}
+
+function buildContinuityMarker(entry: AnnotationRenderEntry, context: AnnotationRenderContext): RenderPrimitive[] {
+  const worldMarker = buildWorldMarker(entry, context)
+  if (worldMarker) {
+    return worldMarker
+  }
+  const annotation = entry.annotation as StampAnnotation
+  const bounds = getAnnotationScreenBounds(annotation, context.projectionHost, context.viewport)
+  if (!bounds) {
+    return []
+  }
+  const { selected, alphaMultiplier = 1 } = entry
+  const color = parseAnnotationColor(annotation.style.stroke)
+  const radius = Math.max(6, Math.min(bounds.width, bounds.height) / 2)
+  const issue = CONTINUITY_ISSUES.find((candidate) => candidate.value === annotation.geometry.fields.issue)
+  const note = annotation.geometry.fields.note?.trim()
+  const primitives: RenderPrimitive[] = [
+    {
+      kind: 'circle',
+      center: { x: bounds.centerX, y: bounds.centerY },
+      radius,
+      fill: { ...color, a: 0.16 },
+      stroke: { color, width: selected ? 3 : 2, dash: [4, 3] },
+      opacity: annotation.style.opacity * alphaMultiplier,
+    },
+    {
+      kind: 'label',
+      text: ['CONT', issue?.label, note].filter(Boolean).join(' · '),
+      position: { x: bounds.centerX + radius + 6, y: bounds.centerY - annotation.style.fontSize },
+      paddingX: 8,
+      paddingY: 5,
+      radius: 6,
+      background: parseAnnotationColor('#020617'),
+      stroke: { color, width: 1.5 },
+      style: createTextStyle(Math.max(11, annotation.style.fontSize - 2), '#f8fafc', 600),
+      opacity: annotation.style.opacity * alphaMultiplier,
+    },
+  ]
+  appendSelectionPrimitives(primitives, annotation, selected, context)
+  return primitives
+}
+
+/**
+ * Studio review stamps: a shot-approval badge and a continuity marker. They live outside
+ * the annotator core and reach it only through registerAnnotationTool.
+ */
+export function registerStudioStamps() {
+  const unregister = [
+    registerAnnotationTool({
+      kind: SHOT_APPROVAL_KIND,
+      label: 'Shot approval',
+      icon: BadgeCheck,
+      spaces: ['image2d'],
+      defaultFields: { status: 'pending', note: '' },
+      editorFields: [
+        {
+          key: 'status',
+          label: 'Status',
+          input: 'select',
+          options: APPROVAL_STATUSES.map(({ value, label }) => ({ value, label })),
+        },
+        { key: 'note', label: 'Note', input: 'text' },
+      ],
+      plugin: {
+        id: 'studio-shot-approval',
+        kinds: [SHOT_APPROVAL_KIND],
+        renderBatch: (entries, context) => entries.flatMap((entry) => buildShotApproval(entry, context)),
+        hitTest: (entry, screenPoint, context) => hitTestBoundsRect(entry, screenPoint, context),
+        // Padding covers the status label above the box.
+        getScreenBounds: (entry, context) => getAnnotationHitBounds(entry, context, entry.annotation.style.fontSize + 20),
+      },
+    }),
+    registerAnnotationTool({
+      kind: CONTINUITY_MARKER_KIND,
+      label: 'Continuity marker',
+      icon: Link2,
+      spaces: ['image2d'],
+      defaultFields: { issue: 'props', note: '' },
+      defaultStyle: { stroke: '#f472b6', fill: 'rgba(244, 114, 182, 0.16)' },
+      editorFields: [
+        {
+          key: 'issue',
+          label: 'Issue',
+          input: 'select',
+          options: CONTINUITY_ISSUES,
+        },
+        { key: 'note', label: 'Note', input: 'textarea' },
+      ],
+      plugin: {
+        id: 'studio-continuity-marker',
+        kinds: [CONTINUITY_MARKER_KIND],
+        renderBatch: (entries, context) => entries.flatMap((entry) => buildContinuityMarker(entry, context)),
+        hitTest: (entry, screenPoint, context) => hitTestBoundsRect(entry, screenPoint, context),
+        getScreenBounds: (entry, context) => getAnnotationHitBounds(entry, context, 12),
+      },
+    }),
+  ]
+
+  return () => unregister.forEach((callback) => callback())
+}
@@ -0,0 +1,16 @@
+declare module 'three/examples/jsm/libs/utif.module.js' {
+  interface UtifIfd {
+    width: number
+    height: number
+    data: Uint8Array
+    isLE: boolean
+    [tag: `t${number}`]: number[] | undefined
+  }
+
+  const UTIF: {
+    decode(buffer: ArrayBuffer): UtifIfd[]
+    decodeImage(buffer: ArrayBuffer, ifd: UtifIfd, ifds?: UtifIfd[]): void
+    toRGBA8(ifd: UtifIfd): Uint8Array
+  }
+  export default UTIF
+}
@@ -6,17 +6,29 @@ interface CompareSliderProps {
   beforeLabel: string;
   afterSrc: string;
   afterLabel: string;
+  /** Annotation overlays (e.g. SVG data URLs) drawn over each side's image. */
+  beforeOverlaySrc?: string;
+  afterOverlaySrc?: string;
 }
 
 /** Two-up wipe comparison: drag the slider to reveal before/after. */
-export function CompareSlider({ beforeSrc, beforeLabel, afterSrc, afterLabel }: CompareSliderProps) {
+export function CompareSlider({
+  beforeSrc,
+  beforeLabel,
+  afterSrc,
+  afterLabel,
+  beforeOverlaySrc,
+  afterOverlaySrc,
+}: CompareSliderProps) {
   const [position, setPosition] = useState(50);
 
   return (
     <div className="compare-wrap">
       <img src={beforeSrc} alt={beforeLabel} draggable={false} />
+      {beforeOverlaySrc && <img className="compare-overlay" src={beforeOverlaySrc} alt="" draggable={false} />}
       <div className="compare-after" style={{ clipPath: `inset(0 0 0 ${position}%)` }}>
         <img src={afterSrc} alt={afterLabel} draggable={false} />
+        {afterOverlaySrc && <img className="compare-overlay" src={afterOverlaySrc} alt="" draggable={false} />}
       </div>
       <div className="compare-divider" style={{ left: `${position}%` }} />
       <Badge className="compare-label left" variant="filled" color="dark" size="xs">
@@ -14,6 +14,44 @@ import type { AssetSummary } from '../../api/library';
 import { useViewerStore } from '../viewer/viewerStore';
 import { CompareSlider } from './CompareSlider';
 import { getIntent } from '../../api/intents';
+import { getAsset } from '../annotator/annotatorApi';
+import { carryOpenNotesForward, loadImageSize, loadVersionAnnotationDoc } from '../annotator/carryForward';
+import { exportAnnotationsToSvg } from '../annotator/core/annotations/svgExchange';
+
+function openNotesLabel(count: number) {
+  return `${count} open note${count === 1 ? '' : 's'}`;
+}
+
+interface VersionAnnotationOverlay {
+  docId: number;
+  /** SVG of the version's notes in its own pixel space, for drawing over its image. */
+  svgUrl: string;
+  derivedFromDocIds: number[];
+}
+
+/** A version's saved notes as an image overlay; the latest version falls back to the asset's doc. */
+async function loadVersionAnnotationOverlay(
+  asset: AssetSummary,
+  version: VersionNode,
+): Promise<VersionAnnotationOverlay | null> {
+  const loaded = await loadVersionAnnotationDoc(asset.id, version.version_number, {
+    fallbackToAssetDoc: version.version_number === asset.latest_version_number,
+  });
+  if (!loaded) return null;
+  const size = loaded.imageSize ?? (await loadImageSize(version.file_path));
+  if (!size) return null;
+  const annotations = loaded.snapshot.annotations.filter((annotation) => !annotation.maskRegion);
+  const svg = exportAnnotationsToSvg({ ...loaded.snapshot, annotations }, size);
+  return {
+    docId: loaded.doc.id,
+    svgUrl: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`,
+    derivedFromDocIds: annotations.flatMap((annotation) => annotation.derivedFrom?.docId ?? []),
+  };
+}
+
+function carriedLabel(from: VersionNode, to: VersionNode, count: number) {
+  return `${count} note${count === 1 ? '' : 's'} on v${to.version_number} carried from v${from.version_number}`;
+}
 
 function IntentBadge({ intentId }: { intentId: string }) {
   const [opened, setOpened] = useState(false);
@@ -102,6 +140,19 @@ export function VersionsSection({
       queryClient.invalidateQueries({ queryKey: ['versions', asset.id] });
       queryClient.invalidateQueries({ queryKey: ['library-search'] });
       onAssetUpdated?.(response.asset);
+      // `asset` is still the pre-upload summary here, so its latest version is the one replaced.
+      const previousVersion = asset.latest_version_number;
+      if (response.created && previousVersion != null && previousVersion !== response.version_number) {
+        const { width, height } = response.asset;
+        const targetSize = width && height ? { width, height } : null;
+        carryOpenNotesForward(asset.id, previousVersion, targetSize)
+          .then(async (carried) => {
+            if (carried === 0) return;
+            queryClient.invalidateQueries({ queryKey: ['library-search'] });
+            onAssetUpdated?.(await getAsset(asset.id));
+          })
+          .catch((error) => console.warn('Failed to carry open notes forward', error));
+      }
     },
   });
 
@@ -109,6 +160,24 @@ export function VersionsSection({
   const picked = pickedIds
     .map((id) => versions.find((v) => v.id === id))
     .filter((v): v is VersionNode => Boolean(v));
+  const comparePair = comparing && picked.length === 2 ? picked : null;
+
+  const beforeOverlay = useQuery({
+    queryKey: ['version-annotations', asset.id, comparePair?.[0].version_number],
+    queryFn: () => loadVersionAnnotationOverlay(asset, comparePair![0]),
+    enabled: Boolean(comparePair),
+  });
+  const afterOverlay = useQuery({
+    queryKey: ['version-annotations', asset.id, comparePair?.[1].version_number],
+    queryFn: () => loadVersionAnnotationOverlay(asset, comparePair![1]),
+    enabled: Boolean(comparePair),
+  });
+  const carriedForward = beforeOverlay.data && afterOverlay.data
+    ? afterOverlay.data.derivedFromDocIds.filter((id) => id === beforeOverlay.data!.docId).length
+    : 0;
+  const carriedBack = beforeOverlay.data && afterOverlay.data
+    ? beforeOverlay.data.derivedFromDocIds.filter((id) => id === afterOverlay.data!.docId).length
+    : 0;
 
   const togglePick = (version: VersionNode) => {
     setPickedIds((ids) => {
@@ -133,6 +202,11 @@ export function VersionsSection({
           Versions
         </Text>
         {history.isFetching && <Loader size={14} />}
+        {(asset.open_notes ?? 0) > 0 && (
+          <Badge size="xs" variant="light" color="orange" tt="none">
+            {openNotesLabel(asset.open_notes ?? 0)}
+          </Badge>
+        )}
         <div style={{ flex: 1 }} />
         {versions.length > 1 && (
           <Tooltip label="Pick two versions to compare">
@@ -173,14 +247,23 @@ export function VersionsSection({
         />
       </Group>
 
-      {comparing && picked.length === 2 && (
+      {comparePair && (
         <CompareSlider
-          beforeSrc={versionImage(picked[0])}
-          beforeLabel={`v${picked[0].version_number}`}
-          afterSrc={versionImage(picked[1])}
-          afterLabel={`v${picked[1].version_number}`}
+          beforeSrc={versionImage(comparePair[0])}
+          beforeLabel={`v${comparePair[0].version_number}`}
+          beforeOverlaySrc={beforeOverlay.data?.svgUrl}
+          afterSrc={versionImage(comparePair[1])}
+          afterLabel={`v${comparePair[1].version_number}`}
+          afterOverlaySrc={afterOverlay.data?.svgUrl}
         />
       )}
+      {comparePair && (carriedForward > 0 || carriedBack > 0) && (
+        <Text size="xs" c="dimmed" mb={6}>
+          {carriedForward > 0
+            ? carriedLabel(comparePair[0], comparePair[1], carriedForward)
+            : carriedLabel(comparePair[1], comparePair[0], carriedBack)}
+        </Text>
+      )}
       {comparing && picked.length < 2 && (
         <Text size="xs" c="dimmed" mb={6}>
           Select {2 - picked.length} more version{picked.length === 1 ? '' : 's'} below.
@@ -217,6 +300,11 @@ export function VersionsSection({
                       </Badge>
                     ))}
                     {version.intentId && <IntentBadge intentId={version.intentId} />}
+                    {(asset.open_notes_by_version?.[version.version_number] ?? 0) > 0 && (
+                      <Badge size="xs" variant="light" color="orange" tt="none">
+                        {openNotesLabel(asset.open_notes_by_version?.[version.version_number] ?? 0)}
+                      </Badge>
+                    )}
                   </Group>
                   <Text size="xs" c="dimmed" mt={2}>
                     {new Date(version.created_at).toLocaleString()}
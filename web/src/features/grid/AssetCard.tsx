@@ -70,6 +70,11 @@ export function AssetCard({ asset, left, top, width, height, onOpen }: AssetCard
           onLoad={() => setLoaded(true)}
         />
       )}
+      {(asset.open_notes ?? 0) > 0 && (
+        <div className="card-notes">
+          {asset.open_notes} open note{asset.open_notes === 1 ? '' : 's'}
+        </div>
+      )}
       <div className="card-overlay">
         <div className="card-actions">
           <ActionIcon
@@ -24,6 +24,7 @@ interface AssetViewerProps {
  */
 export function AssetViewer({ asset, version }: AssetViewerProps) {
   const src = version?.file_path ?? asset.file_path
+  const tileSource = version ? version.tile_source ?? null : asset.tile_source
   const [adapter, setAdapter] = useState<ViewerAdapter | null>(null)
   const [annotations, setAnnotations] = useState<AnnotationEntity[]>([])
   const [showAnnotations, setShowAnnotations] = useState(true)
@@ -33,7 +34,7 @@ export function AssetViewer({ asset, version }: AssetViewerProps) {
   // adapter stays mounted until the next resolves (no flash of empty surface).
   useEffect(() => {
     let cancelled = false
-    createAssetViewerAdapter({ asset, src, label: asset.name }).then(({ adapter: next }) => {
+    createAssetViewerAdapter({ asset, src, tileSource, label: asset.name }).then(({ adapter: next }) => {
       if (!cancelled) {
         setAdapter(next)
       }
@@ -41,7 +42,7 @@ export function AssetViewer({ asset, version }: AssetViewerProps) {
     return () => {
       cancelled = true
     }
-  }, [asset, src])
+  }, [asset, src, tileSource])
 
   // Annotations bind to the asset (not a version), so load them per asset. Stale
   // annotations from a previous asset are filtered out by ViewerSurface (targetId).
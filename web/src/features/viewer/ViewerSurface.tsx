@@ -1,3 +1,4 @@
+import { Info } from 'lucide-react'
 import {
   useEffect,
   useMemo,
@@ -14,6 +15,7 @@ import { renderPrimitiveBatchesToCanvas } from '../annotator/core/rendering/canv
 import { isAnnotationVisibleAtPlaybackTime } from '../annotator/core/annotations/timeline'
 import { useElementSize } from '../annotator/hooks/useElementSize'
 import { VideoTransport } from '../annotator/components/VideoTransport'
+import { getViewerToolbarActionIcon } from '../annotator/components/viewerToolbarConfig'
 import '../annotator/annotator.css'
 import './viewer.css'
 
@@ -61,6 +63,7 @@ export function ViewerSurface({ adapter, annotations = [], showAnnotations = tru
   const navigationRef = useRef<{ pointerId: number; lastPoint: Vec2 } | null>(null)
   const surfaceControllerRef = useRef<{ resize: (viewport: ViewportSize) => void } | null>(null)
   const [adapterVersion, setAdapterVersion] = useState(0)
+  const [showDiagnostics, setShowDiagnostics] = useState(false)
   const size = useElementSize(surfaceRef)
 
   const viewport = useMemo<ViewportSize>(
@@ -78,6 +81,12 @@ export function ViewerSurface({ adapter, annotations = [], showAnnotations = tru
     return adapter.getLoadState?.() ?? null
   }, [adapter, adapterVersion])
   const isViewerReady = !loadState || loadState.status === 'ready'
+  // Display modes (channels, false color, inspector…) stay available without authoring tools.
+  const viewerActions = useMemo(() => {
+    void adapterVersion
+    return adapter.getActions?.() ?? []
+  }, [adapter, adapterVersion])
+  const diagnostics = adapter.getDiagnostics?.() ?? []
 
   const visibleAnnotations = useMemo(
     () => {
@@ -232,13 +241,14 @@ export function ViewerSurface({ adapter, annotations = [], showAnnotations = tru
   }
 
   function handlePointerMove(event: ReactPointerEvent<HTMLCanvasElement>) {
-    if (navigationRef.current?.pointerId !== event.pointerId) {
-      return
-    }
     const screenPoint = pointerToLocal(event)
     if (!screenPoint) {
       return
     }
+    adapter.updatePointer?.(screenPoint, viewport)
+    if (navigationRef.current?.pointerId !== event.pointerId) {
+      return
+    }
     const delta = {
       x: screenPoint.x - navigationRef.current.lastPoint.x,
       y: screenPoint.y - navigationRef.current.lastPoint.y,
@@ -297,7 +307,50 @@ export function ViewerSurface({ adapter, annotations = [], showAnnotations = tru
           onPointerMove={handlePointerMove}
           onPointerUp={handlePointerUp}
           onPointerCancel={handlePointerUp}
+          onPointerLeave={() => adapter.updatePointer?.(null, viewport)}
         />
+        {viewerActions.length > 0 || diagnostics.length > 0 ? (
+          <div className="viewer-only__actions" role="toolbar" aria-label="Viewer display">
+            {viewerActions.map((action) => {
+              const Icon = getViewerToolbarActionIcon(action.id)
+              return (
+                <button
+                  key={action.id}
+                  type="button"
+                  className={`viewer-only__action${action.active ? ' viewer-only__action--active' : ''}`}
+                  title={action.label}
+                  aria-label={action.label}
+                  aria-pressed={action.active}
+                  onClick={() => action.onSelect(viewport)}
+                >
+                  {Icon ? <Icon size={15} /> : action.label}
+                </button>
+              )
+            })}
+            {diagnostics.length > 0 ? (
+              <button
+                type="button"
+                className={`viewer-only__action${showDiagnostics ? ' viewer-only__action--active' : ''}`}
+                title={showDiagnostics ? 'Hide details' : 'Show details'}
+                aria-label={showDiagnostics ? 'Hide details' : 'Show details'}
+                aria-pressed={showDiagnostics}
+                onClick={() => setShowDiagnostics((shown) => !shown)}
+              >
+                <Info size={15} />
+              </button>
+            ) : null}
+          </div>
+        ) : null}
+        {showDiagnostics && diagnostics.length > 0 ? (
+          <dl className="viewer-only__diagnostics">
+            {diagnostics.map((item) => (
+              <div key={item.label} className="viewer-only__diagnostic">
+                <dt>{item.label}</dt>
+                <dd>{item.value}</dd>
+              </div>
+            ))}
+          </dl>
+        ) : null}
       </div>
       {videoAdapter ? <VideoTransport adapter={videoAdapter} /> : null}
     </div>
@@ -2,6 +2,7 @@ import { assetIs3DModel, assetIsVideo, type AssetSummary } from '../../api/libra
 import type { ViewerAdapter } from '../annotator/core/viewers/adapters'
 import { createTiledImageViewerAdapter } from '../annotator/core/viewers/tiledImageAdapter'
 import { createVideoViewerAdapter } from '../annotator/core/viewers/videoAdapter'
+import type { TileSourceDescriptor } from '../annotator/core/viewers/tileSources'
 
 export type AssetMediaKind = 'image' | 'video' | 'model'
 
@@ -16,6 +17,8 @@ export interface CreateAssetAdapterOptions {
   asset: AssetSummary
   /** Override the media source, e.g. a specific version's file_path. */
   src?: string
+  /** Tile pyramid for `src`; defaults to the asset's own when `src` is not overridden. */
+  tileSource?: TileSourceDescriptor | null
   /** Annotation binding id; defaults to `asset-<id>` so docs round-trip per asset. */
   targetId?: string
   label?: string
@@ -30,6 +33,7 @@ export interface CreateAssetAdapterOptions {
 export async function createAssetViewerAdapter({
   asset,
   src,
+  tileSource,
   targetId,
   label,
 }: CreateAssetAdapterOptions): Promise<{ adapter: ViewerAdapter; kind: AssetMediaKind }> {
@@ -69,6 +73,7 @@ export async function createAssetViewerAdapter({
       targetId: resolvedTarget,
       width: asset.width ?? undefined,
       height: asset.height ?? undefined,
+      tileSource: (tileSource === undefined && src === undefined ? asset.tile_source : tileSource) ?? undefined,
     }),
   }
 }